@@ -0,0 +1,4 @@
+// Tests run in English, whatever the machine's locale
+jest.mock('expo-localization', () => ({
+  getLocales: () => [{ languageTag: 'en-US', languageCode: 'en' }],
+}));
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Text, TextProps } from 'react-native';
+import { ThemeColors } from '../theme/themes';
+import { TypographyVariant } from '../theme/typography';
+import { useTheme } from '../theme/ThemeProvider';
+
+// Types
+interface AppTextProps extends TextProps {
+  variant?: TypographyVariant;
+  color?: keyof ThemeColors;
+}
+
+// App Text Component
+// Text set in one of the TYPOGRAPHY styles, already sized for the device's text size setting.
+// Font sizes passed through `style` are not scaled, so use a variant for anything people need to read.
+const AppText: React.FC<AppTextProps> = ({
+  variant = 'body',
+  color = 'textPrimary',
+  style,
+  ...props
+}) => {
+  const { colors, typography } = useTheme();
+
+  return (
+    <Text
+      {...props}
+      // The variant is scaled and capped already; letting the OS scale it again would skip the caps
+      allowFontScaling={false}
+      style={[typography[variant], { color: colors[color] }, style]}
+    />
+  );
+};
+
+export default AppText;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { useCurrentUser } from '../store/SessionProvider';
+import { AccessDenial, Feature, getAccessDenial } from '../utils/access';
+
+// Types
+interface FeatureGateProps {
+  feature: Feature;
+  children: React.ReactNode;
+  // Rendered instead of the children when the user can't use the feature; nothing is rendered without it
+  fallback?: (denial: AccessDenial) => React.ReactNode;
+}
+
+// Feature Gate Component
+// Re-renders with the session, so verifying or upgrading unlocks the children in place
+const FeatureGate: React.FC<FeatureGateProps> = ({ feature, children, fallback }) => {
+  const user = useCurrentUser();
+  const denial = getAccessDenial(user, feature);
+
+  if (!denial) return <>{children}</>;
+  return <>{fallback?.(denial) ?? null}</>;
+};
+
+export default FeatureGate;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TextInput,
+} from 'react-native';
+import AppText from './AppText';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+
+// Types
+interface FormInputProps {
+  label: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  placeholder?: string;
+  secureTextEntry?: boolean;
+  keyboardType?: 'default' | 'email-address' | 'number-pad';
+  autoCapitalize?: 'none' | 'words' | 'sentences';
+  maxLength?: number;
+  error?: string;
+  required?: boolean;
+  accentColor?: string;
+}
+
+// Form Input Component
+const FormInput: React.FC<FormInputProps> = ({
+  label,
+  value,
+  onChangeText,
+  placeholder,
+  secureTextEntry = false,
+  keyboardType = 'default',
+  autoCapitalize = 'none',
+  maxLength,
+  error,
+  required = false,
+  accentColor,
+}) => {
+  const { colors } = useTheme();
+  const accent = accentColor ?? colors.primary;
+  const styles = useThemedStyles(createStyles);
+  const [isFocused, setIsFocused] = useState(false);
+
+  return (
+    <View style={styles.inputContainer}>
+      <AppText variant="bodyMedium" style={styles.inputLabel}>
+        {label}
+        {required && <AppText variant="bodyMedium" color="error"> *</AppText>}
+      </AppText>
+      <TextInput
+        style={[
+          styles.textInput,
+          isFocused && { borderColor: accent },
+          !!error && styles.textInputError,
+        ]}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        placeholderTextColor={colors.textTertiary}
+        secureTextEntry={secureTextEntry}
+        keyboardType={keyboardType}
+        autoCapitalize={autoCapitalize}
+        autoCorrect={false}
+        // Sized from the body style, which is already scaled for the device's text size
+        allowFontScaling={false}
+        maxLength={maxLength}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        accessible={true}
+        accessibilityLabel={label}
+        accessibilityRequired={required}
+      />
+      {error && (
+        <AppText variant="caption" color="error" style={styles.errorText} accessible={true} accessibilityRole="alert">
+          {error}
+        </AppText>
+      )}
+    </View>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  inputContainer: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: colors.surface,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    fontSize: typography.body.fontSize,
+    color: colors.textPrimary,
+  },
+  textInputError: {
+    borderColor: colors.error,
+  },
+  errorText: {
+    marginTop: 4,
+  },
+});
+
+export default FormInput;
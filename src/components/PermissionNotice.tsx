@@ -0,0 +1,93 @@
+import React from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { AppPermission } from '../services/permissions';
+import { t } from '../i18n';
+import { usePermission } from '../hooks/usePermission';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import AppText from './AppText';
+
+// Types
+interface PermissionNoticeProps {
+  permission: AppPermission;
+  // What still works without the permission, e.g. "You'll see who's going, but not who's nearby."
+  message: string;
+}
+
+// Permission Notice Component
+// Lets a screen carry on without a permission, saying what's limited and how to turn it on. Renders nothing once granted.
+const PermissionNotice: React.FC<PermissionNoticeProps> = ({ permission, message }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { state, request, openSettings } = usePermission(permission);
+
+  if (state === null || state === 'granted') return null;
+
+  const isBlocked = state === 'blocked';
+  const name = t(`permissions.${permission}.title`);
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="information-circle" size={20} color={colors.warning} />
+      <View style={styles.content}>
+        <AppText style={styles.title}>{t('permissionNotice.off', { name })}</AppText>
+        <AppText style={styles.message}>{message}</AppText>
+        <TouchableOpacity
+          onPress={() => {
+            (isBlocked ? openSettings() : request()).catch((error) => {
+              console.error(`Failed to turn on ${permission}:`, error);
+            });
+          }}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t(
+            isBlocked ? 'permissionNotice.openSettingsLabel' : 'permissionNotice.turnOnLabel',
+            { name }
+          )}
+        >
+          <AppText style={styles.action}>
+            {isBlocked ? t('permissionNotice.openSettings') : t('permissionNotice.turnOn', { name })}
+          </AppText>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 4,
+  },
+  message: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  action: {
+    ...typography.caption,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
+
+export default PermissionNotice;
@@ -0,0 +1,151 @@
+import React from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { AuthUser } from '../types/navigation';
+import {
+  getDaysUntilExpiry,
+  getEffectiveVerificationStatus,
+  isVerificationExpiringSoon,
+} from '../utils/verificationLifecycle';
+import { t } from '../i18n';
+import { Theme, ThemeColors } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import AppText from './AppText';
+
+// Types
+interface VerificationStatusBannerProps {
+  user: AuthUser;
+  onPress?: () => void;
+}
+
+type BannerKind = 'in_review' | 'needs_info' | 'expiring' | 'expired' | 'revoked';
+
+// Constants
+const BANNERS: Record<BannerKind, {
+  icon: keyof typeof Ionicons.glyphMap;
+  color: keyof ThemeColors;
+  title: string;
+  description: string;
+}> = {
+  in_review: {
+    icon: 'time',
+    color: 'info',
+    title: t('verificationBanner.in_review.title'),
+    description: t('verificationBanner.in_review.description'),
+  },
+  needs_info: {
+    icon: 'alert-circle',
+    color: 'warning',
+    title: t('verificationBanner.needs_info.title'),
+    description: t('verificationBanner.needs_info.description'),
+  },
+  expiring: {
+    icon: 'hourglass',
+    color: 'warning',
+    title: t('verificationBanner.expiring.title'),
+    description: t('verificationBanner.expiring.description'),
+  },
+  expired: {
+    icon: 'refresh-circle',
+    color: 'warning',
+    title: t('verificationBanner.expired.title'),
+    description: t('verificationBanner.expired.description'),
+  },
+  revoked: {
+    icon: 'close-circle',
+    color: 'error',
+    title: t('verificationBanner.revoked.title'),
+    description: t('verificationBanner.revoked.description'),
+  },
+};
+
+const getBannerKind = (user: AuthUser): BannerKind | null => {
+  const status = getEffectiveVerificationStatus(user);
+  if (status === 'in_review' || status === 'needs_info' || status === 'expired' || status === 'revoked') {
+    return status;
+  }
+  return isVerificationExpiringSoon(user) ? 'expiring' : null;
+};
+
+// Verification Status Banner Component
+// Shown on every main screen while a reviewer's decision is outstanding or the user's verification has lapsed
+const VerificationStatusBanner: React.FC<VerificationStatusBannerProps> = ({ user, onPress }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const kind = getBannerKind(user);
+  if (!kind) return null;
+
+  const banner = BANNERS[kind];
+  const bannerColor = colors[banner.color];
+  const daysLeft = getDaysUntilExpiry(user);
+  const description = kind === 'expiring' && daysLeft !== undefined
+    ? t('verificationBanner.expiresIn', { count: daysLeft, description: banner.description })
+    : banner.description;
+  const content = (
+    <>
+      <Ionicons name={banner.icon} size={22} color={bannerColor} />
+      <View style={styles.content}>
+        <AppText style={styles.title}>{banner.title}</AppText>
+        <AppText style={styles.description}>{description}</AppText>
+      </View>
+      {onPress && <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />}
+    </>
+  );
+
+  const bannerStyle = [
+    styles.banner,
+    { backgroundColor: `${bannerColor}15`, borderColor: `${bannerColor}60` },
+  ];
+
+  if (!onPress) {
+    return (
+      <View style={bannerStyle} accessible={true} accessibilityRole="summary">
+        {content}
+      </View>
+    );
+  }
+
+  return (
+    <TouchableOpacity
+      style={bannerStyle}
+      onPress={onPress}
+      accessible={true}
+      accessibilityRole="button"
+      accessibilityLabel={`${banner.title}. ${description}`}
+    >
+      {content}
+    </TouchableOpacity>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 4,
+  },
+  description: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+});
+
+export default VerificationStatusBanner;
@@ -0,0 +1,47 @@
+// NYTHC Permission Hook
+// Current state of one device permission for screens that work without it, re-checked when the app returns
+// to the foreground because the user may have changed it in Settings.
+
+import { useCallback, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import {
+  AppPermission,
+  PermissionState,
+  getPermissionState,
+  openPermissionSettings,
+  requestPermission,
+} from '../services/permissions';
+
+export const usePermission = (permission: AppPermission) => {
+  // null until the first check finishes
+  const [state, setState] = useState<PermissionState | null>(null);
+
+  const refresh = useCallback(() => {
+    getPermissionState(permission)
+      .then(setState)
+      .catch((error) => {
+        console.error(`Failed to check ${permission} permission:`, error);
+      });
+  }, [permission]);
+
+  useEffect(() => {
+    refresh();
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState === 'active') refresh();
+    });
+    return () => subscription.remove();
+  }, [refresh]);
+
+  const request = useCallback(async () => {
+    const next = await requestPermission(permission);
+    setState(next);
+    return next;
+  }, [permission]);
+
+  return {
+    state,
+    isGranted: state === 'granted',
+    request,
+    openSettings: openPermissionSettings,
+  };
+};
@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+// Copy the user reads or hears has to come from the catalogs, so every language gets it. This flags text written
+// straight into JSX, literals passed to alerts, screen reader announcements and props that are shown or read out, and
+// screens showing an error's message, which the server writes in English; they map its code to catalog copy instead.
+
+// Constants
+const SOURCE_ROOT = path.join(__dirname, '..', '..');
+
+// The catalogs themselves, and tests, which assert on the English copy
+const IGNORED_PATHS = [path.join(SOURCE_ROOT, 'i18n'), '__tests__'];
+
+// Where code runs in front of the user
+const UI_PATHS = [path.join(SOURCE_ROOT, 'screens'), path.join(SOURCE_ROOT, 'components')];
+
+// Props that are shown or read out as they are
+const COPY_PROPS = [
+  'accessibilityLabel',
+  'accessibilityHint',
+  'placeholder',
+  'label',
+  'title',
+  'message',
+  'description',
+];
+
+// Helpers
+const listSourceFiles = (directory: string): string[] =>
+  fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(directory, entry.name);
+    if (IGNORED_PATHS.some(ignored => fullPath.startsWith(ignored) || entry.name === ignored)) return [];
+    if (entry.isDirectory()) return listSourceFiles(fullPath);
+    return /\.tsx?$/.test(entry.name) ? [fullPath] : [];
+  });
+
+const hasWords = (text: string) => /[A-Za-z]{2,}/.test(text);
+
+// The literals an expression can evaluate to, looking through conditionals, fallbacks and parentheses
+const collectLiterals = (node: ts.Node): ts.Node[] => {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return hasWords(node.text) ? [node] : [];
+  if (ts.isTemplateExpression(node)) {
+    const parts = [node.head.text, ...node.templateSpans.map(span => span.literal.text)];
+    return parts.some(hasWords) ? [node] : [];
+  }
+  if (ts.isParenthesizedExpression(node)) return collectLiterals(node.expression);
+  if (ts.isConditionalExpression(node)) return [...collectLiterals(node.whenTrue), ...collectLiterals(node.whenFalse)];
+  if (ts.isBinaryExpression(node)) {
+    const operator = node.operatorToken.kind;
+    if (operator === ts.SyntaxKind.AmpersandAmpersandToken) return collectLiterals(node.right);
+    if (operator === ts.SyntaxKind.BarBarToken || operator === ts.SyntaxKind.QuestionQuestionToken) {
+      return [...collectLiterals(node.left), ...collectLiterals(node.right)];
+    }
+  }
+  return [];
+};
+
+const getCalleeName = (call: ts.CallExpression) =>
+  ts.isPropertyAccessExpression(call.expression) ? call.expression.name.text : undefined;
+
+// Alert buttons carry their own labels
+const collectAlertLiterals = (node: ts.Node): ts.Node[] => {
+  if (ts.isArrayLiteralExpression(node)) return node.elements.flatMap(collectAlertLiterals);
+  if (ts.isObjectLiteralExpression(node)) {
+    return node.properties.flatMap(property =>
+      ts.isPropertyAssignment(property) && property.name.getText() === 'text'
+        ? collectLiterals(property.initializer)
+        : []
+    );
+  }
+  return collectLiterals(node);
+};
+
+const isErrorMessage = (node: ts.PropertyAccessExpression) =>
+  node.name.text === 'message' && ts.isIdentifier(node.expression) && /error$/i.test(node.expression.text);
+
+const findHardcodedCopy = (filePath: string): string[] => {
+  const source = ts.createSourceFile(filePath, fs.readFileSync(filePath, 'utf8'), ts.ScriptTarget.Latest, true);
+  const isUi = UI_PATHS.some(uiPath => filePath.startsWith(uiPath));
+  const found: ts.Node[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxText(node) && hasWords(node.text)) {
+      found.push(node);
+    } else if (ts.isJsxExpression(node) && node.expression && !ts.isJsxAttribute(node.parent)) {
+      found.push(...collectLiterals(node.expression));
+    } else if (ts.isJsxAttribute(node) && COPY_PROPS.includes(node.name.getText()) && node.initializer) {
+      const value = ts.isJsxExpression(node.initializer) ? node.initializer.expression : node.initializer;
+      if (value) found.push(...collectLiterals(value));
+    } else if (isUi && ts.isPropertyAccessExpression(node) && isErrorMessage(node)) {
+      found.push(node);
+    } else if (ts.isCallExpression(node)) {
+      const callee = getCalleeName(node);
+      if (callee === 'alert') found.push(...node.arguments.flatMap(collectAlertLiterals));
+      if (callee === 'announceForAccessibility') found.push(...node.arguments.flatMap(collectLiterals));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return found.map((node) => {
+    const { line } = source.getLineAndCharacterOfPosition(node.getStart(source));
+    return `${path.relative(SOURCE_ROOT, filePath)}:${line + 1} ${node.getText(source).trim()}`;
+  });
+};
+
+describe('user-facing copy', () => {
+  it('comes from the message catalogs', () => {
+    expect(listSourceFiles(SOURCE_ROOT).flatMap(findHardcodedCopy)).toEqual([]);
+  });
+});
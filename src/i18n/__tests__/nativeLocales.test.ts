@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// The permission prompts iOS shows come from the native locale files, not the catalogs, so check them here
+
+// Constants
+const PROJECT_ROOT = path.join(__dirname, '..', '..', '..');
+
+// Helpers
+const readJson = (file: string) => JSON.parse(fs.readFileSync(path.join(PROJECT_ROOT, file), 'utf8'));
+
+const { expo } = readJson('app.json');
+const locales: Record<string, string> = expo.locales;
+
+describe('native locale files', () => {
+  it('cover every catalog language', () => {
+    expect(Object.keys(locales).sort()).toEqual(['en', 'es']);
+  });
+
+  it.each(Object.keys(locales))('%s has every iOS string the English file has', (language) => {
+    const english = readJson(locales.en).ios;
+    const translated = readJson(locales[language]).ios;
+
+    expect(Object.keys(translated).sort()).toEqual(Object.keys(english).sort());
+    Object.values(translated).forEach(value => expect(value).toEqual(expect.stringMatching(/\S/)));
+  });
+
+  it('match the permission text given to the plugins', () => {
+    const english = readJson(locales.en).ios;
+    const pluginOptions = Object.assign(
+      {},
+      ...expo.plugins.filter(Array.isArray).map(([, options]: [string, Record<string, string>]) => options)
+    );
+
+    expect(english.NSLocationWhenInUseUsageDescription).toBe(pluginOptions.locationWhenInUsePermission);
+    expect(english.NSCameraUsageDescription).toBe(pluginOptions.cameraPermission);
+    expect(english.NSContactsUsageDescription).toBe(pluginOptions.contactsPermission);
+  });
+});
@@ -0,0 +1,996 @@
+// NYTHC English Messages
+// The source catalog: every other language must provide each of these messages.
+// Placeholders like {name} are filled in by `t`; plural messages are chosen by {count}.
+
+export const en = {
+  common: {
+    connecting: 'Connecting...',
+    schoolShortName: 'NSU',
+    pleaseWait: 'Please wait...',
+    cancel: 'Cancel',
+    ok: 'OK',
+    goingBack: 'Going back',
+    networkError: 'Unable to connect. Please check your internet connection and try again.',
+    genericError: 'Something went wrong. Please try again.',
+    goBack: 'Go back',
+    and: 'and',
+    classOf: 'Class of {classYear}',
+    degree: 'Degree',
+    goBackHome: 'Go back to home',
+  },
+
+  validation: {
+    emailRequired: 'Email is required',
+    emailInvalid: 'Please enter a valid email',
+    passwordRequired: 'Password is required',
+    passwordTooShort: 'Password must be at least {min} characters',
+    passwordTooWeak: 'Password must contain uppercase, lowercase, and number',
+    codeRequired: 'Enter the code we emailed you',
+    codeLength: 'The code is {length} digits',
+    firstNameRequired: 'First name is required',
+    lastNameRequired: 'Last name is required',
+    passwordsDoNotMatch: 'Passwords do not match',
+    campusEmailDomain: 'Use your NSU email (@{domain})',
+    graduationYearRequired: 'Graduation year is required',
+    expectedGraduationYearRequired: 'Expected graduation year is required',
+    yearOutOfRange: 'Enter a year between {min} and {max}',
+    documentRequired: 'Attach a document to continue',
+    documentType: 'Upload a PDF or a photo (JPEG, PNG or HEIC)',
+    documentTooLarge: 'Files must be smaller than {size} MB',
+  },
+
+  fields: {
+    firstName: {
+      label: 'First Name',
+      placeholder: 'Enter first name',
+    },
+    lastName: {
+      label: 'Last Name',
+      placeholder: 'Enter last name',
+    },
+    email: {
+      label: 'Email Address',
+      placeholder: 'Enter your email',
+    },
+    password: {
+      label: 'Password',
+      placeholder: 'Enter your password',
+    },
+    confirmPassword: {
+      label: 'Confirm Password',
+      placeholder: 'Confirm your password',
+    },
+    verificationCode: {
+      label: 'Verification Code',
+    },
+  },
+
+  splash: {
+    loading: 'NYTHC App Loading. Not Your Typical Homecoming.',
+  },
+
+  welcome: {
+    slides: {
+      events: {
+        title: 'Your Homecoming Schedule',
+        description: 'Discover exclusive events, from alumni mixers to student showcases. Filter by your interests and never miss a moment.',
+      },
+      community: {
+        title: 'Verified Spartan Community',
+        description: 'Connect with fellow graduates through secure, LinkedIn-verified chat rooms and networking events.',
+      },
+      digital: {
+        title: 'Seamless Mobile Experience',
+        description: 'Digital tickets, secure payments, and real-time updates - everything you need in your pocket.',
+      },
+      local: {
+        title: 'Navigate Like a Local',
+        description: 'Campus maps, parking availability, restaurant recommendations, and venue policies at your fingertips.',
+      },
+    },
+    slideLabel: 'Slide {index} of {total}',
+    slideSelected: 'Slide {index} selected',
+    starting: 'Starting NYTHC setup',
+    skipping: 'Skipping welcome tour',
+    title: 'Welcome to {name}',
+    carouselLabel: 'Feature carousel',
+    skip: 'Skip',
+    skipLabel: 'Skip welcome tour',
+    getStarted: 'Get Started',
+    getStartedLabel: 'Get started with {name}',
+    mockups: {
+      eventMonth: 'OCT',
+      eventTitle: 'Alumni Welcome Mixer',
+      eventDetails: '7:00 PM • Student Center',
+      eventBadge: 'Alumni Only',
+      chatName: 'Class of 2015 Alumni',
+      chatMessage: 'Looking forward to seeing everyone at the mixer!',
+      ticketTitle: 'Homecoming Game',
+      qrCode: 'QR',
+      mapLabel: 'Student Center',
+    },
+  },
+
+  roles: {
+    alumni: {
+      title: 'Norfolk State Alumni',
+      badge: 'Verified Required',
+      description: 'Access exclusive alumni events, verified networking, and premium homecoming experiences. LinkedIn verification required.',
+      features: {
+        events: 'Alumni-only events and mixers',
+        chat: 'Verified community chat rooms',
+        ticketing: 'Priority event ticketing',
+        networking: 'Networking opportunities',
+      },
+    },
+    student: {
+      title: 'Current Student',
+      badge: 'NSU Email Required',
+      description: 'Connect with fellow Spartans, join student activities, and enjoy special student pricing on events and merchandise. NSU email verification required.',
+      features: {
+        events: 'Student-specific events',
+        groups: 'Campus activity groups',
+        pricing: 'Student pricing discounts',
+        classYear: 'Class year connections',
+      },
+    },
+    guest: {
+      title: 'Guest & Visitor',
+      badge: 'Welcome',
+      description: 'Explore public homecoming events, local guides, and discover what makes Norfolk State special. Upgrade anytime.',
+      features: {
+        publicEvents: 'Public event access',
+        guides: 'Local guides and maps',
+        info: 'General information',
+        upgrade: 'Upgrade to verified roles',
+      },
+    },
+    moreFeatures: {
+      one: '+{count} more feature',
+      other: '+{count} more features',
+    },
+    selected: '{role} selected',
+    selectLabel: 'Select {role}. {description}',
+    continuingAs: 'Continuing as {role}',
+    goingBack: 'Going back to welcome screen',
+    title: 'Choose Your Role',
+    subtitle: 'Select your relationship to Norfolk State University',
+    optionsLabel: 'Role selection options',
+    continue: 'Continue',
+    continueAsLabel: 'Continue as {role}',
+    selectToContinueLabel: 'Select a role to continue',
+  },
+
+  auth: {
+    roles: {
+      alumni: {
+        title: 'Welcome Back, Spartan',
+        subtitle: 'Access your exclusive alumni experience',
+        notice: 'LinkedIn verification will be required after sign-up',
+        buttonText: 'Continue as Alumni',
+      },
+      student: {
+        title: 'Hey there, Spartan!',
+        subtitle: 'Join your fellow Norfolk State students',
+        notice: 'You will confirm your NSU email after sign-up to unlock student pricing',
+        buttonText: 'Continue as Student',
+      },
+      guest: {
+        title: 'Welcome to NYTHC',
+        subtitle: 'Explore Norfolk State homecoming',
+        notice: 'Upgrade to Alumni or Student for exclusive features',
+        buttonText: 'Continue as Guest',
+      },
+    },
+    errors: {
+      failed: 'Authentication failed. Please try again.',
+      invalidCredentials: 'Incorrect email or password',
+      emailTaken: 'An account with this email already exists. Try signing in instead.',
+      lockedFor: {
+        one: 'Too many failed attempts. Your account is locked, please try again in {count} minute.',
+        other: 'Too many failed attempts. Your account is locked, please try again in {count} minutes.',
+      },
+      locked: 'Too many failed attempts. Your account is temporarily locked.',
+      weakPassword: 'Please choose a stronger password',
+      providerError: 'We could not confirm your identity with that provider. Please try again.',
+      providerEmailUnverified: 'An account already uses this email. Sign in with your password to link it.',
+    },
+    social: {
+      continueWith: 'Continue with {provider}',
+      cancelled: '{provider} sign in cancelled',
+      linked: 'Signed in. Your {provider} account is now linked to your NYTHC account',
+      signedIn: 'Signed in with {provider}',
+    },
+    switchedToSignIn: 'Switched to sign in mode',
+    switchedToSignUp: 'Switched to sign up mode',
+    signedIn: 'Signed in successfully',
+    accountCreated: 'Account created successfully',
+    openingPasswordReset: 'Opening password reset',
+    goingBack: 'Going back to role selection',
+    roleBadges: {
+      alumni: 'Alumni',
+      student: 'Student',
+      guest: 'Guest',
+    },
+    modes: {
+      signin: 'Sign In',
+      signup: 'Sign Up',
+    },
+    or: 'or',
+    backLabel: 'Go back to role selection',
+    forgotPassword: 'Forgot your password?',
+    forgotPasswordLabel: 'Forgot your password? Reset it by email',
+  },
+
+  passwordReset: {
+    steps: {
+      request: {
+        title: 'Reset Your Password',
+        subtitle: "Enter your account email and we'll send you a {length}-digit reset code",
+        buttonText: 'Send Reset Code',
+      },
+      code: {
+        title: 'Check Your Email',
+        subtitle: 'Enter the code we sent, or tap the link in the email to continue',
+        buttonText: 'Verify Code',
+      },
+      password: {
+        title: 'Choose a New Password',
+        subtitle: 'Use at least {min} characters with uppercase, lowercase, and a number',
+        buttonText: 'Update Password',
+      },
+      done: {
+        title: 'Password Updated',
+        subtitle: 'You can now sign in with your new password',
+        buttonText: 'Back to Sign In',
+      },
+    },
+    errors: {
+      invalidCode: 'That code is incorrect',
+      codeExpired: 'This code or link has expired. Please request a new one.',
+      rateLimited: 'Please wait a moment before requesting another code.',
+      weakPassword: 'Please choose a stronger password',
+    },
+    codeResent: 'A new code has been sent',
+    goingBack: 'Going back to sign in',
+    fields: {
+      code: 'Reset Code',
+      newPassword: 'New Password',
+      newPasswordPlaceholder: 'Enter a new password',
+      confirmPassword: 'Confirm New Password',
+      confirmPasswordPlaceholder: 'Confirm your new password',
+    },
+    codeSentTo: 'Code sent to {email}',
+    resendCode: 'Didn\'t get it? Resend code',
+    changeEmail: 'Use a different email',
+    backLabel: 'Go back to sign in',
+  },
+
+  // Shared by the email and student verification screens
+  verification: {
+    codeSent: 'Verification code sent to {email}',
+    resendRateLimited: {
+      one: 'Please wait {count} second before requesting another code.',
+      other: 'Please wait {count} seconds before requesting another code.',
+    },
+    sendFailed: 'We could not send a code right now. Please try again.',
+    incorrectCode: {
+      one: 'That code is incorrect. {count} attempt left.',
+      other: 'That code is incorrect. {count} attempts left.',
+    },
+    tooManyAttempts: 'Too many incorrect attempts. Please request a new code.',
+    codeExpired: 'This code has expired. Please request a new one.',
+    failed: 'Verification failed. Please try again.',
+    skip: {
+      title: 'Verify Later?',
+      action: 'Verify Later',
+    },
+    methods: {
+      linkedin: 'LinkedIn education',
+      email_domain: 'NSU email address',
+      manual_review: 'Document review',
+      vouching: 'Vouched for by verified alumni',
+    },
+    events: {
+      vouches_requested: 'Asked the Class of {classYear} to vouch',
+      vouch_received: 'Vouched for by {name}',
+    },
+    statuses: {
+      pending: 'Not verified',
+      in_review: 'In review',
+      needs_info: 'More information needed',
+      verified: 'Verified',
+      failed: 'Not confirmed',
+      expired: 'Expired',
+      revoked: 'Revoked',
+    },
+    sendingCode: 'Sending code...',
+    resendCode: 'Resend code',
+    resendCodeIn: 'Resend code in {seconds}s',
+    verifying: 'Verifying...',
+    verifyLater: 'I\'ll verify later',
+  },
+
+  emailVerification: {
+    verified: 'Email verified successfully',
+    failed: 'Verification failed. Please check your connection and try again.',
+    skip: {
+      message: 'Until you confirm your email you will have guest access only. You can verify anytime from the home screen.',
+      done: 'Skipping email verification',
+    },
+    title: 'Confirm Your Email',
+    codeSentTo: 'We sent a {length}-digit code to',
+    verifyAction: 'Verify Email',
+    verifyLabel: 'Verify email',
+    skipLabel: 'Skip email verification for now',
+  },
+
+  studentVerification: {
+    errors: {
+      campusEmailInUse: 'This NSU email is already linked to another account',
+      invalidCode: 'That code is incorrect',
+    },
+    verified: 'NSU student status verified',
+    skip: {
+      message: 'Student pricing and student-only events stay locked until you confirm your NSU email. You can verify anytime from the home screen.',
+      done: 'Skipping student verification',
+    },
+    benefits: {
+      pricing: 'Student pricing on tickets and merchandise',
+      events: 'Student-only events and showcases',
+      badge: 'Verified NSU Student badge',
+    },
+    details: {
+      title: 'Verify Your Student Status',
+      subtitle: 'Confirm your Norfolk State email to unlock student benefits',
+      action: 'Send Code',
+      actionLabel: 'Send verification code',
+    },
+    code: {
+      title: 'Check Your NSU Inbox',
+      subtitle: 'Enter the {length}-digit code we sent to {email}',
+      action: 'Confirm Student Status',
+      actionLabel: 'Confirm student status',
+      changeEmail: 'Use a different NSU email',
+    },
+    fields: {
+      campusEmail: 'NSU Email Address',
+      campusEmailPlaceholder: 'you@{domain}',
+      graduationYear: 'Expected Graduation Year',
+    },
+    skipLabel: 'Skip student verification for now',
+  },
+
+  linkedInVerification: {
+    announcements: {
+      interrupted: 'Your last LinkedIn connection was interrupted',
+      authorizing: 'Opening LinkedIn authentication',
+      resuming: 'Resuming LinkedIn verification',
+      exchanging: 'Confirming your LinkedIn sign-in',
+      fetchingProfile: 'Reading your LinkedIn education history',
+      matching: 'Verifying your Norfolk State education',
+      verified: 'Norfolk State alumni status verified successfully',
+      manualReview: 'Your alumni verification has been sent for review',
+      notMatched: 'Could not verify Norfolk State alumni status',
+      failed: 'LinkedIn verification failed',
+      cancelled: 'LinkedIn authentication cancelled',
+    },
+    inReview: {
+      title: 'Verification In Review',
+      message: 'Your LinkedIn profile looks like a Norfolk State match, but we need a team member to confirm it. We will notify you once your alumni status is approved.',
+    },
+    notMatched: {
+      title: 'Verification Failed',
+      message: 'We could not confirm a Norfolk State degree in your LinkedIn education history.',
+      retry: 'Try Again',
+      useDocuments: 'Verify with Documents',
+    },
+    connectionFailed: {
+      title: 'Connection Failed',
+      message: 'Unable to connect to LinkedIn. Please check your internet connection and try again.',
+    },
+    skip: {
+      title: 'Skip LinkedIn Verification?',
+      message: 'You can verify your alumni status any time from Settings. Some exclusive features will not be available until verification.',
+      action: 'Skip for Now',
+      done: 'Skipping LinkedIn verification',
+    },
+    privacy: {
+      title: 'Privacy & Security',
+      message: 'We only access your basic profile information and education history to verify your Norfolk State alumni status. Your data is encrypted and never shared with third parties.',
+      action: 'Got it',
+    },
+    steps: {
+      connect: {
+        title: 'Connect LinkedIn',
+        description: 'Securely connect your LinkedIn profile',
+      },
+      verify: {
+        title: 'Verify Education',
+        description: 'Confirm Norfolk State University graduation',
+      },
+      complete: {
+        title: 'Complete Setup',
+        description: 'Access your verified alumni features',
+      },
+    },
+    benefits: {
+      title: 'What You\'ll Unlock',
+      badge: {
+        title: 'Verified Alumni Badge',
+        description: 'Display your verified Norfolk State alumni status',
+      },
+      events: {
+        title: 'Exclusive Events',
+        description: 'Access alumni-only mixers and networking events',
+      },
+      chat: {
+        title: 'Alumni Chat Rooms',
+        description: 'Connect with verified Spartans by graduation year',
+      },
+      ticketing: {
+        title: 'Priority Ticketing',
+        description: 'Early access to homecoming event tickets',
+      },
+    },
+    title: 'Verify Your Alumni Status',
+    subtitle: 'Connect with LinkedIn to unlock exclusive Norfolk State alumni features',
+    hero: {
+      title: 'Secure Alumni Verification',
+      description: 'We\'ll verify your Norfolk State graduation through your LinkedIn education history',
+    },
+    interruptedNotice: 'Your last LinkedIn connection was interrupted. Connect again to finish verifying.',
+    connect: {
+      action: 'Connect with LinkedIn',
+      label: 'Connect with LinkedIn to verify alumni status',
+    },
+    progress: {
+      exchanging: 'Confirming sign-in...',
+      fetchingProfile: 'Reading profile...',
+      matching: 'Checking education...',
+    },
+    privacyNotice: 'Your privacy is protected',
+    useDocuments: 'No LinkedIn? Verify with documents',
+    useDocumentsLabel: 'Verify with a diploma, transcript or alumni card instead',
+    requestVouches: 'Ask classmates to vouch for you',
+    requestVouchesLabel: 'Ask verified classmates to vouch for you instead',
+    skipLabel: 'Skip verification for now',
+  },
+
+  manualVerification: {
+    errors: {
+      failed: 'Submission failed. Please try again.',
+      invalidDocument: 'This file can\'t be used. Upload a PDF or a photo (JPEG, PNG or HEIC) smaller than {size} MB.',
+      documentUnreadable: 'We could not open that file. Please try another.',
+      degreeRequired: 'Degree is required',
+    },
+    documentAttached: '{name} attached',
+    submitted: 'Submitted for review. We will let you know once a reviewer decides.',
+    documentTypes: {
+      diploma: {
+        label: 'Diploma',
+        description: 'A photo or scan of your NSU diploma',
+      },
+      transcript: {
+        label: 'Transcript',
+        description: 'An official or unofficial NSU transcript',
+      },
+      alumni_card: {
+        label: 'Alumni Card',
+        description: 'Your NSU Alumni Association membership card',
+      },
+    },
+    title: 'Verify With Documents',
+    subtitle: 'Upload proof of your Norfolk State degree and a member of our team will review it.',
+    reviewerNote: {
+      title: 'A reviewer asked for more information',
+      fallback: 'Please upload a clearer or different document.',
+    },
+    documentType: 'Document Type',
+    upload: {
+      choose: 'Choose a PDF or photo',
+      chooseLabel: 'Choose a file to upload',
+      attachedLabel: 'Attached {name}. Choose a different file',
+    },
+    fields: {
+      degree: 'Degree',
+      degreePlaceholder: 'e.g. Bachelor of Science, Nursing',
+      graduationYear: 'Graduation Year',
+    },
+    submit: {
+      action: 'Submit for Review',
+      label: 'Submit for review',
+      uploading: 'Uploading...',
+    },
+    privacyNotice: 'Documents are only used to confirm your alumni status and are deleted after review.',
+  },
+
+  profileReview: {
+    errors: {
+      degreeRequired: 'Keep at least one Norfolk State degree',
+      saveFailed: 'We could not save your profile. Please try again.',
+    },
+    fixFields: 'Please fix the highlighted fields',
+    saved: 'Profile saved. Welcome, Class of {classYear}.',
+    title: 'Review Your Profile',
+    subtitle: 'We filled this in from your LinkedIn education. Check it before it\'s saved — your class year decides which reunions and classmate rooms you see.',
+    useLinkedInPhoto: 'Use my LinkedIn photo',
+    degreesTitle: 'Norfolk State Degrees',
+    selectDegree: 'Select a degree to set your class year',
+    fields: {
+      major: 'Major',
+      majorPlaceholder: 'e.g. Computer Science',
+    },
+    confirm: 'Looks Good',
+    confirmLabel: 'Confirm and save profile',
+    skip: 'I\'ll do this later',
+    skipLabel: 'Skip profile review for now',
+  },
+
+  vouchRequest: {
+    errors: {
+      notAuthorized: 'Your account is already verified or is not an alumni account.',
+    },
+    verified: 'Your classmates have verified your alumni status',
+    requested: 'Asked the Class of {classYear} to vouch for you',
+    progress: {
+      one: '{vouched} of {count} classmate has vouched',
+      other: '{vouched} of {count} classmates have vouched',
+    },
+    openUntil: 'Open until {date}',
+    title: 'Ask Classmates to Vouch',
+    subtitle: 'Verified alumni from your class year can confirm you graduated with them. Once enough of them vouch, your alumni status is verified.',
+    share: {
+      message: 'I\'m verifying my Norfolk State alumni status on NYTHC. If you\'re a verified member of the Class of {classYear}, open the app and vouch for me under "Vouch for classmates".',
+      action: 'Tell Classmates',
+      label: 'Share your request with classmates',
+    },
+    checkProgress: 'Check Progress',
+    checkProgressLabel: 'Check for new vouches',
+    expired: 'Your last request expired with {vouched} of {count} vouches. You can ask again.',
+    classYear: 'Class Year',
+    classYearPlaceholder: 'e.g. 1978',
+    submit: 'Ask My Class',
+    submitLabel: 'Ask classmates to vouch for you',
+  },
+
+  vouchForClassmates: {
+    errors: {
+      rateLimited: 'You have vouched for several people today. Please try again tomorrow.',
+      notEligible: 'Only verified alumni from around the Class of {classYear} can vouch for this classmate.',
+      alreadyVouched: 'You have already vouched for this classmate.',
+      requestClosed: 'This request is no longer open.',
+      failed: 'Your vouch could not be recorded. Please try again.',
+    },
+    done: 'You vouched for {name}',
+    confirm: {
+      title: 'Vouch for {name}?',
+      message: 'Only vouch if you know they graduated from Norfolk State with the Class of {classYear}. Your name will be shown on their profile.',
+      action: 'Vouch',
+    },
+    title: 'Vouch for Classmates',
+    subtitle: {
+      classYear: 'Members of the Class of {classYear} without other proof of their degree are asking you to confirm them.',
+      any: 'Classmates without other proof of their degree are asking you to confirm them.',
+    },
+    loadFailed: 'We could not load requests from your class. Pull down to try again.',
+    empty: 'No classmates are waiting for a vouch right now.',
+    requestDetail: 'Class of {classYear} · {vouched} of {count} vouches',
+    vouchLabel: 'Vouch for {name}, Class of {classYear}',
+  },
+
+  permissions: {
+    notifications: {
+      title: 'Notifications',
+      reason: 'So you hear about the events you care about, even when the app is closed.',
+      uses: {
+        eventReminders: 'Reminders before events you have tickets for',
+        chatMessages: 'New messages in your chat rooms',
+      },
+    },
+    location: {
+      title: 'Location',
+      reason: 'Only while you\'re using the app, to show what\'s around you on campus.',
+      uses: {
+        friendFinder: 'Friend Finder during homecoming weekend',
+        campusMap: 'Your position on the campus map',
+      },
+    },
+    camera: {
+      title: 'Camera',
+      reason: 'For the moments you choose to scan or snap something.',
+      uses: {
+        tickets: 'Scanning tickets at the gate',
+        profilePhoto: 'Taking your profile photo',
+      },
+    },
+    contacts: {
+      title: 'Contacts',
+      reason: 'To find friends already on NYTHC. Your contacts are never shared.',
+      uses: {
+        findFriends: 'Finding classmates and friends who are attending',
+      },
+    },
+    states: {
+      on: 'On',
+      off: 'Off',
+      notSet: 'Not set',
+    },
+    stepAnnouncement: '{title}, step {step} of {total}',
+    allowed: '{title} allowed',
+    notAllowed: '{title} not allowed',
+    title: 'Permissions',
+    stepCounter: 'Step {step} of {total}',
+    allow: 'Allow',
+    allowTitle: 'Allow {title}',
+    notNow: 'Not Now',
+    notNowLabel: 'Not now. You can turn on {title} later in Settings.',
+    summaryIntro: 'NYTHC works without any of these. Features that need one will tell you when it\'s off.',
+    settings: 'Settings',
+    done: 'Done',
+    continue: 'Continue',
+    continueLabel: 'Continue to NYTHC',
+  },
+
+  home: {
+    signOut: {
+      title: 'Sign Out?',
+      message: 'You will need to sign in again to access your tickets and chats.',
+      action: 'Sign Out',
+      done: 'Signing out',
+    },
+    badges: {
+      alumni: 'Alumni',
+      student: 'NSU Student',
+      guest: 'Guest',
+      unverifiedStudent: 'Student · Unverified',
+      withClassYear: '{role} · Class of {classYear}',
+    },
+    welcome: 'Welcome',
+    welcomeName: 'Welcome, {name}',
+    settingsLabel: 'Open settings',
+    notices: {
+      email: {
+        title: 'Confirm your email',
+        description: 'You have guest access until you verify {email}.',
+        label: 'Confirm your email to unlock {role} features. You currently have guest access.',
+      },
+      student: {
+        title: 'Verify your student status',
+        description: 'Confirm your NSU email to unlock student pricing and student-only events.',
+        label: 'Verify your NSU student status to unlock student pricing and student-only events',
+      },
+      alumni: {
+        title: 'Verify your alumni status',
+        description: 'Connect LinkedIn to unlock alumni events and verified networking.',
+        label: 'Verify your alumni status with LinkedIn to unlock alumni events and networking',
+      },
+      upgrade: {
+        title: 'Are you a Spartan?',
+        description: 'Upgrade to student or alumni and keep everything on your account.',
+        label: 'Upgrade your account to student or alumni',
+      },
+      profileReview: {
+        title: 'Confirm your class year',
+        description: 'Review the degrees we found on LinkedIn to join your class\'s reunions.',
+        label: 'Confirm your degrees and class year from LinkedIn',
+      },
+      reviewQueue: {
+        title: 'Review queue',
+        description: 'Approve alumni who verified with documents.',
+        label: 'Open the alumni verification review queue',
+      },
+    },
+    classCard: {
+      title: 'Class of {classYear}',
+      description: 'Your reunion events and classmates will appear here.',
+      vouch: 'Vouch for classmates',
+      vouchLabel: 'Vouch for members of the Class of {classYear}',
+    },
+    upcomingCard: {
+      title: 'Homecoming is on the way',
+      description: 'Events, tickets and community chat rooms will appear here.',
+    },
+    signOutLabel: 'Sign out',
+  },
+
+  accessRequired: {
+    announcement: '{title} is locked. {prompt}',
+    roleNames: {
+      alumni: 'alumni',
+      student: 'NSU students',
+      guest: 'guests',
+    },
+    upgrade: {
+      title: 'For {roles}',
+      guestDescription: 'Upgrade your account to unlock this. Everything you have now stays on your account.',
+      otherRoleDescription: 'This isn\'t part of your account type.',
+      action: 'Upgrade Account',
+    },
+    verifyEmail: {
+      title: 'Confirm your email',
+      description: 'Verify your email address to unlock this.',
+      action: 'Verify Email',
+    },
+    inReview: {
+      title: 'Verification in review',
+      description: 'This unlocks as soon as a reviewer approves your verification.',
+    },
+    verify: {
+      studentTitle: 'Verify your student status',
+      alumniTitle: 'Verify your alumni status',
+      lapsedDescription: 'Your verification is no longer active. Verify again to unlock this.',
+      description: 'Verify your account to unlock this.',
+      action: 'Verify Now',
+    },
+    reviewer: {
+      title: 'Reviewers only',
+      description: 'Only verification reviewers can open this.',
+    },
+  },
+
+  comingSoon: {
+    announcement: '{title} is coming soon',
+    screens: {
+      EventDetail: {
+        title: 'Event Details',
+        description: 'Schedules, venues and lineups for every homecoming event will appear here.',
+      },
+      TicketSelection: {
+        title: 'Tickets',
+        description: 'Choose ticket types and quantities for homecoming events.',
+      },
+      Checkout: {
+        title: 'Checkout',
+        description: 'Pay for your tickets securely without leaving the app.',
+      },
+      Community: {
+        title: 'Community',
+        description: 'Find Spartans attending homecoming and join the conversation.',
+      },
+      ChatRoom: {
+        title: 'Chat Room',
+        description: 'Chat with your class and fellow Spartans.',
+        permissionNotice: 'Messages will still be here when you open the app, but you won\'t be alerted to them.',
+      },
+      FriendFinder: {
+        title: 'Friend Finder',
+        description: 'See which friends are nearby during homecoming weekend.',
+        permissionNotice: 'You\'ll still see which friends are going, just not who\'s nearby.',
+      },
+      Profile: {
+        title: 'Profile',
+        description: 'Edit the profile other Spartans see.',
+      },
+    },
+    title: 'Coming Soon',
+  },
+
+  upgrade: {
+    options: {
+      student: {
+        description: 'Student pricing, campus activity groups and student-only events.',
+        requirement: 'Confirm your NSU email',
+        confirmMessage: 'Next you will confirm your NSU email. Your tickets, connections and saved events stay on your account.',
+      },
+      alumni: {
+        description: 'Alumni-only events, verified networking and priority ticketing.',
+        requirement: 'Verify your education on LinkedIn',
+        confirmMessage: 'Next you will verify your education on LinkedIn. Your tickets, connections and saved events stay on your account.',
+      },
+    },
+    upgrading: 'Upgrading to {role}. Starting verification.',
+    errors: {
+      notAllowed: 'Your account already has a verified role.',
+      failed: 'We could not upgrade your account right now. Please try again.',
+    },
+    confirm: {
+      title: 'Upgrade to {role}?',
+      action: 'Continue',
+    },
+    goingBack: 'Going back to home',
+    title: 'Upgrade Your Account',
+    subtitle: 'Verify as a student or alumni to unlock more of homecoming. You keep the same account, so nothing you\'ve already booked or connected is lost.',
+    optionLabel: 'Upgrade to {role}. {description} Requires: {requirement}.',
+    inProgress: 'Upgrading your account...',
+  },
+
+  settings: {
+    themes: {
+      system: 'Match System',
+      dark: 'Dark',
+      light: 'Light',
+      high_contrast: 'High Contrast',
+    },
+    appearanceSet: 'Appearance set to {theme}',
+    startingVerification: 'Starting verification',
+    title: 'Settings',
+    account: {
+      title: 'Account',
+      name: 'Name',
+      notSet: 'Not set',
+      email: 'Email',
+      type: 'Account type',
+      roles: {
+        alumni: 'Norfolk State Alumni',
+        student: 'NSU Student',
+        guest: 'Guest',
+      },
+    },
+    verificationSection: {
+      title: 'Verification',
+      status: 'Status',
+      method: 'Verified with',
+      verifiedOn: 'Verified on',
+      expiresOn: 'Expires on',
+      expiredOn: 'Expired on',
+      revokedOn: 'Revoked on',
+      vouchers: 'Vouched for by',
+      reverify: 'Re-verify Now',
+      reverifyLabel: 'Re-verify now',
+      verify: 'Verify Now',
+      verifyLabel: 'Verify your status',
+      inReview: 'A reviewer is checking your details. You can verify again once they decide.',
+      history: 'History',
+    },
+    appearance: 'Appearance',
+    device: {
+      title: 'Device',
+      permissions: 'Permissions',
+      permissionsLabel: 'Manage notifications, location, camera and contacts permissions',
+      replayIntro: 'Replay Intro',
+      replayIntroLabel: 'Replay the NYTHC intro',
+    },
+  },
+
+  reviewQueue: {
+    actions: {
+      approve: {
+        label: 'Approve',
+        confirmTitle: 'Approve {name}?',
+        confirmMessage: 'They will get verified alumni access immediately.',
+        done: '{name} approved',
+      },
+      request_info: {
+        label: 'Request Info',
+        confirmTitle: 'Request more info from {name}?',
+        confirmMessage: 'They will be asked to update their submission.',
+        done: '{name} sent back for more information',
+      },
+      reject: {
+        label: 'Reject',
+        confirmTitle: 'Reject {name}?',
+        confirmMessage: 'They will be told their alumni status could not be confirmed.',
+        done: '{name} rejected',
+      },
+    },
+    documentUnavailable: {
+      title: 'Unable to Open',
+      message: 'This document could not be opened on this device.',
+    },
+    reviewFailed: {
+      title: 'Review Failed',
+      message: 'This submission could not be updated. It may have been reviewed by someone else.',
+    },
+    noteRequired: {
+      title: 'Add a Note',
+      message: 'Tell the applicant what else you need before sending it back.',
+    },
+    revoke: {
+      confirmTitle: 'Revoke Verification?',
+      confirmMessage: '{email} will lose verified access until they verify again.',
+      confirmAction: 'Revoke',
+      done: 'Verification revoked for {email}',
+      accountNotFound: 'No student or alumni account uses this email.',
+      failed: 'This verification could not be revoked. Please try again.',
+      missingFields: 'Enter the member\'s email and a reason they will see.',
+    },
+    title: 'Review Queue',
+    waiting: {
+      one: '{count} alumni submission waiting for review',
+      other: '{count} alumni submissions waiting for review',
+    },
+    empty: 'All caught up. No submissions are waiting.',
+    submission: {
+      degree: 'Degree',
+      graduated: 'Graduated',
+      source: 'Source',
+      linkedIn: 'LinkedIn match',
+      school: 'School',
+      notListed: 'Not listed',
+      confidence: 'Match confidence',
+      openDocumentLabel: 'Open {type}: {name}',
+      notePlaceholder: 'Note for the applicant (required when requesting info)',
+      noteLabel: 'Note for the applicant',
+    },
+    revokeSection: {
+      title: 'Revoke a verification',
+      description: 'For members whose verification turned out to be wrong. They keep their account and can verify again.',
+      emailPlaceholder: 'Member email',
+      emailLabel: 'Email of the member whose verification to revoke',
+      reasonPlaceholder: 'Reason (shown to the member)',
+      reasonLabel: 'Reason for revoking verification',
+      action: 'Revoke Verification',
+      actionLabel: 'Revoke verification',
+    },
+    loadFailed: 'We could not load the review queue. Pull down to try again.',
+  },
+
+  permissionNotice: {
+    off: '{name} is off',
+    turnOn: 'Turn On {name}',
+    turnOnLabel: 'Turn on {name}',
+    openSettings: 'Open Settings',
+    openSettingsLabel: 'Open Settings to turn on {name}',
+  },
+
+  verificationBanner: {
+    in_review: {
+      title: 'Verification in review',
+      description: 'A reviewer is checking your details. Alumni features unlock once you are approved.',
+    },
+    needs_info: {
+      title: 'More information needed',
+      description: 'A reviewer needs more from you before approving your alumni status.',
+    },
+    expiring: {
+      title: 'Verification expiring soon',
+      description: 'Re-verify from Settings to keep your access.',
+    },
+    expired: {
+      title: 'Verification expired',
+      description: 'Re-verify from Settings to get your verified access back.',
+    },
+    revoked: {
+      title: 'Verification revoked',
+      description: 'Your verification was withdrawn. You can verify again from Settings.',
+    },
+    expiresIn: {
+      one: 'Expires in {count} day. {description}',
+      other: 'Expires in {count} days. {description}',
+    },
+  },
+
+  features: {
+    student_pricing: {
+      title: 'Student Pricing',
+      deniedMessage: 'Only verified NSU students get student pricing',
+    },
+    student_events: {
+      title: 'Student Events',
+      deniedMessage: 'Only verified NSU students can join student events',
+    },
+    alumni_events: {
+      title: 'Alumni Events',
+      deniedMessage: 'Only verified alumni can attend alumni-only events and mixers',
+    },
+    alumni_chat: {
+      title: 'Verified Chat Rooms',
+      deniedMessage: 'Only verified alumni can join verified chat rooms',
+    },
+    priority_ticketing: {
+      title: 'Priority Ticketing',
+      deniedMessage: 'Only verified alumni get priority ticketing',
+    },
+    vouching: {
+      title: 'Vouch for Classmates',
+      deniedMessage: 'Only verified alumni can vouch for classmates',
+    },
+    review_queue: {
+      title: 'Review Queue',
+      deniedMessage: 'Only verification reviewers can do this',
+    },
+  },
+
+  matchReasons: {
+    different_institution: '"{schoolName}" is a different institution',
+    official_name: 'School name matches Norfolk State ({schoolName})',
+    possible_name: 'School name "{schoolName}" may refer to Norfolk State',
+    completed: 'Completed in {year}',
+    not_completed: 'Not completed yet (ends {year})',
+    no_completion_date: 'No completion date listed',
+    degree_listed: 'Degree listed ({degree})',
+    field_listed: 'Field of study listed ({fieldOfStudy})',
+    no_education: 'No Norfolk State education found on the profile',
+  },
+};
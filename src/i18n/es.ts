@@ -0,0 +1,996 @@
+// NYTHC Spanish Messages
+// Typed as the English catalog, so a message added to en.ts fails the type check until it is translated here.
+
+import type { Catalog } from '.';
+
+export const es: Catalog = {
+  common: {
+    connecting: 'Conectando...',
+    schoolShortName: 'NSU',
+    pleaseWait: 'Espera un momento...',
+    cancel: 'Cancelar',
+    ok: 'Aceptar',
+    goingBack: 'Volviendo',
+    networkError: 'No se pudo conectar. Revisa tu conexión a internet e inténtalo de nuevo.',
+    genericError: 'Algo salió mal. Inténtalo de nuevo.',
+    goBack: 'Volver',
+    and: 'y',
+    classOf: 'Promoción {classYear}',
+    degree: 'Título',
+    goBackHome: 'Volver al inicio',
+  },
+
+  validation: {
+    emailRequired: 'El correo electrónico es obligatorio',
+    emailInvalid: 'Introduce un correo electrónico válido',
+    passwordRequired: 'La contraseña es obligatoria',
+    passwordTooShort: 'La contraseña debe tener al menos {min} caracteres',
+    passwordTooWeak: 'La contraseña debe incluir mayúsculas, minúsculas y un número',
+    codeRequired: 'Introduce el código que te enviamos por correo',
+    codeLength: 'El código tiene {length} dígitos',
+    firstNameRequired: 'El nombre es obligatorio',
+    lastNameRequired: 'El apellido es obligatorio',
+    passwordsDoNotMatch: 'Las contraseñas no coinciden',
+    campusEmailDomain: 'Usa tu correo de NSU (@{domain})',
+    graduationYearRequired: 'El año de graduación es obligatorio',
+    expectedGraduationYearRequired: 'El año de graduación previsto es obligatorio',
+    yearOutOfRange: 'Introduce un año entre {min} y {max}',
+    documentRequired: 'Adjunta un documento para continuar',
+    documentType: 'Sube un PDF o una foto (JPEG, PNG o HEIC)',
+    documentTooLarge: 'Los archivos deben pesar menos de {size} MB',
+  },
+
+  fields: {
+    firstName: {
+      label: 'Nombre',
+      placeholder: 'Escribe tu nombre',
+    },
+    lastName: {
+      label: 'Apellido',
+      placeholder: 'Escribe tu apellido',
+    },
+    email: {
+      label: 'Correo electrónico',
+      placeholder: 'Escribe tu correo',
+    },
+    password: {
+      label: 'Contraseña',
+      placeholder: 'Escribe tu contraseña',
+    },
+    confirmPassword: {
+      label: 'Confirmar contraseña',
+      placeholder: 'Vuelve a escribir tu contraseña',
+    },
+    verificationCode: {
+      label: 'Código de verificación',
+    },
+  },
+
+  splash: {
+    loading: 'Cargando la app de NYTHC. Not Your Typical Homecoming.',
+  },
+
+  welcome: {
+    slides: {
+      events: {
+        title: 'Tu agenda de Homecoming',
+        description: 'Descubre eventos exclusivos, desde encuentros de exalumnos hasta muestras estudiantiles. Filtra por tus intereses y no te pierdas ningún momento.',
+      },
+      community: {
+        title: 'Comunidad Spartan verificada',
+        description: 'Conecta con otros egresados en salas de chat seguras verificadas con LinkedIn y en eventos de networking.',
+      },
+      digital: {
+        title: 'Todo desde tu móvil',
+        description: 'Entradas digitales, pagos seguros y novedades en tiempo real: todo lo que necesitas en tu bolsillo.',
+      },
+      local: {
+        title: 'Muévete como un local',
+        description: 'Mapas del campus, estacionamiento disponible, restaurantes recomendados y normas de cada lugar al alcance de tu mano.',
+      },
+    },
+    slideLabel: 'Diapositiva {index} de {total}',
+    slideSelected: 'Diapositiva {index} seleccionada',
+    starting: 'Comenzando la configuración de NYTHC',
+    skipping: 'Saltando la presentación',
+    title: 'Te damos la bienvenida a {name}',
+    carouselLabel: 'Carrusel de funciones',
+    skip: 'Omitir',
+    skipLabel: 'Omitir el recorrido de bienvenida',
+    getStarted: 'Comenzar',
+    getStartedLabel: 'Comenzar con {name}',
+    mockups: {
+      eventMonth: 'OCT',
+      eventTitle: 'Encuentro de bienvenida para exalumnos',
+      eventDetails: '7:00 p. m. • Centro Estudiantil',
+      eventBadge: 'Solo exalumnos',
+      chatName: 'Exalumnos de la Promoción 2015',
+      chatMessage: '¡Con ganas de verlos a todos en el encuentro!',
+      ticketTitle: 'Partido de Homecoming',
+      qrCode: 'QR',
+      mapLabel: 'Centro Estudiantil',
+    },
+  },
+
+  roles: {
+    alumni: {
+      title: 'Exalumno de Norfolk State',
+      badge: 'Requiere verificación',
+      description: 'Accede a eventos exclusivos para exalumnos, networking verificado y experiencias de Homecoming premium. Requiere verificación con LinkedIn.',
+      features: {
+        events: 'Eventos y encuentros solo para exalumnos',
+        chat: 'Salas de chat de la comunidad verificada',
+        ticketing: 'Acceso prioritario a entradas',
+        networking: 'Oportunidades de networking',
+      },
+    },
+    student: {
+      title: 'Estudiante actual',
+      badge: 'Requiere correo de NSU',
+      description: 'Conecta con otros Spartans, únete a actividades estudiantiles y disfruta de precios especiales en eventos y productos. Requiere verificar tu correo de NSU.',
+      features: {
+        events: 'Eventos para estudiantes',
+        groups: 'Grupos de actividades del campus',
+        pricing: 'Descuentos para estudiantes',
+        classYear: 'Conexiones con tu promoción',
+      },
+    },
+    guest: {
+      title: 'Invitado y visitante',
+      badge: 'Bienvenido',
+      description: 'Explora los eventos públicos de Homecoming, las guías locales y descubre lo que hace especial a Norfolk State. Cambia de perfil cuando quieras.',
+      features: {
+        publicEvents: 'Acceso a eventos públicos',
+        guides: 'Guías y mapas locales',
+        info: 'Información general',
+        upgrade: 'Cambio a perfiles verificados',
+      },
+    },
+    moreFeatures: {
+      one: '+{count} función más',
+      other: '+{count} funciones más',
+    },
+    selected: '{role} seleccionado',
+    selectLabel: 'Seleccionar {role}. {description}',
+    continuingAs: 'Continuando como {role}',
+    goingBack: 'Volviendo a la pantalla de bienvenida',
+    title: 'Elige tu perfil',
+    subtitle: 'Selecciona tu relación con Norfolk State University',
+    optionsLabel: 'Opciones de perfil',
+    continue: 'Continuar',
+    continueAsLabel: 'Continuar como {role}',
+    selectToContinueLabel: 'Selecciona un perfil para continuar',
+  },
+
+  auth: {
+    roles: {
+      alumni: {
+        title: 'Bienvenido de nuevo, Spartan',
+        subtitle: 'Accede a tu experiencia exclusiva de exalumno',
+        notice: 'Después del registro tendrás que verificar tu perfil con LinkedIn',
+        buttonText: 'Continuar como exalumno',
+      },
+      student: {
+        title: '¡Hola, Spartan!',
+        subtitle: 'Únete a tus compañeros de Norfolk State',
+        notice: 'Después del registro confirmarás tu correo de NSU para desbloquear los precios de estudiante',
+        buttonText: 'Continuar como estudiante',
+      },
+      guest: {
+        title: 'Bienvenido a NYTHC',
+        subtitle: 'Explora el Homecoming de Norfolk State',
+        notice: 'Cambia a exalumno o estudiante para acceder a funciones exclusivas',
+        buttonText: 'Continuar como invitado',
+      },
+    },
+    errors: {
+      failed: 'No se pudo iniciar sesión. Inténtalo de nuevo.',
+      invalidCredentials: 'Correo electrónico o contraseña incorrectos',
+      emailTaken: 'Ya existe una cuenta con este correo. Prueba a iniciar sesión.',
+      lockedFor: {
+        one: 'Demasiados intentos fallidos. Tu cuenta está bloqueada; inténtalo de nuevo en {count} minuto.',
+        other: 'Demasiados intentos fallidos. Tu cuenta está bloqueada; inténtalo de nuevo en {count} minutos.',
+      },
+      locked: 'Demasiados intentos fallidos. Tu cuenta está bloqueada temporalmente.',
+      weakPassword: 'Elige una contraseña más segura',
+      providerError: 'No pudimos confirmar tu identidad con ese proveedor. Inténtalo de nuevo.',
+      providerEmailUnverified: 'Ya hay una cuenta con este correo. Inicia sesión con tu contraseña para vincularla.',
+    },
+    social: {
+      continueWith: 'Continuar con {provider}',
+      cancelled: 'Inicio de sesión con {provider} cancelado',
+      linked: 'Sesión iniciada. Tu cuenta de {provider} ya está vinculada a tu cuenta de NYTHC',
+      signedIn: 'Sesión iniciada con {provider}',
+    },
+    switchedToSignIn: 'Cambiado al modo de inicio de sesión',
+    switchedToSignUp: 'Cambiado al modo de registro',
+    signedIn: 'Sesión iniciada correctamente',
+    accountCreated: 'Cuenta creada correctamente',
+    openingPasswordReset: 'Abriendo el restablecimiento de contraseña',
+    goingBack: 'Volviendo a la selección de perfil',
+    roleBadges: {
+      alumni: 'Exalumno',
+      student: 'Estudiante',
+      guest: 'Invitado',
+    },
+    modes: {
+      signin: 'Iniciar sesión',
+      signup: 'Registrarse',
+    },
+    or: 'o',
+    backLabel: 'Volver a la selección de tipo de cuenta',
+    forgotPassword: '¿Olvidaste tu contraseña?',
+    forgotPasswordLabel: '¿Olvidaste tu contraseña? Restablécela por correo',
+  },
+
+  passwordReset: {
+    steps: {
+      request: {
+        title: 'Restablece tu contraseña',
+        subtitle: 'Introduce el correo de tu cuenta y te enviaremos un código de {length} dígitos',
+        buttonText: 'Enviar código',
+      },
+      code: {
+        title: 'Revisa tu correo',
+        subtitle: 'Introduce el código que te enviamos o toca el enlace del correo para continuar',
+        buttonText: 'Verificar código',
+      },
+      password: {
+        title: 'Elige una nueva contraseña',
+        subtitle: 'Usa al menos {min} caracteres con mayúsculas, minúsculas y un número',
+        buttonText: 'Actualizar contraseña',
+      },
+      done: {
+        title: 'Contraseña actualizada',
+        subtitle: 'Ya puedes iniciar sesión con tu nueva contraseña',
+        buttonText: 'Volver a iniciar sesión',
+      },
+    },
+    errors: {
+      invalidCode: 'El código no es correcto',
+      codeExpired: 'Este código o enlace ha caducado. Solicita uno nuevo.',
+      rateLimited: 'Espera un momento antes de solicitar otro código.',
+      weakPassword: 'Elige una contraseña más segura',
+    },
+    codeResent: 'Te enviamos un código nuevo',
+    goingBack: 'Volviendo a iniciar sesión',
+    fields: {
+      code: 'Código de restablecimiento',
+      newPassword: 'Nueva contraseña',
+      newPasswordPlaceholder: 'Escribe una nueva contraseña',
+      confirmPassword: 'Confirmar nueva contraseña',
+      confirmPasswordPlaceholder: 'Vuelve a escribir tu nueva contraseña',
+    },
+    codeSentTo: 'Código enviado a {email}',
+    resendCode: '¿No te llegó? Reenviar código',
+    changeEmail: 'Usar otro correo',
+    backLabel: 'Volver a iniciar sesión',
+  },
+
+  verification: {
+    codeSent: 'Código de verificación enviado a {email}',
+    resendRateLimited: {
+      one: 'Espera {count} segundo antes de solicitar otro código.',
+      other: 'Espera {count} segundos antes de solicitar otro código.',
+    },
+    sendFailed: 'No pudimos enviar un código en este momento. Inténtalo de nuevo.',
+    incorrectCode: {
+      one: 'El código no es correcto. Te queda {count} intento.',
+      other: 'El código no es correcto. Te quedan {count} intentos.',
+    },
+    tooManyAttempts: 'Demasiados intentos incorrectos. Solicita un código nuevo.',
+    codeExpired: 'Este código ha caducado. Solicita uno nuevo.',
+    failed: 'No se pudo completar la verificación. Inténtalo de nuevo.',
+    skip: {
+      title: '¿Verificar más tarde?',
+      action: 'Verificar más tarde',
+    },
+    methods: {
+      linkedin: 'Estudios en LinkedIn',
+      email_domain: 'Correo de NSU',
+      manual_review: 'Revisión de documentos',
+      vouching: 'Avalado por exalumnos verificados',
+    },
+    events: {
+      vouches_requested: 'Se pidió a la Promoción {classYear} que avalara',
+      vouch_received: 'Avalado por {name}',
+    },
+    statuses: {
+      pending: 'Sin verificar',
+      in_review: 'En revisión',
+      needs_info: 'Se necesita más información',
+      verified: 'Verificado',
+      failed: 'No confirmado',
+      expired: 'Vencido',
+      revoked: 'Revocado',
+    },
+    sendingCode: 'Enviando código...',
+    resendCode: 'Reenviar código',
+    resendCodeIn: 'Reenviar código en {seconds} s',
+    verifying: 'Verificando...',
+    verifyLater: 'Lo verificaré más tarde',
+  },
+
+  emailVerification: {
+    verified: 'Correo verificado correctamente',
+    failed: 'No se pudo completar la verificación. Revisa tu conexión e inténtalo de nuevo.',
+    skip: {
+      message: 'Hasta que confirmes tu correo solo tendrás acceso de invitado. Puedes verificarlo cuando quieras desde la pantalla de inicio.',
+      done: 'Saltando la verificación del correo',
+    },
+    title: 'Confirma tu correo',
+    codeSentTo: 'Enviamos un código de {length} dígitos a',
+    verifyAction: 'Verificar correo',
+    verifyLabel: 'Verificar correo',
+    skipLabel: 'Omitir la verificación del correo por ahora',
+  },
+
+  studentVerification: {
+    errors: {
+      campusEmailInUse: 'Este correo de NSU ya está vinculado a otra cuenta',
+      invalidCode: 'El código no es correcto',
+    },
+    verified: 'Condición de estudiante de NSU verificada',
+    skip: {
+      message: 'Los precios y eventos para estudiantes seguirán bloqueados hasta que confirmes tu correo de NSU. Puedes verificarlo cuando quieras desde la pantalla de inicio.',
+      done: 'Saltando la verificación de estudiante',
+    },
+    benefits: {
+      pricing: 'Precios para estudiantes en entradas y artículos',
+      events: 'Eventos y exhibiciones solo para estudiantes',
+      badge: 'Insignia de estudiante de NSU verificado',
+    },
+    details: {
+      title: 'Verifica tu estatus de estudiante',
+      subtitle: 'Confirma tu correo de Norfolk State para desbloquear los beneficios para estudiantes',
+      action: 'Enviar código',
+      actionLabel: 'Enviar código de verificación',
+    },
+    code: {
+      title: 'Revisa tu correo de NSU',
+      subtitle: 'Escribe el código de {length} dígitos que enviamos a {email}',
+      action: 'Confirmar estatus de estudiante',
+      actionLabel: 'Confirmar estatus de estudiante',
+      changeEmail: 'Usar otro correo de NSU',
+    },
+    fields: {
+      campusEmail: 'Correo de NSU',
+      campusEmailPlaceholder: 'tu@{domain}',
+      graduationYear: 'Año de graduación previsto',
+    },
+    skipLabel: 'Omitir la verificación de estudiante por ahora',
+  },
+
+  linkedInVerification: {
+    announcements: {
+      interrupted: 'Tu última conexión con LinkedIn se interrumpió',
+      authorizing: 'Abriendo la autenticación de LinkedIn',
+      resuming: 'Reanudando la verificación con LinkedIn',
+      exchanging: 'Confirmando tu inicio de sesión con LinkedIn',
+      fetchingProfile: 'Leyendo tu historial académico de LinkedIn',
+      matching: 'Verificando tus estudios en Norfolk State',
+      verified: 'Condición de exalumno de Norfolk State verificada correctamente',
+      manualReview: 'Tu verificación de exalumno se envió a revisión',
+      notMatched: 'No se pudo verificar tu condición de exalumno de Norfolk State',
+      failed: 'Falló la verificación con LinkedIn',
+      cancelled: 'Autenticación de LinkedIn cancelada',
+    },
+    inReview: {
+      title: 'Verificación en revisión',
+      message: 'Tu perfil de LinkedIn parece coincidir con Norfolk State, pero un miembro del equipo debe confirmarlo. Te avisaremos cuando se apruebe tu condición de exalumno.',
+    },
+    notMatched: {
+      title: 'Verificación fallida',
+      message: 'No pudimos confirmar un título de Norfolk State en la formación de tu perfil de LinkedIn.',
+      retry: 'Intentar de nuevo',
+      useDocuments: 'Verificar con documentos',
+    },
+    connectionFailed: {
+      title: 'Error de conexión',
+      message: 'No se pudo conectar con LinkedIn. Revisa tu conexión a internet e inténtalo de nuevo.',
+    },
+    skip: {
+      title: '¿Omitir la verificación con LinkedIn?',
+      message: 'Puedes verificar tu condición de exalumno cuando quieras desde Ajustes. Algunas funciones exclusivas no estarán disponibles hasta entonces.',
+      action: 'Omitir por ahora',
+      done: 'Saltando la verificación con LinkedIn',
+    },
+    privacy: {
+      title: 'Privacidad y seguridad',
+      message: 'Solo accedemos a la información básica de tu perfil y a tu formación para verificar tu condición de exalumno de Norfolk State. Tus datos están cifrados y nunca se comparten con terceros.',
+      action: 'Entendido',
+    },
+    steps: {
+      connect: {
+        title: 'Conectar LinkedIn',
+        description: 'Conecta tu perfil de LinkedIn de forma segura',
+      },
+      verify: {
+        title: 'Verificar estudios',
+        description: 'Confirma tu graduación de Norfolk State University',
+      },
+      complete: {
+        title: 'Terminar',
+        description: 'Accede a tus funciones de exalumno verificado',
+      },
+    },
+    benefits: {
+      title: 'Lo que desbloquearás',
+      badge: {
+        title: 'Insignia de exalumno verificado',
+        description: 'Muestra tu estatus verificado de exalumno de Norfolk State',
+      },
+      events: {
+        title: 'Eventos exclusivos',
+        description: 'Accede a encuentros y eventos de networking solo para exalumnos',
+      },
+      chat: {
+        title: 'Salas de chat de exalumnos',
+        description: 'Conecta con Spartans verificados por año de graduación',
+      },
+      ticketing: {
+        title: 'Venta anticipada de entradas',
+        description: 'Acceso anticipado a las entradas de los eventos de homecoming',
+      },
+    },
+    title: 'Verifica tu estatus de exalumno',
+    subtitle: 'Conéctate con LinkedIn para desbloquear funciones exclusivas para exalumnos de Norfolk State',
+    hero: {
+      title: 'Verificación segura de exalumnos',
+      description: 'Verificaremos tu graduación de Norfolk State con los estudios de tu perfil de LinkedIn',
+    },
+    interruptedNotice: 'Tu última conexión con LinkedIn se interrumpió. Vuelve a conectarte para terminar la verificación.',
+    connect: {
+      action: 'Conectar con LinkedIn',
+      label: 'Conectar con LinkedIn para verificar tu estatus de exalumno',
+    },
+    progress: {
+      exchanging: 'Confirmando inicio de sesión...',
+      fetchingProfile: 'Leyendo perfil...',
+      matching: 'Revisando estudios...',
+    },
+    privacyNotice: 'Tu privacidad está protegida',
+    useDocuments: '¿No tienes LinkedIn? Verifícate con documentos',
+    useDocumentsLabel: 'Verificarte con un diploma, un expediente académico o una tarjeta de exalumno',
+    requestVouches: 'Pide a tus compañeros que te avalen',
+    requestVouchesLabel: 'Pedir a compañeros verificados que te avalen',
+    skipLabel: 'Omitir la verificación por ahora',
+  },
+
+  manualVerification: {
+    errors: {
+      failed: 'No se pudo enviar. Inténtalo de nuevo.',
+      invalidDocument: 'No se puede usar este archivo. Sube un PDF o una foto (JPEG, PNG o HEIC) de menos de {size} MB.',
+      documentUnreadable: 'No pudimos abrir ese archivo. Prueba con otro.',
+      degreeRequired: 'El título es obligatorio',
+    },
+    documentAttached: '{name} adjuntado',
+    submitted: 'Enviado a revisión. Te avisaremos cuando un revisor tome una decisión.',
+    documentTypes: {
+      diploma: {
+        label: 'Diploma',
+        description: 'Una foto o un escaneo de tu diploma de NSU',
+      },
+      transcript: {
+        label: 'Expediente académico',
+        description: 'Un expediente académico de NSU, oficial o no oficial',
+      },
+      alumni_card: {
+        label: 'Tarjeta de exalumno',
+        description: 'Tu tarjeta de socio de la Asociación de Exalumnos de NSU',
+      },
+    },
+    title: 'Verifícate con documentos',
+    subtitle: 'Sube una prueba de tu título de Norfolk State y un miembro de nuestro equipo la revisará.',
+    reviewerNote: {
+      title: 'Un revisor pidió más información',
+      fallback: 'Sube un documento más claro o uno diferente.',
+    },
+    documentType: 'Tipo de documento',
+    upload: {
+      choose: 'Elige un PDF o una foto',
+      chooseLabel: 'Elegir un archivo para subir',
+      attachedLabel: 'Adjuntaste {name}. Elegir otro archivo',
+    },
+    fields: {
+      degree: 'Título',
+      degreePlaceholder: 'p. ej. Licenciatura en Ciencias, Enfermería',
+      graduationYear: 'Año de graduación',
+    },
+    submit: {
+      action: 'Enviar a revisión',
+      label: 'Enviar a revisión',
+      uploading: 'Subiendo...',
+    },
+    privacyNotice: 'Los documentos solo se usan para confirmar tu estatus de exalumno y se eliminan después de la revisión.',
+  },
+
+  profileReview: {
+    errors: {
+      degreeRequired: 'Conserva al menos un título de Norfolk State',
+      saveFailed: 'No pudimos guardar tu perfil. Inténtalo de nuevo.',
+    },
+    fixFields: 'Corrige los campos marcados',
+    saved: 'Perfil guardado. Bienvenido, promoción de {classYear}.',
+    title: 'Revisa tu perfil',
+    subtitle: 'Completamos esto con los estudios de tu LinkedIn. Revísalo antes de guardarlo: tu promoción decide qué reencuentros y salas de compañeros ves.',
+    useLinkedInPhoto: 'Usar mi foto de LinkedIn',
+    degreesTitle: 'Títulos de Norfolk State',
+    selectDegree: 'Selecciona un título para fijar tu promoción',
+    fields: {
+      major: 'Especialidad',
+      majorPlaceholder: 'p. ej. Informática',
+    },
+    confirm: 'Todo está bien',
+    confirmLabel: 'Confirmar y guardar el perfil',
+    skip: 'Lo haré más tarde',
+    skipLabel: 'Omitir la revisión del perfil por ahora',
+  },
+
+  vouchRequest: {
+    errors: {
+      notAuthorized: 'Tu cuenta ya está verificada o no es una cuenta de exalumno.',
+    },
+    verified: 'Tus compañeros verificaron tu condición de exalumno',
+    requested: 'Pediste a la promoción de {classYear} que avale tu perfil',
+    progress: {
+      one: '{vouched} de {count} compañero te ha avalado',
+      other: '{vouched} de {count} compañeros te han avalado',
+    },
+    openUntil: 'Abierta hasta el {date}',
+    title: 'Pide a tus compañeros que te avalen',
+    subtitle: 'Los exalumnos verificados de tu promoción pueden confirmar que te graduaste con ellos. Cuando suficientes te avalen, tu estatus de exalumno quedará verificado.',
+    share: {
+      message: 'Estoy verificando mi estatus de exalumno de Norfolk State en NYTHC. Si eres un miembro verificado de la Promoción {classYear}, abre la app y aválame en "Avalar a compañeros".',
+      action: 'Avisar a mis compañeros',
+      label: 'Compartir tu solicitud con tus compañeros',
+    },
+    checkProgress: 'Ver el progreso',
+    checkProgressLabel: 'Buscar nuevos avales',
+    expired: 'Tu última solicitud venció con {vouched} de {count} avales. Puedes pedirlo de nuevo.',
+    classYear: 'Promoción',
+    classYearPlaceholder: 'p. ej., 1978',
+    submit: 'Preguntar a mi promoción',
+    submitLabel: 'Pedir a tus compañeros que te avalen',
+  },
+
+  vouchForClassmates: {
+    errors: {
+      rateLimited: 'Hoy ya avalaste a varias personas. Vuelve a intentarlo mañana.',
+      notEligible: 'Solo los exalumnos verificados de alrededor de la Promoción {classYear} pueden avalar a este compañero.',
+      alreadyVouched: 'Ya avalaste a este compañero.',
+      requestClosed: 'Esta solicitud ya no está abierta.',
+      failed: 'No se pudo registrar tu aval. Inténtalo de nuevo.',
+    },
+    done: 'Avalaste a {name}',
+    confirm: {
+      title: '¿Avalar a {name}?',
+      message: 'Avala solo si sabes que se graduó en Norfolk State con la promoción de {classYear}. Tu nombre aparecerá en su perfil.',
+      action: 'Avalar',
+    },
+    title: 'Avalar a compañeros',
+    subtitle: {
+      classYear: 'Miembros de la Promoción {classYear} sin otra prueba de su título te piden que los confirmes.',
+      any: 'Compañeros sin otra prueba de su título te piden que los confirmes.',
+    },
+    loadFailed: 'No pudimos cargar las solicitudes de tu promoción. Desliza hacia abajo para intentarlo de nuevo.',
+    empty: 'Ningún compañero está esperando un aval en este momento.',
+    requestDetail: 'Promoción {classYear} · {vouched} de {count} avales',
+    vouchLabel: 'Avalar a {name}, Promoción {classYear}',
+  },
+
+  permissions: {
+    notifications: {
+      title: 'Notificaciones',
+      reason: 'Para que te enteres de los eventos que te interesan, incluso con la app cerrada.',
+      uses: {
+        eventReminders: 'Recordatorios antes de los eventos para los que tienes entradas',
+        chatMessages: 'Mensajes nuevos en tus salas de chat',
+      },
+    },
+    location: {
+      title: 'Ubicación',
+      reason: 'Solo mientras usas la app, para mostrarte lo que hay a tu alrededor en el campus.',
+      uses: {
+        friendFinder: 'Buscar amigos durante el fin de semana de Homecoming',
+        campusMap: 'Tu posición en el mapa del campus',
+      },
+    },
+    camera: {
+      title: 'Cámara',
+      reason: 'Para los momentos en que decidas escanear o hacer una foto.',
+      uses: {
+        tickets: 'Escanear entradas en el acceso',
+        profilePhoto: 'Hacer tu foto de perfil',
+      },
+    },
+    contacts: {
+      title: 'Contactos',
+      reason: 'Para encontrar amigos que ya usan NYTHC. Tus contactos nunca se comparten.',
+      uses: {
+        findFriends: 'Encontrar compañeros y amigos que van a asistir',
+      },
+    },
+    states: {
+      on: 'Activado',
+      off: 'Desactivado',
+      notSet: 'Sin configurar',
+    },
+    stepAnnouncement: '{title}, paso {step} de {total}',
+    allowed: '{title}: permitido',
+    notAllowed: '{title}: no permitido',
+    title: 'Permisos',
+    stepCounter: 'Paso {step} de {total}',
+    allow: 'Permitir',
+    allowTitle: 'Permitir {title}',
+    notNow: 'Ahora no',
+    notNowLabel: 'Ahora no. Puedes activar {title} más tarde en Ajustes.',
+    summaryIntro: 'NYTHC funciona sin ninguno de estos permisos. Las funciones que necesiten uno te avisarán cuando esté desactivado.',
+    settings: 'Ajustes',
+    done: 'Listo',
+    continue: 'Continuar',
+    continueLabel: 'Continuar a NYTHC',
+  },
+
+  home: {
+    signOut: {
+      title: '¿Cerrar sesión?',
+      message: 'Tendrás que volver a iniciar sesión para acceder a tus entradas y chats.',
+      action: 'Cerrar sesión',
+      done: 'Cerrando sesión',
+    },
+    badges: {
+      alumni: 'Exalumno',
+      student: 'Estudiante de NSU',
+      guest: 'Invitado',
+      unverifiedStudent: 'Estudiante · Sin verificar',
+      withClassYear: '{role} · Promoción {classYear}',
+    },
+    welcome: 'Te damos la bienvenida',
+    welcomeName: 'Hola, {name}',
+    settingsLabel: 'Abrir ajustes',
+    notices: {
+      email: {
+        title: 'Confirma tu correo',
+        description: 'Tienes acceso de invitado hasta que verifiques {email}.',
+        label: 'Confirma tu correo para desbloquear las funciones de {role}. Ahora tienes acceso de invitado.',
+      },
+      student: {
+        title: 'Verifica tu estatus de estudiante',
+        description: 'Confirma tu correo de NSU para desbloquear precios y eventos para estudiantes.',
+        label: 'Verifica tu estatus de estudiante de NSU para desbloquear precios y eventos para estudiantes',
+      },
+      alumni: {
+        title: 'Verifica tu estatus de exalumno',
+        description: 'Conecta LinkedIn para desbloquear eventos para exalumnos y networking verificado.',
+        label: 'Verifica tu estatus de exalumno con LinkedIn para desbloquear eventos y networking',
+      },
+      upgrade: {
+        title: '¿Eres Spartan?',
+        description: 'Cambia a estudiante o exalumno y conserva todo lo que tienes en tu cuenta.',
+        label: 'Cambiar tu cuenta a estudiante o exalumno',
+      },
+      profileReview: {
+        title: 'Confirma tu promoción',
+        description: 'Revisa los títulos que encontramos en LinkedIn para unirte a los reencuentros de tu promoción.',
+        label: 'Confirma tus títulos y tu promoción desde LinkedIn',
+      },
+      reviewQueue: {
+        title: 'Cola de revisión',
+        description: 'Aprueba a los exalumnos que se verificaron con documentos.',
+        label: 'Abrir la cola de revisión de verificaciones de exalumnos',
+      },
+    },
+    classCard: {
+      title: 'Promoción {classYear}',
+      description: 'Aquí aparecerán tus reencuentros y compañeros de promoción.',
+      vouch: 'Avalar a compañeros',
+      vouchLabel: 'Avalar a miembros de la promoción {classYear}',
+    },
+    upcomingCard: {
+      title: 'Homecoming se acerca',
+      description: 'Aquí aparecerán los eventos, las entradas y las salas de chat de la comunidad.',
+    },
+    signOutLabel: 'Cerrar sesión',
+  },
+
+  accessRequired: {
+    announcement: '{title} está bloqueado. {prompt}',
+    roleNames: {
+      alumni: 'exalumnos',
+      student: 'estudiantes de NSU',
+      guest: 'invitados',
+    },
+    upgrade: {
+      title: 'Para {roles}',
+      guestDescription: 'Mejora tu cuenta para desbloquear esto. Todo lo que tienes ahora se queda en tu cuenta.',
+      otherRoleDescription: 'Esto no forma parte de tu tipo de cuenta.',
+      action: 'Mejorar cuenta',
+    },
+    verifyEmail: {
+      title: 'Confirma tu correo',
+      description: 'Verifica tu correo electrónico para desbloquear esto.',
+      action: 'Verificar correo',
+    },
+    inReview: {
+      title: 'Verificación en revisión',
+      description: 'Esto se desbloquea en cuanto un revisor apruebe tu verificación.',
+    },
+    verify: {
+      studentTitle: 'Verifica tu estatus de estudiante',
+      alumniTitle: 'Verifica tu estatus de exalumno',
+      lapsedDescription: 'Tu verificación ya no está activa. Vuelve a verificarte para desbloquear esto.',
+      description: 'Verifica tu cuenta para desbloquear esto.',
+      action: 'Verificar ahora',
+    },
+    reviewer: {
+      title: 'Solo revisores',
+      description: 'Solo los revisores de verificación pueden abrir esto.',
+    },
+  },
+
+  comingSoon: {
+    announcement: '{title} llegará pronto',
+    screens: {
+      EventDetail: {
+        title: 'Detalles del evento',
+        description: 'Aquí aparecerán los horarios, lugares y programas de cada evento de homecoming.',
+      },
+      TicketSelection: {
+        title: 'Entradas',
+        description: 'Elige tipos y cantidades de entradas para los eventos de homecoming.',
+      },
+      Checkout: {
+        title: 'Pago',
+        description: 'Paga tus entradas de forma segura sin salir de la app.',
+      },
+      Community: {
+        title: 'Comunidad',
+        description: 'Encuentra a los Spartans que asisten a homecoming y únete a la conversación.',
+      },
+      ChatRoom: {
+        title: 'Sala de chat',
+        description: 'Chatea con tu promoción y con otros Spartans.',
+        permissionNotice: 'Los mensajes seguirán aquí cuando abras la app, pero no recibirás avisos.',
+      },
+      FriendFinder: {
+        title: 'Buscar amigos',
+        description: 'Descubre qué amigos están cerca durante el fin de semana de homecoming.',
+        permissionNotice: 'Seguirás viendo qué amigos van, pero no quién está cerca.',
+      },
+      Profile: {
+        title: 'Perfil',
+        description: 'Edita el perfil que ven otros Spartans.',
+      },
+    },
+    title: 'Próximamente',
+  },
+
+  upgrade: {
+    options: {
+      student: {
+        description: 'Precios para estudiantes, grupos de actividades del campus y eventos solo para estudiantes.',
+        requirement: 'Confirma tu correo de NSU',
+        confirmMessage: 'A continuación confirmarás tu correo de NSU. Tus entradas, conexiones y eventos guardados se mantienen en tu cuenta.',
+      },
+      alumni: {
+        description: 'Eventos solo para exalumnos, networking verificado y acceso prioritario a entradas.',
+        requirement: 'Verifica tu formación en LinkedIn',
+        confirmMessage: 'A continuación verificarás tu formación en LinkedIn. Tus entradas, conexiones y eventos guardados se mantienen en tu cuenta.',
+      },
+    },
+    upgrading: 'Cambiando a {role}. Comenzando la verificación.',
+    errors: {
+      notAllowed: 'Tu cuenta ya tiene un perfil verificado.',
+      failed: 'No pudimos cambiar tu cuenta en este momento. Inténtalo de nuevo.',
+    },
+    confirm: {
+      title: '¿Cambiar a {role}?',
+      action: 'Continuar',
+    },
+    goingBack: 'Volviendo al inicio',
+    title: 'Mejora tu cuenta',
+    subtitle: 'Verifícate como estudiante o exalumno para disfrutar más de homecoming. Conservas la misma cuenta, así que no pierdes nada de lo que ya reservaste o conectaste.',
+    optionLabel: 'Cambiar a {role}. {description} Requisito: {requirement}.',
+    inProgress: 'Mejorando tu cuenta...',
+  },
+
+  settings: {
+    themes: {
+      system: 'Igual que el sistema',
+      dark: 'Oscuro',
+      light: 'Claro',
+      high_contrast: 'Alto contraste',
+    },
+    appearanceSet: 'Apariencia: {theme}',
+    startingVerification: 'Comenzando la verificación',
+    title: 'Ajustes',
+    account: {
+      title: 'Cuenta',
+      name: 'Nombre',
+      notSet: 'Sin definir',
+      email: 'Correo electrónico',
+      type: 'Tipo de cuenta',
+      roles: {
+        alumni: 'Exalumno de Norfolk State',
+        student: 'Estudiante de NSU',
+        guest: 'Invitado',
+      },
+    },
+    verificationSection: {
+      title: 'Verificación',
+      status: 'Estado',
+      method: 'Verificado con',
+      verifiedOn: 'Verificado el',
+      expiresOn: 'Vence el',
+      expiredOn: 'Venció el',
+      revokedOn: 'Revocado el',
+      vouchers: 'Avalado por',
+      reverify: 'Volver a verificar',
+      reverifyLabel: 'Volver a verificar ahora',
+      verify: 'Verificar ahora',
+      verifyLabel: 'Verificar tu estatus',
+      inReview: 'Un revisor está comprobando tus datos. Podrás volver a verificarte cuando decida.',
+      history: 'Historial',
+    },
+    appearance: 'Apariencia',
+    device: {
+      title: 'Dispositivo',
+      permissions: 'Permisos',
+      permissionsLabel: 'Gestionar los permisos de notificaciones, ubicación, cámara y contactos',
+      replayIntro: 'Ver la introducción de nuevo',
+      replayIntroLabel: 'Ver de nuevo la introducción de NYTHC',
+    },
+  },
+
+  reviewQueue: {
+    actions: {
+      approve: {
+        label: 'Aprobar',
+        confirmTitle: '¿Aprobar a {name}?',
+        confirmMessage: 'Obtendrá acceso de exalumno verificado de inmediato.',
+        done: '{name} aprobado',
+      },
+      request_info: {
+        label: 'Pedir información',
+        confirmTitle: '¿Pedir más información a {name}?',
+        confirmMessage: 'Se le pedirá que actualice su solicitud.',
+        done: 'Se pidió más información a {name}',
+      },
+      reject: {
+        label: 'Rechazar',
+        confirmTitle: '¿Rechazar a {name}?',
+        confirmMessage: 'Se le informará de que no se pudo confirmar su condición de exalumno.',
+        done: '{name} rechazado',
+      },
+    },
+    documentUnavailable: {
+      title: 'No se puede abrir',
+      message: 'Este documento no se puede abrir en este dispositivo.',
+    },
+    reviewFailed: {
+      title: 'Error en la revisión',
+      message: 'No se pudo actualizar esta solicitud. Puede que otra persona ya la haya revisado.',
+    },
+    noteRequired: {
+      title: 'Añade una nota',
+      message: 'Indica al solicitante qué más necesitas antes de devolvérsela.',
+    },
+    revoke: {
+      confirmTitle: '¿Revocar la verificación?',
+      confirmMessage: '{email} perderá el acceso verificado hasta que vuelva a verificarse.',
+      confirmAction: 'Revocar',
+      done: 'Verificación revocada para {email}',
+      accountNotFound: 'Ninguna cuenta de estudiante o exalumno usa este correo.',
+      failed: 'No se pudo revocar esta verificación. Inténtalo de nuevo.',
+      missingFields: 'Introduce el correo del miembro y un motivo que podrá ver.',
+    },
+    title: 'Cola de revisión',
+    waiting: {
+      one: '{count} solicitud de exalumno pendiente de revisión',
+      other: '{count} solicitudes de exalumnos pendientes de revisión',
+    },
+    empty: 'Todo al día. No hay solicitudes pendientes.',
+    submission: {
+      degree: 'Título',
+      graduated: 'Graduación',
+      source: 'Origen',
+      linkedIn: 'Coincidencia de LinkedIn',
+      school: 'Institución',
+      notListed: 'No indicado',
+      confidence: 'Confianza de la coincidencia',
+      openDocumentLabel: 'Abrir {type}: {name}',
+      notePlaceholder: 'Nota para el solicitante (obligatoria al pedir más información)',
+      noteLabel: 'Nota para el solicitante',
+    },
+    revokeSection: {
+      title: 'Revocar una verificación',
+      description: 'Para miembros cuya verificación resultó ser incorrecta. Conservan su cuenta y pueden volver a verificarse.',
+      emailPlaceholder: 'Correo del miembro',
+      emailLabel: 'Correo del miembro cuya verificación quieres revocar',
+      reasonPlaceholder: 'Motivo (lo verá el miembro)',
+      reasonLabel: 'Motivo para revocar la verificación',
+      action: 'Revocar verificación',
+      actionLabel: 'Revocar verificación',
+    },
+    loadFailed: 'No pudimos cargar la cola de revisión. Desliza hacia abajo para intentarlo de nuevo.',
+  },
+
+  permissionNotice: {
+    off: '{name} está desactivado',
+    turnOn: 'Activar {name}',
+    turnOnLabel: 'Activar {name}',
+    openSettings: 'Abrir Ajustes',
+    openSettingsLabel: 'Abrir Ajustes para activar {name}',
+  },
+
+  verificationBanner: {
+    in_review: {
+      title: 'Verificación en revisión',
+      description: 'Un revisor está comprobando tus datos. Las funciones para exalumnos se desbloquean cuando te aprueben.',
+    },
+    needs_info: {
+      title: 'Se necesita más información',
+      description: 'Un revisor necesita más datos antes de aprobar tu estatus de exalumno.',
+    },
+    expiring: {
+      title: 'Tu verificación vence pronto',
+      description: 'Vuelve a verificarte desde Ajustes para mantener tu acceso.',
+    },
+    expired: {
+      title: 'Verificación vencida',
+      description: 'Vuelve a verificarte desde Ajustes para recuperar tu acceso verificado.',
+    },
+    revoked: {
+      title: 'Verificación revocada',
+      description: 'Tu verificación fue retirada. Puedes volver a verificarte desde Ajustes.',
+    },
+    expiresIn: {
+      one: 'Vence en {count} día. {description}',
+      other: 'Vence en {count} días. {description}',
+    },
+  },
+
+  features: {
+    student_pricing: {
+      title: 'Precios para estudiantes',
+      deniedMessage: 'Solo los estudiantes de NSU verificados tienen precios para estudiantes',
+    },
+    student_events: {
+      title: 'Eventos para estudiantes',
+      deniedMessage: 'Solo los estudiantes de NSU verificados pueden unirse a eventos para estudiantes',
+    },
+    alumni_events: {
+      title: 'Eventos para exalumnos',
+      deniedMessage: 'Solo los exalumnos verificados pueden asistir a eventos y encuentros exclusivos',
+    },
+    alumni_chat: {
+      title: 'Salas de chat verificadas',
+      deniedMessage: 'Solo los exalumnos verificados pueden unirse a las salas de chat verificadas',
+    },
+    priority_ticketing: {
+      title: 'Venta anticipada de entradas',
+      deniedMessage: 'Solo los exalumnos verificados tienen venta anticipada de entradas',
+    },
+    vouching: {
+      title: 'Avalar a compañeros',
+      deniedMessage: 'Solo los exalumnos verificados pueden avalar a sus compañeros de promoción',
+    },
+    review_queue: {
+      title: 'Cola de revisión',
+      deniedMessage: 'Solo los revisores de verificación pueden hacer esto',
+    },
+  },
+
+  matchReasons: {
+    different_institution: '"{schoolName}" es otra institución',
+    official_name: 'El nombre de la institución coincide con Norfolk State ({schoolName})',
+    possible_name: 'El nombre de la institución "{schoolName}" podría referirse a Norfolk State',
+    completed: 'Terminado en {year}',
+    not_completed: 'Aún sin terminar (termina en {year})',
+    no_completion_date: 'No se indica fecha de finalización',
+    degree_listed: 'Título indicado ({degree})',
+    field_listed: 'Área de estudio indicada ({fieldOfStudy})',
+    no_education: 'No se encontraron estudios en Norfolk State en el perfil',
+  },
+};
@@ -0,0 +1,108 @@
+// NYTHC Localization
+// Message catalogs, plurals and locale-aware formatting for the device's language.
+// The language is read once at launch; changing the device language restarts the app on both platforms.
+
+import { getLocales } from 'expo-localization';
+import { en } from './en';
+import { es } from './es';
+
+// Types
+export type Language = 'en' | 'es';
+
+// `other` is required because every language has it; the rest depend on the language's plural rules
+export type PluralMessage = { other: string } & Partial<Record<Exclude<Intl.LDMLPluralRule, 'other'>, string>>;
+
+export type Catalog = typeof en;
+
+// Every message as a dotted path, e.g. 'auth.roles.alumni.title'
+type MessagePath<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string | PluralMessage
+    ? `${Prefix}${K}`
+    : MessagePath<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = MessagePath<Catalog>;
+
+export type MessageParams = Record<string, string | number>;
+
+// Constants
+const CATALOGS: Record<Language, Catalog> = { en, es };
+
+const DEFAULT_LANGUAGE: Language = 'en';
+
+// Helpers
+const isLanguage = (value: string | null | undefined): value is Language =>
+  value !== null && value !== undefined && value in CATALOGS;
+
+// The first of the device's preferred languages that has a catalog, so a Spanish speaker who also
+// lists French still gets Spanish
+const detectLocale = (): { language: Language; locale: string } => {
+  const preferred = getLocales().find(({ languageCode }) => isLanguage(languageCode));
+  if (!preferred || !isLanguage(preferred.languageCode)) {
+    return { language: DEFAULT_LANGUAGE, locale: 'en-US' };
+  }
+  return { language: preferred.languageCode, locale: preferred.languageTag };
+};
+
+export const { language, locale } = detectLocale();
+
+// Hermes doesn't ship Intl.PluralRules everywhere; English and Spanish only need one/other
+const pluralRules = typeof Intl.PluralRules === 'function' ? new Intl.PluralRules(locale) : null;
+
+const selectPlural = (message: PluralMessage, count: number) => {
+  const category = pluralRules ? pluralRules.select(count) : count === 1 ? 'one' : 'other';
+  return message[category] ?? message.other;
+};
+
+const lookup = (catalog: Catalog, key: MessageKey): string | PluralMessage | undefined => {
+  let value: unknown = catalog;
+  for (const part of key.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return typeof value === 'string' || (typeof value === 'object' && value !== null)
+    ? (value as string | PluralMessage)
+    : undefined;
+};
+
+// Numbers are inserted as-is so years and codes aren't grouped; format counts and amounts before passing them
+const interpolate = (message: string, params?: MessageParams) =>
+  params
+    ? message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match))
+    : message;
+
+// Translation
+// Plural messages pick their form from `params.count`. A message missing from the device's catalog falls back to
+// English; `npm run typecheck` already rejects a catalog with missing messages, so this only guards against drift.
+export const t = (key: MessageKey, params?: MessageParams): string => {
+  let message = lookup(CATALOGS[language], key);
+  if (message === undefined) {
+    if (__DEV__) console.warn(`Missing ${language} message: ${key}`);
+    message = lookup(CATALOGS[DEFAULT_LANGUAGE], key) ?? key;
+  }
+
+  const text = typeof message === 'string'
+    ? message
+    : selectPlural(message, typeof params?.count === 'number' ? params.count : 0);
+  return interpolate(text, params);
+};
+
+// Formatting
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+export const formatCurrency = (amount: number, currency = 'USD') =>
+  formatNumber(amount, { style: 'currency', currency });
+
+// Hermes has no Intl.ListFormat yet, so lists fall back to the catalog's own "and"
+export const formatList = (items: string[]) => {
+  if (typeof Intl.ListFormat === 'function') {
+    return new Intl.ListFormat(locale, { style: 'long', type: 'conjunction' }).format(items);
+  }
+  return items.length > 1
+    ? `${items.slice(0, -1).join(', ')} ${t('common.and')} ${items[items.length - 1]}`
+    : items.join('');
+};
+
+export const formatDate = (value: number | Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'long' }) =>
+  new Intl.DateTimeFormat(locale, options).format(value);
@@ -0,0 +1,92 @@
+// NYTHC Auth Navigator
+// The signed-out stack: welcome, role choice, sign in / sign up and password reset, opening at the first step
+// this device hasn't finished.
+
+import React, { useMemo } from 'react';
+import { createStackNavigator } from '@react-navigation/stack';
+import { RootStackParamList, RootStackScreenProps, UserSession } from '../types/navigation';
+import { useSession } from '../store/SessionProvider';
+import { useOnboarding } from '../store/OnboardingProvider';
+import { useTheme } from '../theme/ThemeProvider';
+import { createStackScreenOptions } from './config';
+import { getAuthStartRoute, getPendingVerification } from './onboarding';
+
+// Screens
+import WelcomeScreen from '../screens/WelcomeScreen';
+import RoleSelectionScreen from '../screens/RoleSelectionScreen';
+import AuthenticationScreen from '../screens/AuthenticationScreen';
+import PasswordResetScreen from '../screens/PasswordResetScreen';
+
+const Stack = createStackNavigator<RootStackParamList>();
+
+const AuthNavigator: React.FC = () => {
+  const { signIn } = useSession();
+  const { progress, completeIntro, chooseRole } = useOnboarding();
+  const theme = useTheme();
+  const screenOptions = useMemo(() => createStackScreenOptions(theme), [theme]);
+
+  // Signing in swaps this stack for the main one, opening at whichever verification onboarding still needs
+  const handleAuthenticated = (session: UserSession) => {
+    signIn(session, getPendingVerification(session.user));
+  };
+
+  return (
+    <Stack.Navigator initialRouteName={getAuthStartRoute(progress)} screenOptions={screenOptions}>
+      <Stack.Screen name="Welcome" initialParams={{ sinceVersion: progress.introVersion }}>
+        {({ navigation, route }: RootStackScreenProps<'Welcome'>) => {
+          const handleDone = () => {
+            completeIntro();
+            navigation.navigate('RoleSelection');
+          };
+
+          return <WelcomeScreen sinceVersion={route.params?.sinceVersion} onGetStarted={handleDone} onSkip={handleDone} />;
+        }}
+      </Stack.Screen>
+
+      {/* Later launches can open on either of these, so going back from them has to rebuild the earlier step */}
+      <Stack.Screen name="RoleSelection">
+        {({ navigation }: RootStackScreenProps<'RoleSelection'>) => (
+          <RoleSelectionScreen
+            onRoleSelected={(userRole) => {
+              chooseRole(userRole);
+              navigation.navigate('Authentication', { userRole });
+            }}
+            onBack={() => (navigation.canGoBack() ? navigation.goBack() : navigation.replace('Welcome'))}
+          />
+        )}
+      </Stack.Screen>
+
+      <Stack.Screen name="Authentication" initialParams={progress.role ? { userRole: progress.role } : undefined}>
+        {({ navigation, route }: RootStackScreenProps<'Authentication'>) => (
+          <AuthenticationScreen
+            userRole={route.params.userRole}
+            onAuthenticationComplete={handleAuthenticated}
+            onBack={() => (navigation.canGoBack() ? navigation.goBack() : navigation.replace('RoleSelection'))}
+            onForgotPassword={(email) => navigation.navigate('PasswordReset', { email })}
+          />
+        )}
+      </Stack.Screen>
+
+      <Stack.Screen name="PasswordReset">
+        {({ navigation, route }: RootStackScreenProps<'PasswordReset'>) => (
+          <PasswordResetScreen
+            initialEmail={route.params?.email}
+            resetToken={route.params?.token}
+            onComplete={() => {
+              // Links opened from outside the sign-in flow still need somewhere to sign in
+              const cameFromSignIn = navigation.getState().routes.some(({ name }) => name === 'Authentication');
+              if (cameFromSignIn) {
+                navigation.goBack();
+              } else {
+                navigation.replace('RoleSelection');
+              }
+            }}
+            onBack={() => navigation.goBack()}
+          />
+        )}
+      </Stack.Screen>
+    </Stack.Navigator>
+  );
+};
+
+export default AuthNavigator;
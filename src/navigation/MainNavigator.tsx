@@ -0,0 +1,401 @@
+// NYTHC Main Navigator
+// The signed-in stack: onboarding verification, Home and everything reached from it.
+
+import React, { useMemo } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { RouteProp } from '@react-navigation/native';
+import { createStackNavigator, StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList, RootStackScreenProps, UserSession } from '../types/navigation';
+import { useSession } from '../store/SessionProvider';
+import { useOnboarding } from '../store/OnboardingProvider';
+import { useTheme } from '../theme/ThemeProvider';
+import { t } from '../i18n';
+import { getRouteFeature } from '../utils/access';
+import { getNorfolkStateDegrees } from '../utils/alumniProfile';
+import { createStackScreenOptions } from './config';
+import { PENDING_VERIFICATION_ROUTES, getMainStartRoute, getRoleVerification } from './onboarding';
+
+// Screens
+import HomeScreen from '../screens/HomeScreen';
+import WelcomeScreen from '../screens/WelcomeScreen';
+import EmailVerificationScreen from '../screens/EmailVerificationScreen';
+import StudentVerificationScreen from '../screens/StudentVerificationScreen';
+import LinkedInVerificationScreen from '../screens/LinkedInVerificationScreen';
+import ManualVerificationScreen from '../screens/ManualVerificationScreen';
+import VouchRequestScreen from '../screens/VouchRequestScreen';
+import VouchForClassmatesScreen from '../screens/VouchForClassmatesScreen';
+import ProfileReviewScreen from '../screens/ProfileReviewScreen';
+import UpgradeRoleScreen from '../screens/UpgradeRoleScreen';
+import ReviewQueueScreen from '../screens/ReviewQueueScreen';
+import SettingsScreen from '../screens/SettingsScreen';
+import PasswordResetScreen from '../screens/PasswordResetScreen';
+import PermissionsScreen from '../screens/PermissionsScreen';
+import ComingSoonScreen, { ComingSoonScreenProps } from '../screens/ComingSoonScreen';
+import AccessRequiredScreen from '../screens/AccessRequiredScreen';
+import FeatureGate from '../components/FeatureGate';
+
+// Types
+interface MainNavigatorProps {
+  linkedInRedirectUrl?: string;
+  onLinkedInRedirectHandled: () => void;
+}
+
+type MainNavigation = StackNavigationProp<RootStackParamList>;
+
+type ComingSoonRoute =
+  | 'EventDetail'
+  | 'TicketSelection'
+  | 'Checkout'
+  | 'Community'
+  | 'ChatRoom'
+  | 'FriendFinder'
+  | 'Profile';
+
+// Constants
+const COMING_SOON_SCREENS: Record<ComingSoonRoute, {
+  title: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  permissionNotice?: ComingSoonScreenProps['permissionNotice'];
+}> = {
+  EventDetail: {
+    title: t('comingSoon.screens.EventDetail.title'),
+    description: t('comingSoon.screens.EventDetail.description'),
+    icon: 'calendar',
+  },
+  TicketSelection: {
+    title: t('comingSoon.screens.TicketSelection.title'),
+    description: t('comingSoon.screens.TicketSelection.description'),
+    icon: 'pricetag',
+  },
+  Checkout: {
+    title: t('comingSoon.screens.Checkout.title'),
+    description: t('comingSoon.screens.Checkout.description'),
+    icon: 'card',
+  },
+  Community: {
+    title: t('comingSoon.screens.Community.title'),
+    description: t('comingSoon.screens.Community.description'),
+    icon: 'people',
+  },
+  ChatRoom: {
+    title: t('comingSoon.screens.ChatRoom.title'),
+    description: t('comingSoon.screens.ChatRoom.description'),
+    icon: 'chatbubbles',
+    permissionNotice: {
+      permission: 'notifications',
+      message: t('comingSoon.screens.ChatRoom.permissionNotice'),
+    },
+  },
+  FriendFinder: {
+    title: t('comingSoon.screens.FriendFinder.title'),
+    description: t('comingSoon.screens.FriendFinder.description'),
+    icon: 'navigate',
+    permissionNotice: {
+      permission: 'location',
+      message: t('comingSoon.screens.FriendFinder.permissionNotice'),
+    },
+  },
+  Profile: {
+    title: t('comingSoon.screens.Profile.title'),
+    description: t('comingSoon.screens.Profile.description'),
+    icon: 'person-circle',
+  },
+};
+
+const Stack = createStackNavigator<RootStackParamList>();
+
+const MainNavigator: React.FC<MainNavigatorProps> = ({
+  linkedInRedirectUrl,
+  onLinkedInRedirectHandled,
+}) => {
+  const {
+    state: { session, linkedInProfile, pendingVerification },
+    updateSession,
+    signOut,
+  } = useSession();
+  const { progress, completeIntro, completePermissions } = useOnboarding();
+  const theme = useTheme();
+  const screenOptions = useMemo(() => createStackScreenOptions(theme), [theme]);
+
+  // Only mounted while signed in
+  if (!session) return null;
+  const user = session.user;
+
+  // Onboarding screens sit at the bottom of the stack, so finishing one moves on to the next step this
+  // device hasn't done yet, or Home
+  const leave = (navigation: MainNavigation, next = getMainStartRoute(progress)) => {
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+    } else if (next === 'Welcome') {
+      navigation.replace('Welcome', { sinceVersion: progress.introVersion });
+    } else {
+      navigation.replace(next);
+    }
+  };
+
+  // Onboarding continues with the account type's own verification once email is settled
+  const continueOnboarding = (currentSession: UserSession, navigation: MainNavigation) => {
+    const next = getRoleVerification(currentSession.user);
+    updateSession({ session: currentSession, linkedInProfile, pendingVerification: next });
+
+    if (next === 'linkedin') {
+      navigation.replace('LinkedInVerification');
+    } else if (next === 'student') {
+      navigation.replace('StudentVerification');
+    } else {
+      leave(navigation);
+    }
+  };
+
+  const updateAndLeave = (updatedSession: UserSession, navigation: MainNavigation) => {
+    updateSession({ session: updatedSession, linkedInProfile });
+    leave(navigation);
+  };
+
+  // Routes tied to a feature show the upgrade or verify prompt until the user qualifies, however they were reached
+  const guard = <Name extends keyof RootStackParamList>(
+    route: RouteProp<RootStackParamList, Name>,
+    navigation: MainNavigation,
+    screen: React.ReactElement
+  ) => {
+    const feature = getRouteFeature(route.name, route.params as RootStackParamList[Name]);
+    if (!feature) return screen;
+
+    return (
+      <FeatureGate
+        feature={feature}
+        fallback={(denial) => (
+          <AccessRequiredScreen
+            feature={feature}
+            denial={denial}
+            onUpgrade={() => navigation.navigate('UpgradeRole')}
+            onVerifyEmail={() => navigation.navigate('EmailVerification', { onboarding: false })}
+            onVerify={() => navigation.navigate(user.role === 'student' ? 'StudentVerification' : 'LinkedInVerification')}
+            onBack={() => leave(navigation)}
+          />
+        )}
+      >
+        {screen}
+      </FeatureGate>
+    );
+  };
+
+  const canReviewProfile = Boolean(
+    user.role === 'alumni' &&
+    !user.profile &&
+    linkedInProfile &&
+    getNorfolkStateDegrees(linkedInProfile).length > 0
+  );
+
+  return (
+    <Stack.Navigator
+      initialRouteName={
+        pendingVerification ? PENDING_VERIFICATION_ROUTES[pendingVerification] : getMainStartRoute(progress)
+      }
+      screenOptions={screenOptions}
+    >
+      <Stack.Screen name="Home">
+        {({ navigation }: RootStackScreenProps<'Home'>) => (
+          <HomeScreen
+            onVerifyEmail={() => navigation.navigate('EmailVerification', { onboarding: false })}
+            onVerifyStudent={() => navigation.navigate('StudentVerification')}
+            onVerifyAlumni={() => navigation.navigate('LinkedInVerification')}
+            onVerifyAlumniWithDocuments={() => navigation.navigate('ManualVerification')}
+            onOpenReviewQueue={() => navigation.navigate('ReviewQueue')}
+            onUpgradeRole={() => navigation.navigate('UpgradeRole')}
+            onReviewProfile={canReviewProfile ? () => navigation.navigate('ProfileReview') : undefined}
+            onOpenSettings={() => navigation.navigate('Settings')}
+            onVouchForClassmates={() => navigation.navigate('VouchForClassmates')}
+            onSignOut={signOut}
+          />
+        )}
+      </Stack.Screen>
+
+      {/* Verification */}
+      <Stack.Screen name="EmailVerification" initialParams={{ onboarding: true }}>
+        {({ navigation, route }: RootStackScreenProps<'EmailVerification'>) => {
+          const handleDone = (currentSession: UserSession) => {
+            if (route.params.onboarding) {
+              continueOnboarding(currentSession, navigation);
+            } else {
+              updateAndLeave(currentSession, navigation);
+            }
+          };
+
+          return (
+            <EmailVerificationScreen
+              session={session}
+              onVerified={handleDone}
+              onSkip={() => handleDone(session)}
+            />
+          );
+        }}
+      </Stack.Screen>
+
+      <Stack.Screen name="StudentVerification">
+        {({ navigation }: RootStackScreenProps<'StudentVerification'>) => (
+          <StudentVerificationScreen
+            session={session}
+            onVerified={(currentSession) => updateAndLeave(currentSession, navigation)}
+            onSkip={() => updateAndLeave(session, navigation)}
+          />
+        )}
+      </Stack.Screen>
+
+      <Stack.Screen name="LinkedInVerification">
+        {({ navigation }: RootStackScreenProps<'LinkedInVerification'>) => (
+          <LinkedInVerificationScreen
+            session={session}
+            onVerificationComplete={(verifiedSession, linkedInData) => {
+              onLinkedInRedirectHandled();
+
+              // The backend has already recorded the outcome (verified or in review), so its session replaces ours
+              updateSession({ session: verifiedSession, linkedInProfile: linkedInData });
+
+              // Degrees found on LinkedIn fill in the profile, but only once the user has confirmed them
+              if (getNorfolkStateDegrees(linkedInData).length > 0) {
+                navigation.replace('ProfileReview');
+              } else {
+                leave(navigation);
+              }
+            }}
+            onSkip={() => {
+              onLinkedInRedirectHandled();
+              updateAndLeave(session, navigation);
+            }}
+            onBack={() => leave(navigation)}
+            onManualVerification={() => navigation.replace('ManualVerification')}
+            onRequestVouches={() => navigation.replace('VouchRequest')}
+            redirectUrl={linkedInRedirectUrl}
+          />
+        )}
+      </Stack.Screen>
+
+      <Stack.Screen name="ManualVerification">
+        {({ navigation }: RootStackScreenProps<'ManualVerification'>) => (
+          <ManualVerificationScreen
+            session={session}
+            onSubmitted={(submittedSession) => updateAndLeave(submittedSession, navigation)}
+            onBack={() => leave(navigation)}
+          />
+        )}
+      </Stack.Screen>
+
+      <Stack.Screen name="VouchRequest">
+        {({ navigation }: RootStackScreenProps<'VouchRequest'>) => (
+          <VouchRequestScreen
+            session={session}
+            onVerified={(verifiedSession) => updateAndLeave(verifiedSession, navigation)}
+            onBack={() => leave(navigation)}
+          />
+        )}
+      </Stack.Screen>
+
+      <Stack.Screen name="ProfileReview">
+        {({ navigation }: RootStackScreenProps<'ProfileReview'>) => (
+          linkedInProfile ? (
+            <ProfileReviewScreen
+              session={session}
+              linkedInProfile={linkedInProfile}
+              onConfirmed={(updatedSession) => updateAndLeave(updatedSession, navigation)}
+              onSkip={() => leave(navigation)}
+            />
+          ) : null
+        )}
+      </Stack.Screen>
+
+      {/* Upgraded guests keep their account and go straight into verification for the new role */}
+      <Stack.Screen name="UpgradeRole">
+        {({ navigation }: RootStackScreenProps<'UpgradeRole'>) => (
+          <UpgradeRoleScreen
+            session={session}
+            onUpgraded={(upgradedSession) => continueOnboarding(upgradedSession, navigation)}
+            onBack={() => navigation.goBack()}
+          />
+        )}
+      </Stack.Screen>
+
+      {/* Account */}
+      <Stack.Screen name="Settings">
+        {({ navigation }: RootStackScreenProps<'Settings'>) => (
+          <SettingsScreen
+            // Re-verification uses the same flow as the first attempt, then returns here
+            onReverify={() => {
+              if (user.role === 'student') navigation.navigate('StudentVerification');
+              if (user.role === 'alumni') navigation.navigate('LinkedInVerification');
+            }}
+            onOpenPermissions={() => navigation.navigate('Permissions')}
+            onReplayIntro={() => navigation.navigate('Welcome', { sinceVersion: 0 })}
+            onBack={() => navigation.goBack()}
+          />
+        )}
+      </Stack.Screen>
+
+      {/* Onboarding steps, each also reachable from Settings */}
+      <Stack.Screen name="Welcome" initialParams={{ sinceVersion: progress.introVersion }}>
+        {({ navigation, route }: RootStackScreenProps<'Welcome'>) => {
+          const handleDone = () => {
+            completeIntro();
+            leave(navigation, progress.permissionsCompletedAt ? 'Home' : 'Permissions');
+          };
+
+          return <WelcomeScreen sinceVersion={route.params?.sinceVersion} onGetStarted={handleDone} onSkip={handleDone} />;
+        }}
+      </Stack.Screen>
+
+      <Stack.Screen name="Permissions">
+        {({ navigation }: RootStackScreenProps<'Permissions'>) => (
+          <PermissionsScreen
+            onDone={() => {
+              completePermissions();
+              leave(navigation, 'Home');
+            }}
+            onBack={navigation.canGoBack() ? () => navigation.goBack() : undefined}
+          />
+        )}
+      </Stack.Screen>
+
+      <Stack.Screen name="PasswordReset">
+        {({ navigation, route }: RootStackScreenProps<'PasswordReset'>) => (
+          <PasswordResetScreen
+            initialEmail={route.params?.email ?? user.email}
+            resetToken={route.params?.token}
+            onComplete={() => leave(navigation)}
+            onBack={() => leave(navigation)}
+          />
+        )}
+      </Stack.Screen>
+
+      {/* Alumni community */}
+      <Stack.Screen name="VouchForClassmates">
+        {({ navigation, route }: RootStackScreenProps<'VouchForClassmates'>) => guard(
+          route,
+          navigation,
+          <VouchForClassmatesScreen session={session} onBack={() => navigation.goBack()} />
+        )}
+      </Stack.Screen>
+
+      <Stack.Screen name="ReviewQueue">
+        {({ navigation, route }: RootStackScreenProps<'ReviewQueue'>) => guard(
+          route,
+          navigation,
+          <ReviewQueueScreen session={session} onBack={() => navigation.goBack()} />
+        )}
+      </Stack.Screen>
+
+      {/* Registered ahead of their screens so links and navigation to them already work */}
+      {(Object.keys(COMING_SOON_SCREENS) as ComingSoonRoute[]).map((name) => (
+        <Stack.Screen key={name} name={name}>
+          {({ navigation, route }: RootStackScreenProps<ComingSoonRoute>) => guard(
+            route,
+            navigation,
+            <ComingSoonScreen {...COMING_SOON_SCREENS[name]} onBack={() => leave(navigation)} />
+          )}
+        </Stack.Screen>
+      ))}
+    </Stack.Navigator>
+  );
+};
+
+export default MainNavigator;
@@ -0,0 +1,87 @@
+// NYTHC Root Navigator
+// Shows the splash screen while the session and content load, then the auth or main stack, and routes incoming links.
+
+import React, { useEffect, useState } from 'react';
+import { CommonActions, NavigationContainer } from '@react-navigation/native';
+import * as Linking from 'expo-linking';
+import { useSession } from '../store/SessionProvider';
+import { useOnboarding } from '../store/OnboardingProvider';
+import { useOnboardingContent } from '../store/ContentProvider';
+import { useThemeSettings } from '../theme/ThemeProvider';
+import { getOAuthRedirect } from '../utils/deepLinks';
+import { navigationRef } from './config';
+import { LinkTarget, parseLink, requiresSignIn } from './linking';
+import AuthNavigator from './AuthNavigator';
+import MainNavigator from './MainNavigator';
+import SplashScreen from '../screens/SplashScreen';
+
+const RootNavigator: React.FC = () => {
+  const { state } = useSession();
+  const { session, pendingVerification } = state;
+  const { isLoaded: isOnboardingLoaded } = useOnboarding();
+  const { isLoaded: isThemeLoaded } = useThemeSettings();
+  const { isLoaded: isContentLoaded } = useOnboardingContent();
+
+  // State
+  const [isSplashComplete, setIsSplashComplete] = useState(false);
+  const [isNavigationReady, setIsNavigationReady] = useState(false);
+  const [linkedInRedirectUrl, setLinkedInRedirectUrl] = useState<string | undefined>();
+  const [pendingLink, setPendingLink] = useState<LinkTarget | undefined>();
+
+  // LinkedIn redirects are handed to the verification screen, which matches them to the saved attempt.
+  // Every other link is held until it can be opened.
+  const incomingUrl = Linking.useURL();
+  useEffect(() => {
+    if (!incomingUrl) return;
+
+    if (getOAuthRedirect(incomingUrl)) {
+      setLinkedInRedirectUrl(incomingUrl);
+      return;
+    }
+
+    const target = parseLink(incomingUrl);
+    if (target) setPendingLink(target);
+  }, [incomingUrl]);
+
+  // Links can arrive during the splash screen, before there is a navigator to open them in,
+  // and links into the main app wait for sign-in and any verification step, so they don't skip past it
+  useEffect(() => {
+    if (!pendingLink || !isNavigationReady) return;
+    if (requiresSignIn(pendingLink) && (!session || pendingVerification)) return;
+
+    navigationRef.dispatch(CommonActions.navigate(pendingLink));
+    setPendingLink(undefined);
+  }, [pendingLink, isNavigationReady, session, pendingVerification]);
+
+  // A redirect belongs to the account that started the attempt
+  useEffect(() => {
+    if (!session) setLinkedInRedirectUrl(undefined);
+  }, [session]);
+
+  // The splash screen runs before navigation mounts, while the saved session, onboarding progress and theme are restored
+  // and the latest onboarding content is fetched
+  if (!isSplashComplete) {
+    return (
+      <SplashScreen
+        isReady={state.status !== 'restoring' && isOnboardingLoaded && isThemeLoaded && isContentLoaded}
+        onComplete={() => setIsSplashComplete(true)}
+      />
+    );
+  }
+
+  return (
+    <NavigationContainer ref={navigationRef} onReady={() => setIsNavigationReady(true)}>
+      {session ? (
+        <MainNavigator
+          key={session.user.id}
+          linkedInRedirectUrl={linkedInRedirectUrl}
+          onLinkedInRedirectHandled={() => setLinkedInRedirectUrl(undefined)}
+        />
+      ) : (
+        <AuthNavigator />
+      )}
+    </NavigationContainer>
+  );
+};
+
+export default RootNavigator;
@@ -0,0 +1,69 @@
+import { LINK_PREFIXES, parseLink, requiresSignIn } from '../linking';
+
+// Development builds open through Expo Go, whose links carry the dev server address
+jest.mock('expo-linking', () => ({
+  createURL: (path: string) => `exp://192.168.1.20:8081/--${path}`,
+}));
+
+describe('LINK_PREFIXES', () => {
+  it('includes the app scheme, both website hosts and the development URL', () => {
+    expect(LINK_PREFIXES).toEqual(expect.arrayContaining([
+      'nythc://',
+      'https://nythc.com',
+      'https://www.nythc.com',
+      'exp://192.168.1.20:8081/--/',
+    ]));
+  });
+
+  it('is ordered longest first', () => {
+    const lengths = LINK_PREFIXES.map(prefix => prefix.length);
+    expect(lengths).toEqual([...lengths].sort((a, b) => b - a));
+  });
+});
+
+describe('parseLink', () => {
+  it.each([
+    ['nythc://event/1', { name: 'EventDetail', params: { eventId: '1' } }],
+    ['nythc://event/1/tickets', { name: 'TicketSelection', params: { eventId: '1' } }],
+    ['nythc://event/1?audience=alumni', { name: 'EventDetail', params: { eventId: '1', audience: 'alumni' } }],
+    ['nythc://chat/r', { name: 'ChatRoom', params: { roomId: 'r' } }],
+    ['nythc://checkout/e/vip', { name: 'Checkout', params: { eventId: 'e', ticketType: 'vip' } }],
+    ['nythc://reset-password?token=abc123', { name: 'PasswordReset', params: { token: 'abc123' } }],
+    ['nythc://vouch', { name: 'VouchForClassmates', params: undefined }],
+    ['https://nythc.com/event/42', { name: 'EventDetail', params: { eventId: '42' } }],
+    ['https://nythc.com/reset-password?token=abc123', { name: 'PasswordReset', params: { token: 'abc123' } }],
+    ['https://www.nythc.com/chat/alumni-2015', { name: 'ChatRoom', params: { roomId: 'alumni-2015' } }],
+    ['https://www.nythc.com/checkout/e/general', { name: 'Checkout', params: { eventId: 'e', ticketType: 'general' } }],
+    ['exp://192.168.1.20:8081/--/event/7', { name: 'EventDetail', params: { eventId: '7' } }],
+    ['exp://192.168.1.20:8081/--/settings', { name: 'Settings', params: undefined }],
+  ])('routes %s', (url, expected) => {
+    expect(parseLink(url)).toEqual(expected);
+  });
+
+  it.each([
+    // OAuth redirects are handled by the LinkedIn verification screen, not routed
+    'nythc://oauth?code=abc&state=xyz',
+    'https://nythc.com/oauth?code=abc&state=xyz',
+    'nythc://unknown/path',
+    'nythc://',
+    'https://example.com/event/1',
+    'https://nythc.com.evil.example/event/1',
+  ])('ignores %s', (url) => {
+    expect(parseLink(url)).toBeNull();
+  });
+});
+
+describe('requiresSignIn', () => {
+  it('lets password reset links open while signed out', () => {
+    expect(requiresSignIn({ name: 'PasswordReset', params: { token: 'abc123' } })).toBe(false);
+  });
+
+  it.each([
+    { name: 'EventDetail', params: { eventId: '1' } },
+    { name: 'ChatRoom', params: { roomId: 'r' } },
+    { name: 'Checkout', params: { eventId: 'e', ticketType: 'vip' } },
+    { name: 'VouchForClassmates', params: undefined },
+  ] as const)('holds $name links until sign-in', (target) => {
+    expect(requiresSignIn(target)).toBe(true);
+  });
+});
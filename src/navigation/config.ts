@@ -0,0 +1,15 @@
+// NYTHC Navigation Config
+// Shared between the auth and main stacks, and reachable from outside them for deep links.
+
+import { createNavigationContainerRef } from '@react-navigation/native';
+import { StackNavigationOptions } from '@react-navigation/stack';
+import { RootStackParamList } from '../types/navigation';
+import { Theme } from '../theme/themes';
+
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+// Every screen draws its own header on the theme's background
+export const createStackScreenOptions = ({ colors }: Theme): StackNavigationOptions => ({
+  headerShown: false,
+  cardStyle: { backgroundColor: colors.background },
+});
@@ -0,0 +1,56 @@
+// NYTHC Deep Linking
+// Maps nythc:// and https://nythc.com links onto app routes. Links into the main app wait until the user has signed in.
+
+import { getStateFromPath, PathConfigMap } from '@react-navigation/native';
+import * as Linking from 'expo-linking';
+import { RootStackParamList } from '../types/navigation';
+
+// Types
+export type LinkTarget = {
+  [Name in keyof RootStackParamList]: { name: Name; params: RootStackParamList[Name] };
+}[keyof RootStackParamList];
+
+// Constants
+// Longest first, so nythc:/// is stripped before nythc://
+export const LINK_PREFIXES = [
+  Linking.createURL('/'),
+  'nythc://',
+  'https://www.nythc.com',
+  'https://nythc.com',
+].sort((a, b) => b.length - a.length);
+
+export const LINK_SCREENS: PathConfigMap<RootStackParamList> = {
+  Home: 'home',
+  EventDetail: 'event/:eventId',
+  TicketSelection: 'event/:eventId/tickets',
+  Checkout: 'checkout/:eventId/:ticketType',
+  Community: 'community',
+  ChatRoom: 'chat/:roomId',
+  FriendFinder: 'friends',
+  Profile: 'profile',
+  Settings: 'settings',
+  VouchForClassmates: 'vouch',
+  PasswordReset: 'reset-password',
+};
+
+// Everything else belongs to the main stack, which only exists once someone is signed in
+const SIGNED_OUT_ROUTES: (keyof RootStackParamList)[] = ['PasswordReset'];
+
+// Helpers
+const getLinkPath = (url: string): string | null => {
+  const prefix = LINK_PREFIXES.find(candidate => url.startsWith(candidate));
+  return prefix === undefined ? null : url.slice(prefix.length);
+};
+
+// Returns the route a link opens, or null for links the app doesn't route (including OAuth redirects)
+export const parseLink = (url: string): LinkTarget | null => {
+  const path = getLinkPath(url);
+  if (path === null) return null;
+
+  const route = getStateFromPath<RootStackParamList>(path, { screens: LINK_SCREENS })?.routes[0];
+  if (!route || !(route.name in LINK_SCREENS)) return null;
+
+  return { name: route.name, params: route.params } as LinkTarget;
+};
+
+export const requiresSignIn = (target: LinkTarget) => !SIGNED_OUT_ROUTES.includes(target.name);
@@ -0,0 +1,44 @@
+// NYTHC Onboarding
+// Decides where each stack opens: the intro and sign-in steps before an account exists, then verification,
+// new intro slides and the permissions step before a signed-in user reaches Home.
+
+import { AuthUser, RootStackParamList } from '../types/navigation';
+import { StoredSession } from '../services/sessionStorage';
+import { OnboardingProgress } from '../services/onboardingStorage';
+
+// Types
+export type PendingVerification = NonNullable<StoredSession['pendingVerification']>;
+
+// Constants
+// Bump when slides are added to the intro; users who saw an older version are shown just the new ones once
+export const INTRO_VERSION = 1;
+
+export const PENDING_VERIFICATION_ROUTES: Record<PendingVerification, Extract<keyof RootStackParamList, `${string}Verification`>> = {
+  email: 'EmailVerification',
+  student: 'StudentVerification',
+  linkedin: 'LinkedInVerification',
+};
+
+// The check that comes with the account type: LinkedIn for alumni, NSU email for students, nothing for guests
+export const getRoleVerification = (user: AuthUser): PendingVerification | undefined => {
+  if (!user.needsVerification) return undefined;
+  if (user.role === 'alumni') return 'linkedin';
+  if (user.role === 'student') return 'student';
+  return undefined;
+};
+
+// New accounts confirm their email before the rest of onboarding
+export const getPendingVerification = (user: AuthUser): PendingVerification | undefined =>
+  user.emailVerified ? getRoleVerification(user) : 'email';
+
+// Returning users skip the intro, and anyone who already chose an account type goes straight to sign in
+export const getAuthStartRoute = (progress: OnboardingProgress): 'Welcome' | 'RoleSelection' | 'Authentication' => {
+  if (progress.introVersion < INTRO_VERSION) return 'Welcome';
+  return progress.role ? 'Authentication' : 'RoleSelection';
+};
+
+// Where a signed-in user lands once no verification is pending
+export const getMainStartRoute = (progress: OnboardingProgress): 'Welcome' | 'Permissions' | 'Home' => {
+  if (progress.introVersion > 0 && progress.introVersion < INTRO_VERSION) return 'Welcome';
+  return progress.permissionsCompletedAt ? 'Home' : 'Permissions';
+};
@@ -0,0 +1,232 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  AccessibilityInfo,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { AuthUser } from '../types/navigation';
+import { useCurrentUser } from '../store/SessionProvider';
+import { AccessDenial, FEATURE_REQUIREMENTS, Feature } from '../utils/access';
+import { formatList, t } from '../i18n';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import AppText from '../components/AppText';
+
+// Types
+interface AccessRequiredScreenProps {
+  feature: Feature;
+  denial: AccessDenial;
+  onUpgrade: () => void;
+  onVerifyEmail: () => void;
+  onVerify: () => void;
+  onBack: () => void;
+}
+
+interface AccessPrompt {
+  icon: keyof typeof Ionicons.glyphMap;
+  title: string;
+  description: string;
+  action?: { label: string; onPress: () => void };
+}
+
+// Helpers
+const getPrompt = (
+  user: AuthUser,
+  denial: AccessDenial,
+  { onUpgrade, onVerifyEmail, onVerify }: Pick<AccessRequiredScreenProps, 'onUpgrade' | 'onVerifyEmail' | 'onVerify'>
+): AccessPrompt => {
+  switch (denial.reason) {
+    case 'upgrade':
+      return {
+        icon: 'arrow-up-circle',
+        title: t('accessRequired.upgrade.title', {
+          roles: formatList(denial.roles.map(role => t(`accessRequired.roleNames.${role}`))),
+        }),
+        description: user.role === 'guest'
+          ? t('accessRequired.upgrade.guestDescription')
+          : t('accessRequired.upgrade.otherRoleDescription'),
+        action: user.role === 'guest' ? { label: t('accessRequired.upgrade.action'), onPress: onUpgrade } : undefined,
+      };
+
+    case 'verify_email':
+      return {
+        icon: 'mail',
+        title: t('accessRequired.verifyEmail.title'),
+        description: t('accessRequired.verifyEmail.description'),
+        action: { label: t('accessRequired.verifyEmail.action'), onPress: onVerifyEmail },
+      };
+
+    case 'verify':
+      // Reviewers are already looking at it, so there's nothing more to do yet
+      if (user.verificationStatus === 'in_review') {
+        return {
+          icon: 'time',
+          title: t('accessRequired.inReview.title'),
+          description: t('accessRequired.inReview.description'),
+        };
+      }
+      return {
+        icon: 'shield-checkmark',
+        title: user.role === 'student'
+          ? t('accessRequired.verify.studentTitle')
+          : t('accessRequired.verify.alumniTitle'),
+        description: user.verificationStatus === 'expired' || user.verificationStatus === 'revoked'
+          ? t('accessRequired.verify.lapsedDescription')
+          : t('accessRequired.verify.description'),
+        action: { label: t('accessRequired.verify.action'), onPress: onVerify },
+      };
+
+    case 'reviewer':
+      return {
+        icon: 'lock-closed',
+        title: t('accessRequired.reviewer.title'),
+        description: t('accessRequired.reviewer.description'),
+      };
+  }
+};
+
+// Main Access Required Screen Component
+// Shown in place of a gated route, telling the user what they need to do to open it
+const AccessRequiredScreen: React.FC<AccessRequiredScreenProps> = ({
+  feature,
+  denial,
+  onUpgrade,
+  onVerifyEmail,
+  onVerify,
+  onBack,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const user = useCurrentUser();
+  const { title } = FEATURE_REQUIREMENTS[feature];
+  const prompt = getPrompt(user, denial, { onUpgrade, onVerifyEmail, onVerify });
+
+  // Effects
+  useEffect(() => {
+    AccessibilityInfo.announceForAccessibility(t('accessRequired.announcement', { title, prompt: prompt.title }));
+  }, [title, prompt.title]);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={onBack}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.goBack')}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+
+        <AppText style={styles.headerTitle} accessibilityRole="header">{title}</AppText>
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.iconContainer}>
+          <Ionicons name={prompt.icon} size={40} color={colors.primary} />
+        </View>
+        <AppText style={styles.title}>{prompt.title}</AppText>
+        <AppText style={styles.description}>{prompt.description}</AppText>
+      </View>
+
+      {/* Action Bar */}
+      {prompt.action && (
+        <View style={[styles.actionBar, { paddingBottom: insets.bottom + 24 }]}>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={prompt.action.onPress}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={prompt.action.label}
+          >
+            <AppText style={styles.primaryButtonText}>{prompt.action.label}</AppText>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+    paddingBottom: 80,
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    ...typography.h2,
+    color: colors.textPrimary,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  description: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  actionBar: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary,
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+});
+
+export default AccessRequiredScreen;
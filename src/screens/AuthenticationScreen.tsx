@@ -1,15 +1,12 @@
 import React, { useState, useCallback } from 'react';
 import {
   View,
-  Text,
   StyleSheet,
   TouchableOpacity,
   ScrollView,
-  TextInput,
   KeyboardAvoidingView,
   Platform,
   AccessibilityInfo,
-  Alert,
 } from 'react-native';
 import Animated, {
   useSharedValue,
@@ -21,22 +18,28 @@ import Animated, {
 import { LinearGradient } from 'expo-linear-gradient';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { UserRole } from '../types/navigation';
+import { UserRole, UserSession } from '../types/navigation';
+import { AuthError, AuthService, SocialProvider } from '../services/authService';
+import { SocialAuthorizer } from '../services/socialAuth';
+import {
+  authService as defaultAuthService,
+  socialAuthorizer as defaultSocialAuthorizer,
+} from '../services';
+import { validateEmail, validatePassword } from '../utils/validation';
+import FormInput from '../components/FormInput';
+import AppText from '../components/AppText';
+import { t } from '../i18n';
+import { Theme, ThemeColors } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
 
 // Types
 interface AuthenticationScreenProps {
   userRole: UserRole;
-  onAuthenticationComplete: (user: AuthUser) => void;
+  onAuthenticationComplete: (session: UserSession) => void;
   onBack: () => void;
-}
-
-interface AuthUser {
-  id: string;
-  email: string;
-  role: UserRole;
-  firstName?: string;
-  lastName?: string;
-  needsVerification: boolean;
+  onForgotPassword: (email: string) => void;
+  authService?: AuthService;
+  socialAuthorizer?: SocialAuthorizer;
 }
 
 interface FormData {
@@ -57,125 +60,86 @@ interface FormErrors {
 }
 
 // Constants
-const COLORS = {
-  primaryGold: '#D6C238',
-  secondaryTeal: '#5C9F8A',
-  backgroundDark: '#000100',
-  surfaceDark: '#1A1A1B',
-  surfaceElevated: '#252526',
-  textPrimary: '#FEFEFE',
-  textSecondary: '#B8B8B8',
-  textTertiary: '#878787',
-  error: '#F44336',
-  success: '#4CAF50',
-  guestColor: '#666666',
-};
-
 // Role-specific configuration
-const getRoleConfig = (role: UserRole) => {
+const getRoleConfig = (role: UserRole, colors: ThemeColors) => {
   switch (role) {
     case 'alumni':
       return {
-        color: COLORS.primaryGold,
-        title: 'Welcome Back, Spartan',
-        subtitle: 'Access your exclusive alumni experience',
-        notice: 'LinkedIn verification will be required after sign-up',
-        buttonText: 'Continue as Alumni',
+        color: colors.primary,
+        title: t('auth.roles.alumni.title'),
+        subtitle: t('auth.roles.alumni.subtitle'),
+        notice: t('auth.roles.alumni.notice'),
+        buttonText: t('auth.roles.alumni.buttonText'),
       };
     case 'student':
       return {
-        color: COLORS.secondaryTeal,
-        title: 'Hey there, Spartan!',
-        subtitle: 'Join your fellow Norfolk State students',
-        notice: 'Use your NSU email for the best experience',
-        buttonText: 'Continue as Student',
+        color: colors.secondary,
+        title: t('auth.roles.student.title'),
+        subtitle: t('auth.roles.student.subtitle'),
+        notice: t('auth.roles.student.notice'),
+        buttonText: t('auth.roles.student.buttonText'),
       };
     case 'guest':
       return {
-        color: COLORS.guestColor,
-        title: 'Welcome to NYTHC',
-        subtitle: 'Explore Norfolk State homecoming',
-        notice: 'Upgrade to Alumni or Student for exclusive features',
-        buttonText: 'Continue as Guest',
+        color: colors.guestBadge,
+        title: t('auth.roles.guest.title'),
+        subtitle: t('auth.roles.guest.subtitle'),
+        notice: t('auth.roles.guest.notice'),
+        buttonText: t('auth.roles.guest.buttonText'),
       };
   }
 };
 
-// Form Input Component
-const FormInput: React.FC<{
-  label: string;
-  value: string;
-  onChangeText: (text: string) => void;
-  placeholder?: string;
-  secureTextEntry?: boolean;
-  keyboardType?: 'default' | 'email-address';
-  autoCapitalize?: 'none' | 'words' | 'sentences';
-  error?: string;
-  required?: boolean;
-}> = ({
-  label,
-  value,
-  onChangeText,
-  placeholder,
-  secureTextEntry = false,
-  keyboardType = 'default',
-  autoCapitalize = 'none',
-  error,
-  required = false,
-}) => {
-  const [isFocused, setIsFocused] = useState(false);
+// Map backend auth errors onto the form fields they belong to
+const getFormErrorsForAuthError = (error: unknown): FormErrors => {
+  if (!(error instanceof AuthError)) {
+    return { general: t('auth.errors.failed') };
+  }
 
-  return (
-    <View style={styles.inputContainer}>
-      <Text style={styles.inputLabel}>
-        {label}
-        {required && <Text style={styles.requiredMark}> *</Text>}
-      </Text>
-      <TextInput
-        style={[
-          styles.textInput,
-          isFocused && styles.textInputFocused,
-          error && styles.textInputError,
-        ]}
-        value={value}
-        onChangeText={onChangeText}
-        placeholder={placeholder}
-        placeholderTextColor={COLORS.textTertiary}
-        secureTextEntry={secureTextEntry}
-        keyboardType={keyboardType}
-        autoCapitalize={autoCapitalize}
-        autoCorrect={false}
-        onFocus={() => setIsFocused(true)}
-        onBlur={() => setIsFocused(false)}
-        accessible={true}
-        accessibilityLabel={label}
-        accessibilityRequired={required}
-      />
-      {error && (
-        <Text style={styles.errorText} accessible={true} accessibilityRole="alert">
-          {error}
-        </Text>
-      )}
-    </View>
-  );
+  switch (error.code) {
+    case 'invalid_credentials':
+      return { password: t('auth.errors.invalidCredentials') };
+    case 'email_taken':
+      return { email: t('auth.errors.emailTaken') };
+    case 'account_locked': {
+      const minutes = error.retryAfterSeconds ? Math.ceil(error.retryAfterSeconds / 60) : undefined;
+      return {
+        general: minutes
+          ? t('auth.errors.lockedFor', { count: minutes })
+          : t('auth.errors.locked'),
+      };
+    }
+    case 'weak_password':
+      return { password: t('auth.errors.weakPassword') };
+    case 'provider_error':
+      return { general: t('auth.errors.providerError') };
+    case 'provider_email_unverified':
+      return { general: t('auth.errors.providerEmailUnverified') };
+    case 'network_error':
+      return { general: t('common.networkError') };
+    default:
+      return { general: t('auth.errors.failed') };
+  }
 };
 
 // Social Login Button Component
 const SocialLoginButton: React.FC<{
-  provider: 'google' | 'apple';
+  provider: SocialProvider;
   onPress: () => void;
   disabled?: boolean;
-}> = ({ provider, onPress, disabled = false }) => {
+  isConnecting?: boolean;
+}> = ({ provider, onPress, disabled = false, isConnecting = false }) => {
+  const styles = useThemedStyles(createStyles);
   const config = {
     google: {
       icon: 'logo-google' as keyof typeof Ionicons.glyphMap,
-      text: 'Continue with Google',
+      text: t('auth.social.continueWith', { provider: 'Google' }),
       backgroundColor: '#FFFFFF',
       textColor: '#000000',
     },
     apple: {
       icon: 'logo-apple' as keyof typeof Ionicons.glyphMap,
-      text: 'Continue with Apple',
+      text: t('auth.social.continueWith', { provider: 'Apple' }),
       backgroundColor: '#000000',
       textColor: '#FFFFFF',
     },
@@ -193,15 +157,16 @@ const SocialLoginButton: React.FC<{
       accessible={true}
       accessibilityRole="button"
       accessibilityLabel={config[provider].text}
+      accessibilityState={{ disabled, busy: isConnecting }}
     >
       <Ionicons
         name={config[provider].icon}
         size={20}
         color={config[provider].textColor}
       />
-      <Text style={[styles.socialButtonText, { color: config[provider].textColor }]}>
-        {config[provider].text}
-      </Text>
+      <AppText style={[styles.socialButtonText, { color: config[provider].textColor }]}>
+        {isConnecting ? t('common.connecting') : config[provider].text}
+      </AppText>
     </TouchableOpacity>
   );
 };
@@ -211,14 +176,20 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
   userRole,
   onAuthenticationComplete,
   onBack,
+  onForgotPassword,
+  authService = defaultAuthService,
+  socialAuthorizer = defaultSocialAuthorizer,
 }) => {
   // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
-  const roleConfig = getRoleConfig(userRole);
+  const roleConfig = getRoleConfig(userRole, colors);
 
   // State
   const [mode, setMode] = useState<'signin' | 'signup'>('signin');
   const [isLoading, setIsLoading] = useState(false);
+  const [socialProvider, setSocialProvider] = useState<SocialProvider | null>(null);
   const [formData, setFormData] = useState<FormData>({
     email: '',
     password: '',
@@ -236,22 +207,6 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
     transform: [{ translateX: interpolate(tabIndicator.value, [0, 1], [0, 120]) }],
   }));
 
-  // Validation functions
-  const validateEmail = (email: string): string | undefined => {
-    if (!email) return 'Email is required';
-    if (!/\S+@\S+\.\S+/.test(email)) return 'Please enter a valid email';
-    return undefined;
-  };
-
-  const validatePassword = (password: string): string | undefined => {
-    if (!password) return 'Password is required';
-    if (password.length < 8) return 'Password must be at least 8 characters';
-    if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(password)) {
-      return 'Password must contain uppercase, lowercase, and number';
-    }
-    return undefined;
-  };
-
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {};
 
@@ -265,11 +220,11 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
 
     // Sign-up specific validations
     if (mode === 'signup') {
-      if (!formData.firstName?.trim()) newErrors.firstName = 'First name is required';
-      if (!formData.lastName?.trim()) newErrors.lastName = 'Last name is required';
+      if (!formData.firstName?.trim()) newErrors.firstName = t('validation.firstNameRequired');
+      if (!formData.lastName?.trim()) newErrors.lastName = t('validation.lastNameRequired');
 
       if (formData.password !== formData.confirmPassword) {
-        newErrors.confirmPassword = 'Passwords do not match';
+        newErrors.confirmPassword = t('validation.passwordsDoNotMatch');
       }
     }
 
@@ -285,7 +240,7 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
     setErrors({});
     tabIndicator.value = withSpring(newMode === 'signin' ? 0 : 1);
 
-    AccessibilityInfo.announceForAccessibility(`Switched to ${newMode === 'signin' ? 'sign in' : 'sign up'} mode`);
+    AccessibilityInfo.announceForAccessibility(t(newMode === 'signin' ? 'auth.switchedToSignIn' : 'auth.switchedToSignUp'));
   }, [mode, tabIndicator]);
 
   const handleInputChange = useCallback((field: keyof FormData, value: string) => {
@@ -303,42 +258,79 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
     setErrors({});
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      const session = mode === 'signin'
+        ? await authService.signIn({
+            email: formData.email,
+            password: formData.password,
+            role: userRole,
+          })
+        : await authService.signUp({
+            email: formData.email,
+            password: formData.password,
+            role: userRole,
+            firstName: formData.firstName || '',
+            lastName: formData.lastName || '',
+          });
+
+      AccessibilityInfo.announceForAccessibility(t(mode === 'signin' ? 'auth.signedIn' : 'auth.accountCreated'));
+
+      onAuthenticationComplete(session);
+    } catch (error) {
+      const authErrors = getFormErrorsForAuthError(error);
+      setErrors(authErrors);
+      AccessibilityInfo.announceForAccessibility(
+        Object.values(authErrors).find(Boolean) || t('auth.errors.failed')
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [formData, mode, userRole, validateForm, onAuthenticationComplete, authService]);
+
+  const handleSocialLogin = useCallback(async (provider: SocialProvider) => {
+    const providerName = provider === 'google' ? 'Google' : 'Apple';
+
+    setIsLoading(true);
+    setSocialProvider(provider);
+    setErrors({});
+
+    try {
+      const authorization = await socialAuthorizer(provider);
+      if (!authorization) {
+        AccessibilityInfo.announceForAccessibility(t('auth.social.cancelled', { provider: providerName }));
+        return;
+      }
 
-      // Mock user creation
-      const user: AuthUser = {
-        id: `user_${Date.now()}`,
-        email: formData.email,
+      const { session, linkedToExistingAccount } = await authService.signInWithProvider({
+        ...authorization,
         role: userRole,
-        firstName: formData.firstName,
-        lastName: formData.lastName,
-        needsVerification: userRole === 'alumni', // Alumni need LinkedIn verification
-      };
+      });
 
       AccessibilityInfo.announceForAccessibility(
-        `${mode === 'signin' ? 'Signed in' : 'Account created'} successfully`
+        linkedToExistingAccount
+          ? t('auth.social.linked', { provider: providerName })
+          : t('auth.social.signedIn', { provider: providerName })
       );
 
-      onAuthenticationComplete(user);
+      onAuthenticationComplete(session);
     } catch (error) {
-      setErrors({ general: 'Authentication failed. Please try again.' });
-      AccessibilityInfo.announceForAccessibility('Authentication failed');
+      const authErrors = getFormErrorsForAuthError(error);
+      setErrors({ general: Object.values(authErrors).find(Boolean) });
+      AccessibilityInfo.announceForAccessibility(
+        Object.values(authErrors).find(Boolean) || t('auth.errors.failed')
+      );
     } finally {
       setIsLoading(false);
+      setSocialProvider(null);
     }
-  }, [formData, mode, userRole, validateForm, onAuthenticationComplete]);
+  }, [userRole, onAuthenticationComplete, authService, socialAuthorizer]);
 
-  const handleSocialLogin = useCallback((provider: 'google' | 'apple') => {
-    Alert.alert(
-      'Social Login',
-      `${provider.charAt(0).toUpperCase() + provider.slice(1)} login will be implemented in a future update.`,
-      [{ text: 'OK' }]
-    );
-  }, []);
+  const handleForgotPassword = useCallback(() => {
+    AccessibilityInfo.announceForAccessibility(t('auth.openingPasswordReset'));
+    onForgotPassword(formData.email);
+  }, [formData.email, onForgotPassword]);
 
   const handleBack = useCallback(() => {
-    AccessibilityInfo.announceForAccessibility('Going back to role selection');
+    AccessibilityInfo.announceForAccessibility(t('auth.goingBack'));
     onBack();
   }, [onBack]);
 
@@ -348,7 +340,7 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
     >
       <LinearGradient
-        colors={[COLORS.backgroundDark, COLORS.surfaceDark]}
+        colors={[colors.background, colors.surface]}
         style={StyleSheet.absoluteFill}
       />
 
@@ -359,18 +351,18 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
           onPress={handleBack}
           accessible={true}
           accessibilityRole="button"
-          accessibilityLabel="Go back to role selection"
+          accessibilityLabel={t('auth.backLabel')}
         >
-          <Ionicons name="arrow-back" size={24} color={COLORS.textPrimary} />
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
         </TouchableOpacity>
 
         <View style={styles.headerContent}>
-          <Text style={styles.headerTitle}>{roleConfig.title}</Text>
-          <Text style={styles.headerSubtitle}>{roleConfig.subtitle}</Text>
+          <AppText style={styles.headerTitle}>{roleConfig.title}</AppText>
+          <AppText style={styles.headerSubtitle}>{roleConfig.subtitle}</AppText>
           <View style={[styles.roleIndicator, { backgroundColor: `${roleConfig.color}20` }]}>
-            <Text style={[styles.roleText, { color: roleConfig.color }]}>
-              {userRole.charAt(0).toUpperCase() + userRole.slice(1)}
-            </Text>
+            <AppText style={[styles.roleText, { color: roleConfig.color }]}>
+              {t(`auth.roleBadges.${userRole}`)}
+            </AppText>
           </View>
         </View>
       </View>
@@ -387,9 +379,9 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
               accessibilityRole="tab"
               accessibilityState={{ selected: mode === 'signin' }}
             >
-              <Text style={[styles.tabText, mode === 'signin' && { color: COLORS.backgroundDark }]}>
-                Sign In
-              </Text>
+              <AppText style={[styles.tabText, mode === 'signin' && { color: colors.onPrimary }]}>
+                {t('auth.modes.signin')}
+              </AppText>
             </TouchableOpacity>
             <TouchableOpacity
               style={styles.tab}
@@ -398,9 +390,9 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
               accessibilityRole="tab"
               accessibilityState={{ selected: mode === 'signup' }}
             >
-              <Text style={[styles.tabText, mode === 'signup' && { color: COLORS.backgroundDark }]}>
-                Sign Up
-              </Text>
+              <AppText style={[styles.tabText, mode === 'signup' && { color: colors.onPrimary }]}>
+                {t('auth.modes.signup')}
+              </AppText>
             </TouchableOpacity>
           </View>
         </View>
@@ -412,10 +404,10 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
             <View style={styles.nameRow}>
               <View style={styles.nameField}>
                 <FormInput
-                  label="First Name"
+                  label={t('fields.firstName.label')}
                   value={formData.firstName || ''}
                   onChangeText={(value) => handleInputChange('firstName', value)}
-                  placeholder="Enter first name"
+                  placeholder={t('fields.firstName.placeholder')}
                   autoCapitalize="words"
                   error={errors.firstName}
                   required
@@ -423,10 +415,10 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
               </View>
               <View style={styles.nameField}>
                 <FormInput
-                  label="Last Name"
+                  label={t('fields.lastName.label')}
                   value={formData.lastName || ''}
                   onChangeText={(value) => handleInputChange('lastName', value)}
-                  placeholder="Enter last name"
+                  placeholder={t('fields.lastName.placeholder')}
                   autoCapitalize="words"
                   error={errors.lastName}
                   required
@@ -437,10 +429,10 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
 
           {/* Email */}
           <FormInput
-            label="Email Address"
+            label={t('fields.email.label')}
             value={formData.email}
             onChangeText={(value) => handleInputChange('email', value)}
-            placeholder="Enter your email"
+            placeholder={t('fields.email.placeholder')}
             keyboardType="email-address"
             error={errors.email}
             required
@@ -448,10 +440,10 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
 
           {/* Password */}
           <FormInput
-            label="Password"
+            label={t('fields.password.label')}
             value={formData.password}
             onChangeText={(value) => handleInputChange('password', value)}
-            placeholder="Enter your password"
+            placeholder={t('fields.password.placeholder')}
             secureTextEntry
             error={errors.password}
             required
@@ -460,10 +452,10 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
           {/* Confirm Password (Sign-up only) */}
           {mode === 'signup' && (
             <FormInput
-              label="Confirm Password"
+              label={t('fields.confirmPassword.label')}
               value={formData.confirmPassword || ''}
               onChangeText={(value) => handleInputChange('confirmPassword', value)}
-              placeholder="Confirm your password"
+              placeholder={t('fields.confirmPassword.placeholder')}
               secureTextEntry
               error={errors.confirmPassword}
               required
@@ -471,13 +463,13 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
           )}
 
           {/* Role-specific notice */}
-          <Text style={styles.notice}>{roleConfig.notice}</Text>
+          <AppText style={styles.notice}>{roleConfig.notice}</AppText>
 
           {/* General error */}
           {errors.general && (
-            <Text style={styles.generalError} accessible={true} accessibilityRole="alert">
+            <AppText style={styles.generalError} accessible={true} accessibilityRole="alert">
               {errors.general}
-            </Text>
+            </AppText>
           )}
 
           {/* Authentication Button */}
@@ -493,14 +485,16 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
             accessibilityRole="button"
             accessibilityLabel={roleConfig.buttonText}
           >
-            <Text style={[styles.authButtonText, { color: userRole === 'guest' ? COLORS.textPrimary : COLORS.backgroundDark }]}>
-              {isLoading ? 'Please wait...' : roleConfig.buttonText}
-            </Text>
+            <AppText
+              style={[styles.authButtonText, { color: userRole === 'guest' ? colors.textPrimary : colors.onPrimary }]}
+            >
+              {isLoading ? t('common.pleaseWait') : roleConfig.buttonText}
+            </AppText>
             {!isLoading && (
               <Ionicons
                 name="arrow-forward"
                 size={20}
-                color={userRole === 'guest' ? COLORS.textPrimary : COLORS.backgroundDark}
+                color={userRole === 'guest' ? colors.textPrimary : colors.onPrimary}
               />
             )}
           </TouchableOpacity>
@@ -508,7 +502,7 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
           {/* Social Login */}
           <View style={styles.divider}>
             <View style={styles.dividerLine} />
-            <Text style={styles.dividerText}>or</Text>
+            <AppText style={styles.dividerText}>{t('auth.or')}</AppText>
             <View style={styles.dividerLine} />
           </View>
 
@@ -517,18 +511,27 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
               provider="google"
               onPress={() => handleSocialLogin('google')}
               disabled={isLoading}
+              isConnecting={socialProvider === 'google'}
             />
             <SocialLoginButton
               provider="apple"
               onPress={() => handleSocialLogin('apple')}
               disabled={isLoading}
+              isConnecting={socialProvider === 'apple'}
             />
           </View>
 
           {/* Footer Links */}
           {mode === 'signin' && (
-            <TouchableOpacity style={styles.forgotPassword}>
-              <Text style={styles.linkText}>Forgot your password?</Text>
+            <TouchableOpacity
+              style={styles.forgotPassword}
+              onPress={handleForgotPassword}
+              disabled={isLoading}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={t('auth.forgotPasswordLabel')}
+            >
+              <AppText style={styles.linkText}>{t('auth.forgotPassword')}</AppText>
             </TouchableOpacity>
           )}
         </View>
@@ -538,10 +541,10 @@ const AuthenticationScreen: React.FC<AuthenticationScreenProps> = ({
 };
 
 // Styles
-const styles = StyleSheet.create({
+const createStyles = ({ colors, typography, isLargeText }: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.backgroundDark,
+    backgroundColor: colors.background,
   },
   header: {
     paddingHorizontal: 24,
@@ -551,7 +554,7 @@ const styles = StyleSheet.create({
     width: 48,
     height: 48,
     borderRadius: 24,
-    backgroundColor: COLORS.surfaceElevated,
+    backgroundColor: colors.surfaceElevated,
     alignItems: 'center',
     justifyContent: 'center',
     marginBottom: 24,
@@ -560,15 +563,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   headerTitle: {
-    fontSize: 28,
+    ...typography.h1,
     fontWeight: '700',
-    color: COLORS.textPrimary,
+    color: colors.textPrimary,
     textAlign: 'center',
     marginBottom: 8,
   },
   headerSubtitle: {
-    fontSize: 16,
-    color: COLORS.textSecondary,
+    ...typography.body,
+    color: colors.textSecondary,
     textAlign: 'center',
     marginBottom: 16,
   },
@@ -578,7 +581,7 @@ const styles = StyleSheet.create({
     borderRadius: 20,
   },
   roleText: {
-    fontSize: 14,
+    ...typography.caption,
     fontWeight: '600',
   },
   content: {
@@ -590,7 +593,7 @@ const styles = StyleSheet.create({
   },
   tabBackground: {
     flexDirection: 'row',
-    backgroundColor: COLORS.surfaceElevated,
+    backgroundColor: colors.surfaceElevated,
     borderRadius: 12,
     padding: 4,
     position: 'relative',
@@ -609,67 +612,32 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   },
   tabText: {
-    fontSize: 16,
+    ...typography.bodyMedium,
     fontWeight: '600',
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   formContainer: {
     paddingBottom: 40,
   },
+  // Side by side, the name fields leave too little room for large text
   nameRow: {
-    flexDirection: 'row',
-    gap: 16,
-  },
-  nameField: {
-    flex: 1,
-  },
-  inputContainer: {
-    marginBottom: 20,
-  },
-  inputLabel: {
-    fontSize: 16,
-    fontWeight: '500',
-    color: COLORS.textPrimary,
-    marginBottom: 8,
-  },
-  requiredMark: {
-    color: COLORS.error,
-  },
-  textInput: {
-    backgroundColor: COLORS.surfaceDark,
-    borderWidth: 2,
-    borderColor: 'transparent',
-    borderRadius: 12,
-    paddingHorizontal: 16,
-    paddingVertical: 16,
-    fontSize: 16,
-    color: COLORS.textPrimary,
-  },
-  textInputFocused: {
-    borderColor: COLORS.primaryGold,
-  },
-  textInputError: {
-    borderColor: COLORS.error,
-  },
-  errorText: {
-    fontSize: 14,
-    color: COLORS.error,
-    marginTop: 4,
+    flexDirection: isLargeText ? 'column' : 'row',
+    gap: isLargeText ? 0 : 16,
   },
+  nameField: isLargeText ? {} : { flex: 1 },
   notice: {
-    fontSize: 14,
-    color: COLORS.textTertiary,
+    ...typography.caption,
+    color: colors.textTertiary,
     textAlign: 'center',
     marginBottom: 24,
-    lineHeight: 20,
   },
   generalError: {
-    fontSize: 14,
-    color: COLORS.error,
+    ...typography.caption,
+    color: colors.error,
     textAlign: 'center',
     marginBottom: 20,
     padding: 12,
-    backgroundColor: `${COLORS.error}20`,
+    backgroundColor: `${colors.error}20`,
     borderRadius: 8,
   },
   authButton: {
@@ -685,7 +653,7 @@ const styles = StyleSheet.create({
     opacity: 0.6,
   },
   authButtonText: {
-    fontSize: 18,
+    ...typography.h3,
     fontWeight: '600',
   },
   divider: {
@@ -696,12 +664,12 @@ const styles = StyleSheet.create({
   dividerLine: {
     flex: 1,
     height: 1,
-    backgroundColor: COLORS.textTertiary,
+    backgroundColor: colors.textTertiary,
   },
   dividerText: {
+    ...typography.caption,
     paddingHorizontal: 16,
-    fontSize: 14,
-    color: COLORS.textTertiary,
+    color: colors.textTertiary,
   },
   socialContainer: {
     gap: 12,
@@ -714,22 +682,21 @@ const styles = StyleSheet.create({
     paddingVertical: 14,
     borderRadius: 12,
     borderWidth: 1,
-    borderColor: COLORS.textTertiary,
+    borderColor: colors.textTertiary,
     gap: 12,
   },
   socialButtonDisabled: {
     opacity: 0.5,
   },
   socialButtonText: {
-    fontSize: 16,
-    fontWeight: '500',
+    ...typography.bodyMedium,
   },
   forgotPassword: {
     alignItems: 'center',
   },
   linkText: {
-    fontSize: 16,
-    color: COLORS.primaryGold,
+    ...typography.body,
+    color: colors.primary,
     textDecorationLine: 'underline',
   },
 });
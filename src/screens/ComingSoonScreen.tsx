@@ -0,0 +1,142 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  AccessibilityInfo,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { AppPermission } from '../services/permissions';
+import PermissionNotice from '../components/PermissionNotice';
+import AppText from '../components/AppText';
+import { t } from '../i18n';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+
+// Types
+export interface ComingSoonScreenProps {
+  title: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  // A device permission the finished screen will rely on, flagged now so it can be turned on ahead of time
+  permissionNotice?: { permission: AppPermission; message: string };
+  onBack: () => void;
+}
+
+// Constants
+// Main Coming Soon Screen Component
+// Stands in for routes that are registered but not built yet, so links to them already work
+const ComingSoonScreen: React.FC<ComingSoonScreenProps> = ({
+  title,
+  description,
+  icon,
+  permissionNotice,
+  onBack,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+
+  // Effects
+  useEffect(() => {
+    AccessibilityInfo.announceForAccessibility(t('comingSoon.announcement', { title }));
+  }, [title]);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={onBack}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.goBack')}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+
+        <AppText style={styles.headerTitle} accessibilityRole="header">{title}</AppText>
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.iconContainer}>
+          <Ionicons name={icon} size={40} color={colors.primary} />
+        </View>
+        <AppText style={styles.title}>{t('comingSoon.title')}</AppText>
+        <AppText style={styles.description}>{description}</AppText>
+      </View>
+
+      {permissionNotice && (
+        <View style={[styles.notice, { paddingBottom: insets.bottom + 24 }]}>
+          <PermissionNotice {...permissionNotice} />
+        </View>
+      )}
+    </View>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+    paddingBottom: 80,
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    ...typography.h2,
+    color: colors.textPrimary,
+    marginBottom: 8,
+  },
+  description: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  notice: {
+    paddingHorizontal: 24,
+  },
+});
+
+export default ComingSoonScreen;
@@ -0,0 +1,356 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  AccessibilityInfo,
+  Alert,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { UserSession } from '../types/navigation';
+import { AuthError, AuthService, CodeDelivery } from '../services/authService';
+import { authService as defaultAuthService } from '../services';
+import { validateVerificationCode, VERIFICATION_CODE_LENGTH } from '../utils/validation';
+import FormInput from '../components/FormInput';
+import AppText from '../components/AppText';
+import { t } from '../i18n';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+
+// Types
+interface EmailVerificationScreenProps {
+  session: UserSession;
+  onVerified: (session: UserSession) => void;
+  onSkip: () => void;
+  authService?: AuthService;
+}
+
+// Constants
+// Main Email Verification Screen Component
+const EmailVerificationScreen: React.FC<EmailVerificationScreenProps> = ({
+  session,
+  onVerified,
+  onSkip,
+  authService = defaultAuthService,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+
+  // State
+  const [code, setCode] = useState('');
+  const [delivery, setDelivery] = useState<CodeDelivery | null>(null);
+  const [attemptsRemaining, setAttemptsRemaining] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [codeError, setCodeError] = useState<string | undefined>();
+  const [generalError, setGeneralError] = useState<string | undefined>();
+
+  const resendSeconds = delivery ? Math.max(0, Math.ceil((delivery.resendAvailableAt - now) / 1000)) : 0;
+  const isOutOfAttempts = delivery !== null && attemptsRemaining <= 0;
+
+  // Helpers
+  const showGeneralError = (message: string) => {
+    setGeneralError(message);
+    AccessibilityInfo.announceForAccessibility(message);
+  };
+
+  const sendCode = useCallback(async () => {
+    setIsSending(true);
+    setGeneralError(undefined);
+    try {
+      const newDelivery = await authService.sendEmailVerificationCode(session);
+      setDelivery(newDelivery);
+      setAttemptsRemaining(newDelivery.attemptsRemaining);
+      setNow(Date.now());
+      setCode('');
+      setCodeError(undefined);
+      AccessibilityInfo.announceForAccessibility(t('verification.codeSent', { email: session.user.email }));
+    } catch (error) {
+      if (error instanceof AuthError && error.code === 'rate_limited') {
+        showGeneralError(t('verification.resendRateLimited', { count: error.retryAfterSeconds ?? 30 }));
+      } else {
+        showGeneralError(t('verification.sendFailed'));
+      }
+    } finally {
+      setIsSending(false);
+    }
+  }, [authService, session]);
+
+  // Effects
+  useEffect(() => {
+    sendCode();
+  }, []);
+
+  // Tick once a second while the resend cooldown is running
+  useEffect(() => {
+    if (resendSeconds <= 0) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [resendSeconds > 0]);
+
+  // Handlers
+  const handleVerify = useCallback(async () => {
+    const validationError = validateVerificationCode(code);
+    if (validationError) {
+      setCodeError(validationError);
+      return;
+    }
+
+    setIsVerifying(true);
+    setGeneralError(undefined);
+    try {
+      const verifiedSession = await authService.verifyEmail(session, code);
+      AccessibilityInfo.announceForAccessibility(t('emailVerification.verified'));
+      onVerified(verifiedSession);
+    } catch (error) {
+      if (error instanceof AuthError && error.code === 'invalid_code') {
+        const remaining = attemptsRemaining - 1;
+        setAttemptsRemaining(remaining);
+        const message = remaining > 0
+          ? t('verification.incorrectCode', { count: remaining })
+          : t('verification.tooManyAttempts');
+        setCodeError(message);
+        AccessibilityInfo.announceForAccessibility(message);
+      } else if (error instanceof AuthError && error.code === 'code_expired') {
+        setAttemptsRemaining(0);
+        showGeneralError(t('verification.codeExpired'));
+      } else {
+        showGeneralError(t('emailVerification.failed'));
+      }
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [authService, session, code, attemptsRemaining, onVerified]);
+
+  const handleSkip = useCallback(() => {
+    Alert.alert(
+      t('verification.skip.title'),
+      t('emailVerification.skip.message'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('verification.skip.action'),
+          onPress: () => {
+            AccessibilityInfo.announceForAccessibility(t('emailVerification.skip.done'));
+            onSkip();
+          },
+        },
+      ]
+    );
+  }, [onSkip]);
+
+  const isBusy = isSending || isVerifying;
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 40 }]}>
+        <View style={styles.headerContent}>
+          <View style={styles.iconContainer}>
+            <Ionicons name="mail-unread" size={32} color={colors.primary} />
+          </View>
+          <AppText style={styles.headerTitle} accessibilityRole="header">{t('emailVerification.title')}</AppText>
+          <AppText style={styles.headerSubtitle}>
+            {t('emailVerification.codeSentTo', { length: VERIFICATION_CODE_LENGTH })}{'\n'}
+            <Text style={styles.emailText}>{session.user.email}</Text>
+          </AppText>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.formContainer}>
+          <FormInput
+            label={t('fields.verificationCode.label')}
+            value={code}
+            onChangeText={(value) => {
+              setCode(value.replace(/\D/g, ''));
+              setCodeError(undefined);
+            }}
+            placeholder={'0'.repeat(VERIFICATION_CODE_LENGTH)}
+            keyboardType="number-pad"
+            maxLength={VERIFICATION_CODE_LENGTH}
+            error={codeError}
+            required
+          />
+
+          {/* General error */}
+          {generalError && (
+            <AppText style={styles.generalError} accessible={true} accessibilityRole="alert">
+              {generalError}
+            </AppText>
+          )}
+
+          {/* Verify Button */}
+          <TouchableOpacity
+            style={[
+              styles.primaryButton,
+              (isBusy || isOutOfAttempts || !delivery) && styles.primaryButtonDisabled,
+            ]}
+            onPress={handleVerify}
+            disabled={isBusy || isOutOfAttempts || !delivery}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('emailVerification.verifyLabel')}
+            accessibilityState={{ disabled: isBusy || isOutOfAttempts || !delivery }}
+          >
+            <AppText style={styles.primaryButtonText}>
+              {isVerifying ? t('verification.verifying') : t('emailVerification.verifyAction')}
+            </AppText>
+            {!isVerifying && (
+              <Ionicons name="arrow-forward" size={20} color={colors.onPrimary} />
+            )}
+          </TouchableOpacity>
+
+          {/* Resend */}
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={sendCode}
+            disabled={isBusy || resendSeconds > 0}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityState={{ disabled: isBusy || resendSeconds > 0 }}
+          >
+            <AppText style={[styles.linkText, (isBusy || resendSeconds > 0) && styles.linkTextDisabled]}>
+              {isSending
+                ? t('verification.sendingCode')
+                : resendSeconds > 0
+                  ? t('verification.resendCodeIn', { seconds: resendSeconds })
+                  : t('verification.resendCode')}
+            </AppText>
+          </TouchableOpacity>
+
+          {/* Skip Option */}
+          <TouchableOpacity
+            style={styles.skipButton}
+            onPress={handleSkip}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('emailVerification.skipLabel')}
+          >
+            <AppText style={styles.skipButtonText}>{t('verification.verifyLater')}</AppText>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 32,
+  },
+  headerContent: {
+    alignItems: 'center',
+  },
+  iconContainer: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: colors.surfaceElevated,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  emailText: {
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  formContainer: {
+    paddingBottom: 40,
+  },
+  generalError: {
+    ...typography.caption,
+    color: colors.error,
+    textAlign: 'center',
+    marginBottom: 20,
+    padding: 12,
+    backgroundColor: `${colors.error}20`,
+    borderRadius: 8,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary,
+    paddingVertical: 16,
+    borderRadius: 12,
+    marginBottom: 24,
+    gap: 8,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginBottom: 16,
+  },
+  linkText: {
+    ...typography.body,
+    color: colors.primary,
+    textDecorationLine: 'underline',
+  },
+  linkTextDisabled: {
+    color: colors.textTertiary,
+    textDecorationLine: 'none',
+  },
+  skipButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  skipButtonText: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textDecorationLine: 'underline',
+  },
+});
+
+export default EmailVerificationScreen;
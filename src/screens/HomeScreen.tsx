@@ -0,0 +1,435 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  AccessibilityInfo,
+  Alert,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { UserRole } from '../types/navigation';
+import { useCurrentUser } from '../store/SessionProvider';
+import { canAccess, hasLimitedAccess, isVerifiedStudent } from '../utils/access';
+import { formatDegree, getClassYear } from '../utils/alumniProfile';
+import VerificationStatusBanner from '../components/VerificationStatusBanner';
+import AppText from '../components/AppText';
+import { t } from '../i18n';
+import { Theme, ThemeColors } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+
+// Types
+interface HomeScreenProps {
+  onVerifyEmail: () => void;
+  onVerifyStudent: () => void;
+  onVerifyAlumni: () => void;
+  onVerifyAlumniWithDocuments: () => void;
+  onOpenReviewQueue: () => void;
+  onUpgradeRole: () => void;
+  onReviewProfile?: () => void;
+  onOpenSettings: () => void;
+  onVouchForClassmates: () => void;
+  onSignOut: () => void;
+}
+
+// Constants
+const ROLE_BADGES: Record<UserRole, { label: string; color: keyof ThemeColors }> = {
+  alumni: { label: t('home.badges.alumni'), color: 'primary' },
+  student: { label: t('home.badges.student'), color: 'secondary' },
+  guest: { label: t('home.badges.guest'), color: 'guestBadge' },
+};
+
+// Main Home Screen Component
+const HomeScreen: React.FC<HomeScreenProps> = ({
+  onVerifyEmail,
+  onVerifyStudent,
+  onVerifyAlumni,
+  onVerifyAlumniWithDocuments,
+  onOpenReviewQueue,
+  onUpgradeRole,
+  onReviewProfile,
+  onOpenSettings,
+  onVouchForClassmates,
+  onSignOut,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const user = useCurrentUser();
+  const isUnverifiedStudent = user.role === 'student' && !isVerifiedStudent(user);
+  const isAwaitingReview = user.verificationStatus === 'in_review' || user.verificationStatus === 'needs_info';
+  const isUnverifiedAlumni = user.role === 'alumni' && user.needsVerification && !isAwaitingReview;
+  const classYear = getClassYear(user);
+  const roleBadge = ROLE_BADGES[user.role];
+  const badge = isUnverifiedStudent
+    ? { label: t('home.badges.unverifiedStudent'), color: 'textTertiary' as const }
+    : user.role === 'alumni' && classYear
+      ? { ...roleBadge, label: t('home.badges.withClassYear', { role: roleBadge.label, classYear }) }
+      : roleBadge;
+  const badgeColor = colors[badge.color];
+
+  // Handlers
+  const handleSignOut = useCallback(() => {
+    Alert.alert(
+      t('home.signOut.title'),
+      t('home.signOut.message'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('home.signOut.action'),
+          style: 'destructive',
+          onPress: () => {
+            AccessibilityInfo.announceForAccessibility(t('home.signOut.done'));
+            onSignOut();
+          },
+        },
+      ]
+    );
+  }, [onSignOut]);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TouchableOpacity
+          style={styles.settingsButton}
+          onPress={onOpenSettings}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('home.settingsLabel')}
+        >
+          <Ionicons name="settings-outline" size={22} color={colors.textPrimary} />
+        </TouchableOpacity>
+
+        <View style={styles.headerContent}>
+          <AppText style={styles.headerTitle} accessibilityRole="header">
+            {user.firstName ? t('home.welcomeName', { name: user.firstName }) : t('home.welcome')}
+          </AppText>
+          <View style={[styles.roleIndicator, { backgroundColor: `${badgeColor}20` }]}>
+            <AppText style={[styles.roleText, { color: badgeColor }]}>{badge.label}</AppText>
+          </View>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Manual review status */}
+        <VerificationStatusBanner
+          user={user}
+          onPress={
+            user.verificationStatus === 'needs_info'
+              ? onVerifyAlumniWithDocuments
+              : user.verificationStatus === 'in_review' ? undefined : onOpenSettings
+          }
+        />
+
+        {/* Email verification reminder */}
+        {hasLimitedAccess(user) && (
+          <TouchableOpacity
+            style={styles.noticeCard}
+            onPress={onVerifyEmail}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('home.notices.email.label', { role: badge.label })}
+          >
+            <Ionicons name="mail-unread" size={24} color={colors.warning} />
+            <View style={styles.noticeContent}>
+              <AppText style={styles.noticeTitle}>{t('home.notices.email.title')}</AppText>
+              <AppText style={styles.noticeDescription}>
+                {t('home.notices.email.description', { email: user.email })}
+              </AppText>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+          </TouchableOpacity>
+        )}
+
+        {/* Student verification reminder */}
+        {isUnverifiedStudent && !hasLimitedAccess(user) && (
+          <TouchableOpacity
+            style={[styles.noticeCard, styles.studentNoticeCard]}
+            onPress={onVerifyStudent}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('home.notices.student.label')}
+          >
+            <Ionicons name="library" size={24} color={colors.secondary} />
+            <View style={styles.noticeContent}>
+              <AppText style={styles.noticeTitle}>{t('home.notices.student.title')}</AppText>
+              <AppText style={styles.noticeDescription}>
+                {t('home.notices.student.description')}
+              </AppText>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+          </TouchableOpacity>
+        )}
+
+        {/* Alumni verification reminder */}
+        {isUnverifiedAlumni && !hasLimitedAccess(user) && (
+          <TouchableOpacity
+            style={[styles.noticeCard, styles.alumniNoticeCard]}
+            onPress={onVerifyAlumni}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('home.notices.alumni.label')}
+          >
+            <Ionicons name="school" size={24} color={colors.primary} />
+            <View style={styles.noticeContent}>
+              <AppText style={styles.noticeTitle}>{t('home.notices.alumni.title')}</AppText>
+              <AppText style={styles.noticeDescription}>
+                {t('home.notices.alumni.description')}
+              </AppText>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+          </TouchableOpacity>
+        )}
+
+        {/* Guest upgrade */}
+        {user.role === 'guest' && (
+          <TouchableOpacity
+            style={[styles.noticeCard, styles.upgradeCard]}
+            onPress={onUpgradeRole}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('home.notices.upgrade.label')}
+          >
+            <Ionicons name="arrow-up-circle" size={24} color={colors.primary} />
+            <View style={styles.noticeContent}>
+              <AppText style={styles.noticeTitle}>{t('home.notices.upgrade.title')}</AppText>
+              <AppText style={styles.noticeDescription}>
+                {t('home.notices.upgrade.description')}
+              </AppText>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+          </TouchableOpacity>
+        )}
+
+        {/* LinkedIn profile review */}
+        {onReviewProfile && (
+          <TouchableOpacity
+            style={[styles.noticeCard, styles.alumniNoticeCard]}
+            onPress={onReviewProfile}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('home.notices.profileReview.label')}
+          >
+            <Ionicons name="ribbon" size={24} color={colors.primary} />
+            <View style={styles.noticeContent}>
+              <AppText style={styles.noticeTitle}>{t('home.notices.profileReview.title')}</AppText>
+              <AppText style={styles.noticeDescription}>
+                {t('home.notices.profileReview.description')}
+              </AppText>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+          </TouchableOpacity>
+        )}
+
+        {/* Reviewer tools */}
+        {canAccess(user, 'review_queue') && (
+          <TouchableOpacity
+            style={[styles.noticeCard, styles.reviewerCard]}
+            onPress={onOpenReviewQueue}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('home.notices.reviewQueue.label')}
+          >
+            <Ionicons name="clipboard" size={24} color={colors.secondary} />
+            <View style={styles.noticeContent}>
+              <AppText style={styles.noticeTitle}>{t('home.notices.reviewQueue.title')}</AppText>
+              <AppText style={styles.noticeDescription}>
+                {t('home.notices.reviewQueue.description')}
+              </AppText>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+          </TouchableOpacity>
+        )}
+
+        {user.role === 'alumni' && classYear && (
+          <View style={styles.card}>
+            <Ionicons name="people" size={24} color={colors.primary} />
+            <AppText style={styles.cardTitle}>{t('home.classCard.title', { classYear })}</AppText>
+            <AppText style={styles.cardDescription}>
+              {t('home.classCard.description')}
+            </AppText>
+            {user.profile?.degrees?.map((degree, index) => (
+              <AppText key={`${degree.graduationYear}-${index}`} style={styles.degreeText}>
+                {formatDegree(degree)}
+              </AppText>
+            ))}
+            <TouchableOpacity
+              style={styles.cardLink}
+              onPress={onVouchForClassmates}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={t('home.classCard.vouchLabel', { classYear })}
+            >
+              <Ionicons name="people" size={16} color={colors.primary} />
+              <AppText style={styles.cardLinkText}>{t('home.classCard.vouch')}</AppText>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <Ionicons name="calendar" size={24} color={colors.primary} />
+          <AppText style={styles.cardTitle}>{t('home.upcomingCard.title')}</AppText>
+          <AppText style={styles.cardDescription}>
+            {t('home.upcomingCard.description')}
+          </AppText>
+        </View>
+      </ScrollView>
+
+      {/* Action Bar */}
+      <View style={[styles.actionBar, { paddingBottom: insets.bottom + 24 }]}>
+        <TouchableOpacity
+          style={styles.signOutButton}
+          onPress={handleSignOut}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('home.signOutLabel')}
+        >
+          <Ionicons name="log-out-outline" size={20} color={colors.textSecondary} />
+          <AppText style={styles.signOutButtonText}>{t('home.signOut.action')}</AppText>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  settingsButton: {
+    alignSelf: 'flex-end',
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerContent: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  roleIndicator: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  roleText: {
+    ...typography.caption,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  noticeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: `${colors.warning}15`,
+    borderWidth: 1,
+    borderColor: `${colors.warning}60`,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+  },
+  studentNoticeCard: {
+    backgroundColor: `${colors.secondary}15`,
+    borderColor: `${colors.secondary}60`,
+  },
+  alumniNoticeCard: {
+    backgroundColor: `${colors.primary}15`,
+    borderColor: `${colors.primary}60`,
+  },
+  upgradeCard: {
+    backgroundColor: colors.surfaceElevated,
+    borderColor: `${colors.primary}60`,
+  },
+  reviewerCard: {
+    backgroundColor: colors.surfaceElevated,
+    borderColor: `${colors.secondary}60`,
+  },
+  noticeContent: {
+    flex: 1,
+  },
+  noticeTitle: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 4,
+  },
+  noticeDescription: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  card: {
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 16,
+    gap: 8,
+  },
+  cardTitle: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  cardDescription: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  cardLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 8,
+    gap: 6,
+  },
+  cardLinkText: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  degreeText: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  actionBar: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    alignItems: 'center',
+  },
+  signOutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  signOutButtonText: {
+    ...typography.bodyMedium,
+    color: colors.textSecondary,
+  },
+});
+
+export default HomeScreen;
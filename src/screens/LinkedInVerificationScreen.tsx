@@ -1,7 +1,6 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useCallback, useEffect, useReducer, useRef } from 'react';
 import {
   View,
-  Text,
   StyleSheet,
   TouchableOpacity,
   ScrollView,
@@ -20,91 +19,100 @@ import Animated, {
 import { LinearGradient } from 'expo-linear-gradient';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import * as AuthSession from 'expo-auth-session';
-import * as Crypto from 'expo-crypto';
-import { AuthUser } from '../types/navigation';
+import { LinkedInProfile, UserSession } from '../types/navigation';
+import {
+  AlumniVerificationResult,
+  VerificationError,
+  VerificationService,
+} from '../services/verificationService';
+import { LinkedInAuthorization, LinkedInAuthorizer } from '../services/socialAuth';
+import {
+  clearLinkedInAttempt,
+  loadLinkedInAttempt,
+  saveLinkedInAttempt,
+} from '../services/sessionStorage';
+import {
+  verificationService as defaultVerificationService,
+  linkedInAuthorizer as defaultLinkedInAuthorizer,
+} from '../services';
+import { formatMatchReason } from '../utils/alumniMatching';
+import { readAlumniAttestation } from '../utils/attestation';
+import { getOAuthRedirect } from '../utils/deepLinks';
+import {
+  LinkedInVerificationStepId,
+  LinkedInVerificationStepStatus,
+  canStartLinkedInVerification,
+  getLinkedInVerificationActionLabel,
+  getLinkedInVerificationAnnouncement,
+  getLinkedInVerificationSteps,
+  initialLinkedInVerificationState,
+  isLinkedInVerificationBusy,
+  linkedInVerificationReducer,
+} from '../utils/linkedInVerificationFlow';
+import { t } from '../i18n';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import AppText from '../components/AppText';
 
 // Types
 interface LinkedInVerificationScreenProps {
-  user: AuthUser;
-  onVerificationComplete: (verified: boolean, linkedInData?: LinkedInProfile) => void;
+  session: UserSession;
+  onVerificationComplete: (session: UserSession, linkedInData: LinkedInProfile) => void;
   onSkip: () => void;
   onBack: () => void;
-}
-
-interface LinkedInProfile {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  education: LinkedInEducation[];
-  profilePicture?: string;
-}
-
-interface LinkedInEducation {
-  schoolName: string;
-  fieldOfStudy?: string;
-  degree?: string;
-  startDate?: {
-    year: number;
-    month?: number;
-  };
-  endDate?: {
-    year: number;
-    month?: number;
-  };
+  onManualVerification: () => void;
+  onRequestVouches: () => void;
+  // nythc://oauth link the app was opened with, used to finish an attempt interrupted by a restart
+  redirectUrl?: string;
+  verificationService?: VerificationService;
+  linkedInAuthorizer?: LinkedInAuthorizer;
 }
 
 interface VerificationStep {
-  id: string;
+  id: LinkedInVerificationStepId;
   title: string;
   description: string;
   icon: keyof typeof Ionicons.glyphMap;
-  status: 'pending' | 'active' | 'completed' | 'error';
 }
 
 // Constants
-const COLORS = {
-  primaryGold: '#D6C238',
-  backgroundDark: '#000100',
-  surfaceDark: '#1A1A1B',
-  surfaceElevated: '#252526',
-  textPrimary: '#FEFEFE',
-  textSecondary: '#B8B8B8',
-  textTertiary: '#878787',
-  success: '#4CAF50',
-  error: '#F44336',
-  linkedInBlue: '#0A66C2',
-};
-
-// LinkedIn OAuth Configuration
-const linkedInConfig = {
-  clientId: process.env.EXPO_PUBLIC_LINKEDIN_CLIENT_ID || 'demo_client_id',
-  redirectUri: AuthSession.makeRedirectUri({ scheme: 'nythc' }),
-  scopes: ['r_liteprofile', 'r_emailaddress', 'r_educations'].join(' '),
-};
-
-// Norfolk State University variations for matching
-const norfolkStateVariations = [
-  'Norfolk State University',
-  'Norfolk State College',
-  'Norfolk State',
-  'NSU',
-  'Norfolk State Univ',
-  'Norfolk State Univ.',
+// LinkedIn's brand blue stays the same in every theme
+const LINKEDIN_BLUE = '#0A66C2';
+
+const VERIFICATION_STEPS: VerificationStep[] = [
+  {
+    id: 'connect',
+    title: t('linkedInVerification.steps.connect.title'),
+    description: t('linkedInVerification.steps.connect.description'),
+    icon: 'link',
+  },
+  {
+    id: 'verify',
+    title: t('linkedInVerification.steps.verify.title'),
+    description: t('linkedInVerification.steps.verify.description'),
+    icon: 'school',
+  },
+  {
+    id: 'complete',
+    title: t('linkedInVerification.steps.complete.title'),
+    description: t('linkedInVerification.steps.complete.description'),
+    icon: 'checkmark-circle',
+  },
 ];
 
 // Verification Steps Component
 const VerificationSteps: React.FC<{
   steps: VerificationStep[];
-  currentStepIndex: number;
-}> = ({ steps, currentStepIndex }) => {
+  statuses: Record<LinkedInVerificationStepId, LinkedInVerificationStepStatus>;
+}> = ({ steps, statuses }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.stepsContainer}>
       {steps.map((step, index) => {
-        const isActive = index === currentStepIndex;
-        const isCompleted = index < currentStepIndex;
-        const isError = step.status === 'error';
+        const isActive = statuses[step.id] === 'active';
+        const isCompleted = statuses[step.id] === 'completed';
+        const isError = statuses[step.id] === 'error';
 
         return (
           <View key={step.id} style={styles.stepRow}>
@@ -118,14 +126,14 @@ const VerificationSteps: React.FC<{
                 ]}
               >
                 {isCompleted ? (
-                  <Ionicons name="checkmark" size={16} color={COLORS.backgroundDark} />
+                  <Ionicons name="checkmark" size={16} color={colors.onPrimary} />
                 ) : isError ? (
-                  <Ionicons name="close" size={16} color={COLORS.textPrimary} />
+                  <Ionicons name="close" size={16} color={colors.textPrimary} />
                 ) : (
                   <Ionicons
                     name={step.icon}
                     size={16}
-                    color={isActive ? COLORS.backgroundDark : COLORS.textTertiary}
+                    color={isActive ? colors.onPrimary : colors.textTertiary}
                   />
                 )}
               </View>
@@ -139,7 +147,7 @@ const VerificationSteps: React.FC<{
               )}
             </View>
             <View style={styles.stepContent}>
-              <Text
+              <AppText
                 style={[
                   styles.stepTitle,
                   isActive && styles.stepTitleActive,
@@ -147,8 +155,8 @@ const VerificationSteps: React.FC<{
                 ]}
               >
                 {step.title}
-              </Text>
-              <Text style={styles.stepDescription}>{step.description}</Text>
+              </AppText>
+              <AppText style={styles.stepDescription}>{step.description}</AppText>
             </View>
           </View>
         );
@@ -159,41 +167,43 @@ const VerificationSteps: React.FC<{
 
 // Benefits Preview Component
 const BenefitsPreview: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const benefits = [
     {
       icon: 'shield-checkmark' as keyof typeof Ionicons.glyphMap,
-      title: 'Verified Alumni Badge',
-      description: 'Display your verified Norfolk State alumni status',
+      title: t('linkedInVerification.benefits.badge.title'),
+      description: t('linkedInVerification.benefits.badge.description'),
     },
     {
       icon: 'calendar' as keyof typeof Ionicons.glyphMap,
-      title: 'Exclusive Events',
-      description: 'Access alumni-only mixers and networking events',
+      title: t('linkedInVerification.benefits.events.title'),
+      description: t('linkedInVerification.benefits.events.description'),
     },
     {
       icon: 'chatbubbles' as keyof typeof Ionicons.glyphMap,
-      title: 'Alumni Chat Rooms',
-      description: 'Connect with verified Spartans by graduation year',
+      title: t('linkedInVerification.benefits.chat.title'),
+      description: t('linkedInVerification.benefits.chat.description'),
     },
     {
       icon: 'ticket' as keyof typeof Ionicons.glyphMap,
-      title: 'Priority Ticketing',
-      description: 'Early access to homecoming event tickets',
+      title: t('linkedInVerification.benefits.ticketing.title'),
+      description: t('linkedInVerification.benefits.ticketing.description'),
     },
   ];
 
   return (
     <View style={styles.benefitsContainer}>
-      <Text style={styles.benefitsTitle}>What You'll Unlock</Text>
+      <AppText style={styles.benefitsTitle}>{t('linkedInVerification.benefits.title')}</AppText>
       <View style={styles.benefitsList}>
         {benefits.map((benefit, index) => (
           <View key={index} style={styles.benefitItem}>
             <View style={styles.benefitIcon}>
-              <Ionicons name={benefit.icon} size={20} color={COLORS.primaryGold} />
+              <Ionicons name={benefit.icon} size={20} color={colors.primary} />
             </View>
             <View style={styles.benefitContent}>
-              <Text style={styles.benefitTitle}>{benefit.title}</Text>
-              <Text style={styles.benefitDescription}>{benefit.description}</Text>
+              <AppText style={styles.benefitTitle}>{benefit.title}</AppText>
+              <AppText style={styles.benefitDescription}>{benefit.description}</AppText>
             </View>
           </View>
         ))}
@@ -204,41 +214,30 @@ const BenefitsPreview: React.FC = () => {
 
 // Main LinkedIn Verification Screen Component
 const LinkedInVerificationScreen: React.FC<LinkedInVerificationScreenProps> = ({
-  user,
+  session,
   onVerificationComplete,
   onSkip,
   onBack,
+  onManualVerification,
+  onRequestVouches,
+  redirectUrl,
+  verificationService = defaultVerificationService,
+  linkedInAuthorizer = defaultLinkedInAuthorizer,
 }) => {
   // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
 
   // State
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [isVerifying, setIsVerifying] = useState(false);
-  const [currentStep, setCurrentStep] = useState(0);
-  const [verificationSteps, setVerificationSteps] = useState<VerificationStep[]>([
-    {
-      id: 'connect',
-      title: 'Connect LinkedIn',
-      description: 'Securely connect your LinkedIn profile',
-      icon: 'link',
-      status: 'active',
-    },
-    {
-      id: 'verify',
-      title: 'Verify Education',
-      description: 'Confirm Norfolk State University graduation',
-      icon: 'school',
-      status: 'pending',
-    },
-    {
-      id: 'complete',
-      title: 'Complete Setup',
-      description: 'Access your verified alumni features',
-      icon: 'checkmark-circle',
-      status: 'pending',
-    },
-  ]);
+  const [flow, dispatch] = useReducer(linkedInVerificationReducer, initialLinkedInVerificationState);
+  const isBusy = isLinkedInVerificationBusy(flow);
+
+  // Refs
+  // Read from async callbacks, where the flow state would be stale
+  const attemptInProgress = useRef(false);
+  const handledRedirectUrl = useRef<string | null>(null);
+  const verificationResult = useRef<(AlumniVerificationResult & { profile: LinkedInProfile }) | null>(null);
 
   // Animation values
   const logoScale = useSharedValue(1);
@@ -253,183 +252,189 @@ const LinkedInVerificationScreen: React.FC<LinkedInVerificationScreenProps> = ({
     transform: [{ scale: connectButtonScale.value }],
   }));
 
-  // LinkedIn OAuth Functions
-  const createAuthURL = async () => {
-    const state = await Crypto.digestStringAsync(
-      Crypto.CryptoDigestAlgorithm.SHA256,
-      Crypto.randomUUID()
-    );
-
-    const params = new URLSearchParams({
-      response_type: 'code',
-      client_id: linkedInConfig.clientId,
-      redirect_uri: linkedInConfig.redirectUri,
-      state,
-      scope: linkedInConfig.scopes,
+  // Helpers
+  // Returns the connection the backend holds once it has redeemed the code
+  const exchangeCode = useCallback(async (authorization: LinkedInAuthorization) => {
+    const attempt = { ...authorization, userId: session.user.id, step: 'verify' as const };
+
+    // Keep the code too, so a restart before the backend redeems it retries it rather than starting over
+    await saveLinkedInAttempt({ ...attempt, updatedAt: Date.now() });
+    const { connectionId } = await verificationService.exchangeLinkedInCode(session, {
+      code: authorization.code,
+      codeVerifier: authorization.codeVerifier,
+      redirectUri: authorization.redirectUri,
     });
 
-    return {
-      authUrl: `https://www.linkedin.com/oauth/v2/authorization?${params.toString()}`,
-      state,
-    };
-  };
-
-  const exchangeCodeForTokens = async (code: string) => {
-    // Mock token exchange - in production, this would call your backend
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    return {
-      access_token: 'mock_access_token_' + Date.now(),
-      expires_in: 3600,
-    };
-  };
-
-  const fetchLinkedInProfile = async (accessToken: string): Promise<LinkedInProfile> => {
-    // Mock LinkedIn profile data - in production, this would call LinkedIn API
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    // Simulate different alumni scenarios
-    const mockEducations: LinkedInEducation[] = [
-      {
-        schoolName: 'Norfolk State University',
-        degree: 'Bachelor of Science',
-        fieldOfStudy: 'Computer Science',
-        startDate: { year: 2011 },
-        endDate: { year: 2015 },
-      },
-      {
-        schoolName: 'Norfolk State University',
-        degree: 'Master of Business Administration',
-        fieldOfStudy: 'Business Administration',
-        startDate: { year: 2016 },
-        endDate: { year: 2018 },
-      },
-    ];
-
-    return {
-      id: 'linkedin_' + Date.now(),
-      firstName: user.firstName || 'Sarah',
-      lastName: user.lastName || 'Johnson',
-      email: user.email,
-      education: mockEducations,
-      profilePicture: 'mock://profile.jpg',
-    };
-  };
-
-  const verifyNorfolkStateAlumni = (profile: LinkedInProfile): boolean => {
-    return profile.education.some(edu => {
-      // Check if any education entry matches Norfolk State variations
-      const schoolMatch = norfolkStateVariations.some(variation =>
-        edu.schoolName?.toLowerCase().includes(variation.toLowerCase())
-      );
+    // From here a restart carries on with the connection, as the code can't be redeemed twice
+    await saveLinkedInAttempt({ ...attempt, connectionId, updatedAt: Date.now() });
+    return connectionId;
+  }, [session, verificationService]);
 
-      // Ensure they graduated (has end date and it's in the past)
-      const hasGraduated = edu.endDate && edu.endDate.year < new Date().getFullYear();
-
-      return schoolMatch && hasGraduated;
-    });
-  };
+  // Shared by a fresh connect and by an attempt resumed after the app restarted
+  const verifyConnection = useCallback(async (connectionId: string, nonce: string) => {
+    dispatch({ type: 'CODE_EXCHANGED' });
+    const profile = await verificationService.fetchLinkedInProfile(session, connectionId);
 
-  // Handlers
-  const handleLinkedInConnect = useCallback(async () => {
-    try {
-      setIsConnecting(true);
-      connectButtonScale.value = withSequence(
-        withSpring(0.95),
-        withSpring(1)
-      );
+    // The backend matches the education it fetched and decides alumni status
+    dispatch({ type: 'PROFILE_FETCHED' });
+    const result = await verificationService.verifyAlumniWithLinkedIn(session, { connectionId, nonce });
 
-      // Step 1: Create auth URL
-      const { authUrl, state } = await createAuthURL();
+    // The decision shown must answer this attempt; the user's status itself comes from result.session
+    const claims = readAlumniAttestation(result.attestation, { userId: session.user.id, nonce });
+    if (!claims) {
+      throw new VerificationError('invalid_attestation', 'The verification result does not match this attempt');
+    }
 
-      AccessibilityInfo.announceForAccessibility('Opening LinkedIn authentication');
+    await clearLinkedInAttempt();
+    verificationResult.current = { ...result, profile };
+    dispatch({ type: 'DECIDED', decision: claims.decision, reasons: claims.reasons });
+  }, [session, verificationService]);
 
-      // Step 2: Start OAuth flow
-      const result = await AuthSession.startAsync({ authUrl });
+  const runAttempt = useCallback(async (attempt: () => Promise<void>) => {
+    attemptInProgress.current = true;
+    try {
+      await attempt();
+    } catch (error) {
+      console.error('LinkedIn verification error:', error);
+      clearLinkedInAttempt().catch(() => undefined);
+      dispatch({ type: 'ERROR' });
+    } finally {
+      attemptInProgress.current = false;
+    }
+  }, []);
 
-      if (result.type === 'success' && result.params.code && result.params.state === state) {
-        // Update to verification step
-        setCurrentStep(1);
-        setIsVerifying(true);
+  // Effects
+  useEffect(() => {
+    const announcement = getLinkedInVerificationAnnouncement(flow);
+    if (announcement) AccessibilityInfo.announceForAccessibility(announcement);
+  }, [flow]);
 
-        // Step 3: Exchange code for tokens
-        const tokens = await exchangeCodeForTokens(result.params.code);
+  // Outcomes are shown once, when the flow reaches them
+  useEffect(() => {
+    const result = verificationResult.current;
 
-        // Step 4: Fetch LinkedIn profile
-        const profile = await fetchLinkedInProfile(tokens.access_token);
+    if (flow.status === 'verified' && result) {
+      logoScale.value = withSequence(withSpring(1.1), withSpring(1));
+      const timer = setTimeout(() => onVerificationComplete(result.session, result.profile), 1500);
+      return () => clearTimeout(timer);
+    }
 
-        // Step 5: Verify Norfolk State alumni status
-        const isVerified = verifyNorfolkStateAlumni(profile);
+    if (flow.status === 'manual_review' && result) {
+      // A likely but uncertain match goes to the review team instead of failing
+      logoScale.value = withSequence(withSpring(1.1), withSpring(1));
+      Alert.alert(
+        t('linkedInVerification.inReview.title'),
+        t('linkedInVerification.inReview.message'),
+        [{ text: t('common.ok'), onPress: () => onVerificationComplete(result.session, result.profile) }]
+      );
+    }
 
-        setIsVerifying(false);
-        setCurrentStep(2);
+    if (flow.status === 'failed' && flow.cause === 'not_matched') {
+      Alert.alert(
+        t('linkedInVerification.notMatched.title'),
+        [
+          t('linkedInVerification.notMatched.message'),
+          flow.reasons[0] && `${formatMatchReason(flow.reasons[0])}.`,
+        ].filter(Boolean).join(' '),
+        [
+          { text: t('linkedInVerification.notMatched.retry'), onPress: () => dispatch({ type: 'RETRY' }) },
+          { text: t('linkedInVerification.notMatched.useDocuments'), onPress: onManualVerification },
+          { text: t('linkedInVerification.skip.action'), onPress: handleSkip, style: 'cancel' },
+        ]
+      );
+    }
 
-        // Animate logo for success/failure
-        logoScale.value = withSequence(
-          withSpring(1.1),
-          withSpring(1)
-        );
+    if (flow.status === 'failed' && flow.cause === 'error') {
+      Alert.alert(
+        t('linkedInVerification.connectionFailed.title'),
+        t('linkedInVerification.connectionFailed.message'),
+        [{ text: t('common.ok'), onPress: () => dispatch({ type: 'RETRY' }) }]
+      );
+    }
+    // Only a change of state should show an outcome again
+  }, [flow]);
+
+  // Picks up an attempt the OS interrupted: either LinkedIn redirected back after a cold start,
+  // or the app was closed while the backend was still checking the profile
+  useEffect(() => {
+    const redirect = redirectUrl && redirectUrl !== handledRedirectUrl.current
+      ? getOAuthRedirect(redirectUrl)
+      : null;
+    if (redirectUrl) handledRedirectUrl.current = redirectUrl;
+    // While the browser is open in this session, promptAsync receives the redirect itself
+    if (attemptInProgress.current) return;
+
+    loadLinkedInAttempt(session.user.id)
+      .then(attempt => {
+        if (!attempt || attemptInProgress.current) return;
+
+        // A redirect carrying another state was not started by this attempt, so it is ignored
+        const isForAttempt = redirect?.state === attempt.state;
+        if (isForAttempt && redirect?.error) return clearLinkedInAttempt();
+
+        // Once the backend has redeemed the code, the attempt carries on from the connection it made
+        const { connectionId } = attempt;
+        if (connectionId) {
+          dispatch({ type: 'RESUME' });
+          return runAttempt(() => verifyConnection(connectionId, attempt.state));
+        }
 
-        if (isVerified) {
-          AccessibilityInfo.announceForAccessibility('Norfolk State alumni status verified successfully');
-
-          // Update steps to show success
-          setVerificationSteps(prev => prev.map((step, index) => ({
-            ...step,
-            status: index <= 2 ? 'completed' : 'pending'
-          })));
-
-          setTimeout(() => {
-            onVerificationComplete(true, profile);
-          }, 1500);
-        } else {
-          AccessibilityInfo.announceForAccessibility('Could not verify Norfolk State alumni status');
-
-          // Update steps to show error
-          setVerificationSteps(prev => prev.map((step, index) => ({
-            ...step,
-            status: index === 1 ? 'error' : step.status
-          })));
-
-          Alert.alert(
-            'Verification Failed',
-            'We could not find Norfolk State University in your LinkedIn education history. Please ensure your LinkedIn profile includes your Norfolk State graduation.',
-            [
-              { text: 'Try Again', onPress: () => setCurrentStep(0) },
-              { text: 'Skip for Now', onPress: handleSkip, style: 'cancel' },
-            ]
-          );
+        const code = (isForAttempt && redirect?.code) || attempt.code;
+        if (!code) {
+          // The redirect was lost, so the user has to connect again
+          dispatch({ type: 'INTERRUPTED' });
+          return;
         }
-      } else if (result.type === 'cancel') {
-        AccessibilityInfo.announceForAccessibility('LinkedIn authentication cancelled');
-      } else {
-        throw new Error('Authentication failed');
-      }
-    } catch (error) {
-      console.error('LinkedIn verification error:', error);
-      AccessibilityInfo.announceForAccessibility('LinkedIn verification failed');
 
-      Alert.alert(
-        'Connection Failed',
-        'Unable to connect to LinkedIn. Please check your internet connection and try again.',
-        [{ text: 'OK' }]
-      );
-    } finally {
-      setIsConnecting(false);
-      setIsVerifying(false);
+        dispatch({ type: 'RESUME' });
+        return runAttempt(async () => verifyConnection(
+          await exchangeCode({
+            code,
+            codeVerifier: attempt.codeVerifier,
+            redirectUri: attempt.redirectUri,
+            state: attempt.state,
+          }),
+          attempt.state
+        ));
+      })
+      .catch(error => console.error('Failed to resume LinkedIn verification:', error));
+  }, [redirectUrl, session.user.id, runAttempt, exchangeCode, verifyConnection]);
+
+  // Handlers
+  const handleLinkedInConnect = useCallback(() => runAttempt(async () => {
+    dispatch({ type: 'CONNECT' });
+    connectButtonScale.value = withSequence(
+      withSpring(0.95),
+      withSpring(1)
+    );
+
+    // Authorize with LinkedIn (PKCE), saving the attempt before the browser opens
+    const authorization = await linkedInAuthorizer(pending => saveLinkedInAttempt({
+      ...pending,
+      userId: session.user.id,
+      step: 'connect',
+      updatedAt: Date.now(),
+    }));
+    if (!authorization) {
+      dispatch({ type: 'CANCELLED' });
+      await clearLinkedInAttempt();
+      return;
     }
-  }, [user, onVerificationComplete, connectButtonScale, logoScale]);
+
+    dispatch({ type: 'AUTHORIZED' });
+    await verifyConnection(await exchangeCode(authorization), authorization.state);
+  }), [session, linkedInAuthorizer, runAttempt, exchangeCode, verifyConnection, connectButtonScale]);
 
   const handleSkip = useCallback(() => {
     Alert.alert(
-      'Skip LinkedIn Verification?',
-      'You can verify your alumni status later in your profile settings. Some exclusive features will not be available until verification.',
+      t('linkedInVerification.skip.title'),
+      t('linkedInVerification.skip.message'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Skip for Now',
+          text: t('linkedInVerification.skip.action'),
           onPress: () => {
-            AccessibilityInfo.announceForAccessibility('Skipping LinkedIn verification');
+            AccessibilityInfo.announceForAccessibility(t('linkedInVerification.skip.done'));
             onSkip();
           },
         },
@@ -438,22 +443,22 @@ const LinkedInVerificationScreen: React.FC<LinkedInVerificationScreenProps> = ({
   }, [onSkip]);
 
   const handleBack = useCallback(() => {
-    AccessibilityInfo.announceForAccessibility('Going back to authentication');
+    AccessibilityInfo.announceForAccessibility(t('common.goingBack'));
     onBack();
   }, [onBack]);
 
   const handlePrivacyInfo = useCallback(() => {
     Alert.alert(
-      'Privacy & Security',
-      'We only access your basic profile information and education history to verify your Norfolk State alumni status. Your data is encrypted and never shared with third parties.',
-      [{ text: 'Got it' }]
+      t('linkedInVerification.privacy.title'),
+      t('linkedInVerification.privacy.message'),
+      [{ text: t('linkedInVerification.privacy.action') }]
     );
   }, []);
 
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
       <LinearGradient
-        colors={[COLORS.backgroundDark, COLORS.surfaceDark]}
+        colors={[colors.background, colors.surface]}
         style={StyleSheet.absoluteFill}
       />
 
@@ -464,16 +469,16 @@ const LinkedInVerificationScreen: React.FC<LinkedInVerificationScreenProps> = ({
           onPress={handleBack}
           accessible={true}
           accessibilityRole="button"
-          accessibilityLabel="Go back to authentication"
+          accessibilityLabel={t('common.goBack')}
         >
-          <Ionicons name="arrow-back" size={24} color={COLORS.textPrimary} />
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
         </TouchableOpacity>
 
         <View style={styles.headerContent}>
-          <Text style={styles.headerTitle}>Verify Your Alumni Status</Text>
-          <Text style={styles.headerSubtitle}>
-            Connect with LinkedIn to unlock exclusive Norfolk State alumni features
-          </Text>
+          <AppText style={styles.headerTitle}>{t('linkedInVerification.title')}</AppText>
+          <AppText style={styles.headerSubtitle}>
+            {t('linkedInVerification.subtitle')}
+          </AppText>
         </View>
       </View>
 
@@ -481,24 +486,30 @@ const LinkedInVerificationScreen: React.FC<LinkedInVerificationScreenProps> = ({
       <View style={styles.heroSection}>
         <Animated.View style={[styles.logoContainer, logoAnimatedStyle]}>
           <View style={styles.linkedInLogo}>
-            <Ionicons name="logo-linkedin" size={48} color={COLORS.linkedInBlue} />
+            <Ionicons name="logo-linkedin" size={48} color={LINKEDIN_BLUE} />
           </View>
           <View style={styles.plusIcon}>
-            <Ionicons name="add" size={16} color={COLORS.textSecondary} />
+            <Ionicons name="add" size={16} color={colors.textSecondary} />
           </View>
           <View style={styles.nsuLogo}>
-            <Text style={styles.nsuText}>NSU</Text>
+            <AppText style={styles.nsuText}>{t('common.schoolShortName')}</AppText>
           </View>
         </Animated.View>
 
-        <Text style={styles.heroTitle}>Secure Alumni Verification</Text>
-        <Text style={styles.heroDescription}>
-          We'll verify your Norfolk State graduation through your LinkedIn education history
-        </Text>
+        <AppText style={styles.heroTitle}>{t('linkedInVerification.hero.title')}</AppText>
+        <AppText style={styles.heroDescription}>
+          {t('linkedInVerification.hero.description')}
+        </AppText>
       </View>
 
       {/* Verification Steps */}
-      <VerificationSteps steps={verificationSteps} currentStepIndex={currentStep} />
+      <VerificationSteps steps={VERIFICATION_STEPS} statuses={getLinkedInVerificationSteps(flow)} />
+
+      {flow.status === 'idle' && flow.interrupted && (
+        <AppText style={styles.resumeNotice} accessible={true} accessibilityRole="alert">
+          {t('linkedInVerification.interruptedNotice')}
+        </AppText>
+      )}
 
       {/* Benefits Preview */}
       <BenefitsPreview />
@@ -509,29 +520,54 @@ const LinkedInVerificationScreen: React.FC<LinkedInVerificationScreenProps> = ({
           <TouchableOpacity
             style={[
               styles.connectButton,
-              (isConnecting || isVerifying) && styles.connectButtonDisabled,
+              !canStartLinkedInVerification(flow) && styles.connectButtonDisabled,
             ]}
             onPress={handleLinkedInConnect}
-            disabled={isConnecting || isVerifying}
+            disabled={!canStartLinkedInVerification(flow)}
             accessible={true}
             accessibilityRole="button"
-            accessibilityLabel="Connect with LinkedIn to verify alumni status"
+            accessibilityState={{ busy: isBusy }}
+            accessibilityLabel={t('linkedInVerification.connect.label')}
           >
             <Ionicons
               name="logo-linkedin"
               size={20}
-              color={COLORS.textPrimary}
+              color={colors.textPrimary}
             />
-            <Text style={styles.connectButtonText}>
-              {isConnecting ? 'Connecting...' : isVerifying ? 'Verifying...' : 'Connect with LinkedIn'}
-            </Text>
+            <AppText style={styles.connectButtonText}>
+              {getLinkedInVerificationActionLabel(flow)}
+            </AppText>
           </TouchableOpacity>
         </Animated.View>
 
         {/* Privacy Notice */}
         <TouchableOpacity style={styles.privacyButton} onPress={handlePrivacyInfo}>
-          <Ionicons name="shield-checkmark" size={16} color={COLORS.textTertiary} />
-          <Text style={styles.privacyText}>Your privacy is protected</Text>
+          <Ionicons name="shield-checkmark" size={16} color={colors.textTertiary} />
+          <AppText style={styles.privacyText}>{t('linkedInVerification.privacyNotice')}</AppText>
+        </TouchableOpacity>
+
+        {/* Manual Verification Option */}
+        <TouchableOpacity
+          style={styles.manualButton}
+          onPress={onManualVerification}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('linkedInVerification.useDocumentsLabel')}
+        >
+          <Ionicons name="document-attach" size={16} color={colors.textSecondary} />
+          <AppText style={styles.manualButtonText}>{t('linkedInVerification.useDocuments')}</AppText>
+        </TouchableOpacity>
+
+        {/* Vouching Option */}
+        <TouchableOpacity
+          style={styles.manualButton}
+          onPress={onRequestVouches}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('linkedInVerification.requestVouchesLabel')}
+        >
+          <Ionicons name="people" size={16} color={colors.textSecondary} />
+          <AppText style={styles.manualButtonText}>{t('linkedInVerification.requestVouches')}</AppText>
         </TouchableOpacity>
 
         {/* Skip Option */}
@@ -540,9 +576,9 @@ const LinkedInVerificationScreen: React.FC<LinkedInVerificationScreenProps> = ({
           onPress={handleSkip}
           accessible={true}
           accessibilityRole="button"
-          accessibilityLabel="Skip verification for now"
+          accessibilityLabel={t('linkedInVerification.skipLabel')}
         >
-          <Text style={styles.skipButtonText}>I'll verify later</Text>
+          <AppText style={styles.skipButtonText}>{t('verification.verifyLater')}</AppText>
         </TouchableOpacity>
       </View>
 
@@ -552,10 +588,10 @@ const LinkedInVerificationScreen: React.FC<LinkedInVerificationScreenProps> = ({
 };
 
 // Styles
-const styles = StyleSheet.create({
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.backgroundDark,
+    backgroundColor: colors.background,
   },
   header: {
     paddingHorizontal: 24,
@@ -565,7 +601,7 @@ const styles = StyleSheet.create({
     width: 48,
     height: 48,
     borderRadius: 24,
-    backgroundColor: COLORS.surfaceElevated,
+    backgroundColor: colors.surfaceElevated,
     alignItems: 'center',
     justifyContent: 'center',
     marginBottom: 24,
@@ -574,17 +610,16 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   headerTitle: {
-    fontSize: 28,
+    ...typography.h1,
     fontWeight: '700',
-    color: COLORS.textPrimary,
+    color: colors.textPrimary,
     textAlign: 'center',
     marginBottom: 8,
   },
   headerSubtitle: {
-    fontSize: 16,
-    color: COLORS.textSecondary,
+    ...typography.body,
+    color: colors.textSecondary,
     textAlign: 'center',
-    lineHeight: 22,
   },
   heroSection: {
     alignItems: 'center',
@@ -599,7 +634,7 @@ const styles = StyleSheet.create({
   linkedInLogo: {
     width: 80,
     height: 80,
-    backgroundColor: COLORS.surfaceElevated,
+    backgroundColor: colors.surfaceElevated,
     borderRadius: 40,
     alignItems: 'center',
     justifyContent: 'center',
@@ -610,28 +645,26 @@ const styles = StyleSheet.create({
   nsuLogo: {
     width: 80,
     height: 80,
-    backgroundColor: COLORS.primaryGold,
+    backgroundColor: colors.primary,
     borderRadius: 40,
     alignItems: 'center',
     justifyContent: 'center',
   },
   nsuText: {
-    fontSize: 20,
+    ...typography.h2,
     fontWeight: '700',
-    color: COLORS.backgroundDark,
+    color: colors.onPrimary,
   },
   heroTitle: {
-    fontSize: 22,
-    fontWeight: '600',
-    color: COLORS.textPrimary,
+    ...typography.h2,
+    color: colors.textPrimary,
     textAlign: 'center',
     marginBottom: 8,
   },
   heroDescription: {
-    fontSize: 16,
-    color: COLORS.textSecondary,
+    ...typography.body,
+    color: colors.textSecondary,
     textAlign: 'center',
-    lineHeight: 22,
     paddingHorizontal: 16,
   },
   stepsContainer: {
@@ -650,62 +683,70 @@ const styles = StyleSheet.create({
     width: 32,
     height: 32,
     borderRadius: 16,
-    backgroundColor: COLORS.surfaceElevated,
+    backgroundColor: colors.surfaceElevated,
     alignItems: 'center',
     justifyContent: 'center',
     borderWidth: 2,
-    borderColor: COLORS.textTertiary,
+    borderColor: colors.textTertiary,
   },
   stepIndicatorActive: {
-    backgroundColor: COLORS.primaryGold,
-    borderColor: COLORS.primaryGold,
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
   },
   stepIndicatorCompleted: {
-    backgroundColor: COLORS.success,
-    borderColor: COLORS.success,
+    backgroundColor: colors.success,
+    borderColor: colors.success,
   },
   stepIndicatorError: {
-    backgroundColor: COLORS.error,
-    borderColor: COLORS.error,
+    backgroundColor: colors.error,
+    borderColor: colors.error,
   },
   stepConnector: {
     width: 2,
     height: 24,
-    backgroundColor: COLORS.textTertiary,
+    backgroundColor: colors.textTertiary,
     marginTop: 4,
   },
   stepConnectorActive: {
-    backgroundColor: COLORS.primaryGold,
+    backgroundColor: colors.primary,
   },
   stepContent: {
     flex: 1,
     paddingTop: 4,
   },
   stepTitle: {
-    fontSize: 16,
+    ...typography.bodyMedium,
     fontWeight: '600',
-    color: COLORS.textTertiary,
+    color: colors.textTertiary,
     marginBottom: 4,
   },
   stepTitleActive: {
-    color: COLORS.textPrimary,
+    color: colors.textPrimary,
   },
   stepTitleCompleted: {
-    color: COLORS.success,
+    color: colors.success,
   },
   stepDescription: {
-    fontSize: 14,
-    color: COLORS.textSecondary,
-    lineHeight: 20,
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  resumeNotice: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginHorizontal: 24,
+    marginTop: -24,
+    marginBottom: 40,
+    padding: 12,
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 8,
   },
   benefitsContainer: {
     paddingHorizontal: 24,
     marginBottom: 40,
   },
   benefitsTitle: {
-    fontSize: 20,
-    fontWeight: '600',
-    color: COLORS.textPrimary,
+    ...typography.h2,
+    color: colors.textPrimary,
     marginBottom: 20,
     textAlign: 'center',
   },
@@ -715,7 +756,7 @@ const styles = StyleSheet.create({
   benefitItem: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: COLORS.surfaceElevated,
+    backgroundColor: colors.surfaceElevated,
     borderRadius: 12,
     padding: 16,
   },
@@ -723,7 +764,7 @@ const styles = StyleSheet.create({
     width: 40,
     height: 40,
     borderRadius: 20,
-    backgroundColor: `${COLORS.primaryGold}20`,
+    backgroundColor: `${colors.primary}20`,
     alignItems: 'center',
     justifyContent: 'center',
     marginRight: 16,
@@ -732,15 +773,14 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   benefitTitle: {
-    fontSize: 16,
+    ...typography.bodyMedium,
     fontWeight: '600',
-    color: COLORS.textPrimary,
+    color: colors.textPrimary,
     marginBottom: 4,
   },
   benefitDescription: {
-    fontSize: 14,
-    color: COLORS.textSecondary,
-    lineHeight: 20,
+    ...typography.caption,
+    color: colors.textSecondary,
   },
   actionSection: {
     paddingHorizontal: 24,
@@ -750,7 +790,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: COLORS.linkedInBlue,
+    backgroundColor: LINKEDIN_BLUE,
     paddingVertical: 16,
     paddingHorizontal: 32,
     borderRadius: 12,
@@ -762,9 +802,9 @@ const styles = StyleSheet.create({
     opacity: 0.6,
   },
   connectButtonText: {
-    fontSize: 18,
+    ...typography.h3,
     fontWeight: '600',
-    color: COLORS.textPrimary,
+    color: colors.textPrimary,
   },
   privacyButton: {
     flexDirection: 'row',
@@ -773,17 +813,28 @@ const styles = StyleSheet.create({
     gap: 8,
   },
   privacyText: {
-    fontSize: 14,
-    color: COLORS.textTertiary,
+    ...typography.caption,
+    color: colors.textTertiary,
     textDecorationLine: 'underline',
   },
+  manualButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  manualButtonText: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
   skipButton: {
     paddingVertical: 12,
     paddingHorizontal: 20,
   },
   skipButtonText: {
-    fontSize: 16,
-    color: COLORS.textSecondary,
+    ...typography.body,
+    color: colors.textSecondary,
     textDecorationLine: 'underline',
   },
 });
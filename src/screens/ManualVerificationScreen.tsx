@@ -0,0 +1,491 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  AccessibilityInfo,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { UserSession } from '../types/navigation';
+import {
+  ManualVerificationSubmission,
+  VerificationError,
+  VerificationService,
+} from '../services/verificationService';
+import { verificationService as defaultVerificationService } from '../services';
+import {
+  ALUMNI_DOCUMENT_TYPES,
+  AlumniDocumentType,
+  VerificationDocument,
+  getAlumniGraduationYearRange,
+  validateAlumniGraduationYear,
+  validateVerificationDocument,
+} from '../utils/manualVerification';
+import { MANUAL_VERIFICATION } from '../utils/constants';
+import FormInput from '../components/FormInput';
+import AppText from '../components/AppText';
+import { formatNumber, t } from '../i18n';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+
+// Types
+interface ManualVerificationScreenProps {
+  session: UserSession;
+  onSubmitted: (session: UserSession) => void;
+  onBack: () => void;
+  verificationService?: VerificationService;
+}
+
+interface ManualFormErrors {
+  document?: string;
+  degree?: string;
+  graduationYear?: string;
+  general?: string;
+}
+
+// Constants
+// Map backend errors onto the form fields they belong to
+const getFormErrorsForVerificationError = (error: unknown): ManualFormErrors => {
+  if (!(error instanceof VerificationError)) {
+    return { general: t('manualVerification.errors.failed') };
+  }
+
+  switch (error.code) {
+    case 'invalid_document':
+      return {
+        document: t('manualVerification.errors.invalidDocument', {
+          size: formatNumber(MANUAL_VERIFICATION.maxDocumentBytes / (1024 * 1024)),
+        }),
+      };
+    case 'invalid_graduation_year':
+      return { graduationYear: t('validation.yearOutOfRange', getAlumniGraduationYearRange()) };
+    case 'network_error':
+      return { general: t('common.networkError') };
+    default:
+      return { general: t('manualVerification.errors.failed') };
+  }
+};
+
+// Main Manual Verification Screen Component
+const ManualVerificationScreen: React.FC<ManualVerificationScreenProps> = ({
+  session,
+  onSubmitted,
+  onBack,
+  verificationService = defaultVerificationService,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+
+  // State
+  const [documentType, setDocumentType] = useState<AlumniDocumentType>('diploma');
+  const [document, setDocument] = useState<VerificationDocument | null>(null);
+  const [degree, setDegree] = useState('');
+  const [graduationYear, setGraduationYear] = useState('');
+  const [previousSubmission, setPreviousSubmission] = useState<ManualVerificationSubmission | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<ManualFormErrors>({});
+
+  // Effects
+  // Reviewers may have asked for more information on an earlier submission
+  useEffect(() => {
+    verificationService.getManualVerification(session)
+      .then((submission) => {
+        if (submission?.status !== 'needs_info') return;
+
+        setPreviousSubmission(submission);
+        if (submission.source === 'document') setDocumentType(submission.documentType);
+        setDegree(submission.degree ?? '');
+        if (submission.graduationYear) setGraduationYear(String(submission.graduationYear));
+      })
+      .catch((error) => {
+        console.error('Failed to load previous submission:', error);
+      });
+  }, [verificationService, session]);
+
+  // Handlers
+  const handlePickDocument = useCallback(async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: [...MANUAL_VERIFICATION.acceptedMimeTypes],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const [asset] = result.assets;
+      const picked: VerificationDocument = {
+        uri: asset.uri,
+        name: asset.name,
+        mimeType: asset.mimeType,
+        size: asset.size,
+      };
+
+      const documentError = validateVerificationDocument(picked);
+      setErrors(prev => ({ ...prev, document: documentError }));
+      if (documentError) {
+        AccessibilityInfo.announceForAccessibility(documentError);
+        return;
+      }
+
+      setDocument(picked);
+      AccessibilityInfo.announceForAccessibility(t('manualVerification.documentAttached', { name: asset.name }));
+    } catch (error) {
+      console.error('Document picker error:', error);
+      setErrors(prev => ({ ...prev, document: t('manualVerification.errors.documentUnreadable') }));
+    }
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    const newErrors: ManualFormErrors = {
+      document: validateVerificationDocument(document),
+      degree: degree.trim() ? undefined : t('manualVerification.errors.degreeRequired'),
+      graduationYear: validateAlumniGraduationYear(graduationYear),
+    };
+    if (newErrors.document || newErrors.degree || newErrors.graduationYear) {
+      setErrors(newErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors({});
+    try {
+      const result = await verificationService.submitManualVerification(session, {
+        documentType,
+        document: document as VerificationDocument,
+        degree,
+        graduationYear: Number(graduationYear),
+      });
+      AccessibilityInfo.announceForAccessibility(t('manualVerification.submitted'));
+      onSubmitted(result.session);
+    } catch (error) {
+      const formErrors = getFormErrorsForVerificationError(error);
+      setErrors(formErrors);
+      AccessibilityInfo.announceForAccessibility(
+        Object.values(formErrors).find(Boolean) || t('manualVerification.errors.failed')
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [verificationService, session, documentType, document, degree, graduationYear, onSubmitted]);
+
+  const handleBack = useCallback(() => {
+    AccessibilityInfo.announceForAccessibility(t('common.goingBack'));
+    onBack();
+  }, [onBack]);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={handleBack}
+          disabled={isSubmitting}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.goBack')}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+
+        <AppText style={styles.headerTitle} accessibilityRole="header">{t('manualVerification.title')}</AppText>
+        <AppText style={styles.headerSubtitle}>
+          {t('manualVerification.subtitle')}
+        </AppText>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.formContainer}>
+          {/* Reviewer request */}
+          {previousSubmission && (
+            <View style={styles.reviewerNote} accessible={true}>
+              <Ionicons name="chatbox-ellipses" size={20} color={colors.warning} />
+              <View style={styles.reviewerNoteContent}>
+                <AppText style={styles.reviewerNoteTitle}>{t('manualVerification.reviewerNote.title')}</AppText>
+                <AppText style={styles.reviewerNoteText}>
+                  {previousSubmission.reviewerNote || t('manualVerification.reviewerNote.fallback')}
+                </AppText>
+              </View>
+            </View>
+          )}
+
+          {/* Document Type */}
+          <AppText style={styles.sectionLabel}>{t('manualVerification.documentType')}</AppText>
+          <View style={styles.documentTypes} accessibilityRole="radiogroup">
+            {ALUMNI_DOCUMENT_TYPES.map((type) => {
+              const isSelected = type.id === documentType;
+              return (
+                <TouchableOpacity
+                  key={type.id}
+                  style={[styles.documentTypeChip, isSelected && styles.documentTypeChipSelected]}
+                  onPress={() => setDocumentType(type.id)}
+                  accessible={true}
+                  accessibilityRole="radio"
+                  accessibilityLabel={`${type.label}. ${type.description}`}
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <AppText style={[styles.documentTypeText, isSelected && styles.documentTypeTextSelected]}>
+                    {type.label}
+                  </AppText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <AppText style={styles.helperText}>
+            {ALUMNI_DOCUMENT_TYPES.find(type => type.id === documentType)?.description}
+          </AppText>
+
+          {/* Document Upload */}
+          <TouchableOpacity
+            style={[styles.uploadButton, !!errors.document && styles.uploadButtonError]}
+            onPress={handlePickDocument}
+            disabled={isSubmitting}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={document
+              ? t('manualVerification.upload.attachedLabel', { name: document.name })
+              : t('manualVerification.upload.chooseLabel')}
+          >
+            <Ionicons
+              name={document ? 'document-attach' : 'cloud-upload'}
+              size={24}
+              color={colors.primary}
+            />
+            <AppText style={styles.uploadText} numberOfLines={1}>
+              {document ? document.name : t('manualVerification.upload.choose')}
+            </AppText>
+          </TouchableOpacity>
+          {errors.document && (
+            <AppText style={styles.fieldError} accessibilityRole="alert">{errors.document}</AppText>
+          )}
+
+          <FormInput
+            label={t('manualVerification.fields.degree')}
+            value={degree}
+            onChangeText={(value) => {
+              setDegree(value);
+              setErrors(prev => ({ ...prev, degree: undefined }));
+            }}
+            placeholder={t('manualVerification.fields.degreePlaceholder')}
+            autoCapitalize="words"
+            error={errors.degree}
+            required
+          />
+          <FormInput
+            label={t('manualVerification.fields.graduationYear')}
+            value={graduationYear}
+            onChangeText={(value) => {
+              setGraduationYear(value.replace(/\D/g, ''));
+              setErrors(prev => ({ ...prev, graduationYear: undefined }));
+            }}
+            placeholder="2015"
+            keyboardType="number-pad"
+            maxLength={4}
+            error={errors.graduationYear}
+            required
+          />
+
+          {/* General error */}
+          {errors.general && (
+            <AppText style={styles.generalError} accessible={true} accessibilityRole="alert">
+              {errors.general}
+            </AppText>
+          )}
+
+          {/* Submit */}
+          <TouchableOpacity
+            style={[styles.primaryButton, isSubmitting && styles.primaryButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('manualVerification.submit.label')}
+          >
+            <AppText style={styles.primaryButtonText}>
+              {isSubmitting ? t('manualVerification.submit.uploading') : t('manualVerification.submit.action')}
+            </AppText>
+            {!isSubmitting && (
+              <Ionicons name="arrow-forward" size={20} color={colors.onPrimary} />
+            )}
+          </TouchableOpacity>
+
+          <AppText style={styles.privacyText}>
+            {t('manualVerification.privacyNotice')}
+          </AppText>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  formContainer: {
+    paddingBottom: 40,
+  },
+  reviewerNote: {
+    flexDirection: 'row',
+    backgroundColor: `${colors.warning}15`,
+    borderWidth: 1,
+    borderColor: `${colors.warning}60`,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    gap: 12,
+  },
+  reviewerNoteContent: {
+    flex: 1,
+  },
+  reviewerNoteTitle: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 4,
+  },
+  reviewerNoteText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  sectionLabel: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 12,
+  },
+  documentTypes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  documentTypeChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: colors.surfaceElevated,
+    backgroundColor: colors.surface,
+  },
+  documentTypeChipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: `${colors.primary}20`,
+  },
+  documentTypeText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    fontWeight: '500',
+  },
+  documentTypeTextSelected: {
+    color: colors.primary,
+  },
+  helperText: {
+    ...typography.caption,
+    color: colors.textTertiary,
+    marginBottom: 16,
+  },
+  uploadButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: colors.primary,
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 8,
+    gap: 12,
+  },
+  uploadButtonError: {
+    borderColor: colors.error,
+  },
+  uploadText: {
+    ...typography.body,
+    flex: 1,
+    color: colors.textPrimary,
+  },
+  fieldError: {
+    ...typography.caption,
+    color: colors.error,
+    marginBottom: 8,
+  },
+  generalError: {
+    ...typography.caption,
+    color: colors.error,
+    textAlign: 'center',
+    marginBottom: 20,
+    padding: 12,
+    backgroundColor: `${colors.error}20`,
+    borderRadius: 8,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary,
+    paddingVertical: 16,
+    borderRadius: 12,
+    marginTop: 8,
+    marginBottom: 16,
+    gap: 8,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+  privacyText: {
+    ...typography.caption,
+    color: colors.textTertiary,
+    textAlign: 'center',
+  },
+});
+
+export default ManualVerificationScreen;
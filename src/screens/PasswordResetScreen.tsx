@@ -0,0 +1,494 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  AccessibilityInfo,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { AuthError, AuthService } from '../services/authService';
+import { authService as defaultAuthService } from '../services';
+import {
+  PASSWORD_MIN_LENGTH,
+  VERIFICATION_CODE_LENGTH,
+  validateEmail,
+  validatePassword,
+  validateVerificationCode,
+} from '../utils/validation';
+import FormInput from '../components/FormInput';
+import AppText from '../components/AppText';
+import { t } from '../i18n';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+
+// Types
+interface PasswordResetScreenProps {
+  initialEmail?: string;
+  resetToken?: string;
+  onComplete: () => void;
+  onBack: () => void;
+  authService?: AuthService;
+}
+
+type ResetStep = 'request' | 'code' | 'password' | 'done';
+
+interface ResetFormErrors {
+  email?: string;
+  code?: string;
+  password?: string;
+  confirmPassword?: string;
+  general?: string;
+}
+
+// Constants
+const STEP_CONTENT: Record<ResetStep, { title: string; subtitle: string; buttonText: string }> = {
+  request: {
+    title: t('passwordReset.steps.request.title'),
+    subtitle: t('passwordReset.steps.request.subtitle', { length: VERIFICATION_CODE_LENGTH }),
+    buttonText: t('passwordReset.steps.request.buttonText'),
+  },
+  code: {
+    title: t('passwordReset.steps.code.title'),
+    subtitle: t('passwordReset.steps.code.subtitle'),
+    buttonText: t('passwordReset.steps.code.buttonText'),
+  },
+  password: {
+    title: t('passwordReset.steps.password.title'),
+    subtitle: t('passwordReset.steps.password.subtitle', { min: PASSWORD_MIN_LENGTH }),
+    buttonText: t('passwordReset.steps.password.buttonText'),
+  },
+  done: {
+    title: t('passwordReset.steps.done.title'),
+    subtitle: t('passwordReset.steps.done.subtitle'),
+    buttonText: t('passwordReset.steps.done.buttonText'),
+  },
+};
+
+// Map backend errors onto the reset form fields they belong to
+const getFormErrorsForResetError = (error: unknown): ResetFormErrors => {
+  if (!(error instanceof AuthError)) {
+    return { general: t('common.genericError') };
+  }
+
+  switch (error.code) {
+    case 'invalid_code':
+      return { code: t('passwordReset.errors.invalidCode') };
+    case 'code_expired':
+      return { general: t('passwordReset.errors.codeExpired') };
+    case 'rate_limited':
+      return {
+        general: error.retryAfterSeconds
+          ? t('verification.resendRateLimited', { count: error.retryAfterSeconds })
+          : t('passwordReset.errors.rateLimited'),
+      };
+    case 'weak_password':
+      return { password: t('passwordReset.errors.weakPassword') };
+    case 'network_error':
+      return { general: t('common.networkError') };
+    default:
+      return { general: t('common.genericError') };
+  }
+};
+
+// Main Password Reset Screen Component
+const PasswordResetScreen: React.FC<PasswordResetScreenProps> = ({
+  initialEmail = '',
+  resetToken: linkResetToken,
+  onComplete,
+  onBack,
+  authService = defaultAuthService,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+
+  // State
+  // A reset link from the email skips straight to choosing a new password
+  const [step, setStep] = useState<ResetStep>(linkResetToken ? 'password' : 'request');
+  const [resetToken, setResetToken] = useState<string | undefined>(linkResetToken);
+  const [email, setEmail] = useState(initialEmail);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [errors, setErrors] = useState<ResetFormErrors>({});
+
+  const content = STEP_CONTENT[step];
+
+  // Helpers
+  const showErrors = (newErrors: ResetFormErrors) => {
+    setErrors(newErrors);
+    const message = Object.values(newErrors).find(Boolean);
+    if (message) AccessibilityInfo.announceForAccessibility(message);
+  };
+
+  const goToStep = (nextStep: ResetStep) => {
+    setErrors({});
+    setStep(nextStep);
+    AccessibilityInfo.announceForAccessibility(STEP_CONTENT[nextStep].title);
+  };
+
+  // Handlers
+  const handleRequestCode = useCallback(async () => {
+    const emailError = validateEmail(email);
+    if (emailError) {
+      showErrors({ email: emailError });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await authService.requestPasswordReset(email);
+      setCode('');
+      goToStep('code');
+    } catch (error) {
+      showErrors(getFormErrorsForResetError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [email, authService]);
+
+  const handleResendCode = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      await authService.requestPasswordReset(email);
+      setErrors({});
+      AccessibilityInfo.announceForAccessibility(t('passwordReset.codeResent'));
+    } catch (error) {
+      showErrors(getFormErrorsForResetError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [email, authService]);
+
+  const handleVerifyCode = useCallback(async () => {
+    const codeError = validateVerificationCode(code);
+    if (codeError) {
+      showErrors({ code: codeError });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const grant = await authService.verifyPasswordResetCode(email, code);
+      setResetToken(grant.resetToken);
+      goToStep('password');
+    } catch (error) {
+      showErrors(getFormErrorsForResetError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [email, code, authService]);
+
+  const handleResetPassword = useCallback(async () => {
+    const newErrors: ResetFormErrors = {};
+    const passwordError = validatePassword(password);
+    if (passwordError) newErrors.password = passwordError;
+    if (password !== confirmPassword) newErrors.confirmPassword = t('validation.passwordsDoNotMatch');
+    if (Object.keys(newErrors).length > 0) {
+      showErrors(newErrors);
+      return;
+    }
+    if (!resetToken) {
+      goToStep('request');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await authService.resetPassword(resetToken, password);
+      setPassword('');
+      setConfirmPassword('');
+      goToStep('done');
+    } catch (error) {
+      showErrors(getFormErrorsForResetError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [password, confirmPassword, resetToken, authService]);
+
+  const handlePrimaryAction = () => {
+    switch (step) {
+      case 'request':
+        return handleRequestCode();
+      case 'code':
+        return handleVerifyCode();
+      case 'password':
+        return handleResetPassword();
+      case 'done':
+        return onComplete();
+    }
+  };
+
+  const handleStartOver = useCallback(() => {
+    setResetToken(undefined);
+    goToStep('request');
+  }, []);
+
+  const handleBack = useCallback(() => {
+    AccessibilityInfo.announceForAccessibility(t('passwordReset.goingBack'));
+    onBack();
+  }, [onBack]);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={handleBack}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('passwordReset.backLabel')}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+
+        <View style={styles.headerContent}>
+          <View style={[styles.iconContainer, step === 'done' && styles.iconContainerSuccess]}>
+            <Ionicons
+              name={step === 'done' ? 'checkmark' : 'key'}
+              size={32}
+              color={step === 'done' ? colors.onPrimary : colors.primary}
+            />
+          </View>
+          <AppText style={styles.headerTitle} accessibilityRole="header">{content.title}</AppText>
+          <AppText style={styles.headerSubtitle}>{content.subtitle}</AppText>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.formContainer}>
+          {step === 'request' && (
+            <FormInput
+              label={t('fields.email.label')}
+              value={email}
+              onChangeText={(value) => {
+                setEmail(value);
+                setErrors({});
+              }}
+              placeholder={t('fields.email.placeholder')}
+              keyboardType="email-address"
+              error={errors.email}
+              required
+            />
+          )}
+
+          {step === 'code' && (
+            <>
+              <AppText style={styles.sentTo}>{t('passwordReset.codeSentTo', { email })}</AppText>
+              <FormInput
+                label={t('passwordReset.fields.code')}
+                value={code}
+                onChangeText={(value) => {
+                  setCode(value.replace(/\D/g, ''));
+                  setErrors({});
+                }}
+                placeholder={'0'.repeat(VERIFICATION_CODE_LENGTH)}
+                keyboardType="number-pad"
+                maxLength={VERIFICATION_CODE_LENGTH}
+                error={errors.code}
+                required
+              />
+            </>
+          )}
+
+          {step === 'password' && (
+            <>
+              <FormInput
+                label={t('passwordReset.fields.newPassword')}
+                value={password}
+                onChangeText={(value) => {
+                  setPassword(value);
+                  setErrors({});
+                }}
+                placeholder={t('passwordReset.fields.newPasswordPlaceholder')}
+                secureTextEntry
+                error={errors.password}
+                required
+              />
+              <FormInput
+                label={t('passwordReset.fields.confirmPassword')}
+                value={confirmPassword}
+                onChangeText={(value) => {
+                  setConfirmPassword(value);
+                  setErrors({});
+                }}
+                placeholder={t('passwordReset.fields.confirmPasswordPlaceholder')}
+                secureTextEntry
+                error={errors.confirmPassword}
+                required
+              />
+            </>
+          )}
+
+          {/* General error */}
+          {errors.general && (
+            <AppText style={styles.generalError} accessible={true} accessibilityRole="alert">
+              {errors.general}
+            </AppText>
+          )}
+
+          {/* Primary Action */}
+          <TouchableOpacity
+            style={[styles.primaryButton, isLoading && styles.primaryButtonDisabled]}
+            onPress={handlePrimaryAction}
+            disabled={isLoading}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={content.buttonText}
+          >
+            <AppText style={styles.primaryButtonText}>
+              {isLoading ? t('common.pleaseWait') : content.buttonText}
+            </AppText>
+            {!isLoading && (
+              <Ionicons name="arrow-forward" size={20} color={colors.onPrimary} />
+            )}
+          </TouchableOpacity>
+
+          {/* Secondary Actions */}
+          {step === 'code' && (
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={handleResendCode}
+              disabled={isLoading}
+              accessible={true}
+              accessibilityRole="button"
+            >
+              <AppText style={styles.linkText}>{t('passwordReset.resendCode')}</AppText>
+            </TouchableOpacity>
+          )}
+
+          {(step === 'code' || step === 'password') && (
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={handleStartOver}
+              disabled={isLoading}
+              accessible={true}
+              accessibilityRole="button"
+            >
+              <AppText style={styles.linkText}>{t('passwordReset.changeEmail')}</AppText>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 32,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  headerContent: {
+    alignItems: 'center',
+  },
+  iconContainer: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: colors.surfaceElevated,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  iconContainerSuccess: {
+    backgroundColor: colors.success,
+    borderColor: colors.success,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  formContainer: {
+    paddingBottom: 40,
+  },
+  sentTo: {
+    ...typography.caption,
+    color: colors.textTertiary,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  generalError: {
+    ...typography.caption,
+    color: colors.error,
+    textAlign: 'center',
+    marginBottom: 20,
+    padding: 12,
+    backgroundColor: `${colors.error}20`,
+    borderRadius: 8,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary,
+    paddingVertical: 16,
+    borderRadius: 12,
+    marginBottom: 24,
+    gap: 8,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  linkText: {
+    ...typography.body,
+    color: colors.primary,
+    textDecorationLine: 'underline',
+  },
+});
+
+export default PasswordResetScreen;
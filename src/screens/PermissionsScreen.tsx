@@ -0,0 +1,488 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  AccessibilityInfo,
+  AppState,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  APP_PERMISSIONS,
+  AppPermission,
+  PermissionState,
+  getPermissionStates,
+  loadPermissionPreferences,
+  openPermissionSettings,
+  recordPermissionDecision,
+  requestPermission,
+  wasPermissionDeclined,
+} from '../services/permissions';
+import { t } from '../i18n';
+import { Theme, ThemeColors } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import AppText from '../components/AppText';
+
+// Types
+interface PermissionsScreenProps {
+  onDone: () => void;
+  // Only offered when opened from Settings; during onboarding the way out is finishing or skipping
+  onBack?: () => void;
+}
+
+// Constants
+const PERMISSION_DETAILS: Record<AppPermission, {
+  title: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  reason: string;
+  uses: string[];
+}> = {
+  notifications: {
+    title: t('permissions.notifications.title'),
+    icon: 'notifications',
+    reason: t('permissions.notifications.reason'),
+    uses: [t('permissions.notifications.uses.eventReminders'), t('permissions.notifications.uses.chatMessages')],
+  },
+  location: {
+    title: t('permissions.location.title'),
+    icon: 'location',
+    reason: t('permissions.location.reason'),
+    uses: [t('permissions.location.uses.friendFinder'), t('permissions.location.uses.campusMap')],
+  },
+  camera: {
+    title: t('permissions.camera.title'),
+    icon: 'camera',
+    reason: t('permissions.camera.reason'),
+    uses: [t('permissions.camera.uses.tickets'), t('permissions.camera.uses.profilePhoto')],
+  },
+  contacts: {
+    title: t('permissions.contacts.title'),
+    icon: 'people',
+    reason: t('permissions.contacts.reason'),
+    uses: [t('permissions.contacts.uses.findFriends')],
+  },
+};
+
+const STATE_LABELS: Record<PermissionState, { label: string; color: keyof ThemeColors }> = {
+  granted: { label: t('permissions.states.on'), color: 'success' },
+  denied: { label: t('permissions.states.off'), color: 'warning' },
+  blocked: { label: t('permissions.states.off'), color: 'warning' },
+  undetermined: { label: t('permissions.states.notSet'), color: 'textTertiary' },
+};
+
+// Main Permissions Screen Component
+// Asks for each permission in turn with the reason it's needed, then shows where each one stands.
+// Anything declined is remembered and left alone until the user turns it on here or in Settings.
+const PermissionsScreen: React.FC<PermissionsScreenProps> = ({
+  onDone,
+  onBack,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+
+  // State
+  const [states, setStates] = useState<Record<AppPermission, PermissionState> | null>(null);
+  const [queue, setQueue] = useState<AppPermission[]>([]);
+  const [step, setStep] = useState(0);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const current = queue[step];
+
+  // Helpers
+  const refreshStates = useCallback(() => {
+    getPermissionStates()
+      .then(setStates)
+      .catch((error) => {
+        console.error('Failed to check permissions:', error);
+      });
+  }, []);
+
+  // Effects
+  // Only permissions the OS hasn't asked about, and the user hasn't already declined, are stepped through
+  useEffect(() => {
+    Promise.all([getPermissionStates(), loadPermissionPreferences()])
+      .then(([initialStates, preferences]) => {
+        setQueue(APP_PERMISSIONS.filter(permission =>
+          initialStates[permission] === 'undetermined' && !wasPermissionDeclined(preferences, permission)
+        ));
+        setStates(initialStates);
+      })
+      .catch((error) => {
+        console.error('Failed to load permissions:', error);
+        setStates({ notifications: 'undetermined', location: 'undetermined', camera: 'undetermined', contacts: 'undetermined' });
+      });
+  }, []);
+
+  // Changes made in the Settings app show up as soon as the user comes back
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState === 'active') refreshStates();
+    });
+    return () => subscription.remove();
+  }, [refreshStates]);
+
+  useEffect(() => {
+    if (current) {
+      AccessibilityInfo.announceForAccessibility(
+        t('permissions.stepAnnouncement', { title: PERMISSION_DETAILS[current].title, step: step + 1, total: queue.length })
+      );
+    }
+  }, [current, step, queue.length]);
+
+  // Handlers
+  const handleRequest = useCallback(async (permission: AppPermission) => {
+    setIsRequesting(true);
+    try {
+      const result = await requestPermission(permission);
+      setStates(previous => previous && { ...previous, [permission]: result });
+      AccessibilityInfo.announceForAccessibility(
+        t(result === 'granted' ? 'permissions.allowed' : 'permissions.notAllowed', { title: PERMISSION_DETAILS[permission].title })
+      );
+    } catch (error) {
+      console.error(`Failed to request ${permission} permission:`, error);
+    } finally {
+      setIsRequesting(false);
+    }
+  }, []);
+
+  const handleAllow = useCallback(async () => {
+    if (!current) return;
+    await handleRequest(current);
+    setStep(previous => previous + 1);
+  }, [current, handleRequest]);
+
+  const handleNotNow = useCallback(() => {
+    if (!current) return;
+    recordPermissionDecision(current, 'skipped').catch((error) => {
+      console.error('Failed to save permission choice:', error);
+    });
+    setStep(previous => previous + 1);
+  }, [current]);
+
+  const handleOpenSettings = useCallback(() => {
+    openPermissionSettings().catch((error) => {
+      console.error('Failed to open settings:', error);
+    });
+  }, []);
+
+  // Step View
+  const renderStep = (permission: AppPermission) => {
+    const details = PERMISSION_DETAILS[permission];
+
+    return (
+      <>
+        <ScrollView style={styles.content} contentContainerStyle={styles.stepContent} showsVerticalScrollIndicator={false}>
+          <AppText style={styles.stepCounter}>
+            {t('permissions.stepCounter', { step: step + 1, total: queue.length })}
+          </AppText>
+          <View style={styles.iconContainer}>
+            <Ionicons name={details.icon} size={40} color={colors.primary} />
+          </View>
+          <AppText style={styles.stepTitle} accessibilityRole="header">{details.title}</AppText>
+          <AppText style={styles.stepReason}>{details.reason}</AppText>
+
+          <View style={styles.usesCard}>
+            {details.uses.map(use => (
+              <View key={use} style={styles.useRow}>
+                <Ionicons name="checkmark-circle" size={18} color={colors.secondary} />
+                <AppText style={styles.useText}>{use}</AppText>
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+
+        {/* Action Bar */}
+        <View style={[styles.actionBar, { paddingBottom: insets.bottom + 24 }]}>
+          <TouchableOpacity
+            style={[styles.primaryButton, isRequesting && styles.primaryButtonDisabled]}
+            onPress={handleAllow}
+            disabled={isRequesting}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('permissions.allowTitle', { title: details.title })}
+            accessibilityState={{ disabled: isRequesting, busy: isRequesting }}
+          >
+            {isRequesting ? (
+              <ActivityIndicator color={colors.onPrimary} />
+            ) : (
+              <AppText style={styles.primaryButtonText}>
+                {t('permissions.allowTitle', { title: details.title })}
+              </AppText>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={handleNotNow}
+            disabled={isRequesting}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('permissions.notNowLabel', { title: details.title })}
+          >
+            <AppText style={styles.linkButtonText}>{t('permissions.notNow')}</AppText>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  // Summary View
+  const renderSummary = (currentStates: Record<AppPermission, PermissionState>) => (
+    <>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <AppText style={styles.summaryIntro}>
+          {t('permissions.summaryIntro')}
+        </AppText>
+
+        <View style={styles.card}>
+          {APP_PERMISSIONS.map((permission) => {
+            const details = PERMISSION_DETAILS[permission];
+            const state = currentStates[permission];
+            const status = STATE_LABELS[state];
+
+            return (
+              <View key={permission} style={styles.permissionRow}>
+                <Ionicons name={details.icon} size={22} color={colors.primary} />
+                <View style={styles.permissionContent}>
+                  <AppText style={styles.permissionTitle}>{details.title}</AppText>
+                  <AppText style={[styles.permissionStatus, { color: colors[status.color] }]}>{status.label}</AppText>
+                </View>
+
+                {state === 'blocked' && (
+                  <TouchableOpacity
+                    style={styles.rowButton}
+                    onPress={handleOpenSettings}
+                    accessible={true}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('permissionNotice.openSettingsLabel', { name: details.title })}
+                  >
+                    <AppText style={styles.rowButtonText}>{t('permissions.settings')}</AppText>
+                  </TouchableOpacity>
+                )}
+                {(state === 'denied' || state === 'undetermined') && (
+                  <TouchableOpacity
+                    style={styles.rowButton}
+                    onPress={() => handleRequest(permission)}
+                    disabled={isRequesting}
+                    accessible={true}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('permissions.allowTitle', { title: details.title })}
+                  >
+                    <AppText style={styles.rowButtonText}>{t('permissions.allow')}</AppText>
+                  </TouchableOpacity>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+
+      {/* Action Bar */}
+      <View style={[styles.actionBar, { paddingBottom: insets.bottom + 24 }]}>
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={onDone}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={onBack ? t('permissions.done') : t('permissions.continueLabel')}
+        >
+          <AppText style={styles.primaryButtonText}>
+            {onBack ? t('permissions.done') : t('permissions.continue')}
+          </AppText>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        {onBack && (
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={onBack}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('common.goBack')}
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+          </TouchableOpacity>
+        )}
+
+        <AppText style={styles.headerTitle} accessibilityRole="header">{t('permissions.title')}</AppText>
+      </View>
+
+      {!states ? (
+        <View style={styles.loading}>
+          <ActivityIndicator color={colors.primary} />
+        </View>
+      ) : current ? renderStep(current) : renderSummary(states)}
+    </View>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  stepContent: {
+    alignItems: 'center',
+    paddingTop: 24,
+  },
+  stepCounter: {
+    ...typography.caption,
+    fontWeight: '600',
+    color: colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 24,
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  stepTitle: {
+    ...typography.h2,
+    color: colors.textPrimary,
+    marginBottom: 8,
+  },
+  stepReason: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  usesCard: {
+    alignSelf: 'stretch',
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  useRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  useText: {
+    ...typography.body,
+    flex: 1,
+    color: colors.textPrimary,
+  },
+  summaryIntro: {
+    ...typography.body,
+    color: colors.textSecondary,
+    marginBottom: 24,
+  },
+  card: {
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  permissionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  permissionContent: {
+    flex: 1,
+  },
+  permissionTitle: {
+    ...typography.bodyMedium,
+    color: colors.textPrimary,
+  },
+  permissionStatus: {
+    ...typography.caption,
+    marginTop: 2,
+  },
+  rowButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  rowButtonText: {
+    ...typography.caption,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  actionBar: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary,
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  linkButtonText: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+});
+
+export default PermissionsScreen;
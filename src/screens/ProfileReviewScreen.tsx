@@ -0,0 +1,376 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  Switch,
+  AccessibilityInfo,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import FormInput from '../components/FormInput';
+import AppText from '../components/AppText';
+import { LinkedInProfile, UserSession } from '../types/navigation';
+import { AuthService } from '../services/authService';
+import { authService as defaultAuthService } from '../services';
+import { buildProfileFromLinkedIn, formatDegree } from '../utils/alumniProfile';
+import { t } from '../i18n';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+
+// Types
+interface ProfileReviewScreenProps {
+  session: UserSession;
+  linkedInProfile: LinkedInProfile;
+  onConfirmed: (session: UserSession) => void;
+  onSkip: () => void;
+  authService?: AuthService;
+}
+
+interface ProfileReviewErrors {
+  firstName?: string;
+  lastName?: string;
+  degrees?: string;
+  general?: string;
+}
+
+// Constants
+// Main Profile Review Screen Component
+const ProfileReviewScreen: React.FC<ProfileReviewScreenProps> = ({
+  session,
+  linkedInProfile,
+  onConfirmed,
+  onSkip,
+  authService = defaultAuthService,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const draft = useMemo(
+    () => buildProfileFromLinkedIn(linkedInProfile, session.user),
+    [linkedInProfile, session.user]
+  );
+  const degrees = draft.degrees ?? [];
+
+  // State
+  const [firstName, setFirstName] = useState(draft.firstName);
+  const [lastName, setLastName] = useState(draft.lastName);
+  const [major, setMajor] = useState(draft.major ?? '');
+  const [useAvatar, setUseAvatar] = useState(Boolean(draft.avatar));
+  const [includedDegrees, setIncludedDegrees] = useState<boolean[]>(() => degrees.map(() => true));
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<ProfileReviewErrors>({});
+
+  const confirmedDegrees = degrees.filter((_, index) => includedDegrees[index]);
+  const classYear = confirmedDegrees[0]?.graduationYear;
+
+  // Handlers
+  const toggleDegree = useCallback((index: number) => {
+    setIncludedDegrees(prev => prev.map((included, i) => (i === index ? !included : included)));
+    setErrors(prev => ({ ...prev, degrees: undefined }));
+  }, []);
+
+  const handleConfirm = useCallback(async () => {
+    const nextErrors: ProfileReviewErrors = {};
+    if (!firstName.trim()) nextErrors.firstName = t('validation.firstNameRequired');
+    if (!lastName.trim()) nextErrors.lastName = t('validation.lastNameRequired');
+    if (confirmedDegrees.length === 0) nextErrors.degrees = t('profileReview.errors.degreeRequired');
+
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) {
+      AccessibilityInfo.announceForAccessibility(t('profileReview.fixFields'));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updatedSession = await authService.updateProfile(session, {
+        firstName: firstName.trim(),
+        lastName: lastName.trim(),
+        major: major.trim() || undefined,
+        avatar: useAvatar ? draft.avatar : undefined,
+        degrees: confirmedDegrees,
+      });
+      AccessibilityInfo.announceForAccessibility(
+        t('profileReview.saved', { classYear: updatedSession.user.profile?.graduationYear ?? classYear })
+      );
+      onConfirmed(updatedSession);
+    } catch (error) {
+      const message = t('profileReview.errors.saveFailed');
+      setErrors({ general: message });
+      AccessibilityInfo.announceForAccessibility(message);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [authService, session, firstName, lastName, major, useAvatar, draft.avatar, confirmedDegrees, classYear, onConfirmed]);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <AppText style={styles.headerTitle} accessibilityRole="header">{t('profileReview.title')}</AppText>
+        <AppText style={styles.headerSubtitle}>{t('profileReview.subtitle')}</AppText>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {/* Photo */}
+        {draft.avatar && (
+          <View style={styles.avatarRow}>
+            <Image
+              source={{ uri: draft.avatar }}
+              style={[styles.avatar, !useAvatar && styles.avatarDisabled]}
+              accessibilityIgnoresInvertColors={true}
+            />
+            <AppText style={styles.avatarLabel}>{t('profileReview.useLinkedInPhoto')}</AppText>
+            <Switch
+              value={useAvatar}
+              onValueChange={setUseAvatar}
+              trackColor={{ true: colors.primary, false: colors.surfaceElevated }}
+              accessibilityLabel={t('profileReview.useLinkedInPhoto')}
+            />
+          </View>
+        )}
+
+        <FormInput
+          label={t('fields.firstName.label')}
+          value={firstName}
+          onChangeText={setFirstName}
+          autoCapitalize="words"
+          error={errors.firstName}
+          required
+        />
+        <FormInput
+          label={t('fields.lastName.label')}
+          value={lastName}
+          onChangeText={setLastName}
+          autoCapitalize="words"
+          error={errors.lastName}
+          required
+        />
+
+        {/* Degrees */}
+        <AppText style={styles.sectionTitle}>{t('profileReview.degreesTitle')}</AppText>
+        {degrees.map((degree, index) => (
+          <TouchableOpacity
+            key={`${degree.graduationYear}-${index}`}
+            style={[styles.degreeRow, includedDegrees[index] && styles.degreeRowSelected]}
+            onPress={() => toggleDegree(index)}
+            accessible={true}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: includedDegrees[index] }}
+            accessibilityLabel={formatDegree(degree)}
+          >
+            <Ionicons
+              name={includedDegrees[index] ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={includedDegrees[index] ? colors.primary : colors.textTertiary}
+            />
+            <View style={styles.degreeContent}>
+              <AppText style={styles.degreeTitle}>{degree.degree ?? t('common.degree')}</AppText>
+              <AppText style={styles.degreeDetail}>
+                {[degree.fieldOfStudy, t('common.classOf', { classYear: degree.graduationYear })]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </AppText>
+            </View>
+          </TouchableOpacity>
+        ))}
+        {errors.degrees && (
+          <AppText style={styles.fieldError} accessibilityRole="alert">{errors.degrees}</AppText>
+        )}
+
+        <View style={styles.classYearRow}>
+          <Ionicons name="ribbon" size={20} color={colors.primary} />
+          <AppText style={styles.classYearText}>
+            {classYear ? t('common.classOf', { classYear }) : t('profileReview.selectDegree')}
+          </AppText>
+        </View>
+
+        <FormInput
+          label={t('profileReview.fields.major')}
+          value={major}
+          onChangeText={setMajor}
+          placeholder={t('profileReview.fields.majorPlaceholder')}
+          autoCapitalize="words"
+        />
+
+        {/* General error */}
+        {errors.general && (
+          <AppText style={styles.generalError} accessible={true} accessibilityRole="alert">
+            {errors.general}
+          </AppText>
+        )}
+
+        {/* Actions */}
+        <TouchableOpacity
+          style={[styles.confirmButton, isSaving && styles.confirmButtonDisabled]}
+          onPress={handleConfirm}
+          disabled={isSaving}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('profileReview.confirmLabel')}
+        >
+          {isSaving ? (
+            <ActivityIndicator color={colors.onPrimary} />
+          ) : (
+            <AppText style={styles.confirmButtonText}>{t('profileReview.confirm')}</AppText>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.skipButton}
+          onPress={onSkip}
+          disabled={isSaving}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('profileReview.skipLabel')}
+        >
+          <AppText style={styles.skipButtonText}>{t('profileReview.skip')}</AppText>
+        </TouchableOpacity>
+
+        <View style={{ height: insets.bottom + 40 }} />
+      </ScrollView>
+    </View>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  avatarRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+    gap: 12,
+  },
+  avatar: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: colors.surfaceElevated,
+  },
+  avatarDisabled: {
+    opacity: 0.4,
+  },
+  avatarLabel: {
+    ...typography.body,
+    flex: 1,
+    color: colors.textPrimary,
+  },
+  sectionTitle: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 12,
+  },
+  degreeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 12,
+  },
+  degreeRowSelected: {
+    borderColor: `${colors.primary}60`,
+  },
+  degreeContent: {
+    flex: 1,
+  },
+  degreeTitle: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 2,
+  },
+  degreeDetail: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  fieldError: {
+    ...typography.caption,
+    color: colors.error,
+    marginBottom: 12,
+  },
+  classYearRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    marginBottom: 24,
+    gap: 8,
+  },
+  classYearText: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  generalError: {
+    ...typography.caption,
+    color: colors.error,
+    textAlign: 'center',
+    marginBottom: 20,
+    padding: 12,
+    backgroundColor: `${colors.error}20`,
+    borderRadius: 8,
+  },
+  confirmButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  confirmButtonDisabled: {
+    opacity: 0.6,
+  },
+  confirmButtonText: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+  skipButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  skipButtonText: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textDecorationLine: 'underline',
+  },
+});
+
+export default ProfileReviewScreen;
@@ -0,0 +1,577 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  RefreshControl,
+  AccessibilityInfo,
+  Alert,
+  Linking,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { UserSession } from '../types/navigation';
+import {
+  DocumentReviewSubmission,
+  ManualReviewAction,
+  ManualVerificationSubmission,
+  VerificationError,
+  VerificationService,
+} from '../services/verificationService';
+import { verificationService as defaultVerificationService } from '../services';
+import { formatMatchReason } from '../utils/alumniMatching';
+import { ALUMNI_DOCUMENT_TYPES } from '../utils/manualVerification';
+import { formatDate, formatNumber, t } from '../i18n';
+import { Theme, ThemeColors } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import AppText from '../components/AppText';
+
+// Types
+interface ReviewQueueScreenProps {
+  session: UserSession;
+  onBack: () => void;
+  verificationService?: VerificationService;
+}
+
+// Constants
+const ACTIONS: Record<ManualReviewAction, { label: string; color: keyof ThemeColors; icon: keyof typeof Ionicons.glyphMap }> = {
+  approve: { label: t('reviewQueue.actions.approve.label'), color: 'success', icon: 'checkmark-circle' },
+  request_info: { label: t('reviewQueue.actions.request_info.label'), color: 'warning', icon: 'help-circle' },
+  reject: { label: t('reviewQueue.actions.reject.label'), color: 'error', icon: 'close-circle' },
+};
+
+const getDocumentLabel = (submission: DocumentReviewSubmission) =>
+  ALUMNI_DOCUMENT_TYPES.find(type => type.id === submission.documentType)?.label ?? submission.documentType;
+
+// Detail Row Component
+const DetailRow: React.FC<{ label: string; value: string }> = ({ label, value }) => {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.detailRow}>
+      <AppText style={styles.detailLabel}>{label}</AppText>
+      <AppText style={styles.detailValue}>{value}</AppText>
+    </View>
+  );
+};
+
+// Submission Card Component
+const SubmissionCard: React.FC<{
+  submission: ManualVerificationSubmission;
+  isBusy: boolean;
+  onReview: (submission: ManualVerificationSubmission, action: ManualReviewAction, note: string) => void;
+}> = ({ submission, isBusy, onReview }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [note, setNote] = useState('');
+
+  const documentUrl = submission.source === 'document' ? submission.documentUrl : undefined;
+
+  const handleOpenDocument = useCallback(() => {
+    if (!documentUrl) return;
+    Linking.openURL(documentUrl).catch(() => {
+      Alert.alert(t('reviewQueue.documentUnavailable.title'), t('reviewQueue.documentUnavailable.message'));
+    });
+  }, [documentUrl]);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <View style={styles.cardHeaderText}>
+          <AppText style={styles.applicantName}>{submission.applicantName}</AppText>
+          <AppText style={styles.applicantEmail}>{submission.applicantEmail}</AppText>
+        </View>
+        <AppText style={styles.submittedAt}>
+          {formatDate(submission.submittedAt, { dateStyle: 'short' })}
+        </AppText>
+      </View>
+
+      {submission.source === 'linkedin' && (
+        <>
+          <DetailRow label={t('reviewQueue.submission.source')} value={t('reviewQueue.submission.linkedIn')} />
+          <DetailRow label={t('reviewQueue.submission.school')} value={submission.schoolName} />
+        </>
+      )}
+      <DetailRow
+        label={t('reviewQueue.submission.degree')}
+        value={submission.degree || t('reviewQueue.submission.notListed')}
+      />
+      <DetailRow
+        label={t('reviewQueue.submission.graduated')}
+        value={submission.graduationYear ? String(submission.graduationYear) : t('reviewQueue.submission.notListed')}
+      />
+
+      {submission.source === 'document' ? (
+        <TouchableOpacity
+          style={styles.documentButton}
+          onPress={handleOpenDocument}
+          disabled={!documentUrl}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('reviewQueue.submission.openDocumentLabel', {
+            type: getDocumentLabel(submission),
+            name: submission.documentName,
+          })}
+        >
+          <Ionicons name="document-text" size={20} color={colors.primary} />
+          <AppText style={styles.documentText} numberOfLines={1}>
+            {getDocumentLabel(submission)} · {submission.documentName}
+          </AppText>
+          <Ionicons name="open-outline" size={16} color={colors.textTertiary} />
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.evidence}>
+          <DetailRow
+            label={t('reviewQueue.submission.confidence')}
+            value={formatNumber(submission.confidence, { style: 'percent' })}
+          />
+          {submission.reasons.map(reason => formatMatchReason(reason)).map(reason => (
+            <AppText key={reason} style={styles.reasonText}>• {reason}</AppText>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        allowFontScaling={false}
+        style={styles.noteInput}
+        value={note}
+        onChangeText={setNote}
+        placeholder={t('reviewQueue.submission.notePlaceholder')}
+        placeholderTextColor={colors.textTertiary}
+        multiline
+        accessible={true}
+        accessibilityLabel={t('reviewQueue.submission.noteLabel')}
+      />
+
+      <View style={styles.actions}>
+        {(Object.keys(ACTIONS) as ManualReviewAction[]).map((action) => (
+          <TouchableOpacity
+            key={action}
+            style={[styles.actionButton, { borderColor: colors[ACTIONS[action].color] }, isBusy && styles.actionButtonDisabled]}
+            onPress={() => onReview(submission, action, note)}
+            disabled={isBusy}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`${ACTIONS[action].label} ${submission.applicantName}`}
+          >
+            <Ionicons name={ACTIONS[action].icon} size={16} color={colors[ACTIONS[action].color]} />
+            <AppText style={[styles.actionText, { color: colors[ACTIONS[action].color] }]}>
+              {ACTIONS[action].label}
+            </AppText>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+// Main Review Queue Screen Component
+const ReviewQueueScreen: React.FC<ReviewQueueScreenProps> = ({
+  session,
+  onBack,
+  verificationService = defaultVerificationService,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+
+  // State
+  const [submissions, setSubmissions] = useState<ManualVerificationSubmission[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | undefined>();
+  const [revokeEmail, setRevokeEmail] = useState('');
+  const [revokeReason, setRevokeReason] = useState('');
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [revokeError, setRevokeError] = useState<string | undefined>();
+
+  // Helpers
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(undefined);
+    try {
+      setSubmissions(await verificationService.listReviewQueue(session));
+    } catch (error) {
+      setLoadError(t('reviewQueue.loadFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [verificationService, session]);
+
+  // Effects
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  // Handlers
+  const submitReview = useCallback(async (
+    submission: ManualVerificationSubmission,
+    action: ManualReviewAction,
+    note: string
+  ) => {
+    setReviewingId(submission.id);
+    try {
+      await verificationService.reviewManualVerification(session, submission.id, action, note);
+      setSubmissions(prev => prev.filter(item => item.id !== submission.id));
+      AccessibilityInfo.announceForAccessibility(t(`reviewQueue.actions.${action}.done`, { name: submission.applicantName }));
+    } catch (error) {
+      Alert.alert(t('reviewQueue.reviewFailed.title'), t('reviewQueue.reviewFailed.message'));
+      loadQueue();
+    } finally {
+      setReviewingId(null);
+    }
+  }, [verificationService, session, loadQueue]);
+
+  const handleReview = useCallback((
+    submission: ManualVerificationSubmission,
+    action: ManualReviewAction,
+    note: string
+  ) => {
+    if (action === 'request_info' && !note.trim()) {
+      Alert.alert(t('reviewQueue.noteRequired.title'), t('reviewQueue.noteRequired.message'));
+      return;
+    }
+
+    Alert.alert(
+      t(`reviewQueue.actions.${action}.confirmTitle`, { name: submission.applicantName }),
+      t(`reviewQueue.actions.${action}.confirmMessage`),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: ACTIONS[action].label,
+          style: action === 'reject' ? 'destructive' : 'default',
+          onPress: () => submitReview(submission, action, note),
+        },
+      ]
+    );
+  }, [submitReview]);
+
+  const submitRevocation = useCallback(async () => {
+    setIsRevoking(true);
+    setRevokeError(undefined);
+    try {
+      await verificationService.revokeVerification(session, { email: revokeEmail, reason: revokeReason });
+      AccessibilityInfo.announceForAccessibility(t('reviewQueue.revoke.done', { email: revokeEmail }));
+      setRevokeEmail('');
+      setRevokeReason('');
+    } catch (error) {
+      const message = error instanceof VerificationError && error.code === 'account_not_found'
+        ? t('reviewQueue.revoke.accountNotFound')
+        : t('reviewQueue.revoke.failed');
+      setRevokeError(message);
+      AccessibilityInfo.announceForAccessibility(message);
+    } finally {
+      setIsRevoking(false);
+    }
+  }, [verificationService, session, revokeEmail, revokeReason]);
+
+  const handleRevoke = useCallback(() => {
+    if (!revokeEmail.trim() || !revokeReason.trim()) {
+      setRevokeError(t('reviewQueue.revoke.missingFields'));
+      return;
+    }
+
+    Alert.alert(
+      t('reviewQueue.revoke.confirmTitle'),
+      t('reviewQueue.revoke.confirmMessage', { email: revokeEmail.trim() }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('reviewQueue.revoke.confirmAction'), style: 'destructive', onPress: submitRevocation },
+      ]
+    );
+  }, [revokeEmail, revokeReason, submitRevocation]);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={onBack}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.goBackHome')}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+
+        <AppText style={styles.headerTitle} accessibilityRole="header">{t('reviewQueue.title')}</AppText>
+        <AppText style={styles.headerSubtitle}>
+          {t('reviewQueue.waiting', { count: submissions.length })}
+        </AppText>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={isLoading} onRefresh={loadQueue} tintColor={colors.primary} />
+        }
+      >
+        {loadError && (
+          <AppText style={styles.generalError} accessible={true} accessibilityRole="alert">
+            {loadError}
+          </AppText>
+        )}
+
+        {!isLoading && !loadError && submissions.length === 0 && (
+          <View style={styles.emptyState}>
+            <Ionicons name="checkmark-done-circle" size={48} color={colors.textTertiary} />
+            <AppText style={styles.emptyText}>{t('reviewQueue.empty')}</AppText>
+          </View>
+        )}
+
+        {submissions.map(submission => (
+          <SubmissionCard
+            key={submission.id}
+            submission={submission}
+            isBusy={reviewingId !== null}
+            onReview={handleReview}
+          />
+        ))}
+
+        {/* Revocation */}
+        <View style={styles.revokeSection}>
+          <AppText style={styles.sectionTitle}>{t('reviewQueue.revokeSection.title')}</AppText>
+          <AppText style={styles.sectionDescription}>
+            {t('reviewQueue.revokeSection.description')}
+          </AppText>
+          <TextInput
+            allowFontScaling={false}
+            style={styles.revokeInput}
+            value={revokeEmail}
+            onChangeText={setRevokeEmail}
+            placeholder={t('reviewQueue.revokeSection.emailPlaceholder')}
+            placeholderTextColor={colors.textTertiary}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            accessible={true}
+            accessibilityLabel={t('reviewQueue.revokeSection.emailLabel')}
+          />
+          <TextInput
+            allowFontScaling={false}
+            style={[styles.noteInput, styles.revokeInput]}
+            value={revokeReason}
+            onChangeText={setRevokeReason}
+            placeholder={t('reviewQueue.revokeSection.reasonPlaceholder')}
+            placeholderTextColor={colors.textTertiary}
+            multiline
+            accessible={true}
+            accessibilityLabel={t('reviewQueue.revokeSection.reasonLabel')}
+          />
+          {revokeError && (
+            <AppText style={styles.generalError} accessible={true} accessibilityRole="alert">
+              {revokeError}
+            </AppText>
+          )}
+          <TouchableOpacity
+            style={[styles.actionButton, styles.revokeButton, isRevoking && styles.actionButtonDisabled]}
+            onPress={handleRevoke}
+            disabled={isRevoking}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('reviewQueue.revokeSection.actionLabel')}
+          >
+            <Ionicons name="remove-circle" size={16} color={colors.error} />
+            <AppText style={[styles.actionText, { color: colors.error }]}>
+              {t('reviewQueue.revokeSection.action')}
+            </AppText>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ height: insets.bottom + 40 }} />
+      </ScrollView>
+    </View>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  generalError: {
+    ...typography.caption,
+    color: colors.error,
+    textAlign: 'center',
+    marginBottom: 20,
+    padding: 12,
+    backgroundColor: `${colors.error}20`,
+    borderRadius: 8,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    gap: 12,
+  },
+  emptyText: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  cardHeaderText: {
+    flex: 1,
+  },
+  applicantName: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  applicantEmail: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  submittedAt: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  detailLabel: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  detailValue: {
+    ...typography.caption,
+    color: colors.textPrimary,
+    fontWeight: '500',
+  },
+  documentButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+    marginBottom: 12,
+    gap: 8,
+  },
+  documentText: {
+    ...typography.caption,
+    flex: 1,
+    color: colors.textPrimary,
+  },
+  evidence: {
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+    marginBottom: 12,
+    gap: 4,
+  },
+  reasonText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  noteInput: {
+    ...typography.caption,
+    minHeight: 64,
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    padding: 12,
+    color: colors.textPrimary,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    gap: 4,
+  },
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+  actionText: {
+    ...typography.caption,
+    fontWeight: '600',
+  },
+  revokeSection: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 4,
+  },
+  sectionDescription: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  revokeInput: {
+    ...typography.caption,
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 8,
+    padding: 12,
+    color: colors.textPrimary,
+    marginBottom: 12,
+  },
+  revokeButton: {
+    flex: 0,
+    borderColor: colors.error,
+    paddingVertical: 12,
+  },
+});
+
+export default ReviewQueueScreen;
@@ -1,7 +1,6 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   View,
-  Text,
   StyleSheet,
   TouchableOpacity,
   ScrollView,
@@ -19,6 +18,11 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { UserRole } from '../types/navigation';
+import { t } from '../i18n';
+import { useOnboardingContent } from '../store/ContentProvider';
+import AppText from '../components/AppText';
+import { Theme, ThemeColors } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
 
 // Types
 interface RoleSelectionScreenProps {
@@ -32,8 +36,8 @@ interface RoleOption {
   badge: string;
   description: string;
   icon: keyof typeof Ionicons.glyphMap;
-  color: string;
-  borderColor: string;
+  color: keyof ThemeColors;
+  borderColor: keyof ThemeColors;
   features: string[];
 }
 
@@ -42,66 +46,11 @@ const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CARD_MARGIN = 24;
 const CARD_WIDTH = SCREEN_WIDTH - (CARD_MARGIN * 2);
 
-const COLORS = {
-  primaryGold: '#D6C238',
-  secondaryTeal: '#5C9F8A',
-  backgroundDark: '#000100',
-  surfaceDark: '#1A1A1B',
-  surfaceElevated: '#252526',
-  textPrimary: '#FEFEFE',
-  textSecondary: '#B8B8B8',
-  textTertiary: '#878787',
-  success: '#4CAF50',
-  guestColor: '#666666',
-};
-
-// Role Options Configuration
-const roleOptions: RoleOption[] = [
-  {
-    id: 'alumni',
-    title: 'Norfolk State Alumni',
-    badge: 'Verified Required',
-    description: 'Access exclusive alumni events, verified networking, and premium homecoming experiences. LinkedIn verification required.',
-    icon: 'school',
-    color: COLORS.primaryGold,
-    borderColor: COLORS.primaryGold,
-    features: [
-      'Alumni-only events and mixers',
-      'Verified community chat rooms',
-      'Priority event ticketing',
-      'Networking opportunities'
-    ]
-  },
-  {
-    id: 'student',
-    title: 'Current Student',
-    badge: 'NSU Student',
-    description: 'Connect with fellow Spartans, join student activities, and enjoy special student pricing on events and merchandise.',
-    icon: 'library',
-    color: COLORS.secondaryTeal,
-    borderColor: COLORS.secondaryTeal,
-    features: [
-      'Student-specific events',
-      'Campus activity groups',
-      'Student pricing discounts',
-      'Class year connections'
-    ]
-  },
-  {
-    id: 'guest',
-    title: 'Guest & Visitor',
-    badge: 'Welcome',
-    description: 'Explore public homecoming events, local guides, and discover what makes Norfolk State special. Upgrade anytime.',
-    icon: 'eye',
-    color: COLORS.guestColor,
-    borderColor: COLORS.guestColor,
-    features: [
-      'Public event access',
-      'Local guides and maps',
-      'General information',
-      'Upgrade to verified roles'
-    ]
-  }
+// Icons and colors for each account type; the copy comes from the onboarding content
+const ROLE_APPEARANCE: Pick<RoleOption, 'id' | 'icon' | 'color' | 'borderColor'>[] = [
+  { id: 'alumni', icon: 'school', color: 'primary', borderColor: 'primary' },
+  { id: 'student', icon: 'library', color: 'secondary', borderColor: 'secondary' },
+  { id: 'guest', icon: 'eye', color: 'guestBadge', borderColor: 'guestBadge' },
 ];
 
 // Role Card Component
@@ -111,6 +60,9 @@ const RoleCard: React.FC<{
   onSelect: (roleId: UserRole) => void;
   animatedValue: Animated.SharedValue<number>;
 }> = ({ role, isSelected, onSelect, animatedValue }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const roleColor = colors[role.color];
 
   const cardAnimatedStyle = useAnimatedStyle(() => {
     const scale = interpolate(animatedValue.value, [0, 1], [1, 1.02]);
@@ -132,7 +84,7 @@ const RoleCard: React.FC<{
 
   const handlePress = useCallback(() => {
     onSelect(role.id);
-    AccessibilityInfo.announceForAccessibility(`${role.title} selected`);
+    AccessibilityInfo.announceForAccessibility(t('roles.selected', { role: role.title }));
   }, [role, onSelect]);
 
   return (
@@ -141,15 +93,15 @@ const RoleCard: React.FC<{
       onPress={handlePress}
       accessible={true}
       accessibilityRole="button"
-      accessibilityLabel={`Select ${role.title}. ${role.description}`}
+      accessibilityLabel={t('roles.selectLabel', { role: role.title, description: role.description })}
       accessibilityState={{ selected: isSelected }}
     >
       <Animated.View
         style={[
           styles.card,
           {
-            borderColor: role.borderColor,
-            backgroundColor: isSelected ? `${role.color}10` : COLORS.surfaceDark,
+            borderColor: colors[role.borderColor],
+            backgroundColor: isSelected ? `${roleColor}10` : colors.surface,
           },
           cardAnimatedStyle,
         ]}
@@ -160,7 +112,7 @@ const RoleCard: React.FC<{
             style={[
               StyleSheet.absoluteFill,
               styles.cardGlow,
-              { shadowColor: role.color },
+              { shadowColor: roleColor },
               glowAnimatedStyle,
             ]}
           />
@@ -168,39 +120,41 @@ const RoleCard: React.FC<{
 
         {/* Header */}
         <View style={styles.cardHeader}>
-          <View style={[styles.iconContainer, { backgroundColor: `${role.color}20` }]}>
-            <Ionicons name={role.icon} size={32} color={role.color} />
+          <View style={[styles.iconContainer, { backgroundColor: `${roleColor}20` }]}>
+            <Ionicons name={role.icon} size={32} color={roleColor} />
           </View>
 
           <View style={styles.headerText}>
-            <Text style={styles.roleTitle}>{role.title}</Text>
-            <View style={[styles.badge, { backgroundColor: role.color }]}>
-              <Text style={[styles.badgeText, { color: role.id === 'guest' ? COLORS.textPrimary : COLORS.backgroundDark }]}>
+            <AppText variant="h2" style={styles.roleTitle}>{role.title}</AppText>
+            <View style={[styles.badge, { backgroundColor: roleColor }]}>
+              <AppText variant="meta" color={role.id === 'guest' ? 'textPrimary' : 'onPrimary'} style={styles.badgeText}>
                 {role.badge}
-              </Text>
+              </AppText>
             </View>
           </View>
 
           {isSelected && (
-            <View style={[styles.checkContainer, { backgroundColor: role.color }]}>
-              <Ionicons name="checkmark" size={20} color={role.id === 'guest' ? COLORS.textPrimary : COLORS.backgroundDark} />
+            <View style={[styles.checkContainer, { backgroundColor: roleColor }]}>
+              <Ionicons name="checkmark" size={20} color={role.id === 'guest' ? colors.textPrimary : colors.onPrimary} />
             </View>
           )}
         </View>
 
         {/* Description */}
-        <Text style={styles.roleDescription}>{role.description}</Text>
+        <AppText color="textSecondary" style={styles.roleDescription}>{role.description}</AppText>
 
         {/* Features */}
         <View style={styles.featuresContainer}>
           {role.features.slice(0, 2).map((feature, index) => (
             <View key={index} style={styles.featureRow}>
-              <Ionicons name="checkmark-circle" size={16} color={role.color} />
-              <Text style={styles.featureText}>{feature}</Text>
+              <Ionicons name="checkmark-circle" size={16} color={roleColor} />
+              <AppText variant="caption" color="textSecondary" style={styles.featureText}>{feature}</AppText>
             </View>
           ))}
           {role.features.length > 2 && (
-            <Text style={styles.moreFeatures}>+{role.features.length - 2} more features</Text>
+            <AppText variant="caption" color="textTertiary" style={styles.moreFeatures}>
+              {t('roles.moreFeatures', { count: role.features.length - 2 })}
+            </AppText>
           )}
         </View>
       </Animated.View>
@@ -211,9 +165,17 @@ const RoleCard: React.FC<{
 // Main Role Selection Screen Component
 const RoleSelectionScreen: React.FC<RoleSelectionScreenProps> = ({ onRoleSelected, onBack }) => {
   // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
+  const { content } = useOnboardingContent();
   const [selectedRole, setSelectedRole] = useState<UserRole | null>(null);
 
+  const roleOptions = useMemo<RoleOption[]>(
+    () => ROLE_APPEARANCE.map((appearance) => ({ ...appearance, ...content.roles[appearance.id] })),
+    [content.roles]
+  );
+
   // Animated values for each card
   const alumniAnim = useSharedValue(0);
   const studentAnim = useSharedValue(0);
@@ -244,20 +206,20 @@ const RoleSelectionScreen: React.FC<RoleSelectionScreenProps> = ({ onRoleSelecte
 
   const handleContinue = useCallback(() => {
     if (selectedRole) {
-      AccessibilityInfo.announceForAccessibility(`Continuing as ${selectedRole}`);
+      AccessibilityInfo.announceForAccessibility(t('roles.continuingAs', { role: content.roles[selectedRole].title }));
       onRoleSelected(selectedRole);
     }
-  }, [selectedRole, onRoleSelected]);
+  }, [selectedRole, onRoleSelected, content.roles]);
 
   const handleBack = useCallback(() => {
-    AccessibilityInfo.announceForAccessibility('Going back to welcome screen');
+    AccessibilityInfo.announceForAccessibility(t('roles.goingBack'));
     onBack();
   }, [onBack]);
 
   return (
     <View style={styles.container}>
       <LinearGradient
-        colors={[COLORS.backgroundDark, COLORS.surfaceDark]}
+        colors={[colors.background, colors.surface]}
         style={StyleSheet.absoluteFill}
       />
 
@@ -268,16 +230,16 @@ const RoleSelectionScreen: React.FC<RoleSelectionScreenProps> = ({ onRoleSelecte
           onPress={handleBack}
           accessible={true}
           accessibilityRole="button"
-          accessibilityLabel="Go back"
+          accessibilityLabel={t('common.goBack')}
         >
-          <Ionicons name="arrow-back" size={24} color={COLORS.textPrimary} />
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
         </TouchableOpacity>
 
         <View style={styles.headerContent}>
-          <Text style={styles.headerTitle}>Choose Your Role</Text>
-          <Text style={styles.headerSubtitle}>
-            Select your relationship to Norfolk State University
-          </Text>
+          <AppText style={styles.headerTitle}>{t('roles.title')}</AppText>
+          <AppText style={styles.headerSubtitle}>
+            {t('roles.subtitle')}
+          </AppText>
         </View>
       </View>
 
@@ -286,7 +248,7 @@ const RoleSelectionScreen: React.FC<RoleSelectionScreenProps> = ({ onRoleSelecte
         style={styles.content}
         showsVerticalScrollIndicator={false}
         accessible={true}
-        accessibilityLabel="Role selection options"
+        accessibilityLabel={t('roles.optionsLabel')}
       >
         <View style={styles.cardsContainer}>
           {roleOptions.map((role) => (
@@ -307,7 +269,7 @@ const RoleSelectionScreen: React.FC<RoleSelectionScreenProps> = ({ onRoleSelecte
           style={[
             styles.continueButton,
             {
-              backgroundColor: selectedRole ? COLORS.primaryGold : COLORS.textTertiary,
+              backgroundColor: selectedRole ? colors.primary : colors.textTertiary,
               opacity: selectedRole ? 1 : 0.5,
             }
           ]}
@@ -315,19 +277,21 @@ const RoleSelectionScreen: React.FC<RoleSelectionScreenProps> = ({ onRoleSelecte
           disabled={!selectedRole}
           accessible={true}
           accessibilityRole="button"
-          accessibilityLabel={selectedRole ? `Continue as ${selectedRole}` : 'Select a role to continue'}
+          accessibilityLabel={selectedRole
+            ? t('roles.continueAsLabel', { role: content.roles[selectedRole].title })
+            : t('roles.selectToContinueLabel')}
           accessibilityState={{ disabled: !selectedRole }}
         >
-          <Text style={[
+          <AppText style={[
             styles.continueButtonText,
-            { color: selectedRole ? COLORS.backgroundDark : COLORS.textSecondary }
+            { color: selectedRole ? colors.onPrimary : colors.textSecondary }
           ]}>
-            Continue
-          </Text>
+            {t('roles.continue')}
+          </AppText>
           <Ionicons
             name="arrow-forward"
             size={20}
-            color={selectedRole ? COLORS.backgroundDark : COLORS.textSecondary}
+            color={selectedRole ? colors.onPrimary : colors.textSecondary}
           />
         </TouchableOpacity>
       </View>
@@ -336,10 +300,10 @@ const RoleSelectionScreen: React.FC<RoleSelectionScreenProps> = ({ onRoleSelecte
 };
 
 // Styles
-const styles = StyleSheet.create({
+const createStyles = ({ colors, typography, isLargeText }: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.backgroundDark,
+    backgroundColor: colors.background,
   },
   header: {
     paddingHorizontal: 24,
@@ -349,7 +313,7 @@ const styles = StyleSheet.create({
     width: 48,
     height: 48,
     borderRadius: 24,
-    backgroundColor: COLORS.surfaceElevated,
+    backgroundColor: colors.surfaceElevated,
     alignItems: 'center',
     justifyContent: 'center',
     marginBottom: 20,
@@ -358,17 +322,16 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   headerTitle: {
-    fontSize: 28,
+    ...typography.h1,
     fontWeight: '700',
-    color: COLORS.textPrimary,
+    color: colors.textPrimary,
     textAlign: 'center',
     marginBottom: 8,
   },
   headerSubtitle: {
-    fontSize: 16,
-    color: COLORS.textSecondary,
+    ...typography.body,
+    color: colors.textSecondary,
     textAlign: 'center',
-    lineHeight: 22,
   },
   content: {
     flex: 1,
@@ -381,7 +344,7 @@ const styles = StyleSheet.create({
     marginBottom: 20,
   },
   card: {
-    backgroundColor: COLORS.surfaceDark,
+    backgroundColor: colors.surface,
     borderRadius: 16,
     borderWidth: 2,
     padding: 20,
@@ -393,9 +356,10 @@ const styles = StyleSheet.create({
     shadowRadius: 20,
     elevation: 10,
   },
+  // With large text the icon sits above the title so the title keeps the card's full width
   cardHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
+    flexDirection: isLargeText ? 'column' : 'row',
+    alignItems: isLargeText ? 'flex-start' : 'center',
     marginBottom: 16,
   },
   iconContainer: {
@@ -404,15 +368,10 @@ const styles = StyleSheet.create({
     borderRadius: 30,
     alignItems: 'center',
     justifyContent: 'center',
-    marginRight: 16,
-  },
-  headerText: {
-    flex: 1,
+    ...(isLargeText ? { marginBottom: 12 } : { marginRight: 16 }),
   },
+  headerText: isLargeText ? { alignSelf: 'stretch' } : { flex: 1 },
   roleTitle: {
-    fontSize: 20,
-    fontWeight: '600',
-    color: COLORS.textPrimary,
     marginBottom: 6,
   },
   badge: {
@@ -422,7 +381,6 @@ const styles = StyleSheet.create({
     borderRadius: 12,
   },
   badgeText: {
-    fontSize: 12,
     fontWeight: '600',
   },
   checkContainer: {
@@ -431,11 +389,9 @@ const styles = StyleSheet.create({
     borderRadius: 16,
     alignItems: 'center',
     justifyContent: 'center',
+    ...(isLargeText && { position: 'absolute', top: 0, right: 0 }),
   },
   roleDescription: {
-    fontSize: 16,
-    lineHeight: 24,
-    color: COLORS.textSecondary,
     marginBottom: 16,
   },
   featuresContainer: {
@@ -443,17 +399,13 @@ const styles = StyleSheet.create({
   },
   featureRow: {
     flexDirection: 'row',
-    alignItems: 'center',
+    alignItems: 'flex-start',
     gap: 8,
   },
   featureText: {
-    fontSize: 14,
-    color: COLORS.textSecondary,
     flex: 1,
   },
   moreFeatures: {
-    fontSize: 14,
-    color: COLORS.textTertiary,
     fontStyle: 'italic',
     marginLeft: 24,
   },
@@ -465,7 +417,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: COLORS.primaryGold,
+    backgroundColor: colors.primary,
     paddingVertical: 16,
     paddingHorizontal: 32,
     borderRadius: 12,
@@ -473,9 +425,9 @@ const styles = StyleSheet.create({
     gap: 8,
   },
   continueButtonText: {
-    fontSize: 18,
+    ...typography.h3,
     fontWeight: '600',
-    color: COLORS.backgroundDark,
+    color: colors.onPrimary,
   },
 });
 
@@ -0,0 +1,431 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  AccessibilityInfo,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { VerificationStatus } from '../types/navigation';
+import { useCurrentUser } from '../store/SessionProvider';
+import {
+  VERIFICATION_METHOD_LABELS,
+  VERIFICATION_STATUS_LABELS,
+  canReverify,
+  formatVerificationEventDetail,
+  getEffectiveVerificationStatus,
+  isVerificationExpiringSoon,
+} from '../utils/verificationLifecycle';
+import { formatDate, t } from '../i18n';
+import { THEME_PREFERENCE_LABELS, Theme, ThemeColors, ThemePreference } from '../theme/themes';
+import { useTheme, useThemeSettings, useThemedStyles } from '../theme/ThemeProvider';
+import AppText from '../components/AppText';
+
+// Types
+interface SettingsScreenProps {
+  onReverify: () => void;
+  onOpenPermissions: () => void;
+  onReplayIntro: () => void;
+  onBack: () => void;
+}
+
+// Constants
+const STATUS_COLORS: Record<VerificationStatus, keyof ThemeColors> = {
+  pending: 'textTertiary',
+  in_review: 'info',
+  needs_info: 'warning',
+  verified: 'success',
+  failed: 'error',
+  expired: 'warning',
+  revoked: 'error',
+};
+
+const ROLE_LABELS = {
+  alumni: t('settings.account.roles.alumni'),
+  student: t('settings.account.roles.student'),
+  guest: t('settings.account.roles.guest'),
+};
+
+const THEME_PREFERENCES: ThemePreference[] = ['system', 'dark', 'light', 'high_contrast'];
+
+// Detail Row Component
+const DetailRow: React.FC<{ label: string; value: string; valueColor?: keyof ThemeColors }> = ({ label, value, valueColor }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.detailRow} accessible={true} accessibilityLabel={`${label}: ${value}`}>
+      <AppText style={styles.detailLabel}>{label}</AppText>
+      <AppText style={[styles.detailValue, valueColor ? { color: colors[valueColor] } : undefined]}>{value}</AppText>
+    </View>
+  );
+};
+
+// Main Settings Screen Component
+const SettingsScreen: React.FC<SettingsScreenProps> = ({
+  onReverify,
+  onOpenPermissions,
+  onReplayIntro,
+  onBack,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { preference: themePreference, setPreference: setThemePreference } = useThemeSettings();
+  const insets = useSafeAreaInsets();
+  const user = useCurrentUser();
+  const status = getEffectiveVerificationStatus(user);
+  const record = user.verification;
+  const history = [...(record?.history ?? [])].reverse();
+  const isVerified = status === 'verified';
+  const showReverify = canReverify(user);
+  // A re-verification can be under review while the earlier verification still holds
+  const isInReview = status === 'in_review' || history[0]?.status === 'in_review';
+
+  // Handlers
+  const handleReverify = useCallback(() => {
+    AccessibilityInfo.announceForAccessibility(t('settings.startingVerification'));
+    onReverify();
+  }, [onReverify]);
+
+  const handleThemeChange = useCallback((preference: ThemePreference) => {
+    setThemePreference(preference);
+    AccessibilityInfo.announceForAccessibility(t('settings.appearanceSet', { theme: THEME_PREFERENCE_LABELS[preference] }));
+  }, [setThemePreference]);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={onBack}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.goBackHome')}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+
+        <AppText style={styles.headerTitle} accessibilityRole="header">{t('settings.title')}</AppText>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Account */}
+        <AppText style={styles.sectionTitle}>{t('settings.account.title')}</AppText>
+        <View style={styles.card}>
+          <DetailRow
+            label={t('settings.account.name')}
+            value={[user.firstName, user.lastName].filter(Boolean).join(' ') || t('settings.account.notSet')}
+          />
+          <DetailRow label={t('settings.account.email')} value={user.email} />
+          <DetailRow label={t('settings.account.type')} value={ROLE_LABELS[user.role]} />
+        </View>
+
+        {/* Verification */}
+        {user.role !== 'guest' && (
+          <>
+            <AppText style={styles.sectionTitle}>{t('settings.verificationSection.title')}</AppText>
+            <View style={styles.card}>
+              <DetailRow
+                label={t('settings.verificationSection.status')}
+                value={status ? VERIFICATION_STATUS_LABELS[status] : VERIFICATION_STATUS_LABELS.pending}
+                valueColor={STATUS_COLORS[status ?? 'pending']}
+              />
+              {record?.method && (
+                <DetailRow
+                  label={t('settings.verificationSection.method')}
+                  value={VERIFICATION_METHOD_LABELS[record.method]}
+                />
+              )}
+              {record?.verifiedAt && (
+                <DetailRow label={t('settings.verificationSection.verifiedOn')} value={formatDate(record.verifiedAt)} />
+              )}
+              {record?.expiresAt && (
+                <DetailRow
+                  label={t(status === 'expired'
+                    ? 'settings.verificationSection.expiredOn'
+                    : 'settings.verificationSection.expiresOn')}
+                  value={formatDate(record.expiresAt)}
+                  valueColor={isVerificationExpiringSoon(user) || status === 'expired' ? 'warning' : undefined}
+                />
+              )}
+              {status === 'revoked' && record?.revokedAt && (
+                <DetailRow
+                  label={t('settings.verificationSection.revokedOn')}
+                  value={formatDate(record.revokedAt)}
+                  valueColor="error"
+                />
+              )}
+              {status === 'revoked' && record?.revocationReason && (
+                <AppText style={styles.revocationReason}>{record.revocationReason}</AppText>
+              )}
+            </View>
+
+            {/* Vouchers */}
+            {record?.method === 'vouching' && record.vouchers && record.vouchers.length > 0 && (
+              <>
+                <AppText style={styles.sectionTitle}>{t('settings.verificationSection.vouchers')}</AppText>
+                <View style={styles.card}>
+                  {record.vouchers.map(voucher => (
+                    <DetailRow
+                      key={voucher.userId}
+                      label={voucher.name}
+                      value={t('common.classOf', { classYear: voucher.classYear })}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+
+            {showReverify && (
+              <TouchableOpacity
+                style={styles.reverifyButton}
+                onPress={handleReverify}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={t(isVerified
+                  ? 'settings.verificationSection.reverifyLabel'
+                  : 'settings.verificationSection.verifyLabel')}
+              >
+                <Ionicons name="shield-checkmark" size={20} color={colors.onPrimary} />
+                <AppText style={styles.reverifyButtonText}>
+                  {t(isVerified ? 'settings.verificationSection.reverify' : 'settings.verificationSection.verify')}
+                </AppText>
+              </TouchableOpacity>
+            )}
+
+            {isInReview && (
+              <AppText style={styles.helperText}>{t('settings.verificationSection.inReview')}</AppText>
+            )}
+
+            {/* History */}
+            {history.length > 0 && (
+              <>
+                <AppText style={styles.sectionTitle}>{t('settings.verificationSection.history')}</AppText>
+                <View style={styles.card}>
+                  {history.map((event, index) => (
+                    <View
+                      key={`${event.at}-${index}`}
+                      style={styles.historyRow}
+                      accessible={true}
+                    >
+                      <View style={[styles.historyDot, { backgroundColor: colors[STATUS_COLORS[event.status]] }]} />
+                      <View style={styles.historyContent}>
+                        <AppText style={styles.historyTitle}>
+                          {VERIFICATION_STATUS_LABELS[event.status]}
+                          {event.method ? ` · ${VERIFICATION_METHOD_LABELS[event.method]}` : ''}
+                        </AppText>
+                        <AppText style={styles.historyDate}>{formatDate(event.at)}</AppText>
+                        {event.detail && (
+                          <AppText style={styles.historyNote}>{formatVerificationEventDetail(event.detail)}</AppText>
+                        )}
+                        {event.note && <AppText style={styles.historyNote}>{event.note}</AppText>}
+                      </View>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
+          </>
+        )}
+
+        {/* Appearance */}
+        <AppText style={styles.sectionTitle}>{t('settings.appearance')}</AppText>
+        <View style={styles.card} accessibilityRole="radiogroup">
+          {THEME_PREFERENCES.map((preference) => {
+            const isSelected = preference === themePreference;
+
+            return (
+              <TouchableOpacity
+                key={preference}
+                style={styles.optionRow}
+                onPress={() => handleThemeChange(preference)}
+                accessible={true}
+                accessibilityRole="radio"
+                accessibilityLabel={THEME_PREFERENCE_LABELS[preference]}
+                accessibilityState={{ checked: isSelected }}
+              >
+                <AppText style={styles.linkRowText}>{THEME_PREFERENCE_LABELS[preference]}</AppText>
+                <Ionicons
+                  name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={isSelected ? colors.primary : colors.textTertiary}
+                />
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Device */}
+        <AppText style={styles.sectionTitle}>{t('settings.device.title')}</AppText>
+        <TouchableOpacity
+          style={[styles.card, styles.linkRow]}
+          onPress={onOpenPermissions}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('settings.device.permissionsLabel')}
+        >
+          <Ionicons name="lock-closed" size={20} color={colors.primary} />
+          <AppText style={styles.linkRowText}>{t('settings.device.permissions')}</AppText>
+          <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.card, styles.linkRow]}
+          onPress={onReplayIntro}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('settings.device.replayIntroLabel')}
+        >
+          <Ionicons name="play-circle" size={20} color={colors.primary} />
+          <AppText style={styles.linkRowText}>{t('settings.device.replayIntro')}</AppText>
+          <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+        </TouchableOpacity>
+
+        <View style={{ height: insets.bottom + 40 }} />
+      </ScrollView>
+    </View>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  sectionTitle: {
+    ...typography.caption,
+    fontWeight: '600',
+    color: colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 24,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 12,
+  },
+  detailLabel: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  detailValue: {
+    ...typography.bodyMedium,
+    flexShrink: 1,
+    color: colors.textPrimary,
+    textAlign: 'right',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 16,
+    gap: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  linkRowText: {
+    ...typography.bodyMedium,
+    flex: 1,
+    color: colors.textPrimary,
+  },
+  revocationReason: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    paddingBottom: 10,
+  },
+  reverifyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 16,
+    marginBottom: 24,
+    gap: 8,
+  },
+  reverifyButtonText: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+  helperText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginBottom: 24,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    gap: 12,
+  },
+  historyDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 6,
+  },
+  historyContent: {
+    flex: 1,
+  },
+  historyTitle: {
+    ...typography.bodyMedium,
+    color: colors.textPrimary,
+  },
+  historyDate: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  historyNote: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+});
+
+export default SettingsScreen;
@@ -1,7 +1,6 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
-  Text,
   StyleSheet,
   Dimensions,
   AccessibilityInfo,
@@ -19,10 +18,16 @@ import Animated, {
 } from 'react-native-reanimated';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { APP_CONFIG } from '../utils/constants';
+import { t } from '../i18n';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import AppText from '../components/AppText';
 
 // Types
 interface SplashScreenProps {
   onComplete: () => void;
+  isReady?: boolean;
 }
 
 interface LoadingDotsProps {
@@ -32,16 +37,12 @@ interface LoadingDotsProps {
 // Constants
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const LOGO_SIZE = 180;
-const COLORS = {
-  primaryGold: '#D6C238',
-  backgroundDark: '#000100',
-  surfaceDark: '#1A1A1B',
-  textPrimary: '#FEFEFE',
-  textSecondary: '#B8B8B8',
-};
-
+// Minimum time the brand intro stays on screen, even when the app is ready sooner
+const INTRO_DURATION = 1200;
+const REDUCED_MOTION_INTRO_DURATION = 600;
 // Animated Loading Dots Component
 const LoadingDots: React.FC<LoadingDotsProps> = ({ opacity }) => {
+  const styles = useThemedStyles(createStyles);
   const dot1 = useSharedValue(0);
   const dot2 = useSharedValue(0);
   const dot3 = useSharedValue(0);
@@ -87,11 +88,16 @@ const LoadingDots: React.FC<LoadingDotsProps> = ({ opacity }) => {
 };
 
 // Main Splash Screen Component
-const SplashScreen: React.FC<SplashScreenProps> = ({ onComplete }) => {
+const SplashScreen: React.FC<SplashScreenProps> = ({ onComplete, isReady = true }) => {
   // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const reducedMotion = useReducedMotion();
 
+  // State
+  const [isIntroFinished, setIsIntroFinished] = useState(false);
+
   // Animated Values
   const logoScale = useSharedValue(reducedMotion ? 1 : 0.8);
   const logoOpacity = useSharedValue(0);
@@ -123,9 +129,7 @@ const SplashScreen: React.FC<SplashScreenProps> = ({ onComplete }) => {
   // Effects
   useEffect(() => {
     // Announce to screen readers
-    AccessibilityInfo.announceForAccessibility(
-      'NYTHC App Loading. Not Your Typical Homecoming.'
-    );
+    AccessibilityInfo.announceForAccessibility(t('splash.loading'));
 
     // Start animations
     const startAnimations = () => {
@@ -146,20 +150,30 @@ const SplashScreen: React.FC<SplashScreenProps> = ({ onComplete }) => {
         subtitleOpacity.value = withDelay(600, withTiming(1, { duration: 300 }));
         loaderOpacity.value = withDelay(1000, withTiming(1, { duration: 200 }));
       }
-
-      // Exit transition
-      screenOpacity.value = withDelay(2500, withTiming(0, { duration: 300 }, () => {
-        runOnJS(onComplete)();
-      }));
     };
 
     startAnimations();
+
+    const timer = setTimeout(
+      () => setIsIntroFinished(true),
+      reducedMotion ? REDUCED_MOTION_INTRO_DURATION : INTRO_DURATION
+    );
+    return () => clearTimeout(timer);
   }, [reducedMotion]);
 
+  // Exit transition once the intro has played and the session has been restored
+  useEffect(() => {
+    if (!isIntroFinished || !isReady) return;
+
+    screenOpacity.value = withTiming(0, { duration: 300 }, () => {
+      runOnJS(onComplete)();
+    });
+  }, [isIntroFinished, isReady]);
+
   return (
     <Animated.View style={[styles.container, screenAnimatedStyle]}>
       <LinearGradient
-        colors={[COLORS.backgroundDark, COLORS.surfaceDark]}
+        colors={[colors.background, colors.surface]}
         style={StyleSheet.absoluteFill}
         start={{ x: 0, y: 0 }}
         end={{ x: 0, y: 1 }}
@@ -169,23 +183,23 @@ const SplashScreen: React.FC<SplashScreenProps> = ({ onComplete }) => {
         {/* Logo Section */}
         <Animated.View style={[styles.logoContainer, logoAnimatedStyle]}>
           <View style={styles.logoPlaceholder}>
-            <Text style={styles.logoText}>NYTHC</Text>
-            <Text style={styles.logoSubtext}>NSU</Text>
+            <AppText style={styles.logoText}>{APP_CONFIG.name}</AppText>
+            <AppText style={styles.logoSubtext}>{t('common.schoolShortName')}</AppText>
           </View>
         </Animated.View>
 
         {/* Title Section */}
         <Animated.View style={titleAnimatedStyle}>
-          <Text style={styles.title} accessibilityRole="header">
-            NYTHC
-          </Text>
+          <AppText style={styles.title} accessibilityRole="header">
+            {APP_CONFIG.name}
+          </AppText>
         </Animated.View>
 
         {/* Subtitle Section */}
         <Animated.View style={subtitleAnimatedStyle}>
-          <Text style={styles.subtitle}>
-            Not Your Typical Homecoming
-          </Text>
+          <AppText style={styles.subtitle}>
+            {APP_CONFIG.fullName}
+          </AppText>
         </Animated.View>
       </View>
 
@@ -198,10 +212,10 @@ const SplashScreen: React.FC<SplashScreenProps> = ({ onComplete }) => {
 };
 
 // Styles
-const styles = StyleSheet.create({
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.backgroundDark,
+    backgroundColor: colors.background,
   },
   content: {
     flex: 1,
@@ -216,44 +230,41 @@ const styles = StyleSheet.create({
     width: LOGO_SIZE,
     height: LOGO_SIZE,
     borderRadius: LOGO_SIZE / 2,
-    backgroundColor: COLORS.surfaceDark,
+    backgroundColor: colors.surface,
     borderWidth: 3,
-    borderColor: COLORS.primaryGold,
+    borderColor: colors.primary,
     alignItems: 'center',
     justifyContent: 'center',
-    shadowColor: COLORS.primaryGold,
+    shadowColor: colors.primary,
     shadowOffset: { width: 0, height: 0 },
     shadowOpacity: 0.3,
     shadowRadius: 10,
     elevation: 10,
   },
   logoText: {
-    fontSize: 32,
+    ...typography.h1,
     fontWeight: '700',
-    color: COLORS.primaryGold,
+    color: colors.primary,
     letterSpacing: 2,
   },
   logoSubtext: {
-    fontSize: 14,
+    ...typography.caption,
     fontWeight: '500',
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     marginTop: 4,
     letterSpacing: 3,
   },
   title: {
-    fontSize: 28,
-    fontWeight: '600',
-    color: COLORS.primaryGold,
+    ...typography.h1,
+    color: colors.primary,
     textAlign: 'center',
     letterSpacing: 1,
     marginBottom: 8,
   },
   subtitle: {
-    fontSize: 16,
-    fontWeight: '400',
-    color: COLORS.textSecondary,
+    ...typography.body,
+    color: colors.textSecondary,
     textAlign: 'center',
-    lineHeight: 22,
   },
   footer: {
     alignItems: 'center',
@@ -268,7 +279,7 @@ const styles = StyleSheet.create({
     width: 8,
     height: 8,
     borderRadius: 4,
-    backgroundColor: COLORS.primaryGold,
+    backgroundColor: colors.primary,
     marginHorizontal: 4,
   },
 });
@@ -0,0 +1,471 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  AccessibilityInfo,
+  Alert,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { UserSession } from '../types/navigation';
+import { CodeDelivery } from '../services/authService';
+import { VerificationError, VerificationService } from '../services/verificationService';
+import { verificationService as defaultVerificationService } from '../services';
+import { validateVerificationCode, VERIFICATION_CODE_LENGTH } from '../utils/validation';
+import {
+  getGraduationYearRange,
+  isCampusEmail,
+  validateCampusEmail,
+  validateExpectedGraduationYear,
+} from '../utils/studentVerification';
+import { STUDENT_VERIFICATION } from '../utils/constants';
+import FormInput from '../components/FormInput';
+import AppText from '../components/AppText';
+import { t } from '../i18n';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+
+// Types
+interface StudentVerificationScreenProps {
+  session: UserSession;
+  onVerified: (session: UserSession) => void;
+  onSkip: () => void;
+  verificationService?: VerificationService;
+}
+
+interface StudentFormErrors {
+  campusEmail?: string;
+  graduationYear?: string;
+  code?: string;
+  general?: string;
+}
+
+// Constants
+const STUDENT_BENEFITS = [
+  t('studentVerification.benefits.pricing'),
+  t('studentVerification.benefits.events'),
+  t('studentVerification.benefits.badge'),
+];
+
+// Map backend errors onto the form fields they belong to
+const getFormErrorsForVerificationError = (error: unknown): StudentFormErrors => {
+  if (!(error instanceof VerificationError)) {
+    return { general: t('verification.failed') };
+  }
+
+  switch (error.code) {
+    case 'domain_not_allowed':
+      return { campusEmail: t('validation.campusEmailDomain', { domain: STUDENT_VERIFICATION.allowedDomains[0] }) };
+    case 'campus_email_in_use':
+      return { campusEmail: t('studentVerification.errors.campusEmailInUse') };
+    case 'invalid_graduation_year':
+      return { graduationYear: t('validation.yearOutOfRange', getGraduationYearRange()) };
+    case 'invalid_code':
+      return { code: t('studentVerification.errors.invalidCode') };
+    case 'code_expired':
+      return { general: t('verification.codeExpired') };
+    case 'rate_limited':
+      return { general: t('verification.resendRateLimited', { count: error.retryAfterSeconds ?? 30 }) };
+    case 'network_error':
+      return { general: t('common.networkError') };
+    default:
+      return { general: t('verification.failed') };
+  }
+};
+
+// Main Student Verification Screen Component
+const StudentVerificationScreen: React.FC<StudentVerificationScreenProps> = ({
+  session,
+  onVerified,
+  onSkip,
+  verificationService = defaultVerificationService,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+
+  // State
+  const [step, setStep] = useState<'details' | 'code'>('details');
+  const [campusEmail, setCampusEmail] = useState(
+    isCampusEmail(session.user.email) ? session.user.email : ''
+  );
+  const [graduationYear, setGraduationYear] = useState(
+    session.user.expectedGraduationYear ? String(session.user.expectedGraduationYear) : ''
+  );
+  const [code, setCode] = useState('');
+  const [delivery, setDelivery] = useState<CodeDelivery | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [isLoading, setIsLoading] = useState(false);
+  const [errors, setErrors] = useState<StudentFormErrors>({});
+
+  const resendSeconds = delivery ? Math.max(0, Math.ceil((delivery.resendAvailableAt - now) / 1000)) : 0;
+
+  // Effects
+  // Tick once a second while the resend cooldown is running
+  useEffect(() => {
+    if (resendSeconds <= 0) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [resendSeconds > 0]);
+
+  // Helpers
+  const showErrors = (newErrors: StudentFormErrors) => {
+    setErrors(newErrors);
+    const message = Object.values(newErrors).find(Boolean);
+    if (message) AccessibilityInfo.announceForAccessibility(message);
+  };
+
+  // Handlers
+  const handleSendCode = useCallback(async () => {
+    const newErrors: StudentFormErrors = {};
+    const emailError = validateCampusEmail(campusEmail);
+    if (emailError) newErrors.campusEmail = emailError;
+    const yearError = validateExpectedGraduationYear(graduationYear);
+    if (yearError) newErrors.graduationYear = yearError;
+    if (Object.keys(newErrors).length > 0) {
+      showErrors(newErrors);
+      return;
+    }
+
+    setIsLoading(true);
+    setErrors({});
+    try {
+      const newDelivery = await verificationService.startStudentVerification(session, {
+        campusEmail,
+        expectedGraduationYear: Number(graduationYear),
+      });
+      setDelivery(newDelivery);
+      setNow(Date.now());
+      setCode('');
+      setStep('code');
+      AccessibilityInfo.announceForAccessibility(t('verification.codeSent', { email: campusEmail }));
+    } catch (error) {
+      showErrors(getFormErrorsForVerificationError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [campusEmail, graduationYear, session, verificationService]);
+
+  const handleConfirm = useCallback(async () => {
+    const codeError = validateVerificationCode(code);
+    if (codeError) {
+      showErrors({ code: codeError });
+      return;
+    }
+
+    setIsLoading(true);
+    setErrors({});
+    try {
+      const verifiedSession = await verificationService.confirmStudentVerification(session, code);
+      AccessibilityInfo.announceForAccessibility(t('studentVerification.verified'));
+      onVerified(verifiedSession);
+    } catch (error) {
+      showErrors(getFormErrorsForVerificationError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [code, session, verificationService, onVerified]);
+
+  const handleChangeDetails = useCallback(() => {
+    setErrors({});
+    setStep('details');
+  }, []);
+
+  const handleSkip = useCallback(() => {
+    Alert.alert(
+      t('verification.skip.title'),
+      t('studentVerification.skip.message'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('verification.skip.action'),
+          onPress: () => {
+            AccessibilityInfo.announceForAccessibility(t('studentVerification.skip.done'));
+            onSkip();
+          },
+        },
+      ]
+    );
+  }, [onSkip]);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 40 }]}>
+        <View style={styles.headerContent}>
+          <View style={styles.iconContainer}>
+            <Ionicons name="library" size={32} color={colors.secondary} />
+          </View>
+          <AppText style={styles.headerTitle} accessibilityRole="header">
+            {step === 'details' ? t('studentVerification.details.title') : t('studentVerification.code.title')}
+          </AppText>
+          <AppText style={styles.headerSubtitle}>
+            {step === 'details'
+              ? t('studentVerification.details.subtitle')
+              : t('studentVerification.code.subtitle', { length: VERIFICATION_CODE_LENGTH, email: campusEmail })}
+          </AppText>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.formContainer}>
+          {step === 'details' ? (
+            <>
+              <FormInput
+                label={t('studentVerification.fields.campusEmail')}
+                value={campusEmail}
+                onChangeText={(value) => {
+                  setCampusEmail(value);
+                  setErrors({});
+                }}
+                placeholder={t('studentVerification.fields.campusEmailPlaceholder', {
+                  domain: STUDENT_VERIFICATION.allowedDomains[0],
+                })}
+                keyboardType="email-address"
+                error={errors.campusEmail}
+                accentColor={colors.secondary}
+                required
+              />
+              <FormInput
+                label={t('studentVerification.fields.graduationYear')}
+                value={graduationYear}
+                onChangeText={(value) => {
+                  setGraduationYear(value.replace(/\D/g, ''));
+                  setErrors({});
+                }}
+                placeholder={String(new Date().getFullYear() + 2)}
+                keyboardType="number-pad"
+                maxLength={4}
+                error={errors.graduationYear}
+                accentColor={colors.secondary}
+                required
+              />
+
+              {/* Benefits */}
+              <View style={styles.benefitsList}>
+                {STUDENT_BENEFITS.map((benefit) => (
+                  <View key={benefit} style={styles.benefitRow}>
+                    <Ionicons name="checkmark-circle" size={16} color={colors.secondary} />
+                    <AppText style={styles.benefitText}>{benefit}</AppText>
+                  </View>
+                ))}
+              </View>
+            </>
+          ) : (
+            <FormInput
+              label={t('fields.verificationCode.label')}
+              value={code}
+              onChangeText={(value) => {
+                setCode(value.replace(/\D/g, ''));
+                setErrors({});
+              }}
+              placeholder={'0'.repeat(VERIFICATION_CODE_LENGTH)}
+              keyboardType="number-pad"
+              maxLength={VERIFICATION_CODE_LENGTH}
+              error={errors.code}
+              accentColor={colors.secondary}
+              required
+            />
+          )}
+
+          {/* General error */}
+          {errors.general && (
+            <AppText style={styles.generalError} accessible={true} accessibilityRole="alert">
+              {errors.general}
+            </AppText>
+          )}
+
+          {/* Primary Action */}
+          <TouchableOpacity
+            style={[styles.primaryButton, isLoading && styles.primaryButtonDisabled]}
+            onPress={step === 'details' ? handleSendCode : handleConfirm}
+            disabled={isLoading}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t(step === 'details'
+              ? 'studentVerification.details.actionLabel'
+              : 'studentVerification.code.actionLabel')}
+          >
+            <AppText style={styles.primaryButtonText}>
+              {isLoading
+                ? t('common.pleaseWait')
+                : t(step === 'details' ? 'studentVerification.details.action' : 'studentVerification.code.action')}
+            </AppText>
+            {!isLoading && (
+              <Ionicons name="arrow-forward" size={20} color={colors.onPrimary} />
+            )}
+          </TouchableOpacity>
+
+          {step === 'code' && (
+            <>
+              <TouchableOpacity
+                style={styles.linkButton}
+                onPress={handleSendCode}
+                disabled={isLoading || resendSeconds > 0}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityState={{ disabled: isLoading || resendSeconds > 0 }}
+              >
+                <AppText style={[styles.linkText, resendSeconds > 0 && styles.linkTextDisabled]}>
+                  {resendSeconds > 0
+                    ? t('verification.resendCodeIn', { seconds: resendSeconds })
+                    : t('verification.resendCode')}
+                </AppText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.linkButton}
+                onPress={handleChangeDetails}
+                disabled={isLoading}
+                accessible={true}
+                accessibilityRole="button"
+              >
+                <AppText style={styles.linkText}>{t('studentVerification.code.changeEmail')}</AppText>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {/* Skip Option */}
+          <TouchableOpacity
+            style={styles.skipButton}
+            onPress={handleSkip}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('studentVerification.skipLabel')}
+          >
+            <AppText style={styles.skipButtonText}>{t('verification.verifyLater')}</AppText>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 32,
+  },
+  headerContent: {
+    alignItems: 'center',
+  },
+  iconContainer: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: colors.surfaceElevated,
+    borderWidth: 2,
+    borderColor: colors.secondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  formContainer: {
+    paddingBottom: 40,
+  },
+  benefitsList: {
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    gap: 8,
+  },
+  benefitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  benefitText: {
+    ...typography.caption,
+    flex: 1,
+    color: colors.textSecondary,
+  },
+  generalError: {
+    ...typography.caption,
+    color: colors.error,
+    textAlign: 'center',
+    marginBottom: 20,
+    padding: 12,
+    backgroundColor: `${colors.error}20`,
+    borderRadius: 8,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.secondary,
+    paddingVertical: 16,
+    borderRadius: 12,
+    marginBottom: 24,
+    gap: 8,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  linkText: {
+    ...typography.body,
+    color: colors.secondary,
+    textDecorationLine: 'underline',
+  },
+  linkTextDisabled: {
+    color: colors.textTertiary,
+    textDecorationLine: 'none',
+  },
+  skipButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  skipButtonText: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textDecorationLine: 'underline',
+  },
+});
+
+export default StudentVerificationScreen;
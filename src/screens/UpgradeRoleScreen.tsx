@@ -0,0 +1,293 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  AccessibilityInfo,
+  Alert,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { UserSession } from '../types/navigation';
+import { AuthError, AuthService, UpgradeRole } from '../services/authService';
+import { authService as defaultAuthService } from '../services';
+import { t } from '../i18n';
+import { Theme, ThemeColors } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import AppText from '../components/AppText';
+
+// Types
+interface UpgradeRoleScreenProps {
+  session: UserSession;
+  onUpgraded: (session: UserSession) => void;
+  onBack: () => void;
+  authService?: AuthService;
+}
+
+interface UpgradeOption {
+  id: UpgradeRole;
+  title: string;
+  description: string;
+  requirement: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: keyof ThemeColors;
+}
+
+// Constants
+const UPGRADE_OPTIONS: UpgradeOption[] = [
+  {
+    id: 'student',
+    title: t('roles.student.title'),
+    description: t('upgrade.options.student.description'),
+    requirement: t('upgrade.options.student.requirement'),
+    icon: 'library',
+    color: 'secondary',
+  },
+  {
+    id: 'alumni',
+    title: t('roles.alumni.title'),
+    description: t('upgrade.options.alumni.description'),
+    requirement: t('upgrade.options.alumni.requirement'),
+    icon: 'school',
+    color: 'primary',
+  },
+];
+
+// Upgrade Option Card Component
+const UpgradeOptionCard: React.FC<{
+  option: UpgradeOption;
+  onPress: (option: UpgradeOption) => void;
+  disabled: boolean;
+}> = ({ option, onPress, disabled }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const optionColor = colors[option.color];
+
+  return (
+    <TouchableOpacity
+      style={[styles.optionCard, { borderColor: optionColor }, disabled && styles.optionCardDisabled]}
+      onPress={() => onPress(option)}
+      disabled={disabled}
+      accessible={true}
+      accessibilityRole="button"
+      accessibilityLabel={t('upgrade.optionLabel', {
+        role: option.title,
+        description: option.description,
+        requirement: option.requirement,
+      })}
+      accessibilityState={{ disabled }}
+    >
+      <View style={[styles.optionIcon, { backgroundColor: `${optionColor}20` }]}>
+        <Ionicons name={option.icon} size={28} color={optionColor} />
+      </View>
+      <View style={styles.optionContent}>
+        <AppText style={styles.optionTitle}>{option.title}</AppText>
+        <AppText style={styles.optionDescription}>{option.description}</AppText>
+        <View style={styles.requirementRow}>
+          <Ionicons name="shield-checkmark" size={14} color={optionColor} />
+          <AppText style={[styles.requirementText, { color: optionColor }]}>{option.requirement}</AppText>
+        </View>
+      </View>
+      <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+    </TouchableOpacity>
+  );
+};
+
+// Main Upgrade Role Screen Component
+const UpgradeRoleScreen: React.FC<UpgradeRoleScreenProps> = ({
+  session,
+  onUpgraded,
+  onBack,
+  authService = defaultAuthService,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+
+  // State
+  const [isUpgrading, setIsUpgrading] = useState(false);
+  const [generalError, setGeneralError] = useState<string | undefined>();
+
+  // Handlers
+  const upgradeTo = useCallback(async (option: UpgradeOption) => {
+    setIsUpgrading(true);
+    setGeneralError(undefined);
+    try {
+      const upgradedSession = await authService.upgradeRole(session, option.id);
+      AccessibilityInfo.announceForAccessibility(t('upgrade.upgrading', { role: option.title }));
+      onUpgraded(upgradedSession);
+    } catch (error) {
+      const message = error instanceof AuthError && error.code === 'upgrade_not_allowed'
+        ? t('upgrade.errors.notAllowed')
+        : t('upgrade.errors.failed');
+      setGeneralError(message);
+      AccessibilityInfo.announceForAccessibility(message);
+    } finally {
+      setIsUpgrading(false);
+    }
+  }, [authService, session, onUpgraded]);
+
+  const handleSelect = useCallback((option: UpgradeOption) => {
+    Alert.alert(
+      t('upgrade.confirm.title', { role: option.title }),
+      t(`upgrade.options.${option.id}.confirmMessage`),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('upgrade.confirm.action'), onPress: () => upgradeTo(option) },
+      ]
+    );
+  }, [upgradeTo]);
+
+  const handleBack = useCallback(() => {
+    AccessibilityInfo.announceForAccessibility(t('upgrade.goingBack'));
+    onBack();
+  }, [onBack]);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={handleBack}
+          disabled={isUpgrading}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.goBackHome')}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+
+        <AppText style={styles.headerTitle} accessibilityRole="header">{t('upgrade.title')}</AppText>
+        <AppText style={styles.headerSubtitle}>{t('upgrade.subtitle')}</AppText>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {UPGRADE_OPTIONS.map(option => (
+          <UpgradeOptionCard
+            key={option.id}
+            option={option}
+            onPress={handleSelect}
+            disabled={isUpgrading}
+          />
+        ))}
+
+        {/* General error */}
+        {generalError && (
+          <AppText style={styles.generalError} accessible={true} accessibilityRole="alert">
+            {generalError}
+          </AppText>
+        )}
+
+        {isUpgrading && (
+          <AppText style={styles.progressText} accessibilityLiveRegion="polite">
+            {t('upgrade.inProgress')}
+          </AppText>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 32,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  optionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surfaceElevated,
+    borderWidth: 2,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    gap: 16,
+  },
+  optionCardDisabled: {
+    opacity: 0.6,
+  },
+  optionIcon: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  optionContent: {
+    flex: 1,
+  },
+  optionTitle: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 4,
+  },
+  optionDescription: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  requirementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  requirementText: {
+    ...typography.caption,
+    fontWeight: '600',
+  },
+  generalError: {
+    ...typography.caption,
+    color: colors.error,
+    textAlign: 'center',
+    marginBottom: 20,
+    padding: 12,
+    backgroundColor: `${colors.error}20`,
+    borderRadius: 8,
+  },
+  progressText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+});
+
+export default UpgradeRoleScreen;
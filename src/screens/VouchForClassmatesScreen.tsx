@@ -0,0 +1,288 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  RefreshControl,
+  AccessibilityInfo,
+  Alert,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { UserSession } from '../types/navigation';
+import {
+  VerificationError,
+  VerificationService,
+  VouchRequest,
+} from '../services/verificationService';
+import { verificationService as defaultVerificationService } from '../services';
+import { t } from '../i18n';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+import AppText from '../components/AppText';
+
+// Types
+interface VouchForClassmatesScreenProps {
+  session: UserSession;
+  onBack: () => void;
+  verificationService?: VerificationService;
+}
+
+// Constants
+const getVouchErrorMessage = (error: unknown, request: VouchRequest) => {
+  if (error instanceof VerificationError) {
+    switch (error.code) {
+      case 'rate_limited':
+        return t('vouchForClassmates.errors.rateLimited');
+      case 'not_authorized':
+        return t('vouchForClassmates.errors.notEligible', { classYear: request.classYear });
+      case 'already_vouched':
+        return t('vouchForClassmates.errors.alreadyVouched');
+      case 'request_not_found':
+        return t('vouchForClassmates.errors.requestClosed');
+      case 'network_error':
+        return t('common.networkError');
+    }
+  }
+  return t('vouchForClassmates.errors.failed');
+};
+
+// Main Vouch For Classmates Screen Component
+const VouchForClassmatesScreen: React.FC<VouchForClassmatesScreenProps> = ({
+  session,
+  onBack,
+  verificationService = defaultVerificationService,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const classYear = session.user.profile?.graduationYear;
+
+  // State
+  const [requests, setRequests] = useState<VouchRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [vouchingId, setVouchingId] = useState<string | null>(null);
+  const [generalError, setGeneralError] = useState<string | undefined>();
+
+  // Helpers
+  const loadRequests = useCallback(async () => {
+    setIsLoading(true);
+    setGeneralError(undefined);
+    try {
+      setRequests(await verificationService.listClassVouchRequests(session));
+    } catch (error) {
+      setGeneralError(t('vouchForClassmates.loadFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [verificationService, session]);
+
+  // Effects
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  // Handlers
+  const submitVouch = useCallback(async (request: VouchRequest) => {
+    setVouchingId(request.id);
+    setGeneralError(undefined);
+    try {
+      await verificationService.vouchFor(session, request.id);
+      setRequests(prev => prev.filter(item => item.id !== request.id));
+      AccessibilityInfo.announceForAccessibility(t('vouchForClassmates.done', { name: request.applicantName }));
+    } catch (error) {
+      const message = getVouchErrorMessage(error, request);
+      setGeneralError(message);
+      AccessibilityInfo.announceForAccessibility(message);
+      if (error instanceof VerificationError && error.code !== 'rate_limited') loadRequests();
+    } finally {
+      setVouchingId(null);
+    }
+  }, [verificationService, session, loadRequests]);
+
+  const handleVouch = useCallback((request: VouchRequest) => {
+    Alert.alert(
+      t('vouchForClassmates.confirm.title', { name: request.applicantName }),
+      t('vouchForClassmates.confirm.message', { classYear: request.classYear }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('vouchForClassmates.confirm.action'), onPress: () => submitVouch(request) },
+      ]
+    );
+  }, [submitVouch]);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={onBack}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.goBackHome')}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+
+        <AppText style={styles.headerTitle} accessibilityRole="header">{t('vouchForClassmates.title')}</AppText>
+        <AppText style={styles.headerSubtitle}>
+          {classYear
+            ? t('vouchForClassmates.subtitle.classYear', { classYear })
+            : t('vouchForClassmates.subtitle.any')}
+        </AppText>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={isLoading} onRefresh={loadRequests} tintColor={colors.primary} />
+        }
+      >
+        {generalError && (
+          <AppText style={styles.generalError} accessible={true} accessibilityRole="alert">
+            {generalError}
+          </AppText>
+        )}
+
+        {!isLoading && requests.length === 0 && (
+          <View style={styles.emptyState}>
+            <Ionicons name="people-circle" size={48} color={colors.textTertiary} />
+            <AppText style={styles.emptyText}>{t('vouchForClassmates.empty')}</AppText>
+          </View>
+        )}
+
+        {requests.map(request => (
+          <View key={request.id} style={styles.card}>
+            <View style={styles.cardContent}>
+              <AppText style={styles.applicantName}>{request.applicantName}</AppText>
+              <AppText style={styles.requestDetail}>
+                {t('vouchForClassmates.requestDetail', {
+                  classYear: request.classYear,
+                  vouched: request.vouches.length,
+                  count: request.requiredVouches,
+                })}
+              </AppText>
+            </View>
+            <TouchableOpacity
+              style={[styles.vouchButton, vouchingId !== null && styles.vouchButtonDisabled]}
+              onPress={() => handleVouch(request)}
+              disabled={vouchingId !== null}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={t('vouchForClassmates.vouchLabel', {
+                name: request.applicantName,
+                classYear: request.classYear,
+              })}
+            >
+              <AppText style={styles.vouchButtonText}>{t('vouchForClassmates.confirm.action')}</AppText>
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <View style={{ height: insets.bottom + 40 }} />
+      </ScrollView>
+    </View>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  generalError: {
+    ...typography.caption,
+    color: colors.error,
+    textAlign: 'center',
+    marginBottom: 20,
+    padding: 12,
+    backgroundColor: `${colors.error}20`,
+    borderRadius: 8,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    gap: 12,
+  },
+  emptyText: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 12,
+  },
+  cardContent: {
+    flex: 1,
+  },
+  applicantName: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 2,
+  },
+  requestDetail: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  vouchButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+  },
+  vouchButtonDisabled: {
+    opacity: 0.6,
+  },
+  vouchButtonText: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+});
+
+export default VouchForClassmatesScreen;
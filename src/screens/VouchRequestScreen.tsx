@@ -0,0 +1,395 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  AccessibilityInfo,
+  Share,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import FormInput from '../components/FormInput';
+import AppText from '../components/AppText';
+import { UserSession } from '../types/navigation';
+import { AuthService } from '../services/authService';
+import {
+  VerificationError,
+  VerificationService,
+  VouchRequest,
+} from '../services/verificationService';
+import {
+  authService as defaultAuthService,
+  verificationService as defaultVerificationService,
+} from '../services';
+import { getAlumniGraduationYearRange, validateAlumniGraduationYear } from '../utils/manualVerification';
+import { isVerificationActive } from '../utils/verificationLifecycle';
+import { formatDate, t } from '../i18n';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
+
+// Types
+interface VouchRequestScreenProps {
+  session: UserSession;
+  onVerified: (session: UserSession) => void;
+  onBack: () => void;
+  verificationService?: VerificationService;
+  authService?: AuthService;
+}
+
+// Constants
+const getErrorMessage = (error: unknown) => {
+  if (error instanceof VerificationError) {
+    switch (error.code) {
+      case 'invalid_graduation_year':
+        return t('validation.yearOutOfRange', getAlumniGraduationYearRange());
+      case 'not_authorized':
+        return t('vouchRequest.errors.notAuthorized');
+      case 'network_error':
+        return t('common.networkError');
+    }
+  }
+  return t('common.genericError');
+};
+
+// Main Vouch Request Screen Component
+const VouchRequestScreen: React.FC<VouchRequestScreenProps> = ({
+  session,
+  onVerified,
+  onBack,
+  verificationService = defaultVerificationService,
+  authService = defaultAuthService,
+}) => {
+  // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+
+  // State
+  const [request, setRequest] = useState<VouchRequest | null>(null);
+  const [classYear, setClassYear] = useState(session.user.profile?.graduationYear?.toString() ?? '');
+  const [classYearError, setClassYearError] = useState<string | undefined>();
+  const [generalError, setGeneralError] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isOpen = request?.status === 'open';
+
+  // Helpers
+  // Once enough classmates have vouched, the backend has already verified the account; fetch the updated session.
+  // A verified request left over from a since-lapsed verification just means it's time to ask again.
+  const completeIfVerified = useCallback(async (latest: VouchRequest | null) => {
+    if (latest?.status !== 'verified') return;
+
+    const verifiedSession = await authService.refreshSession(session);
+    if (!isVerificationActive(verifiedSession.user)) {
+      setRequest(null);
+      return;
+    }
+    AccessibilityInfo.announceForAccessibility(t('vouchRequest.verified'));
+    onVerified(verifiedSession);
+  }, [authService, session, onVerified]);
+
+  const loadRequest = useCallback(async () => {
+    setIsLoading(true);
+    setGeneralError(undefined);
+    try {
+      const latest = await verificationService.getVouchRequest(session);
+      setRequest(latest);
+      await completeIfVerified(latest);
+    } catch (error) {
+      setGeneralError(getErrorMessage(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [verificationService, session, completeIfVerified]);
+
+  // Effects
+  useEffect(() => {
+    loadRequest();
+  }, [loadRequest]);
+
+  // Handlers
+  const handleRequest = useCallback(async () => {
+    const yearError = validateAlumniGraduationYear(classYear);
+    setClassYearError(yearError);
+    if (yearError) return;
+
+    setIsSubmitting(true);
+    setGeneralError(undefined);
+    try {
+      const created = await verificationService.requestVouches(session, Number(classYear));
+      setRequest(created);
+      AccessibilityInfo.announceForAccessibility(t('vouchRequest.requested', { classYear: created.classYear }));
+    } catch (error) {
+      const message = getErrorMessage(error);
+      if (error instanceof VerificationError && error.code === 'invalid_graduation_year') {
+        setClassYearError(message);
+      } else {
+        setGeneralError(message);
+      }
+      AccessibilityInfo.announceForAccessibility(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [verificationService, session, classYear]);
+
+  const handleShare = useCallback(() => {
+    if (!request) return;
+    Share.share({
+      message: t('vouchRequest.share.message', { classYear: request.classYear }),
+    }).catch(() => undefined);
+  }, [request]);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[colors.background, colors.surface]}
+        style={StyleSheet.absoluteFill}
+      />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={onBack}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.goBack')}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+
+        <AppText style={styles.headerTitle} accessibilityRole="header">{t('vouchRequest.title')}</AppText>
+        <AppText style={styles.headerSubtitle}>{t('vouchRequest.subtitle')}</AppText>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {isLoading ? (
+          <ActivityIndicator color={colors.primary} style={styles.loading} />
+        ) : isOpen && request ? (
+          <>
+            {/* Progress */}
+            <View style={styles.card}>
+              <AppText style={styles.cardTitle}>{t('common.classOf', { classYear: request.classYear })}</AppText>
+              <AppText
+                style={styles.progressText}
+                accessibilityLiveRegion="polite"
+              >
+                {t('vouchRequest.progress', { vouched: request.vouches.length, count: request.requiredVouches })}
+              </AppText>
+              <View style={styles.progressTrack}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    { width: `${Math.min(100, (request.vouches.length / request.requiredVouches) * 100)}%` },
+                  ]}
+                />
+              </View>
+              {request.vouches.map(vouch => (
+                <View key={vouch.userId} style={styles.voucherRow}>
+                  <Ionicons name="checkmark-circle" size={18} color={colors.success} />
+                  <AppText style={styles.voucherName}>{vouch.name}</AppText>
+                </View>
+              ))}
+              <AppText style={styles.expiryText}>
+                {t('vouchRequest.openUntil', { date: formatDate(request.expiresAt) })}
+              </AppText>
+            </View>
+
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={handleShare}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={t('vouchRequest.share.label')}
+            >
+              <Ionicons name="share-outline" size={20} color={colors.onPrimary} />
+              <AppText style={styles.primaryButtonText}>{t('vouchRequest.share.action')}</AppText>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={loadRequest}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={t('vouchRequest.checkProgressLabel')}
+            >
+              <AppText style={styles.secondaryButtonText}>{t('vouchRequest.checkProgress')}</AppText>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            {request?.status === 'expired' && (
+              <AppText style={styles.noticeText}>
+                {t('vouchRequest.expired', { vouched: request.vouches.length, count: request.requiredVouches })}
+              </AppText>
+            )}
+
+            <FormInput
+              label={t('vouchRequest.classYear')}
+              value={classYear}
+              onChangeText={(text) => {
+                setClassYear(text.replace(/[^0-9]/g, ''));
+                setClassYearError(undefined);
+              }}
+              placeholder={t('vouchRequest.classYearPlaceholder')}
+              keyboardType="number-pad"
+              maxLength={4}
+              error={classYearError}
+              required
+            />
+
+            <TouchableOpacity
+              style={[styles.primaryButton, isSubmitting && styles.buttonDisabled]}
+              onPress={handleRequest}
+              disabled={isSubmitting}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={t('vouchRequest.submitLabel')}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color={colors.onPrimary} />
+              ) : (
+                <AppText style={styles.primaryButtonText}>{t('vouchRequest.submit')}</AppText>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        {/* General error */}
+        {generalError && (
+          <AppText style={styles.generalError} accessible={true} accessibilityRole="alert">
+            {generalError}
+          </AppText>
+        )}
+
+        <View style={{ height: insets.bottom + 40 }} />
+      </ScrollView>
+    </View>
+  );
+};
+
+// Styles
+const createStyles = ({ colors, typography }: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  headerTitle: {
+    ...typography.h1,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  card: {
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 24,
+    gap: 8,
+  },
+  cardTitle: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  progressText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.surface,
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.primary,
+  },
+  voucherRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  voucherName: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+  expiryText: {
+    ...typography.caption,
+    color: colors.textTertiary,
+    marginTop: 4,
+  },
+  noticeText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginBottom: 16,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 16,
+    marginBottom: 12,
+    gap: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    ...typography.h3,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  secondaryButtonText: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textDecorationLine: 'underline',
+  },
+  generalError: {
+    ...typography.caption,
+    color: colors.error,
+    textAlign: 'center',
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: `${colors.error}20`,
+    borderRadius: 8,
+  },
+});
+
+export default VouchRequestScreen;
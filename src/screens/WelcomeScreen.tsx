@@ -1,4 +1,4 @@
-import React, { useRef, useState, useCallback } from 'react';
+import React, { useRef, useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -18,75 +18,34 @@ import Animated, {
 import { LinearGradient } from 'expo-linear-gradient';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import { t } from '../i18n';
+import { useOnboardingContent } from '../store/ContentProvider';
+import { OnboardingSlideContent } from '../utils/onboardingContent';
+import { APP_CONFIG, TYPOGRAPHY } from '../utils/constants';
+import AppText from '../components/AppText';
+import { Theme } from '../theme/themes';
+import { useTheme, useThemedStyles } from '../theme/ThemeProvider';
 
 // Types
 interface WelcomeScreenProps {
+  // Only slides added after this intro version are shown
+  sinceVersion?: number;
   onGetStarted: () => void;
   onSkip: () => void;
 }
 
-interface OnboardingSlide {
-  id: string;
-  icon: keyof typeof Ionicons.glyphMap;
-  title: string;
-  description: string;
-  visual: string;
-}
-
 // Constants
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const SLIDE_WIDTH = SCREEN_WIDTH - 48;
 const HERO_HEIGHT = SCREEN_HEIGHT * 0.4;
 
-const COLORS = {
-  primaryGold: '#D6C238',
-  secondaryTeal: '#5C9F8A',
-  backgroundDark: '#000100',
-  surfaceDark: '#1A1A1B',
-  surfaceElevated: '#252526',
-  textPrimary: '#FEFEFE',
-  textSecondary: '#B8B8B8',
-  textTertiary: '#878787',
-};
-
-// Mock Data
-const onboardingSlides: OnboardingSlide[] = [
-  {
-    id: 'events',
-    icon: 'calendar',
-    title: 'Your Homecoming Schedule',
-    description: 'Discover exclusive events, from alumni mixers to student showcases. Filter by your interests and never miss a moment.',
-    visual: 'events-mockup'
-  },
-  {
-    id: 'community',
-    icon: 'shield-checkmark',
-    title: 'Verified Spartan Community',
-    description: 'Connect with fellow graduates through secure, LinkedIn-verified chat rooms and networking events.',
-    visual: 'community-mockup'
-  },
-  {
-    id: 'digital',
-    icon: 'phone-portrait',
-    title: 'Seamless Mobile Experience',
-    description: 'Digital tickets, secure payments, and real-time updates - everything you need in your pocket.',
-    visual: 'mobile-mockup'
-  },
-  {
-    id: 'local',
-    icon: 'map',
-    title: 'Navigate Like a Local',
-    description: 'Campus maps, parking availability, restaurant recommendations, and venue policies at your fingertips.',
-    visual: 'map-mockup'
-  }
-];
-
 // Pagination Dots Component
 const PaginationDots: React.FC<{
-  slides: OnboardingSlide[];
+  slides: OnboardingSlideContent[];
   currentIndex: number;
   onDotPress: (index: number) => void;
 }> = ({ slides, currentIndex, onDotPress }) => {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.pagination} accessible={true} accessibilityRole="tablist">
       {slides.map((_, index) => (
@@ -100,7 +59,7 @@ const PaginationDots: React.FC<{
           accessible={true}
           accessibilityRole="tab"
           accessibilityState={{ selected: currentIndex === index }}
-          accessibilityLabel={`Slide ${index + 1} of ${slides.length}`}
+          accessibilityLabel={t('welcome.slideLabel', { index: index + 1, total: slides.length })}
         />
       ))}
     </View>
@@ -109,10 +68,12 @@ const PaginationDots: React.FC<{
 
 // Slide Component
 const OnboardingSlideComponent: React.FC<{
-  slide: OnboardingSlide;
+  slide: OnboardingSlideContent;
   index: number;
   scrollX: Animated.SharedValue<number>;
 }> = ({ slide, index, scrollX }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const slideAnimatedStyle = useAnimatedStyle(() => {
     const inputRange = [
       (index - 1) * SCREEN_WIDTH,
@@ -136,15 +97,19 @@ const OnboardingSlideComponent: React.FC<{
           <View style={styles.mockupContainer}>
             <View style={styles.eventCard}>
               <View style={styles.eventDate}>
-                <Text style={styles.eventDateText}>OCT</Text>
-                <Text style={styles.eventDateNumber}>15</Text>
+                <AppText variant="meta" color="primary" style={styles.eventDateText}>
+                  {t('welcome.mockups.eventMonth')}
+                </AppText>
+                <AppText variant="h2" style={styles.eventDateNumber}>15</AppText>
               </View>
               <View style={styles.eventInfo}>
-                <Text style={styles.eventTitle}>Alumni Welcome Mixer</Text>
-                <Text style={styles.eventTime}>7:00 PM • Student Center</Text>
+                <AppText variant="bodyMedium" style={styles.eventTitle}>{t('welcome.mockups.eventTitle')}</AppText>
+                <AppText variant="caption" color="textSecondary">{t('welcome.mockups.eventDetails')}</AppText>
               </View>
               <View style={styles.eventBadge}>
-                <Text style={styles.eventBadgeText}>Alumni Only</Text>
+                <AppText variant="meta" color="onPrimary" style={styles.eventBadgeText}>
+                  {t('welcome.mockups.eventBadge')}
+                </AppText>
               </View>
             </View>
           </View>
@@ -155,10 +120,10 @@ const OnboardingSlideComponent: React.FC<{
             <View style={styles.chatPreview}>
               <View style={styles.chatHeader}>
                 <View style={styles.chatAvatar} />
-                <Text style={styles.chatName}>Class of 2015 Alumni</Text>
-                <Ionicons name="shield-checkmark" size={16} color={COLORS.primaryGold} />
+                <AppText variant="caption" style={styles.chatName}>{t('welcome.mockups.chatName')}</AppText>
+                <Ionicons name="shield-checkmark" size={16} color={colors.primary} />
               </View>
-              <Text style={styles.chatMessage}>Looking forward to seeing everyone at the mixer!</Text>
+              <AppText variant="caption" color="textSecondary">{t('welcome.mockups.chatMessage')}</AppText>
             </View>
           </View>
         );
@@ -167,9 +132,10 @@ const OnboardingSlideComponent: React.FC<{
           <View style={styles.mockupContainer}>
             <View style={styles.phoneFrame}>
               <View style={styles.ticketCard}>
-                <Text style={styles.ticketTitle}>Homecoming Game</Text>
+                <AppText variant="meta" style={styles.ticketTitle}>{t('welcome.mockups.ticketTitle')}</AppText>
                 <View style={styles.qrCodePlaceholder}>
-                  <Text style={styles.qrText}>QR</Text>
+                  {/* Drawn inside a fixed-size code, so it stays the same size */}
+                  <Text style={styles.qrText} allowFontScaling={false}>{t('welcome.mockups.qrCode')}</Text>
                 </View>
               </View>
             </View>
@@ -180,9 +146,9 @@ const OnboardingSlideComponent: React.FC<{
           <View style={styles.mockupContainer}>
             <View style={styles.mapContainer}>
               <View style={styles.mapPin}>
-                <Ionicons name="location" size={20} color={COLORS.primaryGold} />
+                <Ionicons name="location" size={20} color={colors.primary} />
               </View>
-              <Text style={styles.mapLabel}>Student Center</Text>
+              <AppText variant="caption" style={styles.mapLabel}>{t('welcome.mockups.mapLabel')}</AppText>
             </View>
           </View>
         );
@@ -194,27 +160,35 @@ const OnboardingSlideComponent: React.FC<{
   return (
     <Animated.View style={[styles.slide, slideAnimatedStyle]} accessible={true}>
       <View style={styles.iconContainer}>
-        <Ionicons name={slide.icon} size={48} color={COLORS.primaryGold} />
+        <Ionicons name={slide.icon} size={48} color={colors.primary} />
       </View>
 
       <VisualMockup />
 
-      <Text style={styles.slideTitle} accessibilityRole="header">
+      <AppText style={styles.slideTitle} accessibilityRole="header">
         {slide.title}
-      </Text>
+      </AppText>
 
-      <Text style={styles.slideDescription}>
+      <AppText style={styles.slideDescription}>
         {slide.description}
-      </Text>
+      </AppText>
     </Animated.View>
   );
 };
 
 // Main Welcome Screen Component
-const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onGetStarted, onSkip }) => {
+const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ sinceVersion = 0, onGetStarted, onSkip }) => {
   // Hooks
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const scrollViewRef = useRef<ScrollView>(null);
+  const { content } = useOnboardingContent();
+  // The published content may have dropped the new slides since; show the whole intro rather than an empty one
+  const slides = useMemo(() => {
+    const newSlides = content.slides.filter(slide => slide.introducedIn > sinceVersion);
+    return newSlides.length > 0 ? newSlides : content.slides;
+  }, [content.slides, sinceVersion]);
 
   // State
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -236,16 +210,16 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onGetStarted, onSkip }) =
       animated: true,
     });
     setCurrentIndex(index);
-    AccessibilityInfo.announceForAccessibility(`Slide ${index + 1} selected`);
+    AccessibilityInfo.announceForAccessibility(t('welcome.slideSelected', { index: index + 1 }));
   }, []);
 
   const handleGetStarted = useCallback(() => {
-    AccessibilityInfo.announceForAccessibility('Starting NYTHC setup');
+    AccessibilityInfo.announceForAccessibility(t('welcome.starting'));
     onGetStarted();
   }, [onGetStarted]);
 
   const handleSkip = useCallback(() => {
-    AccessibilityInfo.announceForAccessibility('Skipping welcome tour');
+    AccessibilityInfo.announceForAccessibility(t('welcome.skipping'));
     onSkip();
   }, [onSkip]);
 
@@ -253,15 +227,15 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onGetStarted, onSkip }) =
     <View style={styles.container}>
       {/* Hero Background */}
       <LinearGradient
-        colors={[COLORS.backgroundDark, COLORS.surfaceDark]}
+        colors={[colors.background, colors.surface]}
         style={StyleSheet.absoluteFill}
       />
 
       {/* Hero Section */}
       <View style={[styles.heroSection, { paddingTop: insets.top }]}>
         <View style={styles.heroImagePlaceholder}>
-          <Text style={styles.heroTitle}>Welcome to NYTHC</Text>
-          <Text style={styles.heroSubtitle}>Norfolk State University</Text>
+          <AppText style={styles.heroTitle}>{t('welcome.title', { name: APP_CONFIG.name })}</AppText>
+          <AppText style={styles.heroSubtitle}>{APP_CONFIG.university}</AppText>
         </View>
         <View style={styles.heroOverlay} />
       </View>
@@ -277,9 +251,9 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onGetStarted, onSkip }) =
           scrollEventThrottle={16}
           style={styles.carousel}
           accessible={true}
-          accessibilityLabel="Feature carousel"
+          accessibilityLabel={t('welcome.carouselLabel')}
         >
-          {onboardingSlides.map((slide, index) => (
+          {slides.map((slide, index) => (
             <OnboardingSlideComponent
               key={slide.id}
               slide={slide}
@@ -290,7 +264,7 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onGetStarted, onSkip }) =
         </Animated.ScrollView>
 
         <PaginationDots
-          slides={onboardingSlides}
+          slides={slides}
           currentIndex={currentIndex}
           onDotPress={handleDotPress}
         />
@@ -303,9 +277,9 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onGetStarted, onSkip }) =
           onPress={handleSkip}
           accessible={true}
           accessibilityRole="button"
-          accessibilityLabel="Skip welcome tour"
+          accessibilityLabel={t('welcome.skipLabel')}
         >
-          <Text style={styles.skipButtonText}>Skip</Text>
+          <AppText style={styles.skipButtonText}>{t('welcome.skip')}</AppText>
         </TouchableOpacity>
 
         <TouchableOpacity
@@ -313,10 +287,10 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onGetStarted, onSkip }) =
           onPress={handleGetStarted}
           accessible={true}
           accessibilityRole="button"
-          accessibilityLabel="Get started with NYTHC"
+          accessibilityLabel={t('welcome.getStartedLabel', { name: APP_CONFIG.name })}
         >
-          <Text style={styles.getStartedButtonText}>Get Started</Text>
-          <Ionicons name="arrow-forward" size={20} color={COLORS.backgroundDark} />
+          <AppText style={styles.getStartedButtonText}>{t('welcome.getStarted')}</AppText>
+          <Ionicons name="arrow-forward" size={20} color={colors.onPrimary} />
         </TouchableOpacity>
       </View>
     </View>
@@ -324,18 +298,19 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onGetStarted, onSkip }) =
 };
 
 // Styles
-const styles = StyleSheet.create({
+const createStyles = ({ colors, typography, isLargeText }: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.backgroundDark,
+    backgroundColor: colors.background,
   },
+  // The hero gives up some height to the slides when their text is large
   heroSection: {
-    height: HERO_HEIGHT,
+    height: isLargeText ? HERO_HEIGHT * 0.6 : HERO_HEIGHT,
     position: 'relative',
   },
   heroImagePlaceholder: {
     flex: 1,
-    backgroundColor: COLORS.surfaceElevated,
+    backgroundColor: colors.surfaceElevated,
     alignItems: 'center',
     justifyContent: 'center',
     borderBottomLeftRadius: 24,
@@ -343,21 +318,20 @@ const styles = StyleSheet.create({
   },
   heroOverlay: {
     ...StyleSheet.absoluteFillObject,
-    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    backgroundColor: colors.overlay,
     borderBottomLeftRadius: 24,
     borderBottomRightRadius: 24,
   },
   heroTitle: {
-    fontSize: 32,
+    ...typography.h1,
     fontWeight: '700',
-    color: COLORS.textPrimary,
+    color: colors.textPrimary,
     marginBottom: 8,
     textAlign: 'center',
   },
   heroSubtitle: {
-    fontSize: 18,
-    fontWeight: '500',
-    color: COLORS.primaryGold,
+    ...typography.h3,
+    color: colors.primary,
     textAlign: 'center',
   },
   carouselSection: {
@@ -376,82 +350,69 @@ const styles = StyleSheet.create({
     width: 80,
     height: 80,
     borderRadius: 40,
-    backgroundColor: COLORS.surfaceDark,
+    backgroundColor: colors.surface,
     alignItems: 'center',
     justifyContent: 'center',
     marginBottom: 24,
     borderWidth: 2,
-    borderColor: COLORS.primaryGold,
+    borderColor: colors.primary,
   },
   slideTitle: {
-    fontSize: 24,
-    fontWeight: '600',
-    color: COLORS.textPrimary,
+    ...typography.h2,
+    color: colors.textPrimary,
     textAlign: 'center',
     marginBottom: 16,
     marginTop: 24,
   },
   slideDescription: {
-    fontSize: 16,
-    lineHeight: 24,
-    color: COLORS.textSecondary,
+    ...typography.body,
+    color: colors.textSecondary,
     textAlign: 'center',
     paddingHorizontal: 16,
   },
+  // Grows with the text inside it rather than clipping it
   mockupContainer: {
     width: SLIDE_WIDTH,
-    height: 120,
+    minHeight: 120,
     alignItems: 'center',
     justifyContent: 'center',
   },
+  // With large text the date, details and badge stack instead of sharing one row
   eventCard: {
-    flexDirection: 'row',
-    backgroundColor: COLORS.surfaceDark,
+    flexDirection: isLargeText ? 'column' : 'row',
+    backgroundColor: colors.surface,
     borderRadius: 12,
     padding: 16,
     width: '100%',
-    alignItems: 'center',
+    alignItems: isLargeText ? 'flex-start' : 'center',
+    gap: isLargeText ? 8 : 0,
   },
   eventDate: {
     alignItems: 'center',
-    marginRight: 16,
+    marginRight: isLargeText ? 0 : 16,
   },
   eventDateText: {
-    fontSize: 12,
-    color: COLORS.primaryGold,
     fontWeight: '600',
   },
   eventDateNumber: {
-    fontSize: 20,
-    color: COLORS.textPrimary,
     fontWeight: '700',
   },
-  eventInfo: {
-    flex: 1,
-  },
+  eventInfo: isLargeText ? { alignSelf: 'stretch' } : { flex: 1 },
   eventTitle: {
-    fontSize: 16,
-    color: COLORS.textPrimary,
     fontWeight: '600',
     marginBottom: 4,
   },
-  eventTime: {
-    fontSize: 14,
-    color: COLORS.textSecondary,
-  },
   eventBadge: {
-    backgroundColor: COLORS.primaryGold,
+    backgroundColor: colors.primary,
     paddingHorizontal: 8,
     paddingVertical: 4,
     borderRadius: 12,
   },
   eventBadgeText: {
-    fontSize: 10,
-    color: COLORS.backgroundDark,
     fontWeight: '600',
   },
   chatPreview: {
-    backgroundColor: COLORS.surfaceDark,
+    backgroundColor: colors.surface,
     borderRadius: 12,
     padding: 16,
     width: '100%',
@@ -465,57 +426,49 @@ const styles = StyleSheet.create({
     width: 24,
     height: 24,
     borderRadius: 12,
-    backgroundColor: COLORS.primaryGold,
+    backgroundColor: colors.primary,
     marginRight: 8,
   },
   chatName: {
     flex: 1,
-    fontSize: 14,
-    color: COLORS.textPrimary,
     fontWeight: '600',
   },
-  chatMessage: {
-    fontSize: 14,
-    color: COLORS.textSecondary,
-    lineHeight: 20,
-  },
   phoneFrame: {
-    width: 120,
-    height: 100,
-    backgroundColor: COLORS.surfaceDark,
+    minWidth: 120,
+    minHeight: 100,
+    backgroundColor: colors.surface,
     borderRadius: 16,
     padding: 12,
     alignItems: 'center',
     justifyContent: 'center',
   },
   ticketCard: {
-    backgroundColor: COLORS.surfaceElevated,
+    backgroundColor: colors.surfaceElevated,
     borderRadius: 8,
     padding: 12,
     alignItems: 'center',
     width: '100%',
   },
   ticketTitle: {
-    fontSize: 12,
-    color: COLORS.textPrimary,
     fontWeight: '600',
+    textAlign: 'center',
     marginBottom: 8,
   },
   qrCodePlaceholder: {
     width: 40,
     height: 40,
-    backgroundColor: COLORS.primaryGold,
+    backgroundColor: colors.primary,
     borderRadius: 4,
     alignItems: 'center',
     justifyContent: 'center',
   },
   qrText: {
-    fontSize: 10,
-    color: COLORS.backgroundDark,
+    ...TYPOGRAPHY.meta,
+    color: colors.onPrimary,
     fontWeight: '700',
   },
   mapContainer: {
-    backgroundColor: COLORS.surfaceDark,
+    backgroundColor: colors.surface,
     borderRadius: 12,
     padding: 16,
     width: '100%',
@@ -526,8 +479,6 @@ const styles = StyleSheet.create({
     marginBottom: 8,
   },
   mapLabel: {
-    fontSize: 14,
-    color: COLORS.textPrimary,
     fontWeight: '600',
   },
   pagination: {
@@ -543,10 +494,10 @@ const styles = StyleSheet.create({
     marginHorizontal: 6,
   },
   activeDot: {
-    backgroundColor: COLORS.primaryGold,
+    backgroundColor: colors.primary,
   },
   inactiveDot: {
-    backgroundColor: COLORS.textTertiary,
+    backgroundColor: colors.textTertiary,
   },
   actionBar: {
     flexDirection: 'row',
@@ -560,13 +511,12 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
   },
   skipButtonText: {
-    fontSize: 16,
-    color: COLORS.textSecondary,
-    fontWeight: '500',
+    ...typography.bodyMedium,
+    color: colors.textSecondary,
   },
   getStartedButton: {
     flexDirection: 'row',
-    backgroundColor: COLORS.primaryGold,
+    backgroundColor: colors.primary,
     paddingVertical: 16,
     paddingHorizontal: 24,
     borderRadius: 12,
@@ -574,8 +524,8 @@ const styles = StyleSheet.create({
     minHeight: 48,
   },
   getStartedButtonText: {
-    fontSize: 16,
-    color: COLORS.backgroundDark,
+    ...typography.bodyMedium,
+    color: colors.onPrimary,
     fontWeight: '600',
     marginRight: 8,
   },
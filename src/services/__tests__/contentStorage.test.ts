@@ -0,0 +1,33 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loadCachedOnboardingContent, saveCachedOnboardingContent } from '../contentStorage';
+import { BUNDLED_ONBOARDING_CONTENT } from '../../utils/onboardingContent';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Fixtures
+const STORAGE_KEY = 'nythc.content.onboarding';
+const published = { ...BUNDLED_ONBOARDING_CONTENT, revision: 2 };
+
+beforeEach(() => AsyncStorage.clear());
+
+describe('loadCachedOnboardingContent', () => {
+  it('has nothing before content is saved, so the bundled copy shows', async () => {
+    await expect(loadCachedOnboardingContent()).resolves.toBeNull();
+  });
+
+  it('reads back saved content', async () => {
+    await saveCachedOnboardingContent(published);
+    await expect(loadCachedOnboardingContent()).resolves.toEqual(published);
+  });
+
+  it.each([
+    ['that is not JSON', '{"revision":'],
+    ['from an older schema version', JSON.stringify({ ...published, schemaVersion: 0 })],
+    ['for another language', JSON.stringify({ ...published, language: 'es' })],
+  ])('ignores a saved copy %s', async (_, value) => {
+    await AsyncStorage.setItem(STORAGE_KEY, value);
+    await expect(loadCachedOnboardingContent()).resolves.toBeNull();
+  });
+});
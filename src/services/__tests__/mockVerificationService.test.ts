@@ -0,0 +1,162 @@
+import { MockAccountSeed, createMockServer } from '../mockServer';
+import { MockVouchAuditEntry, createMockVerificationService } from '../mockVerificationService';
+import { VerificationError } from '../verificationService';
+import { VOUCHING } from '../../utils/constants';
+
+// Fixtures
+const CLASS_YEAR = 1978;
+
+const createApplicant = (name: string): MockAccountSeed => ({
+  email: `${name}@example.com`,
+  role: 'alumni',
+  firstName: name,
+  graduationYear: CLASS_YEAR,
+});
+
+const createVoucher = (name: string, overrides: Partial<MockAccountSeed> = {}): MockAccountSeed => ({
+  ...createApplicant(name),
+  verifiedWith: 'manual_review',
+  ...overrides,
+});
+
+const setup = (seedAccounts: MockAccountSeed[]) => {
+  const server = createMockServer({ latencyMs: 0, seedAccounts });
+  const vouchAuditLog: MockVouchAuditEntry[] = [];
+  const service = createMockVerificationService(server, { vouchAuditLog });
+
+  const sessionFor = (name: string) => server.issueSession(server.accounts.get(`${name}@example.com`)!);
+  const userFor = (name: string) => server.accounts.get(`${name}@example.com`)!.user;
+  const openRequest = (name: string) => service.requestVouches(sessionFor(name), CLASS_YEAR);
+
+  return { service, vouchAuditLog, sessionFor, userFor, openRequest };
+};
+
+const expectVerificationError = async (promise: Promise<unknown>, code: VerificationError['code']) => {
+  await expect(promise).rejects.toBeInstanceOf(VerificationError);
+  await expect(promise).rejects.toMatchObject({ code });
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('vouchFor', () => {
+  const voucherNames = Array.from({ length: VOUCHING.requiredVouches }, (_, index) => `voucher${index + 1}`);
+
+  it('verifies the applicant once enough classmates vouch', async () => {
+    const { service, sessionFor, userFor, openRequest } = setup([
+      createApplicant('gloria'),
+      ...voucherNames.map(name => createVoucher(name)),
+    ]);
+    const request = await openRequest('gloria');
+
+    for (const name of voucherNames.slice(0, -1)) {
+      const updated = await service.vouchFor(sessionFor(name), request.id);
+      expect(updated.status).toBe('open');
+    }
+    expect(userFor('gloria').verificationStatus).toBe('pending');
+
+    const verified = await service.vouchFor(sessionFor(voucherNames[voucherNames.length - 1]), request.id);
+
+    expect(verified.status).toBe('verified');
+    expect(verified.vouches).toHaveLength(VOUCHING.requiredVouches);
+    expect(userFor('gloria').verificationStatus).toBe('verified');
+    expect(userFor('gloria').verification).toMatchObject({ method: 'vouching' });
+    expect(userFor('gloria').verification?.vouchers?.map(vouch => vouch.userId)).toEqual(
+      voucherNames.map(name => userFor(name).id)
+    );
+  });
+
+  it('closes the request once it is verified', async () => {
+    const { service, sessionFor, openRequest } = setup([
+      createApplicant('gloria'),
+      ...voucherNames.map(name => createVoucher(name)),
+      createVoucher('late'),
+    ]);
+    const request = await openRequest('gloria');
+    for (const name of voucherNames) await service.vouchFor(sessionFor(name), request.id);
+
+    await expectVerificationError(service.vouchFor(sessionFor('late'), request.id), 'request_not_found');
+  });
+
+  it('refuses and logs a second vouch from the same classmate', async () => {
+    const { service, vouchAuditLog, sessionFor, userFor, openRequest } = setup([
+      createApplicant('gloria'),
+      createVoucher('james'),
+    ]);
+    const request = await openRequest('gloria');
+    await service.vouchFor(sessionFor('james'), request.id);
+
+    await expectVerificationError(service.vouchFor(sessionFor('james'), request.id), 'already_vouched');
+
+    expect(vouchAuditLog.map(entry => entry.outcome)).toEqual(['accepted', 'duplicate']);
+    expect(vouchAuditLog[1]).toMatchObject({
+      requestId: request.id,
+      applicantId: userFor('gloria').id,
+      voucherId: userFor('james').id,
+    });
+    expect((await service.getVouchRequest(sessionFor('gloria')))?.vouches).toHaveLength(1);
+  });
+
+  it.each([
+    ['from another class', createVoucher('outsider', { graduationYear: CLASS_YEAR + 1 })],
+    ['who is not verified', createApplicant('outsider')],
+    ['who is a student', createVoucher('outsider', { role: 'student' })],
+    ['with no class year', createVoucher('outsider', { graduationYear: undefined })],
+  ])('refuses and logs a vouch from someone %s', async (_, seed) => {
+    const { service, vouchAuditLog, sessionFor, userFor, openRequest } = setup([createApplicant('gloria'), seed]);
+    const request = await openRequest('gloria');
+
+    await expectVerificationError(service.vouchFor(sessionFor('outsider'), request.id), 'not_authorized');
+
+    expect(vouchAuditLog).toEqual([
+      expect.objectContaining({ outcome: 'ineligible', voucherId: userFor('outsider').id, requestId: request.id }),
+    ]);
+    expect(userFor('gloria').verificationStatus).toBe('pending');
+  });
+
+  it('refuses an applicant vouching for themselves', async () => {
+    const { service, vouchAuditLog, sessionFor, openRequest } = setup([createApplicant('gloria')]);
+    const request = await openRequest('gloria');
+
+    await expectVerificationError(service.vouchFor(sessionFor('gloria'), request.id), 'not_authorized');
+    expect(vouchAuditLog[0]).toMatchObject({ outcome: 'ineligible' });
+  });
+
+  it('limits how many people a classmate can vouch for in a day', async () => {
+    const applicantNames = Array.from({ length: VOUCHING.maxVouchesPerDay + 1 }, (_, index) => `applicant${index + 1}`);
+    const { service, vouchAuditLog, sessionFor, openRequest } = setup([
+      ...applicantNames.map(createApplicant),
+      createVoucher('james'),
+    ]);
+    const requests = [];
+    for (const name of applicantNames) requests.push(await openRequest(name));
+
+    for (const request of requests.slice(0, -1)) await service.vouchFor(sessionFor('james'), request.id);
+    const limited = service.vouchFor(sessionFor('james'), requests[requests.length - 1].id);
+
+    await expectVerificationError(limited, 'rate_limited');
+    await expect(limited).rejects.toMatchObject({ retryAfterSeconds: 24 * 60 * 60 });
+    expect(vouchAuditLog.filter(entry => entry.outcome === 'rate_limited')).toHaveLength(1);
+  });
+
+  it('does not count refused vouches toward the daily limit', async () => {
+    const applicantNames = Array.from({ length: VOUCHING.maxVouchesPerDay }, (_, index) => `applicant${index + 1}`);
+    const { service, sessionFor, openRequest } = setup([...applicantNames.map(createApplicant), createVoucher('james')]);
+    const requests = [];
+    for (const name of applicantNames) requests.push(await openRequest(name));
+
+    await service.vouchFor(sessionFor('james'), requests[0].id);
+    for (let attempt = 0; attempt < VOUCHING.maxVouchesPerDay; attempt++) {
+      await expectVerificationError(service.vouchFor(sessionFor('james'), requests[0].id), 'already_vouched');
+    }
+
+    for (const request of requests.slice(1)) {
+      await expect(service.vouchFor(sessionFor('james'), request.id)).resolves.toMatchObject({ id: request.id });
+    }
+  });
+});
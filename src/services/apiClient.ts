@@ -0,0 +1,116 @@
+// NYTHC API client
+// Thin fetch wrapper shared by every service that talks to the NYTHC backend.
+
+import { APP_CONFIG } from '../utils/constants';
+
+// Types
+export interface ApiClientConfig {
+  baseUrl: string;
+  timeoutMs?: number;
+}
+
+export interface ApiRequestOptions {
+  body?: unknown;
+  accessToken?: string;
+}
+
+// Multipart uploads, e.g. verification documents; fetch sets the boundary header itself
+export interface ApiUploadOptions {
+  form: FormData;
+  accessToken?: string;
+}
+
+export interface ApiClient {
+  get: <T>(path: string, options?: Omit<ApiRequestOptions, 'body'>) => Promise<T>;
+  post: <T>(path: string, options?: ApiRequestOptions) => Promise<T>;
+  upload: <T>(path: string, options: ApiUploadOptions) => Promise<T>;
+}
+
+interface ApiErrorBody {
+  error?: {
+    code?: string;
+    message?: string;
+    retryAfterSeconds?: number;
+  };
+}
+
+// Errors
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly retryAfterSeconds?: number;
+
+  constructor(status: number, code: string, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// Constants
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Helpers
+const parseBody = (text: string): unknown => {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// Factory
+export const createApiClient = ({ baseUrl, timeoutMs = DEFAULT_TIMEOUT_MS }: ApiClientConfig): ApiClient => {
+  const request = async <T>(
+    method: 'GET' | 'POST',
+    path: string,
+    options: ApiRequestOptions & Partial<ApiUploadOptions> = {}
+  ): Promise<T> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'X-Client': `${APP_CONFIG.name}-mobile/${APP_CONFIG.version}`,
+    };
+    if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+    if (options.accessToken) headers.Authorization = `Bearer ${options.accessToken}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers,
+        body: options.form ?? (options.body !== undefined ? JSON.stringify(options.body) : undefined),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new ApiError(0, 'network_error', 'Unable to reach the NYTHC servers');
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const data = parseBody(await response.text());
+
+    if (!response.ok) {
+      const { error } = (data ?? {}) as ApiErrorBody;
+      throw new ApiError(
+        response.status,
+        error?.code ?? 'unknown',
+        error?.message ?? `Request failed with status ${response.status}`,
+        error?.retryAfterSeconds
+      );
+    }
+
+    return data as T;
+  };
+
+  return {
+    get: (path, options) => request('GET', path, options),
+    post: (path, options) => request('POST', path, options),
+    upload: (path, options) => request('POST', path, options),
+  };
+};
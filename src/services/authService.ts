@@ -0,0 +1,204 @@
+// NYTHC Authentication Service
+// Account sign-in, sign-up and sign-out against the NYTHC backend.
+
+import { ApiClient, ApiError } from './apiClient';
+import { AlumniDegree, UserProfile, UserRole, UserSession } from '../types/navigation';
+
+// Types
+export type AuthErrorCode =
+  | 'invalid_credentials'
+  | 'email_taken'
+  | 'account_locked'
+  | 'weak_password'
+  | 'session_expired'
+  | 'invalid_code'
+  | 'code_expired'
+  | 'rate_limited'
+  | 'provider_error'
+  | 'provider_email_unverified'
+  | 'upgrade_not_allowed'
+  | 'degrees_unverified'
+  | 'network_error'
+  | 'unknown';
+
+export type SocialProvider = 'google' | 'apple';
+
+export type UpgradeRole = Exclude<UserRole, 'guest'>;
+
+export interface SignInRequest {
+  email: string;
+  password: string;
+  role: UserRole;
+}
+
+export interface SignUpRequest extends SignInRequest {
+  firstName: string;
+  lastName: string;
+}
+
+// An authorization code from the identity provider. The backend redeems it with the PKCE verifier
+// and validates the returned ID token itself, so the app never handles provider tokens.
+export interface SocialSignInRequest {
+  provider: SocialProvider;
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  role: UserRole;
+}
+
+export interface SocialSignInResult {
+  session: UserSession;
+  linkedToExistingAccount: boolean;
+}
+
+// The degrees are the ones the member kept from their LinkedIn verification. The backend only saves degrees it
+// verified itself, and sets the class year from the earliest of them.
+export interface ProfileUpdateRequest extends Omit<UserProfile, 'graduationYear' | 'degrees'> {
+  degrees: AlumniDegree[];
+}
+
+export interface PasswordResetGrant {
+  resetToken: string;
+}
+
+export interface CodeDelivery {
+  expiresAt: number;
+  resendAvailableAt: number;
+  attemptsRemaining: number;
+}
+
+export interface AuthService {
+  signIn: (request: SignInRequest) => Promise<UserSession>;
+  signUp: (request: SignUpRequest) => Promise<UserSession>;
+  signInWithProvider: (request: SocialSignInRequest) => Promise<SocialSignInResult>;
+  signOut: (session: UserSession) => Promise<void>;
+  refreshSession: (session: UserSession) => Promise<UserSession>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  verifyPasswordResetCode: (email: string, code: string) => Promise<PasswordResetGrant>;
+  resetPassword: (resetToken: string, newPassword: string) => Promise<void>;
+  sendEmailVerificationCode: (session: UserSession) => Promise<CodeDelivery>;
+  verifyEmail: (session: UserSession, code: string) => Promise<UserSession>;
+  upgradeRole: (session: UserSession, role: UpgradeRole) => Promise<UserSession>;
+  updateProfile: (session: UserSession, request: ProfileUpdateRequest) => Promise<UserSession>;
+}
+
+// Errors
+export class AuthError extends Error {
+  readonly code: AuthErrorCode;
+  readonly retryAfterSeconds?: number;
+
+  constructor(code: AuthErrorCode, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// Constants
+const KNOWN_ERROR_CODES: AuthErrorCode[] = [
+  'invalid_credentials',
+  'email_taken',
+  'account_locked',
+  'weak_password',
+  'session_expired',
+  'invalid_code',
+  'code_expired',
+  'rate_limited',
+  'provider_error',
+  'provider_email_unverified',
+  'upgrade_not_allowed',
+  'degrees_unverified',
+  'network_error',
+];
+
+// Helpers
+export const toAuthError = (error: unknown): AuthError => {
+  if (error instanceof AuthError) return error;
+
+  if (error instanceof ApiError) {
+    const code = KNOWN_ERROR_CODES.find(known => known === error.code) ?? 'unknown';
+    return new AuthError(code, error.message, error.retryAfterSeconds);
+  }
+
+  return new AuthError('unknown', error instanceof Error ? error.message : 'Authentication failed');
+};
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// HTTP Implementation
+export const createHttpAuthService = (client: ApiClient): AuthService => {
+  const call = async <T>(operation: () => Promise<T>): Promise<T> => {
+    try {
+      return await operation();
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  return {
+    signIn: ({ email, password, role }) =>
+      call(() => client.post<UserSession>('/auth/signin', {
+        body: { email: normalizeEmail(email), password, role },
+      })),
+
+    signUp: ({ email, password, role, firstName, lastName }) =>
+      call(() => client.post<UserSession>('/auth/signup', {
+        body: { email: normalizeEmail(email), password, role, firstName: firstName.trim(), lastName: lastName.trim() },
+      })),
+
+    signInWithProvider: (request) =>
+      call(() => client.post<SocialSignInResult>('/auth/social', {
+        body: request,
+      })),
+
+    signOut: (session) =>
+      call(() => client.post<void>('/auth/signout', {
+        body: { refreshToken: session.tokens.refreshToken },
+        accessToken: session.tokens.accessToken,
+      })),
+
+    refreshSession: (session) =>
+      call(() => client.post<UserSession>('/auth/refresh', {
+        body: { refreshToken: session.tokens.refreshToken },
+      })),
+
+    requestPasswordReset: (email) =>
+      call(() => client.post<void>('/auth/password-reset', {
+        body: { email: normalizeEmail(email) },
+      })),
+
+    verifyPasswordResetCode: (email, code) =>
+      call(() => client.post<PasswordResetGrant>('/auth/password-reset/verify', {
+        body: { email: normalizeEmail(email), code },
+      })),
+
+    resetPassword: (resetToken, newPassword) =>
+      call(() => client.post<void>('/auth/password-reset/complete', {
+        body: { resetToken, newPassword },
+      })),
+
+    sendEmailVerificationCode: (session) =>
+      call(() => client.post<CodeDelivery>('/auth/email-verification', {
+        accessToken: session.tokens.accessToken,
+      })),
+
+    verifyEmail: (session, code) =>
+      call(() => client.post<UserSession>('/auth/email-verification/verify', {
+        body: { code },
+        accessToken: session.tokens.accessToken,
+      })),
+
+    upgradeRole: (session, role) =>
+      call(() => client.post<UserSession>('/auth/role-upgrade', {
+        body: { role },
+        accessToken: session.tokens.accessToken,
+      })),
+
+    updateProfile: (session, request) =>
+      call(() => client.post<UserSession>('/auth/profile', {
+        body: request,
+        accessToken: session.tokens.accessToken,
+      })),
+  };
+};
@@ -0,0 +1,20 @@
+// NYTHC Content Service
+// Fetches the published onboarding content for the device's language from the NYTHC backend.
+
+import { ApiClient } from './apiClient';
+import { language } from '../i18n';
+import { OnboardingContent, parseOnboardingContent } from '../utils/onboardingContent';
+
+// Types
+export interface ContentService {
+  // Resolves to null when the published document can't be used by this version of the app
+  fetchOnboardingContent: () => Promise<OnboardingContent | null>;
+}
+
+// Factory
+export const createHttpContentService = (apiClient: ApiClient): ContentService => ({
+  fetchOnboardingContent: async () => {
+    const document = await apiClient.get<unknown>(`/content/onboarding?language=${language}`);
+    return parseOnboardingContent(document);
+  },
+});
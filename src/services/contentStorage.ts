@@ -0,0 +1,24 @@
+// NYTHC Content Storage
+// Keeps the last onboarding content fetched from the backend, so later launches show it even when offline.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OnboardingContent, parseOnboardingContent } from '../utils/onboardingContent';
+
+// Constants
+const STORAGE_KEY = 'nythc.content.onboarding';
+
+// Storage
+// Checked again on the way out: a copy saved by an older app version or for another language is not used
+export const loadCachedOnboardingContent = async (): Promise<OnboardingContent | null> => {
+  const value = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!value) return null;
+
+  try {
+    return parseOnboardingContent(JSON.parse(value));
+  } catch {
+    return null;
+  }
+};
+
+export const saveCachedOnboardingContent = (content: OnboardingContent) =>
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(content));
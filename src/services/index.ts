@@ -0,0 +1,53 @@
+// NYTHC Services
+// Shared service instances. Development builds without an API URL run against the in-memory mock server.
+
+import { createApiClient } from './apiClient';
+import { AuthService, createHttpAuthService } from './authService';
+import { ContentService, createHttpContentService } from './contentService';
+import { createMockAuthService } from './mockAuthService';
+import { createMockContentService } from './mockContentService';
+import { createMockServer } from './mockServer';
+import {
+  createStubIdentityProvider,
+  createStubLinkedInAuthorizer,
+  createStubSocialAuthorizer,
+} from './mockIdentityProvider';
+import {
+  LinkedInAuthorizer,
+  SocialAuthorizer,
+  authorizeWithLinkedIn,
+  authorizeWithProvider,
+} from './socialAuth';
+import { VerificationService, createHttpVerificationService } from './verificationService';
+import { createMockVerificationService } from './mockVerificationService';
+import { APP_CONFIG } from '../utils/constants';
+
+export const USE_MOCK_API =
+  process.env.EXPO_PUBLIC_USE_MOCK_API === 'true' ||
+  (__DEV__ && !process.env.EXPO_PUBLIC_API_URL);
+
+export const apiClient = createApiClient({ baseUrl: APP_CONFIG.apiBaseUrl });
+
+// The mock services share one in-memory server so account changes are visible to all of them
+const mockServer = USE_MOCK_API ? createMockServer() : undefined;
+const identityProvider = USE_MOCK_API ? createStubIdentityProvider() : undefined;
+
+export const authService: AuthService = mockServer
+  ? createMockAuthService(mockServer, { identityProvider })
+  : createHttpAuthService(apiClient);
+
+export const socialAuthorizer: SocialAuthorizer = identityProvider
+  ? createStubSocialAuthorizer(identityProvider)
+  : authorizeWithProvider;
+
+export const verificationService: VerificationService = mockServer
+  ? createMockVerificationService(mockServer, { identityProvider })
+  : createHttpVerificationService(apiClient);
+
+export const linkedInAuthorizer: LinkedInAuthorizer = identityProvider
+  ? createStubLinkedInAuthorizer(identityProvider)
+  : authorizeWithLinkedIn;
+
+export const contentService: ContentService = mockServer
+  ? createMockContentService(mockServer)
+  : createHttpContentService(apiClient);
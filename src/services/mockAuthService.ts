@@ -0,0 +1,272 @@
+// NYTHC Mock Authentication Server
+// In-memory stand-in for the NYTHC auth backend, used in development and tests.
+
+import { AuthError, AuthService, normalizeEmail } from './authService';
+import { CodeIssueResult, MockAccount, MockCode, MockServer, createMockServer, logMockEvent } from './mockServer';
+import { StubIdentityProvider, createStubIdentityProvider } from './mockIdentityProvider';
+import { UserSession } from '../types/navigation';
+import { isSameDegree } from '../utils/alumniProfile';
+import { validatePassword } from '../utils/validation';
+import { updateVerificationRecord, withVerificationRecord } from '../utils/verificationLifecycle';
+
+// Types
+export interface MockAuthServiceOptions {
+  maxFailedAttempts?: number;
+  lockoutMs?: number;
+  identityProvider?: StubIdentityProvider;
+}
+
+interface MockResetToken {
+  email: string;
+  expiresAt: number;
+}
+
+// Constants
+const RESET_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+// Factory
+export const createMockAuthService = (
+  server: MockServer = createMockServer(),
+  {
+    maxFailedAttempts = 5,
+    lockoutMs = 15 * 60 * 1000,
+    identityProvider = createStubIdentityProvider(),
+  }: MockAuthServiceOptions = {}
+): AuthService => {
+  const { accounts, simulateLatency, issueSession, generateToken } = server;
+  const resetCodes = new Map<string, MockCode>();
+  const resetTokens = new Map<string, MockResetToken>();
+  const emailCodes = new Map<string, MockCode>();
+
+  const assertStrongPassword = (password: string) => {
+    const problem = validatePassword(password);
+    if (problem) throw new AuthError('weak_password', problem);
+  };
+
+  const issueCode = (codes: Map<string, MockCode>, key: string): MockCode => {
+    const result: CodeIssueResult = server.issueCode(codes, key);
+    if ('retryAfterSeconds' in result) {
+      throw new AuthError('rate_limited', 'Please wait before requesting another code', result.retryAfterSeconds);
+    }
+    return result.entry;
+  };
+
+  const consumeCode = (codes: Map<string, MockCode>, key: string, code: string) => {
+    switch (server.checkCode(codes, key, code)) {
+      case 'expired':
+        throw new AuthError('code_expired', 'This code has expired, please request a new one');
+      case 'invalid':
+        throw new AuthError('invalid_code', 'Incorrect code');
+    }
+  };
+
+  const getSessionAccount = (session: UserSession): MockAccount => {
+    const account = server.findSessionAccount(session);
+    if (!account) throw new AuthError('session_expired', 'Session expired, please sign in again');
+    return account;
+  };
+
+  return {
+    signIn: async ({ email, password }) => {
+      await simulateLatency();
+
+      const account = accounts.get(normalizeEmail(email));
+      if (!account) {
+        throw new AuthError('invalid_credentials', 'Incorrect email or password');
+      }
+
+      const now = Date.now();
+      if (account.lockedUntil && account.lockedUntil > now) {
+        throw new AuthError(
+          'account_locked',
+          'Account temporarily locked',
+          Math.ceil((account.lockedUntil - now) / 1000)
+        );
+      }
+
+      if (!account.password || account.password !== password) {
+        account.failedAttempts += 1;
+        if (account.failedAttempts >= maxFailedAttempts) {
+          account.failedAttempts = 0;
+          account.lockedUntil = now + lockoutMs;
+          throw new AuthError('account_locked', 'Account temporarily locked', Math.ceil(lockoutMs / 1000));
+        }
+        throw new AuthError('invalid_credentials', 'Incorrect email or password');
+      }
+
+      account.failedAttempts = 0;
+      account.lockedUntil = undefined;
+      return issueSession(account);
+    },
+
+    signUp: async ({ email, password, role, firstName, lastName }) => {
+      await simulateLatency();
+
+      if (accounts.has(normalizeEmail(email))) {
+        throw new AuthError('email_taken', 'An account with this email already exists');
+      }
+      assertStrongPassword(password);
+
+      const account = server.createAccount({
+        email,
+        password,
+        role,
+        firstName: firstName.trim(),
+        lastName: lastName.trim(),
+        emailVerified: false,
+      });
+      return issueSession(account);
+    },
+
+    signInWithProvider: async ({ provider, code, codeVerifier, redirectUri, role }) => {
+      await simulateLatency();
+
+      const identity = await identityProvider.redeemCode(provider, code, codeVerifier, redirectUri);
+      if (!identity) {
+        throw new AuthError('provider_error', 'The sign-in provider could not confirm your identity');
+      }
+
+      const linked = Array.from(accounts.values())
+        .find(candidate => candidate.linkedProviders[provider] === identity.subject);
+      if (linked) return { session: issueSession(linked), linkedToExistingAccount: false };
+
+      // An unverified provider email could belong to someone else, so it can't take over a password account
+      const existing = accounts.get(normalizeEmail(identity.email));
+      if (existing && !identity.emailVerified) {
+        throw new AuthError(
+          'provider_email_unverified',
+          'Verify your email with the provider, or sign in with your password'
+        );
+      }
+
+      const account = existing ?? server.createAccount({
+        email: identity.email,
+        role,
+        firstName: identity.firstName,
+        lastName: identity.lastName,
+        emailVerified: identity.emailVerified,
+      });
+      account.linkedProviders[provider] = identity.subject;
+      if (existing) account.user.emailVerified = true;
+
+      return { session: issueSession(account), linkedToExistingAccount: Boolean(existing) };
+    },
+
+    signOut: async () => {
+      await simulateLatency();
+    },
+
+    refreshSession: async (session) => {
+      await simulateLatency();
+
+      // The mock server forgets its accounts on reload, so it accepts any refresh token it issued
+      if (!session.tokens.refreshToken.startsWith('mock_refresh_')) {
+        throw new AuthError('session_expired', 'Session expired, please sign in again');
+      }
+
+      const account = server.findSessionAccount(session);
+      return issueSession(account ?? { user: session.user, linkedProviders: {}, failedAttempts: 0 });
+    },
+
+    requestPasswordReset: async (email) => {
+      await simulateLatency();
+
+      const key = normalizeEmail(email);
+      const { code } = issueCode(resetCodes, key);
+
+      // Unknown addresses get the same response so the endpoint can't be used to discover accounts
+      if (!accounts.has(key)) return;
+
+      const linkToken = generateToken('reset');
+      resetTokens.set(linkToken, { email: key, expiresAt: Date.now() + RESET_TOKEN_TTL_MS });
+      logMockEvent('auth', `Password reset for ${key}: code ${code}, link nythc://reset-password?token=${linkToken}`);
+    },
+
+    verifyPasswordResetCode: async (email, code) => {
+      await simulateLatency();
+
+      const key = normalizeEmail(email);
+      consumeCode(resetCodes, key, code);
+
+      const resetToken = generateToken('reset');
+      resetTokens.set(resetToken, { email: key, expiresAt: Date.now() + RESET_TOKEN_TTL_MS });
+      return { resetToken };
+    },
+
+    resetPassword: async (resetToken, newPassword) => {
+      await simulateLatency();
+
+      const grant = resetTokens.get(resetToken);
+      const account = grant && accounts.get(grant.email);
+      if (!grant || !account || grant.expiresAt < Date.now()) {
+        resetTokens.delete(resetToken);
+        throw new AuthError('code_expired', 'This reset link has expired, please request a new one');
+      }
+      assertStrongPassword(newPassword);
+
+      resetTokens.delete(resetToken);
+      account.password = newPassword;
+      account.failedAttempts = 0;
+      account.lockedUntil = undefined;
+    },
+
+    sendEmailVerificationCode: async (session) => {
+      await simulateLatency();
+
+      const account = getSessionAccount(session);
+      const entry = issueCode(emailCodes, account.user.email);
+      logMockEvent('auth', `Email verification code for ${account.user.email}: ${entry.code}`);
+
+      return server.toCodeDelivery(entry);
+    },
+
+    verifyEmail: async (session, code) => {
+      await simulateLatency();
+
+      const account = getSessionAccount(session);
+      consumeCode(emailCodes, account.user.email, code);
+      account.user.emailVerified = true;
+
+      return { ...session, user: { ...session.user, emailVerified: true } };
+    },
+
+    // The account keeps its id, so tickets and connections stay attached while the new role is verified
+    upgradeRole: async (session, role) => {
+      await simulateLatency();
+
+      const account = getSessionAccount(session);
+      if (account.user.role !== 'guest') {
+        throw new AuthError('upgrade_not_allowed', 'Only guest accounts can be upgraded');
+      }
+
+      account.user = withVerificationRecord(
+        { ...account.user, role },
+        updateVerificationRecord(account.user.verification, 'pending')
+      );
+
+      return { ...session, user: { ...account.user } };
+    },
+
+    // Degrees and the class year come from the verified LinkedIn education; the app can only leave degrees out
+    updateProfile: async (session, { degrees: confirmedDegrees, ...request }) => {
+      await simulateLatency();
+
+      const account = getSessionAccount(session);
+      const degrees = (account.linkedInDegrees ?? []).filter(verified =>
+        confirmedDegrees.some(confirmed => isSameDegree(verified, confirmed))
+      );
+      if (degrees.length === 0) {
+        throw new AuthError('degrees_unverified', 'Keep at least one degree from your LinkedIn verification');
+      }
+
+      account.user = {
+        ...account.user,
+        firstName: request.firstName,
+        lastName: request.lastName,
+        profile: { ...request, graduationYear: degrees[0].graduationYear, degrees },
+      };
+
+      return { ...session, user: { ...account.user } };
+    },
+  };
+};
@@ -0,0 +1,24 @@
+// NYTHC Mock Content Server
+// Serves a content document in development, so the fetch, validation and cache run without a backend.
+
+import { ContentService } from './contentService';
+import { MockServer, createMockServer } from './mockServer';
+import { BUNDLED_ONBOARDING_CONTENT, parseOnboardingContent } from '../utils/onboardingContent';
+
+// Types
+export interface MockContentServiceOptions {
+  // The raw published document; defaults to the bundled copy as revision 1
+  document?: unknown;
+}
+
+// Factory
+export const createMockContentService = (
+  server: MockServer = createMockServer(),
+  { document = { ...BUNDLED_ONBOARDING_CONTENT, revision: 1 } }: MockContentServiceOptions = {}
+): ContentService => ({
+  fetchOnboardingContent: async () => {
+    await server.simulateLatency();
+    // Round-tripped through JSON like a real response
+    return parseOnboardingContent(JSON.parse(JSON.stringify(document)));
+  },
+});
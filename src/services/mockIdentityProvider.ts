@@ -0,0 +1,158 @@
+// NYTHC Stub Identity Provider
+// Local stand-in for Google, Apple and LinkedIn, so provider flows run end to end against the mock backend.
+
+import * as Crypto from 'expo-crypto';
+import { SocialProvider } from './authService';
+import { logMockEvent } from './mockServer';
+import { LinkedInAuthorizer, SocialAuthorization, SocialAuthorizer } from './socialAuth';
+import { LinkedInEducation } from '../types/navigation';
+
+// Types
+export type StubProvider = SocialProvider | 'linkedin';
+
+export interface StubIdentity {
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+  education?: LinkedInEducation[];
+  picture?: string;
+}
+
+export interface StubIdentityProvider {
+  identities: Record<StubProvider, StubIdentity>;
+  authorize: (provider: StubProvider, codeChallenge: string, redirectUri: string) => string;
+  redeemCode: (
+    provider: StubProvider,
+    code: string,
+    codeVerifier: string,
+    redirectUri: string
+  ) => Promise<StubIdentity | undefined>;
+}
+
+interface StubGrant {
+  provider: StubProvider;
+  identity: StubIdentity;
+  codeChallenge: string;
+  redirectUri: string;
+  expiresAt: number;
+}
+
+// Constants
+const GRANT_TTL_MS = 5 * 60 * 1000;
+const STUB_REDIRECT_URI = 'nythc://oauth';
+
+// The Google identity shares its email with a seeded password account, so signing in with it exercises account merging
+export const DEFAULT_STUB_IDENTITIES: Record<StubProvider, StubIdentity> = {
+  google: {
+    subject: 'google_108234',
+    email: 'alumni@nythc.com',
+    emailVerified: true,
+    firstName: 'Sarah',
+    lastName: 'Johnson',
+  },
+  apple: {
+    subject: 'apple_001482',
+    email: 'homecoming.fan@privaterelay.appleid.com',
+    emailVerified: true,
+    firstName: 'Jordan',
+    lastName: 'Lee',
+  },
+  linkedin: {
+    subject: 'linkedin_5521907',
+    email: 'alumni@nythc.com',
+    emailVerified: true,
+    firstName: 'Sarah',
+    lastName: 'Johnson',
+    picture: 'https://media.licdn.com/dms/image/mock/sarah-johnson.jpg',
+    education: [
+      {
+        schoolName: 'Norfolk State University',
+        degree: 'Bachelor of Science',
+        fieldOfStudy: 'Computer Science',
+        startDate: { year: 2011 },
+        endDate: { year: 2015 },
+      },
+      {
+        schoolName: 'Norfolk State University',
+        degree: 'Master of Business Administration',
+        fieldOfStudy: 'Business Administration',
+        startDate: { year: 2016 },
+        endDate: { year: 2018 },
+      },
+    ],
+  },
+};
+
+// Helpers
+const toCodeChallenge = async (codeVerifier: string) => {
+  const digest = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, codeVerifier, {
+    encoding: Crypto.CryptoEncoding.BASE64,
+  });
+  return digest.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// Factory
+export const createStubIdentityProvider = (
+  identities: Record<StubProvider, StubIdentity> = DEFAULT_STUB_IDENTITIES
+): StubIdentityProvider => {
+  const grants = new Map<string, StubGrant>();
+
+  return {
+    identities,
+
+    authorize: (provider, codeChallenge, redirectUri) => {
+      const code = `stub_code_${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+      grants.set(code, {
+        provider,
+        identity: identities[provider],
+        codeChallenge,
+        redirectUri,
+        expiresAt: Date.now() + GRANT_TTL_MS,
+      });
+      return code;
+    },
+
+    // Codes are single use and only redeemable with the verifier and redirect URI they were issued for
+    redeemCode: async (provider, code, codeVerifier, redirectUri) => {
+      const grant = grants.get(code);
+      grants.delete(code);
+
+      if (
+        !grant ||
+        grant.provider !== provider ||
+        grant.redirectUri !== redirectUri ||
+        grant.expiresAt < Date.now() ||
+        grant.codeChallenge !== await toCodeChallenge(codeVerifier)
+      ) {
+        return undefined;
+      }
+      return grant.identity;
+    },
+  };
+};
+
+// Stands in for the provider's consent screen by authorizing straight away
+const authorizeImmediately = async (identityProvider: StubIdentityProvider, provider: StubProvider) => {
+  const codeVerifier = `${Crypto.randomUUID()}${Crypto.randomUUID()}`.replace(/-/g, '');
+  const code = identityProvider.authorize(provider, await toCodeChallenge(codeVerifier), STUB_REDIRECT_URI);
+  logMockEvent('auth', `${provider} authorized as ${identityProvider.identities[provider].email}`);
+
+  return { code, codeVerifier, redirectUri: STUB_REDIRECT_URI };
+};
+
+export const createStubSocialAuthorizer = (identityProvider: StubIdentityProvider): SocialAuthorizer =>
+  async (provider): Promise<SocialAuthorization> => ({
+    provider,
+    ...await authorizeImmediately(identityProvider, provider),
+  });
+
+export const createStubLinkedInAuthorizer = (identityProvider: StubIdentityProvider): LinkedInAuthorizer =>
+  async (onStarted) => {
+    const { code, codeVerifier, redirectUri } = await authorizeImmediately(identityProvider, 'linkedin');
+    const state = Crypto.randomUUID();
+    await onStarted?.({ codeVerifier, redirectUri, state });
+
+    return { code, codeVerifier, redirectUri, state };
+  };
@@ -0,0 +1,195 @@
+// NYTHC Mock Server
+// Shared in-memory state behind the mock services, standing in for the NYTHC backend in development and tests.
+
+import { CodeDelivery, SocialProvider, normalizeEmail } from './authService';
+import { AlumniDegree, AuthUser, UserRole, UserSession, VerificationMethod } from '../types/navigation';
+import { VERIFICATION_CODE_LENGTH } from '../utils/validation';
+import { updateVerificationRecord, withVerificationRecord } from '../utils/verificationLifecycle';
+
+// Types
+export interface MockAccountSeed {
+  email: string;
+  password?: string;
+  role: UserRole;
+  firstName?: string;
+  lastName?: string;
+  emailVerified?: boolean;
+  verifiedWith?: VerificationMethod;
+  graduationYear?: number;
+  isReviewer?: boolean;
+}
+
+export interface MockServerOptions {
+  latencyMs?: number;
+  seedAccounts?: MockAccountSeed[];
+}
+
+export interface MockAccount {
+  user: AuthUser;
+  password?: string;
+  linkedProviders: Partial<Record<SocialProvider, string>>;
+  failedAttempts: number;
+  lockedUntil?: number;
+  // Norfolk State degrees from the last LinkedIn verification that matched
+  linkedInDegrees?: AlumniDegree[];
+}
+
+export interface MockCode {
+  code: string;
+  expiresAt: number;
+  attemptsRemaining: number;
+  issuedAt: number;
+}
+
+export type CodeIssueResult = { entry: MockCode } | { retryAfterSeconds: number };
+export type CodeCheckResult = 'valid' | 'invalid' | 'expired';
+
+export interface MockServer {
+  accounts: Map<string, MockAccount>;
+  simulateLatency: () => Promise<void>;
+  createAccount: (seed: MockAccountSeed) => MockAccount;
+  findSessionAccount: (session: UserSession) => MockAccount | undefined;
+  issueSession: (account: MockAccount) => UserSession;
+  generateToken: (prefix: string) => string;
+  issueCode: (codes: Map<string, MockCode>, key: string) => CodeIssueResult;
+  checkCode: (codes: Map<string, MockCode>, key: string, code: string) => CodeCheckResult;
+  toCodeDelivery: (entry: MockCode) => CodeDelivery;
+}
+
+// Constants
+const ACCESS_TOKEN_TTL_MS = 60 * 60 * 1000;
+const CODE_TTL_MS = 15 * 60 * 1000;
+const CODE_MAX_ATTEMPTS = 5;
+const CODE_RESEND_COOLDOWN_MS = 30 * 1000;
+
+export const DEFAULT_MOCK_ACCOUNTS: MockAccountSeed[] = [
+  { email: 'alumni@nythc.com', password: 'Spartan2015', role: 'alumni', firstName: 'Sarah', lastName: 'Johnson' },
+  { email: 'student@nsu.edu', password: 'Spartan2027', role: 'student', firstName: 'Marcus', lastName: 'Williams' },
+  { email: 'guest@nythc.com', password: 'Homecoming1', role: 'guest', firstName: 'Dana', lastName: 'Brooks' },
+  {
+    email: 'reviewer@nythc.com',
+    password: 'Reviewer2024',
+    role: 'alumni',
+    firstName: 'Alex',
+    lastName: 'Carter',
+    verifiedWith: 'manual_review',
+    isReviewer: true,
+  },
+  // An alumna with no LinkedIn education, and three verified classmates who can vouch for her
+  { email: 'gloria.hayes@nythc.com', password: 'Spartan1978', role: 'alumni', firstName: 'Gloria', lastName: 'Hayes', graduationYear: 1978 },
+  { email: 'james.porter@nythc.com', password: 'Spartan1978', role: 'alumni', firstName: 'James', lastName: 'Porter', graduationYear: 1978, verifiedWith: 'manual_review' },
+  { email: 'linda.moore@nythc.com', password: 'Spartan1978', role: 'alumni', firstName: 'Linda', lastName: 'Moore', graduationYear: 1978, verifiedWith: 'manual_review' },
+  { email: 'robert.king@nythc.com', password: 'Spartan1978', role: 'alumni', firstName: 'Robert', lastName: 'King', graduationYear: 1978, verifiedWith: 'manual_review' },
+];
+
+// Logging
+// Prints the codes and links a real backend would email, so a developer can finish each flow by hand.
+// The messages hold codes and email addresses, so nothing is printed outside development builds.
+export const logMockEvent = (scope: 'auth' | 'verification', message: string) => {
+  if (__DEV__) console.log(`[mock ${scope}] ${message}`);
+};
+
+// Factory
+export const createMockServer = ({
+  latencyMs = 800,
+  seedAccounts = DEFAULT_MOCK_ACCOUNTS,
+}: MockServerOptions = {}): MockServer => {
+  const accounts = new Map<string, MockAccount>();
+  let nextId = 1;
+
+  const generateCode = () =>
+    Math.floor(Math.random() * 10 ** VERIFICATION_CODE_LENGTH)
+      .toString()
+      .padStart(VERIFICATION_CODE_LENGTH, '0');
+
+  const server: MockServer = {
+    accounts,
+
+    simulateLatency: () => new Promise(resolve => setTimeout(resolve, latencyMs)),
+
+    createAccount: (seed) => {
+      const email = normalizeEmail(seed.email);
+      const user: AuthUser = {
+        id: `user_${nextId++}`,
+        email,
+        role: seed.role,
+        firstName: seed.firstName,
+        lastName: seed.lastName,
+        needsVerification: seed.role !== 'guest',
+        emailVerified: seed.emailVerified ?? true,
+        verificationStatus: seed.role === 'guest' ? undefined : 'pending',
+        isReviewer: seed.isReviewer,
+        profile: seed.graduationYear
+          ? { firstName: seed.firstName ?? '', lastName: seed.lastName ?? '', graduationYear: seed.graduationYear }
+          : undefined,
+      };
+      const account: MockAccount = {
+        user: seed.verifiedWith
+          ? withVerificationRecord(user, updateVerificationRecord(undefined, 'verified', { method: seed.verifiedWith }))
+          : user,
+        password: seed.password,
+        linkedProviders: {},
+        failedAttempts: 0,
+      };
+      accounts.set(email, account);
+      return account;
+    },
+
+    findSessionAccount: (session) => accounts.get(normalizeEmail(session.user.email)),
+
+    issueSession: (account) => ({
+      user: { ...account.user },
+      tokens: {
+        accessToken: `mock_access_${account.user.id}_${Date.now()}`,
+        refreshToken: `mock_refresh_${account.user.id}_${Date.now()}`,
+        expiresAt: Date.now() + ACCESS_TOKEN_TTL_MS,
+      },
+    }),
+
+    generateToken: (prefix) =>
+      `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`,
+
+    // One-time codes expire, allow a limited number of attempts, and can't be re-sent during the cooldown
+    issueCode: (codes, key) => {
+      const now = Date.now();
+      const existing = codes.get(key);
+      if (existing && now - existing.issuedAt < CODE_RESEND_COOLDOWN_MS) {
+        return { retryAfterSeconds: Math.ceil((existing.issuedAt + CODE_RESEND_COOLDOWN_MS - now) / 1000) };
+      }
+
+      const entry: MockCode = {
+        code: generateCode(),
+        expiresAt: now + CODE_TTL_MS,
+        attemptsRemaining: CODE_MAX_ATTEMPTS,
+        issuedAt: now,
+      };
+      codes.set(key, entry);
+      return { entry };
+    },
+
+    checkCode: (codes, key, code) => {
+      const entry = codes.get(key);
+      if (!entry || entry.expiresAt < Date.now() || entry.attemptsRemaining <= 0) {
+        codes.delete(key);
+        return 'expired';
+      }
+
+      if (entry.code !== code) {
+        entry.attemptsRemaining -= 1;
+        return 'invalid';
+      }
+
+      codes.delete(key);
+      return 'valid';
+    },
+
+    toCodeDelivery: (entry) => ({
+      expiresAt: entry.expiresAt,
+      resendAvailableAt: entry.issuedAt + CODE_RESEND_COOLDOWN_MS,
+      attemptsRemaining: entry.attemptsRemaining,
+    }),
+  };
+
+  seedAccounts.forEach(server.createAccount);
+  return server;
+};
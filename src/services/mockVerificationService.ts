@@ -0,0 +1,533 @@
+// NYTHC Mock Verification Server
+// In-memory stand-in for the NYTHC verification backend, sharing accounts with the mock auth server.
+
+import * as Crypto from 'expo-crypto';
+import { normalizeEmail } from './authService';
+import { MockAccount, MockCode, MockServer, createMockServer, logMockEvent } from './mockServer';
+import { StubIdentity, StubIdentityProvider, createStubIdentityProvider } from './mockIdentityProvider';
+import {
+  DocumentReviewSubmission,
+  ManualReviewAction,
+  ManualReviewStatus,
+  ManualVerificationSubmission,
+  VerificationError,
+  VerificationService,
+  VouchRequest,
+  assertFeatureAccess,
+} from './verificationService';
+import { AuthUser, LinkedInProfile, UserSession, VerificationStatus } from '../types/navigation';
+import { AlumniMatchDecision, matchNorfolkStateAlumni } from '../utils/alumniMatching';
+import { getNorfolkStateDegrees } from '../utils/alumniProfile';
+import { AlumniAttestationClaims, ATTESTATION_ISSUER } from '../utils/attestation';
+import { encodeBase64Url } from '../utils/base64url';
+import { getGraduationYearRange, isCampusEmail } from '../utils/studentVerification';
+import { validateAlumniGraduationYear, validateVerificationDocument } from '../utils/manualVerification';
+import { isVerificationActive, updateVerificationRecord, withVerificationRecord } from '../utils/verificationLifecycle';
+import { VOUCHING } from '../utils/constants';
+
+// Types
+export interface MockVerificationServiceOptions {
+  identityProvider?: StubIdentityProvider;
+  // Pass an array to read the vouch audit trail from outside, as tests do
+  vouchAuditLog?: MockVouchAuditEntry[];
+}
+
+interface PendingStudentVerification {
+  campusEmail: string;
+  expectedGraduationYear: number;
+}
+
+// Stands in for the LinkedIn access token the backend keeps after redeeming a code
+interface MockLinkedInConnection {
+  userId: string;
+  identity: StubIdentity;
+}
+
+// Every vouch attempt is logged, including refused ones, so misuse can be traced afterwards
+export interface MockVouchAuditEntry {
+  requestId: string;
+  applicantId: string;
+  voucherId: string;
+  outcome: 'accepted' | 'ineligible' | 'duplicate' | 'rate_limited';
+  at: number;
+}
+
+// Constants
+const ATTESTATION_TTL_SECONDS = 10 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MOCK_SIGNING_SECRET = 'mock_attestation_secret';
+
+const STATUS_FOR_DECISION: Record<AlumniMatchDecision, VerificationStatus> = {
+  verified: 'verified',
+  manual_review: 'in_review',
+  rejected: 'failed',
+};
+
+const REVIEW_OUTCOMES: Record<ManualReviewAction, { submission: ManualReviewStatus; user: VerificationStatus }> = {
+  approve: { submission: 'approved', user: 'verified' },
+  reject: { submission: 'rejected', user: 'failed' },
+  request_info: { submission: 'needs_info', user: 'needs_info' },
+};
+
+// Helpers
+// Stands in for the backend's signing key; the app never checks the signature itself
+const signAttestation = async (claims: AlumniAttestationClaims) => {
+  const unsigned = `${encodeBase64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${encodeBase64Url(JSON.stringify(claims))}`;
+  const digest = await Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    `${unsigned}.${MOCK_SIGNING_SECRET}`,
+    { encoding: Crypto.CryptoEncoding.BASE64 }
+  );
+  return `${unsigned}.${digest.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+};
+
+const toLinkedInProfile = ({ identity }: MockLinkedInConnection): LinkedInProfile => ({
+  id: identity.subject,
+  firstName: identity.firstName ?? '',
+  lastName: identity.lastName ?? '',
+  email: identity.email,
+  education: identity.education ?? [],
+  profilePicture: identity.picture,
+});
+
+const getDisplayName = (user: AuthUser) =>
+  [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+
+const copyVouchRequest = (request: VouchRequest): VouchRequest => ({ ...request, vouches: [...request.vouches] });
+
+// Factory
+export const createMockVerificationService = (
+  server: MockServer = createMockServer(),
+  { identityProvider = createStubIdentityProvider(), vouchAuditLog = [] }: MockVerificationServiceOptions = {}
+): VerificationService => {
+  const { accounts, simulateLatency } = server;
+  const studentCodes = new Map<string, MockCode>();
+  const pendingStudents = new Map<string, PendingStudentVerification>();
+  const campusEmailOwners = new Map<string, string>();
+  const manualSubmissions = new Map<string, ManualVerificationSubmission>();
+  const vouchRequests = new Map<string, VouchRequest>();
+  const linkedInConnections = new Map<string, MockLinkedInConnection>();
+
+  const getSessionAccount = (session: UserSession): MockAccount => {
+    const account = server.findSessionAccount(session);
+    if (!account) throw new VerificationError('session_expired', 'Session expired, please sign in again');
+    return account;
+  };
+
+  // A connection can only be used by the account that redeemed its code, and only until it is matched
+  const getLinkedInConnection = (session: UserSession, connectionId: string) => {
+    const connection = linkedInConnections.get(connectionId);
+    if (!connection || connection.userId !== getSessionAccount(session).user.id) {
+      throw new VerificationError('linkedin_unavailable', 'This LinkedIn connection has ended, please connect again');
+    }
+    return connection;
+  };
+
+  const toSession = (session: UserSession, account: MockAccount): UserSession => ({
+    ...session,
+    user: { ...account.user },
+  });
+
+  const assertReviewer = (session: UserSession): MockAccount => {
+    const account = getSessionAccount(session);
+    assertFeatureAccess(account.user, 'review_queue');
+    return account;
+  };
+
+  const findAccountById = (userId: string) =>
+    Array.from(accounts.values()).find(candidate => candidate.user.id === userId);
+
+  // Open requests lapse after their TTL so stale asks don't sit in classmates' lists forever
+  const getVouchRequestForApplicant = (applicantId: string) => {
+    const request = Array.from(vouchRequests.values())
+      .filter(candidate => candidate.applicantId === applicantId)
+      .sort((a, b) => b.createdAt - a.createdAt)[0];
+    if (request?.status === 'open' && request.expiresAt <= Date.now()) request.status = 'expired';
+    return request;
+  };
+
+  const canVouchFor = (voucher: AuthUser, request: VouchRequest) => {
+    const classYear = voucher.profile?.graduationYear;
+    return (
+      voucher.role === 'alumni' &&
+      voucher.id !== request.applicantId &&
+      isVerificationActive(voucher) &&
+      classYear !== undefined &&
+      Math.abs(classYear - request.classYear) <= VOUCHING.classYearWindow
+    );
+  };
+
+  const auditVouch = (entry: MockVouchAuditEntry) => {
+    vouchAuditLog.push(entry);
+    logMockEvent('verification', `Vouch ${entry.outcome}: ${entry.voucherId} for ${entry.applicantId} (${entry.requestId})`);
+  };
+
+  const getLatestSubmission = (userId: string) =>
+    Array.from(manualSubmissions.values())
+      .filter(submission => submission.userId === userId)
+      .sort((a, b) => b.submittedAt - a.submittedAt)[0];
+
+  // A new submission replaces one still waiting for review
+  const queueSubmission = (submission: ManualVerificationSubmission) => {
+    const previous = getLatestSubmission(submission.userId);
+    if (previous?.status === 'in_review') manualSubmissions.delete(previous.id);
+    manualSubmissions.set(submission.id, submission);
+  };
+
+  // Campus addresses already used as account emails count as claimed by that account
+  const getCampusEmailOwner = (campusEmail: string) =>
+    campusEmailOwners.get(campusEmail) ?? accounts.get(campusEmail)?.user.id;
+
+  return {
+    startStudentVerification: async (session, { campusEmail, expectedGraduationYear }) => {
+      await simulateLatency();
+
+      const account = getSessionAccount(session);
+      const email = normalizeEmail(campusEmail);
+
+      if (!isCampusEmail(email)) {
+        throw new VerificationError('domain_not_allowed', 'Only NSU email addresses can verify student status');
+      }
+
+      const owner = getCampusEmailOwner(email);
+      if (owner && owner !== account.user.id) {
+        throw new VerificationError('campus_email_in_use', 'This NSU email is already linked to another account');
+      }
+
+      const { min, max } = getGraduationYearRange();
+      if (expectedGraduationYear < min || expectedGraduationYear > max) {
+        throw new VerificationError('invalid_graduation_year', `Graduation year must be between ${min} and ${max}`);
+      }
+
+      const result = server.issueCode(studentCodes, account.user.id);
+      if ('retryAfterSeconds' in result) {
+        throw new VerificationError('rate_limited', 'Please wait before requesting another code', result.retryAfterSeconds);
+      }
+
+      pendingStudents.set(account.user.id, { campusEmail: email, expectedGraduationYear });
+      logMockEvent('verification', `Student verification code for ${email}: ${result.entry.code}`);
+      return server.toCodeDelivery(result.entry);
+    },
+
+    confirmStudentVerification: async (session, code) => {
+      await simulateLatency();
+
+      const account = getSessionAccount(session);
+      const pending = pendingStudents.get(account.user.id);
+      if (!pending) {
+        throw new VerificationError('code_expired', 'This code has expired, please request a new one');
+      }
+
+      switch (server.checkCode(studentCodes, account.user.id, code)) {
+        case 'expired':
+          throw new VerificationError('code_expired', 'This code has expired, please request a new one');
+        case 'invalid':
+          throw new VerificationError('invalid_code', 'Incorrect code');
+      }
+
+      pendingStudents.delete(account.user.id);
+      campusEmailOwners.set(pending.campusEmail, account.user.id);
+      account.user = withVerificationRecord(
+        { ...account.user, expectedGraduationYear: pending.expectedGraduationYear },
+        updateVerificationRecord(account.user.verification, 'verified', { method: 'email_domain' })
+      );
+
+      return toSession(session, account);
+    },
+
+    exchangeLinkedInCode: async (session, { code, codeVerifier, redirectUri }) => {
+      await simulateLatency();
+
+      const account = getSessionAccount(session);
+      const identity = await identityProvider.redeemCode('linkedin', code, codeVerifier, redirectUri);
+      if (!identity) {
+        throw new VerificationError('linkedin_unavailable', 'LinkedIn could not confirm this sign-in');
+      }
+
+      const connectionId = server.generateToken('linkedin');
+      linkedInConnections.set(connectionId, { userId: account.user.id, identity });
+      return { connectionId };
+    },
+
+    fetchLinkedInProfile: async (session, connectionId) => {
+      await simulateLatency();
+
+      return toLinkedInProfile(getLinkedInConnection(session, connectionId));
+    },
+
+    verifyAlumniWithLinkedIn: async (session, { connectionId, nonce }) => {
+      await simulateLatency();
+
+      const account = getSessionAccount(session);
+      const profile = toLinkedInProfile(getLinkedInConnection(session, connectionId));
+      linkedInConnections.delete(connectionId);
+
+      const match = matchNorfolkStateAlumni(profile);
+      logMockEvent('verification', `LinkedIn match for ${account.user.email}: ${match.decision} (${match.confidence})`);
+
+      account.user = withVerificationRecord(
+        account.user,
+        updateVerificationRecord(account.user.verification, STATUS_FOR_DECISION[match.decision], { method: 'linkedin' })
+      );
+      if (match.decision === 'verified') account.linkedInDegrees = getNorfolkStateDegrees(profile);
+
+      // Undecided matches go to the reviewers with the evidence, the same queue as uploaded documents
+      if (match.decision === 'manual_review' && match.bestMatch) {
+        const { education } = match.bestMatch;
+        queueSubmission({
+          id: server.generateToken('review'),
+          source: 'linkedin',
+          userId: account.user.id,
+          applicantName: getDisplayName(account.user),
+          applicantEmail: account.user.email,
+          linkedInId: profile.id,
+          schoolName: education.schoolName,
+          degree: education.degree?.trim() || undefined,
+          graduationYear: education.endDate?.year,
+          confidence: match.confidence,
+          reasons: match.reasons,
+          status: 'in_review',
+          submittedAt: Date.now(),
+        });
+      }
+
+      const issuedAt = Math.floor(Date.now() / 1000);
+      const attestation = await signAttestation({
+        iss: ATTESTATION_ISSUER,
+        sub: account.user.id,
+        nonce,
+        iat: issuedAt,
+        exp: issuedAt + ATTESTATION_TTL_SECONDS,
+        decision: match.decision,
+        confidence: match.confidence,
+        reasons: match.reasons,
+        linkedInId: profile.id,
+      });
+
+      return { attestation, session: toSession(session, account) };
+    },
+
+    submitManualVerification: async (session, { documentType, document, degree, graduationYear }) => {
+      await simulateLatency();
+
+      const account = getSessionAccount(session);
+      const documentError = validateVerificationDocument(document);
+      if (documentError) throw new VerificationError('invalid_document', documentError);
+
+      const yearError = validateAlumniGraduationYear(String(graduationYear));
+      if (yearError) throw new VerificationError('invalid_graduation_year', yearError);
+
+      const submission: DocumentReviewSubmission = {
+        id: server.generateToken('review'),
+        source: 'document',
+        userId: account.user.id,
+        applicantName: getDisplayName(account.user),
+        applicantEmail: account.user.email,
+        documentType,
+        documentName: document.name,
+        documentUrl: document.uri,
+        degree: degree.trim(),
+        graduationYear,
+        status: 'in_review',
+        submittedAt: Date.now(),
+      };
+      queueSubmission(submission);
+      account.user = withVerificationRecord(
+        account.user,
+        updateVerificationRecord(account.user.verification, 'in_review', { method: 'manual_review' })
+      );
+      logMockEvent('verification', `Manual alumni verification queued for ${account.user.email}`);
+
+      return { submission: { ...submission }, session: toSession(session, account) };
+    },
+
+    getManualVerification: async (session) => {
+      await simulateLatency();
+
+      const submission = getLatestSubmission(getSessionAccount(session).user.id);
+      return submission ? { ...submission } : null;
+    },
+
+    requestVouches: async (session, classYear) => {
+      await simulateLatency();
+
+      const account = getSessionAccount(session);
+      if (account.user.role !== 'alumni' || isVerificationActive(account.user)) {
+        throw new VerificationError('not_authorized', 'Only unverified alumni can ask for vouches');
+      }
+
+      const yearError = validateAlumniGraduationYear(String(classYear));
+      if (yearError) throw new VerificationError('invalid_graduation_year', yearError);
+
+      // Vouches already given were for a specific class, so the year can only change before the first one
+      const existing = getVouchRequestForApplicant(account.user.id);
+      if (existing?.status === 'open' && (existing.vouches.length > 0 || existing.classYear === classYear)) {
+        return copyVouchRequest(existing);
+      }
+      if (existing?.status === 'open') vouchRequests.delete(existing.id);
+
+      const now = Date.now();
+      const request: VouchRequest = {
+        id: server.generateToken('vouch'),
+        applicantId: account.user.id,
+        applicantName: getDisplayName(account.user),
+        classYear,
+        status: 'open',
+        requiredVouches: VOUCHING.requiredVouches,
+        vouches: [],
+        createdAt: now,
+        expiresAt: now + VOUCHING.requestTtlDays * DAY_MS,
+      };
+      vouchRequests.set(request.id, request);
+      account.user = withVerificationRecord(
+        account.user,
+        updateVerificationRecord(account.user.verification, 'pending', {
+          method: 'vouching',
+          detail: { kind: 'vouches_requested', classYear },
+        })
+      );
+      logMockEvent('verification', `Vouch request ${request.id} opened for ${account.user.email}, Class of ${classYear}`);
+
+      return copyVouchRequest(request);
+    },
+
+    getVouchRequest: async (session) => {
+      await simulateLatency();
+
+      const request = getVouchRequestForApplicant(getSessionAccount(session).user.id);
+      return request ? copyVouchRequest(request) : null;
+    },
+
+    listClassVouchRequests: async (session) => {
+      await simulateLatency();
+
+      const voucher = getSessionAccount(session).user;
+      assertFeatureAccess(voucher, 'vouching');
+
+      return Array.from(vouchRequests.values())
+        .filter(request => getVouchRequestForApplicant(request.applicantId)?.id === request.id)
+        .filter(request => request.status === 'open' && canVouchFor(voucher, request))
+        .filter(request => !request.vouches.some(vouch => vouch.userId === voucher.id))
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map(copyVouchRequest);
+    },
+
+    vouchFor: async (session, requestId) => {
+      await simulateLatency();
+
+      const voucher = getSessionAccount(session).user;
+      const request = vouchRequests.get(requestId);
+      if (!request || getVouchRequestForApplicant(request.applicantId)?.status !== 'open') {
+        throw new VerificationError('request_not_found', 'This request is no longer open');
+      }
+
+      const now = Date.now();
+      const entry = { requestId, applicantId: request.applicantId, voucherId: voucher.id, at: now };
+
+      if (!canVouchFor(voucher, request)) {
+        auditVouch({ ...entry, outcome: 'ineligible' });
+        throw new VerificationError('not_authorized', `Only verified alumni from the Class of ${request.classYear} can vouch`);
+      }
+      if (request.vouches.some(vouch => vouch.userId === voucher.id)) {
+        auditVouch({ ...entry, outcome: 'duplicate' });
+        throw new VerificationError('already_vouched', 'You have already vouched for this person');
+      }
+
+      const recentVouches = vouchAuditLog.filter(
+        logged => logged.voucherId === voucher.id && logged.outcome === 'accepted' && logged.at > now - DAY_MS
+      );
+      if (recentVouches.length >= VOUCHING.maxVouchesPerDay) {
+        auditVouch({ ...entry, outcome: 'rate_limited' });
+        throw new VerificationError(
+          'rate_limited',
+          'You have vouched for several people today. Please try again tomorrow.',
+          Math.ceil((recentVouches[0].at + DAY_MS - now) / 1000)
+        );
+      }
+
+      const voucherName = getDisplayName(voucher);
+      request.vouches.push({
+        userId: voucher.id,
+        name: voucherName,
+        classYear: voucher.profile?.graduationYear ?? request.classYear,
+        vouchedAt: now,
+      });
+      auditVouch({ ...entry, outcome: 'accepted' });
+
+      const applicant = findAccountById(request.applicantId);
+      if (applicant) {
+        const record = updateVerificationRecord(applicant.user.verification, 'pending', {
+          method: 'vouching',
+          detail: { kind: 'vouch_received', voucherName },
+          now,
+        });
+
+        if (request.vouches.length >= request.requiredVouches) {
+          request.status = 'verified';
+          applicant.user = withVerificationRecord(applicant.user, {
+            ...updateVerificationRecord(record, 'verified', { method: 'vouching', now }),
+            vouchers: [...request.vouches],
+          });
+        } else {
+          applicant.user = withVerificationRecord(applicant.user, record);
+        }
+      }
+
+      return copyVouchRequest(request);
+    },
+
+    listReviewQueue: async (session) => {
+      await simulateLatency();
+
+      assertReviewer(session);
+      return Array.from(manualSubmissions.values())
+        .filter(submission => submission.status === 'in_review')
+        .sort((a, b) => a.submittedAt - b.submittedAt)
+        .map(submission => ({ ...submission }));
+    },
+
+    reviewManualVerification: async (session, submissionId, action, note) => {
+      await simulateLatency();
+
+      assertReviewer(session);
+      const submission = manualSubmissions.get(submissionId);
+      if (!submission || submission.status !== 'in_review') {
+        throw new VerificationError('submission_not_found', 'This submission has already been reviewed');
+      }
+
+      const outcome = REVIEW_OUTCOMES[action];
+      submission.status = outcome.submission;
+      submission.reviewedAt = Date.now();
+      submission.reviewerNote = note?.trim() || undefined;
+
+      const applicant = findAccountById(submission.userId);
+      if (applicant) {
+        applicant.user = withVerificationRecord(
+          applicant.user,
+          updateVerificationRecord(applicant.user.verification, outcome.user, {
+            method: submission.source === 'linkedin' ? 'linkedin' : 'manual_review',
+            note: submission.reviewerNote,
+          })
+        );
+      }
+
+      return { ...submission };
+    },
+
+    revokeVerification: async (session, { email, reason }) => {
+      await simulateLatency();
+
+      assertReviewer(session);
+      const account = accounts.get(normalizeEmail(email));
+      if (!account || account.user.role === 'guest') {
+        throw new VerificationError('account_not_found', 'No student or alumni account uses this email');
+      }
+
+      account.user = withVerificationRecord(
+        account.user,
+        updateVerificationRecord(account.user.verification, 'revoked', { note: reason.trim() })
+      );
+      logMockEvent('verification', `Verification revoked for ${account.user.email}: ${reason.trim()}`);
+    },
+  };
+};
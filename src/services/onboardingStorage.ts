@@ -0,0 +1,35 @@
+// NYTHC Onboarding Storage
+// Persists how far this device has got through onboarding, so later launches pick up where the user left off.
+// Verification still pending belongs to the account and is saved with the session instead.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { UserRole } from '../types/navigation';
+
+// Types
+export interface OnboardingProgress {
+  // Version of the intro slides last seen; 0 until the intro has been seen or skipped
+  introVersion: number;
+  // Chosen before an account exists, so a returning user goes straight to sign in
+  role?: UserRole;
+  permissionsCompletedAt?: number;
+}
+
+// Constants
+const STORAGE_KEY = 'nythc.onboarding';
+
+export const INITIAL_ONBOARDING_PROGRESS: OnboardingProgress = { introVersion: 0 };
+
+// Storage
+export const loadOnboardingProgress = async (): Promise<OnboardingProgress> => {
+  const value = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!value) return INITIAL_ONBOARDING_PROGRESS;
+
+  try {
+    return { ...INITIAL_ONBOARDING_PROGRESS, ...(JSON.parse(value) as Partial<OnboardingProgress>) };
+  } catch {
+    return INITIAL_ONBOARDING_PROGRESS;
+  }
+};
+
+export const saveOnboardingProgress = (progress: OnboardingProgress) =>
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
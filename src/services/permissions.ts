@@ -0,0 +1,116 @@
+// NYTHC Device Permissions
+// Checks and requests the device permissions the app uses, and remembers what the user decided on this device.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Linking } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import * as Location from 'expo-location';
+import * as Contacts from 'expo-contacts';
+import { Camera } from 'expo-camera';
+
+// Types
+// Every Expo permission module resolves with this shape
+type PermissionResponse = Contacts.PermissionResponse;
+
+export type AppPermission = 'notifications' | 'location' | 'camera' | 'contacts';
+
+// `blocked` means the OS won't show its prompt again, so only the Settings app can change it
+export type PermissionState = 'granted' | 'denied' | 'blocked' | 'undetermined';
+
+export interface PermissionDecision {
+  outcome: 'granted' | 'denied' | 'skipped';
+  at: number;
+}
+
+export interface PermissionPreferences {
+  decisions: Partial<Record<AppPermission, PermissionDecision>>;
+}
+
+// Constants
+// Also the order the onboarding step asks in
+export const APP_PERMISSIONS: AppPermission[] = ['notifications', 'location', 'camera', 'contacts'];
+
+const STORAGE_KEY = 'nythc.permissions';
+
+const PERMISSION_APIS: Record<AppPermission, {
+  get: () => Promise<PermissionResponse>;
+  request: () => Promise<PermissionResponse>;
+}> = {
+  notifications: {
+    get: Notifications.getPermissionsAsync,
+    request: () => Notifications.requestPermissionsAsync(),
+  },
+  location: {
+    get: Location.getForegroundPermissionsAsync,
+    request: Location.requestForegroundPermissionsAsync,
+  },
+  camera: {
+    get: Camera.getCameraPermissionsAsync,
+    request: Camera.requestCameraPermissionsAsync,
+  },
+  contacts: {
+    get: Contacts.getPermissionsAsync,
+    request: Contacts.requestPermissionsAsync,
+  },
+};
+
+// Helpers
+const toPermissionState = ({ status, canAskAgain }: PermissionResponse): PermissionState => {
+  if (status === 'granted') return 'granted';
+  if (status === 'undetermined') return 'undetermined';
+  return canAskAgain ? 'denied' : 'blocked';
+};
+
+// Status
+export const getPermissionState = async (permission: AppPermission): Promise<PermissionState> =>
+  toPermissionState(await PERMISSION_APIS[permission].get());
+
+export const getPermissionStates = async (): Promise<Record<AppPermission, PermissionState>> => {
+  const states = await Promise.all(APP_PERMISSIONS.map(getPermissionState));
+  return Object.fromEntries(APP_PERMISSIONS.map((permission, index) => [permission, states[index]])) as Record<
+    AppPermission,
+    PermissionState
+  >;
+};
+
+// Shows the OS prompt when it still can; otherwise resolves with the current state straight away
+export const requestPermission = async (permission: AppPermission): Promise<PermissionState> => {
+  const state = await getPermissionState(permission);
+  if (state === 'granted' || state === 'blocked') return state;
+
+  const result = toPermissionState(await PERMISSION_APIS[permission].request());
+  await recordPermissionDecision(permission, result === 'granted' ? 'granted' : 'denied');
+  return result;
+};
+
+// The only way back from a blocked permission
+export const openPermissionSettings = () => Linking.openSettings();
+
+// Preferences
+export const loadPermissionPreferences = async (): Promise<PermissionPreferences> => {
+  const value = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!value) return { decisions: {} };
+
+  try {
+    return JSON.parse(value) as PermissionPreferences;
+  } catch {
+    return { decisions: {} };
+  }
+};
+
+const savePermissionPreferences = (preferences: PermissionPreferences) =>
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+
+export const recordPermissionDecision = async (permission: AppPermission, outcome: PermissionDecision['outcome']) => {
+  const preferences = await loadPermissionPreferences();
+  await savePermissionPreferences({
+    ...preferences,
+    decisions: { ...preferences.decisions, [permission]: { outcome, at: Date.now() } },
+  });
+};
+
+// A permission the user declined or skipped isn't asked for again until they choose to
+export const wasPermissionDeclined = (preferences: PermissionPreferences, permission: AppPermission) => {
+  const outcome = preferences.decisions[permission]?.outcome;
+  return outcome === 'denied' || outcome === 'skipped';
+};
@@ -0,0 +1,30 @@
+// NYTHC Preferences Storage
+// Display preferences chosen in Settings, kept on this device only.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ThemePreference } from '../theme/themes';
+
+// Types
+export interface AppPreferences {
+  theme: ThemePreference;
+}
+
+// Constants
+const STORAGE_KEY = 'nythc.preferences';
+
+export const DEFAULT_PREFERENCES: AppPreferences = { theme: 'system' };
+
+// Storage
+export const loadPreferences = async (): Promise<AppPreferences> => {
+  const value = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!value) return DEFAULT_PREFERENCES;
+
+  try {
+    return { ...DEFAULT_PREFERENCES, ...(JSON.parse(value) as Partial<AppPreferences>) };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePreferences = (preferences: AppPreferences) =>
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
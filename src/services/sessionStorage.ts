@@ -0,0 +1,132 @@
+// NYTHC Session Storage
+// Persists the signed-in session, and any LinkedIn verification in flight, in the device keychain/keystore
+// so both survive app restarts.
+
+import * as SecureStore from 'expo-secure-store';
+import { AuthService, toAuthError } from './authService';
+import { AuthTokens, AuthUser, LinkedInProfile, UserSession } from '../types/navigation';
+
+// Types
+export interface StoredSession {
+  session: UserSession;
+  linkedInProfile?: LinkedInProfile;
+  pendingVerification?: 'email' | 'student' | 'linkedin';
+}
+
+// The PKCE verifier and state of a LinkedIn attempt, saved before the browser opens so the redirect
+// can still be completed if the OS kills the app in the meantime
+export interface LinkedInVerificationAttempt {
+  userId: string;
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  step: 'connect' | 'verify';
+  code?: string;
+  // Set once the backend has redeemed the code, which can't be redeemed again
+  connectionId?: string;
+  updatedAt: number;
+}
+
+// Constants
+// Each part is stored under its own key to stay well below the secure store's per-item size limit
+const STORAGE_KEYS = {
+  tokens: 'nythc.session.tokens',
+  user: 'nythc.session.user',
+  linkedInProfile: 'nythc.session.linkedInProfile',
+  pendingVerification: 'nythc.session.pendingVerification',
+  linkedInAttempt: 'nythc.session.linkedInAttempt',
+} as const;
+
+// LinkedIn authorization codes are only valid for a short time, so older attempts can't be finished anyway
+const LINKEDIN_ATTEMPT_TTL_MS = 30 * 60 * 1000;
+
+// Refresh a little before expiry so requests made right after launch don't race the deadline
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Helpers
+const readJson = async <T>(key: string): Promise<T | undefined> => {
+  const value = await SecureStore.getItemAsync(key);
+  if (!value) return undefined;
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+};
+
+const writeJson = (key: string, value: unknown) =>
+  value === undefined
+    ? SecureStore.deleteItemAsync(key)
+    : SecureStore.setItemAsync(key, JSON.stringify(value));
+
+// Storage API
+export const loadSession = async (): Promise<StoredSession | null> => {
+  const [tokens, user, linkedInProfile, pendingVerification] = await Promise.all([
+    readJson<AuthTokens>(STORAGE_KEYS.tokens),
+    readJson<AuthUser>(STORAGE_KEYS.user),
+    readJson<LinkedInProfile>(STORAGE_KEYS.linkedInProfile),
+    readJson<StoredSession['pendingVerification']>(STORAGE_KEYS.pendingVerification),
+  ]);
+
+  if (!tokens || !user) return null;
+
+  return { session: { user, tokens }, linkedInProfile, pendingVerification };
+};
+
+export const saveSession = async ({ session, linkedInProfile, pendingVerification }: StoredSession) => {
+  await Promise.all([
+    writeJson(STORAGE_KEYS.tokens, session.tokens),
+    writeJson(STORAGE_KEYS.user, session.user),
+    writeJson(STORAGE_KEYS.linkedInProfile, linkedInProfile),
+    writeJson(STORAGE_KEYS.pendingVerification, pendingVerification),
+  ]);
+};
+
+export const clearSession = async () => {
+  await Promise.all(Object.values(STORAGE_KEYS).map(key => SecureStore.deleteItemAsync(key)));
+};
+
+export const saveLinkedInAttempt = (attempt: LinkedInVerificationAttempt) =>
+  writeJson(STORAGE_KEYS.linkedInAttempt, attempt);
+
+// Returns the signed-in user's unfinished attempt; anything stale or left by another account is discarded
+export const loadLinkedInAttempt = async (userId: string): Promise<LinkedInVerificationAttempt | null> => {
+  const attempt = await readJson<LinkedInVerificationAttempt>(STORAGE_KEYS.linkedInAttempt);
+  if (!attempt) return null;
+
+  if (attempt.userId !== userId || attempt.updatedAt + LINKEDIN_ATTEMPT_TTL_MS < Date.now()) {
+    await clearLinkedInAttempt();
+    return null;
+  }
+  return attempt;
+};
+
+export const clearLinkedInAttempt = () => SecureStore.deleteItemAsync(STORAGE_KEYS.linkedInAttempt);
+
+// Load the saved session and refresh its tokens if they have expired.
+// Returns null when there is no session or the server rejected it; offline launches keep the stored session.
+export const restoreSession = async (authService: AuthService): Promise<StoredSession | null> => {
+  let stored: StoredSession | null;
+  try {
+    stored = await loadSession();
+  } catch (error) {
+    console.error('Failed to read stored session:', error);
+    return null;
+  }
+
+  if (!stored) return null;
+  if (stored.session.tokens.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) return stored;
+
+  try {
+    const refreshed = { ...stored, session: await authService.refreshSession(stored.session) };
+    await saveSession(refreshed);
+    return refreshed;
+  } catch (error) {
+    const authError = toAuthError(error);
+    if (authError.code === 'network_error') return stored;
+
+    await clearSession();
+    return null;
+  }
+};
@@ -0,0 +1,133 @@
+// NYTHC Social Authorization
+// Runs the Google, Apple and LinkedIn authorization-code flows with PKCE and hands the code to the backend.
+
+import * as AuthSession from 'expo-auth-session';
+import { AuthError, SocialProvider } from './authService';
+import { APP_CONFIG } from '../utils/constants';
+
+// Types
+export interface SocialAuthorization {
+  provider: SocialProvider;
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+// Resolves to null when the user cancels the provider's sign-in sheet
+export type SocialAuthorizer = (provider: SocialProvider) => Promise<SocialAuthorization | null>;
+
+// The state doubles as the nonce the backend binds its verification result to
+export interface LinkedInAuthorization {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  state: string;
+}
+
+// Handed over once the PKCE values exist and before the browser opens, so callers can persist them
+export type PendingLinkedInAuthorization = Omit<LinkedInAuthorization, 'code'>;
+
+export type LinkedInAuthorizer = (
+  onStarted?: (pending: PendingLinkedInAuthorization) => Promise<void>
+) => Promise<LinkedInAuthorization | null>;
+
+interface ProviderConfig {
+  clientId: string;
+  discovery: AuthSession.DiscoveryDocument;
+  scopes: string[];
+  extraParams?: Record<string, string>;
+  relayRedirectUri?: string;
+}
+
+// Constants
+const APP_REDIRECT_URI = AuthSession.makeRedirectUri({ scheme: 'nythc', path: 'oauth' });
+
+const PROVIDERS: Record<SocialProvider, ProviderConfig> = {
+  google: {
+    clientId: process.env.EXPO_PUBLIC_GOOGLE_CLIENT_ID || 'demo_google_client_id',
+    discovery: {
+      authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenEndpoint: 'https://oauth2.googleapis.com/token',
+    },
+    scopes: ['openid', 'email', 'profile'],
+  },
+  apple: {
+    clientId: process.env.EXPO_PUBLIC_APPLE_SERVICE_ID || 'com.nythc.mobile.signin',
+    discovery: {
+      authorizationEndpoint: 'https://appleid.apple.com/auth/authorize',
+      tokenEndpoint: 'https://appleid.apple.com/auth/token',
+    },
+    scopes: ['name', 'email'],
+    // Apple only posts its response to https URLs when name or email is requested,
+    // so the backend receives it and redirects to the app with the same query parameters
+    extraParams: { response_mode: 'form_post' },
+    relayRedirectUri: `${APP_CONFIG.apiBaseUrl}/auth/apple/callback`,
+  },
+};
+
+const LINKEDIN: ProviderConfig = {
+  clientId: process.env.EXPO_PUBLIC_LINKEDIN_CLIENT_ID || 'demo_client_id',
+  discovery: {
+    authorizationEndpoint: 'https://www.linkedin.com/oauth/v2/authorization',
+    tokenEndpoint: 'https://www.linkedin.com/oauth/v2/accessToken',
+  },
+  scopes: ['r_liteprofile', 'r_emailaddress', 'r_educations'],
+};
+
+// Helpers
+const withRedirectUri = (url: string, from: string, to: string) =>
+  url.replace(
+    new URLSearchParams({ redirect_uri: from }).toString(),
+    new URLSearchParams({ redirect_uri: to }).toString()
+  );
+
+const authorize = async (
+  config: ProviderConfig,
+  onStarted?: (pending: PendingLinkedInAuthorization) => Promise<void>
+): Promise<LinkedInAuthorization | null> => {
+  const request = new AuthSession.AuthRequest({
+    clientId: config.clientId,
+    redirectUri: APP_REDIRECT_URI,
+    scopes: config.scopes,
+    responseType: AuthSession.ResponseType.Code,
+    usePKCE: true,
+    extraParams: config.extraParams,
+  });
+
+  const authUrl = await request.makeAuthUrlAsync(config.discovery);
+  const redirectUri = config.relayRedirectUri ?? APP_REDIRECT_URI;
+  if (!request.codeVerifier || !request.state) {
+    throw new AuthError('provider_error', 'Could not start the sign-in request');
+  }
+  await onStarted?.({ codeVerifier: request.codeVerifier, redirectUri, state: request.state });
+
+  const result = await request.promptAsync(config.discovery, {
+    url: config.relayRedirectUri
+      ? withRedirectUri(authUrl, APP_REDIRECT_URI, config.relayRedirectUri)
+      : authUrl,
+  });
+
+  if (result.type === 'cancel' || result.type === 'dismiss') return null;
+
+  if (result.type !== 'success' || !result.params.code) {
+    throw new AuthError('provider_error', 'The sign-in provider did not return an authorization code');
+  }
+
+  return {
+    code: result.params.code,
+    codeVerifier: request.codeVerifier,
+    redirectUri,
+    state: request.state,
+  };
+};
+
+// Authorizers
+export const authorizeWithProvider: SocialAuthorizer = async (provider) => {
+  const authorization = await authorize(PROVIDERS[provider]);
+  if (!authorization) return null;
+
+  const { code, codeVerifier, redirectUri } = authorization;
+  return { provider, code, codeVerifier, redirectUri };
+};
+
+export const authorizeWithLinkedIn: LinkedInAuthorizer = (onStarted) => authorize(LINKEDIN, onStarted);
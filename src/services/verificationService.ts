@@ -0,0 +1,319 @@
+// NYTHC Verification Service
+// Proves a user's NSU affiliation (student enrollment, alumni status) against the NYTHC backend.
+
+import { ApiClient, ApiError } from './apiClient';
+import { CodeDelivery, normalizeEmail } from './authService';
+import { AuthUser, LinkedInProfile, UserSession, Voucher } from '../types/navigation';
+import { FEATURE_REQUIREMENTS, Feature, canAccess } from '../utils/access';
+import { MatchReason } from '../utils/alumniMatching';
+import { AlumniDocumentType, VerificationDocument } from '../utils/manualVerification';
+
+// Types
+export type VerificationErrorCode =
+  | 'invalid_code'
+  | 'code_expired'
+  | 'rate_limited'
+  | 'domain_not_allowed'
+  | 'campus_email_in_use'
+  | 'invalid_graduation_year'
+  | 'linkedin_unavailable'
+  | 'invalid_attestation'
+  | 'invalid_document'
+  | 'submission_not_found'
+  | 'not_authorized'
+  | 'account_not_found'
+  | 'request_not_found'
+  | 'already_vouched'
+  | 'session_expired'
+  | 'network_error'
+  | 'unknown';
+
+export interface StudentVerificationRequest {
+  campusEmail: string;
+  expectedGraduationYear: number;
+}
+
+// The backend redeems the LinkedIn code itself, so the client secret never ships in the app
+export interface LinkedInCodeExchangeRequest {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+// The LinkedIn access token stays on the backend; the app only holds this handle to it
+export interface LinkedInConnection {
+  connectionId: string;
+}
+
+// The backend matches the profile it fetched for the connection, never one sent by the app
+export interface AlumniVerificationRequest {
+  connectionId: string;
+  nonce: string;
+}
+
+// `session` comes from the authenticated call and is what the app trusts; `attestation` carries the decision and
+// reasons to show, and is not verified on the device
+export interface AlumniVerificationResult {
+  attestation: string;
+  session: UserSession;
+}
+
+export interface ManualVerificationRequest {
+  documentType: AlumniDocumentType;
+  document: VerificationDocument;
+  degree: string;
+  graduationYear: number;
+}
+
+export type ManualReviewStatus = 'in_review' | 'needs_info' | 'approved' | 'rejected';
+
+export type ManualReviewAction = 'approve' | 'reject' | 'request_info';
+
+interface ReviewSubmissionBase {
+  id: string;
+  userId: string;
+  applicantName: string;
+  applicantEmail: string;
+  status: ManualReviewStatus;
+  submittedAt: number;
+  reviewedAt?: number;
+  reviewerNote?: string;
+}
+
+// Documents the applicant uploaded themselves
+export interface DocumentReviewSubmission extends ReviewSubmissionBase {
+  source: 'document';
+  documentType: AlumniDocumentType;
+  documentName: string;
+  documentUrl?: string;
+  degree: string;
+  graduationYear: number;
+}
+
+// A LinkedIn profile the matcher couldn't decide on, queued with the education it found and why it was unsure
+export interface LinkedInReviewSubmission extends ReviewSubmissionBase {
+  source: 'linkedin';
+  linkedInId: string;
+  schoolName: string;
+  degree?: string;
+  graduationYear?: number;
+  confidence: number;
+  reasons: MatchReason[];
+}
+
+export type ManualVerificationSubmission = DocumentReviewSubmission | LinkedInReviewSubmission;
+
+export interface ManualVerificationResult {
+  submission: DocumentReviewSubmission;
+  session: UserSession;
+}
+
+export interface RevocationRequest {
+  email: string;
+  reason: string;
+}
+
+export type VouchRequestStatus = 'open' | 'verified' | 'expired';
+
+// A pending alumnus asking verified classmates to confirm them
+export interface VouchRequest {
+  id: string;
+  applicantId: string;
+  applicantName: string;
+  classYear: number;
+  status: VouchRequestStatus;
+  requiredVouches: number;
+  vouches: Voucher[];
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface VerificationService {
+  startStudentVerification: (session: UserSession, request: StudentVerificationRequest) => Promise<CodeDelivery>;
+  confirmStudentVerification: (session: UserSession, code: string) => Promise<UserSession>;
+  // LinkedIn verification takes one call per step, so the app can show which one is running
+  exchangeLinkedInCode: (session: UserSession, request: LinkedInCodeExchangeRequest) => Promise<LinkedInConnection>;
+  fetchLinkedInProfile: (session: UserSession, connectionId: string) => Promise<LinkedInProfile>;
+  verifyAlumniWithLinkedIn: (session: UserSession, request: AlumniVerificationRequest) => Promise<AlumniVerificationResult>;
+  submitManualVerification: (session: UserSession, request: ManualVerificationRequest) => Promise<ManualVerificationResult>;
+  getManualVerification: (session: UserSession) => Promise<ManualVerificationSubmission | null>;
+  requestVouches: (session: UserSession, classYear: number) => Promise<VouchRequest>;
+  getVouchRequest: (session: UserSession) => Promise<VouchRequest | null>;
+
+  // Verified alumni only
+  listClassVouchRequests: (session: UserSession) => Promise<VouchRequest[]>;
+  vouchFor: (session: UserSession, requestId: string) => Promise<VouchRequest>;
+
+  // Reviewer-only
+  listReviewQueue: (session: UserSession) => Promise<ManualVerificationSubmission[]>;
+  reviewManualVerification: (
+    session: UserSession,
+    submissionId: string,
+    action: ManualReviewAction,
+    note?: string
+  ) => Promise<ManualVerificationSubmission>;
+  revokeVerification: (session: UserSession, request: RevocationRequest) => Promise<void>;
+}
+
+// Errors
+export class VerificationError extends Error {
+  readonly code: VerificationErrorCode;
+  readonly retryAfterSeconds?: number;
+
+  constructor(code: VerificationErrorCode, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'VerificationError';
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// Constants
+const KNOWN_ERROR_CODES: VerificationErrorCode[] = [
+  'invalid_code',
+  'code_expired',
+  'rate_limited',
+  'domain_not_allowed',
+  'campus_email_in_use',
+  'invalid_graduation_year',
+  'linkedin_unavailable',
+  'invalid_attestation',
+  'invalid_document',
+  'submission_not_found',
+  'not_authorized',
+  'account_not_found',
+  'request_not_found',
+  'already_vouched',
+  'session_expired',
+  'network_error',
+];
+
+// Helpers
+export const toVerificationError = (error: unknown): VerificationError => {
+  if (error instanceof VerificationError) return error;
+
+  if (error instanceof ApiError) {
+    const code = KNOWN_ERROR_CODES.find(known => known === error.code) ?? 'unknown';
+    return new VerificationError(code, error.message, error.retryAfterSeconds);
+  }
+
+  return new VerificationError('unknown', error instanceof Error ? error.message : 'Verification failed');
+};
+
+// Gated endpoints follow the same entitlements as the screens that call them
+export const assertFeatureAccess = (user: AuthUser, feature: Feature) => {
+  if (!canAccess(user, feature)) {
+    throw new VerificationError('not_authorized', FEATURE_REQUIREMENTS[feature].deniedMessage);
+  }
+};
+
+// HTTP Implementation
+export const createHttpVerificationService = (client: ApiClient): VerificationService => {
+  const call = async <T>(operation: () => Promise<T>): Promise<T> => {
+    try {
+      return await operation();
+    } catch (error) {
+      throw toVerificationError(error);
+    }
+  };
+
+  // Requests the signed-in user isn't entitled to fail here rather than after a round trip
+  const callGated = <T>(session: UserSession, feature: Feature, operation: () => Promise<T>): Promise<T> =>
+    call(() => {
+      assertFeatureAccess(session.user, feature);
+      return operation();
+    });
+
+  return {
+    startStudentVerification: (session, { campusEmail, expectedGraduationYear }) =>
+      call(() => client.post<CodeDelivery>('/verification/student', {
+        body: { campusEmail: normalizeEmail(campusEmail), expectedGraduationYear },
+        accessToken: session.tokens.accessToken,
+      })),
+
+    confirmStudentVerification: (session, code) =>
+      call(() => client.post<UserSession>('/verification/student/confirm', {
+        body: { code },
+        accessToken: session.tokens.accessToken,
+      })),
+
+    exchangeLinkedInCode: (session, request) =>
+      call(() => client.post<LinkedInConnection>('/verification/alumni/linkedin/connections', {
+        body: request,
+        accessToken: session.tokens.accessToken,
+      })),
+
+    fetchLinkedInProfile: (session, connectionId) =>
+      call(() => client.get<LinkedInProfile>(
+        `/verification/alumni/linkedin/connections/${encodeURIComponent(connectionId)}/profile`,
+        { accessToken: session.tokens.accessToken }
+      )),
+
+    verifyAlumniWithLinkedIn: (session, request) =>
+      call(() => client.post<AlumniVerificationResult>('/verification/alumni/linkedin', {
+        body: request,
+        accessToken: session.tokens.accessToken,
+      })),
+
+    submitManualVerification: (session, { documentType, document, degree, graduationYear }) => {
+      const form = new FormData();
+      form.append('documentType', documentType);
+      form.append('degree', degree.trim());
+      form.append('graduationYear', String(graduationYear));
+      // React Native's FormData takes file descriptors in place of Blobs
+      form.append('document', {
+        uri: document.uri,
+        name: document.name,
+        type: document.mimeType ?? 'application/octet-stream',
+      } as unknown as Blob);
+
+      return call(() => client.upload<ManualVerificationResult>('/verification/alumni/manual', {
+        form,
+        accessToken: session.tokens.accessToken,
+      }));
+    },
+
+    getManualVerification: (session) =>
+      call(() => client.get<ManualVerificationSubmission | null>('/verification/alumni/manual', {
+        accessToken: session.tokens.accessToken,
+      })),
+
+    requestVouches: (session, classYear) =>
+      call(() => client.post<VouchRequest>('/verification/vouches', {
+        body: { classYear },
+        accessToken: session.tokens.accessToken,
+      })),
+
+    getVouchRequest: (session) =>
+      call(() => client.get<VouchRequest | null>('/verification/vouches/mine', {
+        accessToken: session.tokens.accessToken,
+      })),
+
+    listClassVouchRequests: (session) =>
+      callGated(session, 'vouching', () => client.get<VouchRequest[]>('/verification/vouches/class', {
+        accessToken: session.tokens.accessToken,
+      })),
+
+    vouchFor: (session, requestId) =>
+      callGated(session, 'vouching', () => client.post<VouchRequest>(`/verification/vouches/${encodeURIComponent(requestId)}/vouch`, {
+        accessToken: session.tokens.accessToken,
+      })),
+
+    listReviewQueue: (session) =>
+      callGated(session, 'review_queue', () => client.get<ManualVerificationSubmission[]>('/verification/reviews', {
+        accessToken: session.tokens.accessToken,
+      })),
+
+    reviewManualVerification: (session, submissionId, action, note) =>
+      callGated(session, 'review_queue', () => client.post<ManualVerificationSubmission>(`/verification/reviews/${encodeURIComponent(submissionId)}`, {
+        body: { action, note: note?.trim() || undefined },
+        accessToken: session.tokens.accessToken,
+      })),
+
+    revokeVerification: (session, { email, reason }) =>
+      callGated(session, 'review_queue', () => client.post<void>('/verification/revocations', {
+        body: { email: normalizeEmail(email), reason: reason.trim() },
+        accessToken: session.tokens.accessToken,
+      })),
+  };
+};
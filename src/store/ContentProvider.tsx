@@ -0,0 +1,81 @@
+// NYTHC Content Provider
+// Supplies the onboarding content: the bundled or cached copy straight away, replaced by a newer published revision
+// if one arrives while the splash screen is showing. Later arrivals are only cached, so the intro never changes mid-read.
+
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { ContentService } from '../services/contentService';
+import { contentService as defaultContentService } from '../services';
+import { loadCachedOnboardingContent, saveCachedOnboardingContent } from '../services/contentStorage';
+import { BUNDLED_ONBOARDING_CONTENT, OnboardingContent } from '../utils/onboardingContent';
+
+// Types
+interface ContentContextValue {
+  content: OnboardingContent;
+  isLoaded: boolean;
+}
+
+interface ContentProviderProps {
+  children: React.ReactNode;
+  contentService?: ContentService;
+}
+
+// Constants
+// How long the splash screen waits for the backend before showing the copy it already has
+const FETCH_DEADLINE_MS = 3000;
+
+const ContentContext = createContext<ContentContextValue | null>(null);
+
+export const ContentProvider: React.FC<ContentProviderProps> = ({
+  children,
+  contentService = defaultContentService,
+}) => {
+  const [content, setContent] = useState<OnboardingContent>(BUNDLED_ONBOARDING_CONTENT);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let isSplashing = true;
+    const finishSplash = () => {
+      isSplashing = false;
+      setIsLoaded(true);
+    };
+    const deadline = setTimeout(finishSplash, FETCH_DEADLINE_MS);
+
+    const load = async () => {
+      const cached = await loadCachedOnboardingContent().catch((error) => {
+        console.error('Failed to load cached onboarding content:', error);
+        return null;
+      });
+      if (cached && isSplashing) setContent(cached);
+
+      // Offline launches and unusable documents keep the copy already showing
+      const published = await contentService.fetchOnboardingContent().catch((error) => {
+        console.error('Failed to fetch onboarding content:', error);
+        return null;
+      });
+      if (!published || (cached && published.revision <= cached.revision)) return;
+
+      if (isSplashing) setContent(published);
+      await saveCachedOnboardingContent(published).catch((error) => {
+        console.error('Failed to cache onboarding content:', error);
+      });
+    };
+
+    load().finally(() => {
+      clearTimeout(deadline);
+      if (isSplashing) finishSplash();
+    });
+
+    return () => clearTimeout(deadline);
+  }, [contentService]);
+
+  const value = useMemo<ContentContextValue>(() => ({ content, isLoaded }), [content, isLoaded]);
+
+  return <ContentContext.Provider value={value}>{children}</ContentContext.Provider>;
+};
+
+// Hooks
+export const useOnboardingContent = () => {
+  const value = useContext(ContentContext);
+  if (!value) throw new Error('useOnboardingContent must be used inside a ContentProvider');
+  return value;
+};
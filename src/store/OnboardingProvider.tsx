@@ -0,0 +1,74 @@
+// NYTHC Onboarding Provider
+// Loads this device's onboarding progress at launch and saves each step as the user completes it.
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { UserRole } from '../types/navigation';
+import {
+  INITIAL_ONBOARDING_PROGRESS,
+  OnboardingProgress,
+  loadOnboardingProgress,
+  saveOnboardingProgress,
+} from '../services/onboardingStorage';
+import { INTRO_VERSION } from '../navigation/onboarding';
+
+// Types
+interface OnboardingContextValue {
+  progress: OnboardingProgress;
+  isLoaded: boolean;
+  completeIntro: () => void;
+  chooseRole: (role: UserRole) => void;
+  completePermissions: () => void;
+}
+
+interface OnboardingProviderProps {
+  children: React.ReactNode;
+}
+
+const OnboardingContext = createContext<OnboardingContextValue | null>(null);
+
+export const OnboardingProvider: React.FC<OnboardingProviderProps> = ({ children }) => {
+  const [progress, setProgress] = useState<OnboardingProgress>(INITIAL_ONBOARDING_PROGRESS);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Set by each step the user completes, so the progress read at launch isn't written straight back
+  const hasUnsavedChanges = useRef(false);
+
+  // Loaded while the splash screen is showing; a failed read just starts onboarding from the beginning
+  useEffect(() => {
+    loadOnboardingProgress()
+      .then(setProgress)
+      .catch((error) => {
+        console.error('Failed to load onboarding progress:', error);
+      })
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!hasUnsavedChanges.current) return;
+    hasUnsavedChanges.current = false;
+    saveOnboardingProgress(progress).catch((error) => {
+      console.error('Failed to save onboarding progress:', error);
+    });
+  }, [progress]);
+
+  const update = useCallback((changes: Partial<OnboardingProgress>) => {
+    hasUnsavedChanges.current = true;
+    setProgress((previous) => ({ ...previous, ...changes }));
+  }, []);
+
+  const value = useMemo<OnboardingContextValue>(() => ({
+    progress,
+    isLoaded,
+    completeIntro: () => update({ introVersion: INTRO_VERSION }),
+    chooseRole: (role) => update({ role }),
+    completePermissions: () => update({ permissionsCompletedAt: Date.now() }),
+  }), [progress, isLoaded, update]);
+
+  return <OnboardingContext.Provider value={value}>{children}</OnboardingContext.Provider>;
+};
+
+// Hooks
+export const useOnboarding = () => {
+  const value = useContext(OnboardingContext);
+  if (!value) throw new Error('useOnboarding must be used inside an OnboardingProvider');
+  return value;
+};
@@ -0,0 +1,142 @@
+// NYTHC Session Provider
+// Owns the session store: restores it at launch, persists every change and keeps verification status fresh.
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useReducer } from 'react';
+import { AppState } from 'react-native';
+import { User, UserSession } from '../types/navigation';
+import { AuthService } from '../services/authService';
+import { authService as defaultAuthService } from '../services';
+import {
+  StoredSession,
+  clearSession,
+  loadLinkedInAttempt,
+  restoreSession,
+  saveSession,
+} from '../services/sessionStorage';
+import { Feature } from '../utils/access';
+import {
+  SessionState,
+  initialSessionState,
+  selectCanAccess,
+  selectIsVerifiedAlumni,
+  selectStoredSession,
+  selectUser,
+  sessionReducer,
+} from './session';
+
+// Types
+interface SessionContextValue {
+  state: SessionState;
+  user: User | null;
+  isVerifiedAlumni: boolean;
+  canAccess: (feature: Feature) => boolean;
+  signIn: (session: UserSession, pendingVerification?: StoredSession['pendingVerification']) => void;
+  updateSession: (update: StoredSession) => void;
+  signOut: () => void;
+}
+
+interface SessionProviderProps {
+  children: React.ReactNode;
+  authService?: AuthService;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+export const SessionProvider: React.FC<SessionProviderProps> = ({
+  children,
+  authService = defaultAuthService,
+}) => {
+  const [state, dispatch] = useReducer(sessionReducer, initialSessionState);
+  const { session } = state;
+  const userRole = session?.user.role;
+
+  // Restore a saved session while the splash screen is showing
+  useEffect(() => {
+    restoreSession(authService)
+      .then(async (stored) => {
+        if (!stored) return null;
+
+        // An unfinished LinkedIn attempt means the app was closed mid-verification, so reopen it there
+        const linkedInAttempt = await loadLinkedInAttempt(stored.session.user.id).catch(() => null);
+        return linkedInAttempt ? { ...stored, pendingVerification: 'linkedin' as const } : stored;
+      })
+      .catch((error) => {
+        console.error('Failed to restore session:', error);
+        return null;
+      })
+      .then((stored) => dispatch({ type: 'RESTORED', stored }));
+  }, [authService]);
+
+  // Every change while signed in is written through; signing out clears storage instead
+  useEffect(() => {
+    const stored = selectStoredSession(state);
+    if (!stored) return;
+
+    saveSession(stored).catch((error) => {
+      console.error('Failed to save session:', error);
+    });
+  }, [state]);
+
+  // Reviewer decisions and revocations happen on the backend, so pick them up whenever the app comes back to the foreground
+  useEffect(() => {
+    if (!session || userRole === 'guest') return;
+
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState !== 'active') return;
+
+      authService.refreshSession(session)
+        .then((refreshedSession) => dispatch({ type: 'REFRESHED', session: refreshedSession }))
+        .catch((error) => {
+          console.error('Failed to refresh verification status:', error);
+        });
+    });
+    return () => subscription.remove();
+  }, [authService, session, userRole]);
+
+  const signIn = useCallback((newSession: UserSession, pendingVerification?: StoredSession['pendingVerification']) => {
+    dispatch({ type: 'SIGNED_IN', session: newSession, pendingVerification });
+  }, []);
+
+  const updateSession = useCallback((update: StoredSession) => {
+    dispatch({ type: 'UPDATED', ...update });
+  }, []);
+
+  const signOut = useCallback(() => {
+    dispatch({ type: 'SIGNED_OUT' });
+
+    clearSession().catch((error) => {
+      console.error('Failed to clear session:', error);
+    });
+    if (session) {
+      authService.signOut(session).catch((error) => {
+        console.error('Sign out request failed:', error);
+      });
+    }
+  }, [authService, session]);
+
+  const value = useMemo<SessionContextValue>(() => ({
+    state,
+    user: selectUser(state),
+    isVerifiedAlumni: selectIsVerifiedAlumni(state),
+    canAccess: (feature) => selectCanAccess(state, feature),
+    signIn,
+    updateSession,
+    signOut,
+  }), [state, signIn, updateSession, signOut]);
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+};
+
+// Hooks
+export const useSession = () => {
+  const value = useContext(SessionContext);
+  if (!value) throw new Error('useSession must be used inside a SessionProvider');
+  return value;
+};
+
+// For screens in the signed-in stack, which never render without a user
+export const useCurrentUser = (): User => {
+  const { user } = useSession();
+  if (!user) throw new Error('useCurrentUser must be used while signed in');
+  return user;
+};
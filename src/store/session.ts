@@ -0,0 +1,84 @@
+// NYTHC Session Store
+// The signed-in session, the LinkedIn profile found during verification and where onboarding left off,
+// plus the selectors screens use to read them.
+
+import { LinkedInProfile, User, UserSession } from '../types/navigation';
+import { StoredSession } from '../services/sessionStorage';
+import { Feature, canAccess, isVerifiedAlumni } from '../utils/access';
+
+// Types
+export interface SessionState {
+  status: 'restoring' | 'signed_out' | 'signed_in';
+  session: UserSession | null;
+  linkedInProfile?: LinkedInProfile;
+  pendingVerification?: StoredSession['pendingVerification'];
+}
+
+export type SessionAction =
+  | { type: 'RESTORED'; stored: StoredSession | null }
+  | { type: 'SIGNED_IN'; session: UserSession; pendingVerification?: StoredSession['pendingVerification'] }
+  // A new session from a verification or profile step; pendingVerification is replaced, not merged
+  | {
+      type: 'UPDATED';
+      session: UserSession;
+      linkedInProfile?: LinkedInProfile;
+      pendingVerification?: StoredSession['pendingVerification'];
+    }
+  // Fresh tokens or verification status from the backend, with nothing else changing
+  | { type: 'REFRESHED'; session: UserSession }
+  | { type: 'SIGNED_OUT' };
+
+// Constants
+export const initialSessionState: SessionState = { status: 'restoring', session: null };
+
+// Reducer
+export const sessionReducer = (state: SessionState, action: SessionAction): SessionState => {
+  switch (action.type) {
+    case 'RESTORED':
+      return action.stored
+        ? {
+            status: 'signed_in',
+            session: action.stored.session,
+            linkedInProfile: action.stored.linkedInProfile,
+            pendingVerification: action.stored.pendingVerification,
+          }
+        : { status: 'signed_out', session: null };
+
+    case 'SIGNED_IN':
+      return { status: 'signed_in', session: action.session, pendingVerification: action.pendingVerification };
+
+    case 'UPDATED':
+      if (!state.session) return state;
+      return {
+        ...state,
+        session: action.session,
+        linkedInProfile: action.linkedInProfile ?? state.linkedInProfile,
+        pendingVerification: action.pendingVerification,
+      };
+
+    case 'REFRESHED':
+      return state.session ? { ...state, session: action.session } : state;
+
+    case 'SIGNED_OUT':
+      return { status: 'signed_out', session: null };
+  }
+};
+
+// Selectors
+export const selectUser = (state: SessionState): User | null =>
+  state.session ? { ...state.session.user, linkedInProfile: state.linkedInProfile } : null;
+
+export const selectStoredSession = (state: SessionState): StoredSession | null =>
+  state.session
+    ? {
+        session: state.session,
+        linkedInProfile: state.linkedInProfile,
+        pendingVerification: state.pendingVerification,
+      }
+    : null;
+
+export const selectIsVerifiedAlumni = (state: SessionState) =>
+  state.session ? isVerifiedAlumni(state.session.user) : false;
+
+export const selectCanAccess = (state: SessionState, feature: Feature) =>
+  state.session ? canAccess(state.session.user, feature) : false;
@@ -0,0 +1,77 @@
+// NYTHC Theme Provider
+// Picks the palette from the user's choice in Settings, or the system appearance, sizes text for the device's
+// accessibility setting, and hands both to every screen.
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useColorScheme, useWindowDimensions } from 'react-native';
+import { DEFAULT_PREFERENCES, loadPreferences, savePreferences } from '../services/preferencesStorage';
+import { Theme, ThemePreference, buildTheme, resolveThemeName } from './themes';
+
+// Types
+interface ThemeContextValue {
+  theme: Theme;
+  preference: ThemePreference;
+  isLoaded: boolean;
+  setPreference: (preference: ThemePreference) => void;
+}
+
+interface ThemeProviderProps {
+  children: React.ReactNode;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
+  const systemScheme = useColorScheme();
+  const { fontScale } = useWindowDimensions();
+  const [preference, setPreferenceState] = useState<ThemePreference>(DEFAULT_PREFERENCES.theme);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Loaded while the splash screen is showing
+  useEffect(() => {
+    loadPreferences()
+      .then(({ theme }) => setPreferenceState(theme))
+      .catch((error) => {
+        console.error('Failed to load theme preference:', error);
+      })
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    setPreferenceState(next);
+    loadPreferences()
+      .then((preferences) => savePreferences({ ...preferences, theme: next }))
+      .catch((error) => {
+        console.error('Failed to save theme preference:', error);
+      });
+  }, []);
+
+  const themeName = resolveThemeName(preference, systemScheme);
+  const theme = useMemo(() => buildTheme(themeName, fontScale), [themeName, fontScale]);
+
+  const value = useMemo<ThemeContextValue>(() => ({
+    theme,
+    preference,
+    isLoaded,
+    setPreference,
+  }), [theme, preference, isLoaded, setPreference]);
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+// Hooks
+export const useThemeSettings = () => {
+  const value = useContext(ThemeContext);
+  if (!value) throw new Error('useThemeSettings must be used inside a ThemeProvider');
+  return value;
+};
+
+export const useTheme = (): Theme => useThemeSettings().theme;
+
+export const useTypography = () => useTheme().typography;
+
+// Screens build their StyleSheet from the theme once per palette rather than once per render
+export const useThemedStyles = <T,>(createStyles: (theme: Theme) => T): T => {
+  const theme = useTheme();
+  return useMemo(() => createStyles(theme), [createStyles, theme]);
+};
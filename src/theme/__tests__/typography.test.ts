@@ -0,0 +1,31 @@
+import { TYPOGRAPHY } from '../../utils/constants';
+import { scaleTypography } from '../typography';
+
+describe('scaleTypography', () => {
+  it('keeps the TYPOGRAPHY sizes at the default text size', () => {
+    expect(scaleTypography(1)).toEqual(TYPOGRAPHY);
+  });
+
+  it('scales sizes and line heights with the text size', () => {
+    expect(scaleTypography(1.2).body).toEqual({ fontSize: 19, lineHeight: 26, fontWeight: '400' });
+  });
+
+  it('lets body text reach 200% and no further', () => {
+    expect(scaleTypography(2).body.fontSize).toBe(32);
+    expect(scaleTypography(3.1).body).toEqual(scaleTypography(2).body);
+    expect(scaleTypography(3.1).caption.fontSize).toBe(26);
+  });
+
+  it('stops headings growing sooner', () => {
+    const typography = scaleTypography(3.1);
+
+    expect(typography.h1.fontSize).toBe(42);
+    expect(typography.h2.fontSize).toBe(35);
+    expect(typography.h3.fontSize).toBe(32);
+  });
+
+  it('does not shrink text below 85%', () => {
+    expect(scaleTypography(0.5)).toEqual(scaleTypography(0.85));
+    expect(scaleTypography(0.5).body.fontSize).toBe(14);
+  });
+});
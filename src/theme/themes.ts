@@ -0,0 +1,147 @@
+// NYTHC Themes
+// The dark, light and high-contrast palettes, all derived from the brand colors in utils/constants.
+
+import { t } from '../i18n';
+import { BORDER_RADIUS, COLORS, SPACING } from '../utils/constants';
+import { LARGE_TEXT_SCALE, Typography, scaleTypography } from './typography';
+
+// Types
+export type ThemeName = 'dark' | 'light' | 'high_contrast';
+
+// 'system' follows the device's light/dark setting; high contrast is only ever chosen by the user
+export type ThemePreference = 'system' | ThemeName;
+
+export interface ThemeColors {
+  primary: string;
+  secondary: string;
+  // Text and icons drawn on a primary or secondary fill, e.g. button labels
+  onPrimary: string;
+  background: string;
+  surface: string;
+  surfaceElevated: string;
+  overlay: string;
+  textPrimary: string;
+  textSecondary: string;
+  textTertiary: string;
+  success: string;
+  warning: string;
+  error: string;
+  info: string;
+  alumniBadge: string;
+  studentBadge: string;
+  guestBadge: string;
+  liveIndicator: string;
+}
+
+export interface Theme {
+  name: ThemeName;
+  isDark: boolean;
+  colors: ThemeColors;
+  // The device's accessibility text size, 1 being the default
+  fontScale: number;
+  isLargeText: boolean;
+  typography: Typography;
+  spacing: typeof SPACING;
+  radius: typeof BORDER_RADIUS;
+}
+
+// Constants
+// The original dark-mode-first palette
+const DARK_COLORS: ThemeColors = {
+  primary: COLORS.primaryGold,
+  secondary: COLORS.secondaryTeal,
+  onPrimary: COLORS.backgroundDark,
+  background: COLORS.backgroundDark,
+  surface: COLORS.surfaceDark,
+  surfaceElevated: COLORS.surfaceElevated,
+  overlay: 'rgba(0, 0, 0, 0.4)',
+  textPrimary: COLORS.textPrimary,
+  textSecondary: COLORS.textSecondary,
+  textTertiary: COLORS.textTertiary,
+  success: COLORS.success,
+  warning: COLORS.warning,
+  error: COLORS.error,
+  info: COLORS.info,
+  alumniBadge: COLORS.alumniBadge,
+  studentBadge: COLORS.studentBadge,
+  guestBadge: COLORS.guestBadge,
+  liveIndicator: COLORS.liveIndicator,
+};
+
+// Brand gold and teal are too light to read on white, so light mode uses deeper shades of both
+const LIGHT_COLORS: ThemeColors = {
+  primary: '#8A7A12',
+  secondary: '#3D7A67',
+  onPrimary: '#FFFFFF',
+  background: '#FFFFFF',
+  surface: '#F4F4F5',
+  surfaceElevated: '#E8E8EA',
+  overlay: 'rgba(0, 0, 0, 0.2)',
+  textPrimary: COLORS.backgroundDark,
+  textSecondary: '#4A4A4C',
+  textTertiary: '#6B6B6E',
+  success: '#2E7D32',
+  warning: '#B25E00',
+  error: '#C62828',
+  info: '#1565C0',
+  alumniBadge: '#8A7A12',
+  studentBadge: '#3D7A67',
+  guestBadge: '#5F5F62',
+  liveIndicator: '#D32F2F',
+};
+
+// Pure black surfaces with brighter accents and text, for at least 7:1 contrast on body text
+const HIGH_CONTRAST_COLORS: ThemeColors = {
+  primary: '#FFE34D',
+  secondary: '#7FD8BE',
+  onPrimary: '#000000',
+  background: '#000000',
+  surface: '#000000',
+  surfaceElevated: '#1C1C1C',
+  overlay: 'rgba(0, 0, 0, 0.6)',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#E6E6E6',
+  textTertiary: '#CCCCCC',
+  success: '#69F0AE',
+  warning: '#FFC247',
+  error: '#FF7A7A',
+  info: '#82C4FF',
+  alumniBadge: '#FFE34D',
+  studentBadge: '#7FD8BE',
+  guestBadge: '#CCCCCC',
+  liveIndicator: '#FF7A7A',
+};
+
+const THEME_COLORS: Record<ThemeName, ThemeColors> = {
+  dark: DARK_COLORS,
+  light: LIGHT_COLORS,
+  high_contrast: HIGH_CONTRAST_COLORS,
+};
+
+export const THEME_PREFERENCE_LABELS: Record<ThemePreference, string> = {
+  system: t('settings.themes.system'),
+  dark: t('settings.themes.dark'),
+  light: t('settings.themes.light'),
+  high_contrast: t('settings.themes.high_contrast'),
+};
+
+// Helpers
+export const buildTheme = (name: ThemeName, fontScale = 1): Theme => ({
+  name,
+  isDark: name !== 'light',
+  colors: THEME_COLORS[name],
+  fontScale,
+  isLargeText: fontScale >= LARGE_TEXT_SCALE,
+  typography: scaleTypography(fontScale),
+  spacing: SPACING,
+  radius: BORDER_RADIUS,
+});
+
+// Dark stays the default whenever the system doesn't say otherwise
+export const resolveThemeName = (
+  preference: ThemePreference,
+  systemScheme: 'light' | 'dark' | null | undefined
+): ThemeName => {
+  if (preference !== 'system') return preference;
+  return systemScheme === 'light' ? 'light' : 'dark';
+};
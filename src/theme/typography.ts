@@ -0,0 +1,49 @@
+// NYTHC Typography
+// The TYPOGRAPHY scale sized for the device's accessibility text size, with caps so large text still fits.
+
+import { TextStyle } from 'react-native';
+import { TYPOGRAPHY } from '../utils/constants';
+
+// Types
+export type TypographyVariant = keyof typeof TYPOGRAPHY;
+
+export interface TypographyStyle {
+  fontSize: number;
+  lineHeight: number;
+  fontWeight: TextStyle['fontWeight'];
+}
+
+export type Typography = Record<TypographyVariant, TypographyStyle>;
+
+// Constants
+// Body text can reach 200%; headings start large, so they stop growing sooner
+const MAX_FONT_SCALE: Record<TypographyVariant, number> = {
+  h1: 1.5,
+  h2: 1.6,
+  h3: 1.8,
+  body: 2,
+  bodyMedium: 2,
+  caption: 2,
+  meta: 2,
+};
+
+const MIN_FONT_SCALE = 0.85;
+
+// From here on, side-by-side layouts stack so their text isn't squeezed into narrow columns
+export const LARGE_TEXT_SCALE = 1.3;
+
+// Helpers
+export const scaleTypography = (fontScale: number): Typography => {
+  const entries = (Object.keys(TYPOGRAPHY) as TypographyVariant[]).map((variant) => {
+    const { fontSize, lineHeight, fontWeight } = TYPOGRAPHY[variant];
+    const scale = Math.min(Math.max(fontScale, MIN_FONT_SCALE), MAX_FONT_SCALE[variant]);
+
+    return [variant, {
+      fontSize: Math.round(fontSize * scale),
+      lineHeight: Math.round(lineHeight * scale),
+      fontWeight,
+    }];
+  });
+
+  return Object.fromEntries(entries) as Typography;
+};
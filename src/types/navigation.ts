@@ -1,43 +1,105 @@
 // Navigation type definitions for NYTHC Mobile App
 
+import { StackScreenProps } from '@react-navigation/stack';
+
 export type RootStackParamList = {
-  // Foundation Screens
-  Splash: undefined;
-  Welcome: undefined;
+  // Foundation Screens (signed out)
+  // Only slides added after sinceVersion are shown; 0 replays the whole intro
+  Welcome: { sinceVersion?: number } | undefined;
   RoleSelection: undefined;
-  Authentication: undefined;
-  LinkedInVerification: { userRole: 'alumni' | 'student' | 'guest' };
+  Authentication: { userRole: UserRole };
+  PasswordReset: { email?: string; token?: string } | undefined;
+
+  // Verification Screens (signed in); onboarding runs them straight after sign-up
+  EmailVerification: { onboarding: boolean };
+  StudentVerification: undefined;
+  LinkedInVerification: undefined;
+  ManualVerification: undefined;
+  VouchRequest: undefined;
+  ProfileReview: undefined;
+  UpgradeRole: undefined;
   Permissions: undefined;
 
-  // Main App Screens (to be added as we develop)
+  // Main App Screens
   Home: undefined;
-  EventDetail: { eventId: string };
-  TicketSelection: { eventId: string };
-  Checkout: { eventId: string; ticketType: string };
+  EventDetail: { eventId: string; audience?: EventAudience };
+  TicketSelection: { eventId: string; audience?: EventAudience };
+  Checkout: { eventId: string; ticketType: string; audience?: EventAudience };
   Community: undefined;
   ChatRoom: { roomId: string };
   FriendFinder: undefined;
   Profile: undefined;
   Settings: undefined;
-
-  // Add more as screens are developed
+  VouchForClassmates: undefined;
+  ReviewQueue: undefined;
 };
 
+export type RootStackScreenProps<T extends keyof RootStackParamList> = StackScreenProps<RootStackParamList, T>;
+
 export type UserRole = 'alumni' | 'student' | 'guest';
 
-export interface User {
-  id: string;
-  email: string;
-  role: UserRole;
-  profile: {
-    firstName: string;
-    lastName: string;
-    graduationYear?: number;
-    major?: string;
-    avatar?: string;
-  };
-  verificationStatus: 'pending' | 'verified' | 'failed';
-  linkedInConnected: boolean;
+// Who an event is for; public events are open to every account
+export type EventAudience = 'public' | 'alumni' | 'student';
+
+export type VerificationStatus =
+  | 'pending'
+  | 'in_review'
+  | 'needs_info'
+  | 'verified'
+  | 'failed'
+  | 'expired'
+  | 'revoked';
+
+export type VerificationMethod = 'linkedin' | 'email_domain' | 'manual_review' | 'vouching';
+
+// Steps the backend records on its own; the app words them in the user's language
+export type VerificationEventDetail =
+  | { kind: 'vouches_requested'; classYear: number }
+  | { kind: 'vouch_received'; voucherName: string };
+
+export interface VerificationEvent {
+  status: VerificationStatus;
+  method?: VerificationMethod;
+  at: number;
+  detail?: VerificationEventDetail;
+  // Written by a reviewer, so shown as it is
+  note?: string;
+}
+
+// A verified alumnus who vouched for someone from their class
+export interface Voucher {
+  userId: string;
+  name: string;
+  classYear: number;
+  vouchedAt: number;
+}
+
+// The current state of a user's verification plus every change that led to it
+export interface VerificationRecord {
+  status: VerificationStatus;
+  method?: VerificationMethod;
+  verifiedAt?: number;
+  expiresAt?: number;
+  revokedAt?: number;
+  revocationReason?: string;
+  vouchers?: Voucher[];
+  history: VerificationEvent[];
+}
+
+// A completed Norfolk State degree; alumni with more than one list each of them
+export interface AlumniDegree {
+  degree?: string;
+  fieldOfStudy?: string;
+  graduationYear: number;
+}
+
+export interface UserProfile {
+  firstName: string;
+  lastName: string;
+  graduationYear?: number;
+  major?: string;
+  avatar?: string;
+  degrees?: AlumniDegree[];
 }
 
 export interface AuthUser {
@@ -47,6 +109,29 @@ export interface AuthUser {
   firstName?: string;
   lastName?: string;
   needsVerification: boolean;
+  emailVerified: boolean;
+  verificationStatus?: VerificationStatus;
+  verification?: VerificationRecord;
+  expectedGraduationYear?: number;
+  isReviewer?: boolean;
+  profile?: UserProfile;
+}
+
+// The signed-in member as the app sees them: the account from the backend plus the LinkedIn profile
+// read during verification. Built by the session store, never sent to the backend.
+export interface User extends AuthUser {
+  linkedInProfile?: LinkedInProfile;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+export interface UserSession {
+  user: AuthUser;
+  tokens: AuthTokens;
 }
 
 export interface LinkedInProfile {
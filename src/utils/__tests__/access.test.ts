@@ -0,0 +1,70 @@
+import { AuthUser } from '../../types/navigation';
+import { getAccessDenial, getRouteFeature } from '../access';
+
+// Fixtures
+const createUser = (overrides: Partial<AuthUser>): AuthUser => ({
+  id: 'user_1',
+  email: 'spartan@example.com',
+  role: 'guest',
+  needsVerification: false,
+  emailVerified: true,
+  ...overrides,
+});
+
+const guest = createUser({ role: 'guest' });
+const verifiedAlumni = createUser({ role: 'alumni', verificationStatus: 'verified' });
+const unverifiedAlumni = createUser({ role: 'alumni', needsVerification: true, verificationStatus: 'pending' });
+const verifiedStudent = createUser({ role: 'student', verificationStatus: 'verified' });
+
+describe('getRouteFeature', () => {
+  it.each([
+    ['ChatRoom', { roomId: 'class-2015' }, 'alumni_chat'],
+    ['EventDetail', { eventId: '1' }, undefined],
+    ['EventDetail', { eventId: '1', audience: 'public' }, undefined],
+    ['EventDetail', { eventId: '1', audience: 'alumni' }, 'alumni_events'],
+    ['TicketSelection', { eventId: '1', audience: 'student' }, 'student_events'],
+    ['Checkout', { eventId: '1', ticketType: 'general' }, undefined],
+    ['Checkout', { eventId: '1', ticketType: 'general', audience: 'alumni' }, 'alumni_events'],
+    ['Checkout', { eventId: '1', ticketType: 'priority' }, 'priority_ticketing'],
+    ['Checkout', { eventId: '1', ticketType: 'student' }, 'student_pricing'],
+    ['VouchForClassmates', undefined, 'vouching'],
+    ['ReviewQueue', undefined, 'review_queue'],
+    ['Community', undefined, undefined],
+  ] as const)('%s %j needs %s', (name, params, expected) => {
+    expect(getRouteFeature(name, params as never)).toBe(expected);
+  });
+});
+
+describe('getAccessDenial', () => {
+  it('asks guests to upgrade for verified chat rooms', () => {
+    expect(getAccessDenial(guest, 'alumni_chat')).toEqual({ reason: 'upgrade', roles: ['alumni'] });
+  });
+
+  it('asks unverified alumni to verify for alumni events', () => {
+    expect(getAccessDenial(unverifiedAlumni, 'alumni_events')).toEqual({ reason: 'verify' });
+  });
+
+  it('asks alumni who have not confirmed their email to do that first', () => {
+    expect(getAccessDenial({ ...verifiedAlumni, emailVerified: false }, 'priority_ticketing'))
+      .toEqual({ reason: 'verify_email' });
+  });
+
+  it('lets verified alumni into alumni features but not student pricing', () => {
+    expect(getAccessDenial(verifiedAlumni, 'priority_ticketing')).toBeNull();
+    expect(getAccessDenial(verifiedAlumni, 'student_pricing')).toEqual({ reason: 'upgrade', roles: ['student'] });
+  });
+
+  it('lets verified students use student pricing and events', () => {
+    expect(getAccessDenial(verifiedStudent, 'student_pricing')).toBeNull();
+    expect(getAccessDenial(verifiedStudent, 'student_events')).toBeNull();
+  });
+
+  it('treats an expired verification as unverified', () => {
+    const expired = createUser({
+      role: 'student',
+      verificationStatus: 'verified',
+      verification: { status: 'verified', expiresAt: Date.now() - 1000, history: [] },
+    });
+    expect(getAccessDenial(expired, 'student_pricing')).toEqual({ reason: 'verify' });
+  });
+});
@@ -0,0 +1,185 @@
+import { LinkedInEducation, LinkedInProfile } from '../../types/navigation';
+import {
+  REVIEW_THRESHOLD,
+  VERIFIED_THRESHOLD,
+  classifySchool,
+  formatMatchReason,
+  hasGraduated,
+  matchNorfolkStateAlumni,
+  scoreEducation,
+} from '../alumniMatching';
+
+// Fixtures
+const NOW = new Date(2026, 5, 15);
+
+const createProfile = (education: LinkedInEducation[]): LinkedInProfile => ({
+  id: 'li_1',
+  firstName: 'Jordan',
+  lastName: 'Smith',
+  email: 'jordan@example.com',
+  education,
+});
+
+const completedDegree: LinkedInEducation = {
+  schoolName: 'Norfolk State University',
+  degree: 'Bachelor of Science',
+  fieldOfStudy: 'Biology',
+  endDate: { year: 2015 },
+};
+
+describe('classifySchool', () => {
+  it.each([
+    'Norfolk State University',
+    'norfolk state',
+    'The Norfolk State University',
+    'Norfolk State Univ.',
+    'Norfolk State College',
+    'Norfolk Polytechnic College',
+  ])('treats "%s" as an official name', (name) => {
+    expect(classifySchool(name)).toBe('official');
+  });
+
+  it.each(['NSU', 'N.S.U.', 'Norfolk St', 'Norfolk St. University'])(
+    'treats "%s" as an abbreviation other schools share',
+    (name) => {
+      expect(classifySchool(name)).toBe('abbreviation');
+    }
+  );
+
+  it.each([
+    'Norfolk Southern',
+    'Norfolk Southern Corporation',
+    'Nova Southeastern University',
+    'Northeastern State University',
+    'Old Dominion University',
+    'Virginia State University',
+    'Norfolk Academy',
+  ])('never matches the lookalike "%s"', (name) => {
+    expect(classifySchool(name)).toBe('lookalike');
+  });
+
+  it('counts other names with Norfolk and a school word as partial', () => {
+    expect(classifySchool('Norfolk University')).toBe('partial');
+  });
+
+  it.each(['', '   ', undefined, 'Hampton University'])('finds no match in %p', (name) => {
+    expect(classifySchool(name)).toBe('none');
+  });
+});
+
+describe('hasGraduated', () => {
+  it('counts past years and not future ones', () => {
+    expect(hasGraduated({ schoolName: 'NSU', endDate: { year: 2025 } }, NOW)).toBe(true);
+    expect(hasGraduated({ schoolName: 'NSU', endDate: { year: 2027 } }, NOW)).toBe(false);
+  });
+
+  it('counts the current year once the end month has passed, or when no month is given', () => {
+    expect(hasGraduated({ schoolName: 'NSU', endDate: { year: 2026, month: 5 } }, NOW)).toBe(true);
+    expect(hasGraduated({ schoolName: 'NSU', endDate: { year: 2026, month: 6 } }, NOW)).toBe(true);
+    expect(hasGraduated({ schoolName: 'NSU', endDate: { year: 2026, month: 12 } }, NOW)).toBe(false);
+    expect(hasGraduated({ schoolName: 'NSU', endDate: { year: 2026 } }, NOW)).toBe(true);
+  });
+
+  it('needs an end date', () => {
+    expect(hasGraduated({ schoolName: 'NSU' }, NOW)).toBe(false);
+  });
+});
+
+describe('scoreEducation', () => {
+  it('gives full confidence to a completed degree under an official name', () => {
+    expect(scoreEducation(completedDegree, NOW)).toEqual({
+      education: completedDegree,
+      school: 'official',
+      hasGraduated: true,
+      confidence: 1,
+      reasons: [
+        { code: 'official_name', schoolName: 'Norfolk State University' },
+        { code: 'completed', year: 2015 },
+        { code: 'degree_listed', degree: 'Bachelor of Science' },
+        { code: 'field_listed', fieldOfStudy: 'Biology' },
+      ],
+    });
+  });
+
+  it('gives a lookalike no confidence', () => {
+    const evidence = scoreEducation({ ...completedDegree, schoolName: 'Nova Southeastern University' }, NOW);
+
+    expect(evidence.confidence).toBe(0);
+    expect(evidence.reasons).toEqual([{ code: 'different_institution', schoolName: 'Nova Southeastern University' }]);
+  });
+});
+
+describe('matchNorfolkStateAlumni', () => {
+  it('verifies a completed degree under an official name', () => {
+    const match = matchNorfolkStateAlumni(createProfile([completedDegree]), NOW);
+
+    expect(match.decision).toBe('verified');
+    expect(match.confidence).toBeGreaterThanOrEqual(VERIFIED_THRESHOLD);
+  });
+
+  it('verifies an official name with a completion date alone', () => {
+    const match = matchNorfolkStateAlumni(
+      createProfile([{ schoolName: 'Norfolk State University', endDate: { year: 2015 } }]),
+      NOW
+    );
+
+    expect(match.confidence).toBe(VERIFIED_THRESHOLD);
+    expect(match.decision).toBe('verified');
+  });
+
+  it('sends a strong match that finishes in the future to review', () => {
+    const match = matchNorfolkStateAlumni(createProfile([{ ...completedDegree, endDate: { year: 2028 } }]), NOW);
+
+    expect(match.decision).toBe('manual_review');
+    expect(match.reasons).toContainEqual({ code: 'not_completed', year: 2028 });
+  });
+
+  it('sends a completed degree under an abbreviation to review', () => {
+    const match = matchNorfolkStateAlumni(createProfile([{ ...completedDegree, schoolName: 'NSU' }]), NOW);
+
+    expect(match.decision).toBe('manual_review');
+    expect(match.confidence).toBeGreaterThanOrEqual(REVIEW_THRESHOLD);
+    expect(match.confidence).toBeLessThan(VERIFIED_THRESHOLD);
+  });
+
+  it('rejects a weak match below the review threshold', () => {
+    const match = matchNorfolkStateAlumni(createProfile([{ schoolName: 'Norfolk University' }]), NOW);
+
+    expect(match.confidence).toBeLessThan(REVIEW_THRESHOLD);
+    expect(match.decision).toBe('rejected');
+  });
+
+  it('rejects lookalikes and says why', () => {
+    const match = matchNorfolkStateAlumni(
+      createProfile([{ ...completedDegree, schoolName: 'Norfolk Southern' }]),
+      NOW
+    );
+
+    expect(match).toEqual({
+      decision: 'rejected',
+      confidence: 0,
+      reasons: [{ code: 'different_institution', schoolName: 'Norfolk Southern' }],
+    });
+  });
+
+  it('rejects a profile with no Norfolk State education', () => {
+    const match = matchNorfolkStateAlumni(createProfile([{ schoolName: 'Hampton University' }]), NOW);
+    expect(match.reasons).toEqual([{ code: 'no_education' }]);
+  });
+
+  it('decides on the strongest entry', () => {
+    const match = matchNorfolkStateAlumni(
+      createProfile([{ schoolName: 'NSU', endDate: { year: 2012 } }, completedDegree]),
+      NOW
+    );
+
+    expect(match.bestMatch?.education).toBe(completedDegree);
+    expect(match.decision).toBe('verified');
+  });
+});
+
+describe('formatMatchReason', () => {
+  it('words a reason from the catalog', () => {
+    expect(formatMatchReason({ code: 'completed', year: 2015 })).toBe('Completed in 2015');
+  });
+});
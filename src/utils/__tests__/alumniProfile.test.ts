@@ -0,0 +1,40 @@
+import { LinkedInProfile } from '../../types/navigation';
+import { getNorfolkStateDegrees } from '../alumniProfile';
+
+// Fixtures
+const NOW = new Date(2026, 5, 1);
+
+const createProfile = (education: LinkedInProfile['education']): LinkedInProfile => ({
+  id: 'li_1',
+  firstName: 'Jordan',
+  lastName: 'Smith',
+  email: 'jordan@example.com',
+  education,
+});
+
+describe('getNorfolkStateDegrees', () => {
+  it('keeps completed degrees from Norfolk State, oldest first', () => {
+    const profile = createProfile([
+      { schoolName: 'Norfolk State University', degree: 'MBA', endDate: { year: 2019 } },
+      { schoolName: 'Norfolk State University', degree: 'BS', fieldOfStudy: 'Biology', endDate: { year: 2015 } },
+    ]);
+
+    expect(getNorfolkStateDegrees(profile, NOW)).toEqual([
+      { degree: 'BS', fieldOfStudy: 'Biology', graduationYear: 2015 },
+      { degree: 'MBA', fieldOfStudy: undefined, graduationYear: 2019 },
+    ]);
+  });
+
+  it.each(['NSU', 'Norfolk St', 'Norfolk University', 'Norfolk Southern University'])(
+    'ignores "%s", which could be another school',
+    (schoolName) => {
+      expect(getNorfolkStateDegrees(createProfile([{ schoolName, degree: 'BS', endDate: { year: 2012 } }]), NOW))
+        .toEqual([]);
+    }
+  );
+
+  it('ignores degrees not finished yet', () => {
+    const profile = createProfile([{ schoolName: 'Norfolk State University', degree: 'BS', endDate: { year: 2028 } }]);
+    expect(getNorfolkStateDegrees(profile, NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { ATTESTATION_ISSUER, AlumniAttestationClaims, readAlumniAttestation } from '../attestation';
+import { encodeBase64Url } from '../base64url';
+
+// Fixtures
+const NOW = Date.UTC(2026, 5, 15);
+const EXPECTATIONS = { userId: 'user_1', nonce: 'nonce_1', now: NOW };
+
+const createClaims = (overrides: Partial<AlumniAttestationClaims> = {}): AlumniAttestationClaims => ({
+  iss: ATTESTATION_ISSUER,
+  sub: 'user_1',
+  nonce: 'nonce_1',
+  iat: NOW / 1000 - 60,
+  exp: NOW / 1000 + 300,
+  decision: 'verified',
+  confidence: 1,
+  reasons: [{ code: 'official_name', schoolName: 'Norfolk State University' }],
+  linkedInId: 'li_1',
+  ...overrides,
+});
+
+const encodeSegment = (value: unknown) => encodeBase64Url(JSON.stringify(value));
+
+const createToken = (claims: unknown = createClaims()) =>
+  [encodeSegment({ alg: 'RS256', typ: 'JWT' }), encodeSegment(claims), 'signature'].join('.');
+
+describe('readAlumniAttestation', () => {
+  it('reads the claims of an attestation issued for this attempt', () => {
+    expect(readAlumniAttestation(createToken(), EXPECTATIONS)).toEqual(createClaims());
+  });
+
+  it('drops claims it does not know', () => {
+    const token = createToken({ ...createClaims(), extra: 'ignored' });
+    expect(readAlumniAttestation(token, EXPECTATIONS)).toEqual(createClaims());
+  });
+
+  it.each([
+    ['another issuer', { iss: 'someone-else' }],
+    ['another user', { sub: 'user_2' }],
+    ['another attempt', { nonce: 'nonce_2' }],
+  ])('rejects an attestation for %s', (_, overrides) => {
+    expect(readAlumniAttestation(createToken(createClaims(overrides)), EXPECTATIONS)).toBeNull();
+  });
+
+  it('rejects an attestation once it expires', () => {
+    const token = createToken(createClaims({ exp: NOW / 1000 }));
+
+    expect(readAlumniAttestation(token, EXPECTATIONS)).toBeNull();
+    expect(readAlumniAttestation(token, { ...EXPECTATIONS, now: NOW - 1 })).toEqual(createClaims({ exp: NOW / 1000 }));
+  });
+
+  it.each([
+    ['an empty token', ''],
+    ['a token with two segments', createToken().split('.').slice(0, 2).join('.')],
+    ['a token with four segments', `${createToken()}.extra`],
+    ['a token with no signature', createToken().replace(/signature$/, '')],
+    ['a payload that is not base64url', [encodeSegment({}), '***', 'signature'].join('.')],
+    ['a payload that is not JSON', [encodeSegment({}), encodeBase64Url('not json'), 'signature'].join('.')],
+    ['a payload that is not an object', createToken('claims')],
+    ['a payload of null', createToken(null)],
+  ])('rejects %s', (_, token) => {
+    expect(readAlumniAttestation(token, EXPECTATIONS)).toBeNull();
+  });
+
+  it.each([
+    ['a missing expiry', { exp: undefined }],
+    ['an expiry that is not a number', { exp: '2026-06-15' }],
+    ['an unknown decision', { decision: 'approved' }],
+    ['an unknown reason', { reasons: [{ code: 'looks_fine' }] }],
+    ['reasons that are not a list', { reasons: 'official_name' }],
+    ['a missing LinkedIn id', { linkedInId: undefined }],
+  ])('rejects claims with %s', (_, overrides) => {
+    expect(readAlumniAttestation(createToken({ ...createClaims(), ...overrides }), EXPECTATIONS)).toBeNull();
+  });
+});
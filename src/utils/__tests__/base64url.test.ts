@@ -0,0 +1,46 @@
+import { decodeBase64Url, encodeBase64Url } from '../base64url';
+
+describe('encodeBase64Url', () => {
+  // RFC 4648 test vectors, with the padding base64url drops
+  it.each([
+    ['', ''],
+    ['f', 'Zg'],
+    ['fo', 'Zm8'],
+    ['foo', 'Zm9v'],
+    ['foob', 'Zm9vYg'],
+    ['fooba', 'Zm9vYmE'],
+    ['foobar', 'Zm9vYmFy'],
+  ])('encodes %p as %p', (text, encoded) => {
+    expect(encodeBase64Url(text)).toBe(encoded);
+  });
+
+  it('uses the URL-safe alphabet', () => {
+    expect(encodeBase64Url('ûÿ')).toBe('w7vDvw');
+    expect(encodeBase64Url('>>>???')).toBe('Pj4-Pz8_');
+  });
+});
+
+describe('decodeBase64Url', () => {
+  it.each(['', 'f', 'fo', 'foo', 'foob', 'fooba', 'foobar', 'Señor Spartan 🎓', '{"sub":"user_1"}'])(
+    'round-trips %p',
+    (text) => {
+      expect(decodeBase64Url(encodeBase64Url(text))).toBe(text);
+    }
+  );
+
+  it.each([['Zg==', 'f'], ['Zm8=', 'fo'], ['Zm9vYg==', 'foob']])('accepts padded %p', (encoded, text) => {
+    expect(decodeBase64Url(encoded)).toBe(text);
+  });
+
+  it('accepts the standard base64 alphabet', () => {
+    expect(decodeBase64Url('Pj4+Pz8/')).toBe('>>>???');
+  });
+
+  it.each(['Zm9v!', 'Zm9v YQ', 'Zm9vY', '.'])('rejects %p', (encoded) => {
+    expect(decodeBase64Url(encoded)).toBeNull();
+  });
+
+  it('rejects bytes that are not UTF-8', () => {
+    expect(decodeBase64Url('_w')).toBeNull();
+  });
+});
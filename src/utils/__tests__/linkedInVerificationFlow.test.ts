@@ -0,0 +1,173 @@
+import {
+  LinkedInVerificationEvent,
+  LinkedInVerificationState,
+  getLinkedInVerificationActionLabel,
+  getLinkedInVerificationAnnouncement,
+  getLinkedInVerificationSteps,
+  initialLinkedInVerificationState,
+  linkedInVerificationReducer,
+} from '../linkedInVerificationFlow';
+
+// Fixtures
+const STATES = {
+  idle: { status: 'idle', interrupted: false },
+  interrupted: { status: 'idle', interrupted: true },
+  authorizing: { status: 'authorizing' },
+  exchanging: { status: 'exchanging', resumed: false },
+  resumed: { status: 'exchanging', resumed: true },
+  fetchingProfile: { status: 'fetching_profile' },
+  matching: { status: 'matching' },
+  verified: { status: 'verified' },
+  manualReview: { status: 'manual_review' },
+  connectFailed: { status: 'failed', cause: 'error', failedStep: 'connect', reasons: [] },
+  notMatched: { status: 'failed', cause: 'not_matched', failedStep: 'verify', reasons: [{ code: 'no_education' }] },
+  cancelled: { status: 'cancelled' },
+} satisfies Record<string, LinkedInVerificationState>;
+
+type StateName = keyof typeof STATES;
+
+const EVENTS = {
+  CONNECT: { type: 'CONNECT' },
+  AUTHORIZED: { type: 'AUTHORIZED' },
+  CANCELLED: { type: 'CANCELLED' },
+  RESUME: { type: 'RESUME' },
+  INTERRUPTED: { type: 'INTERRUPTED' },
+  CODE_EXCHANGED: { type: 'CODE_EXCHANGED' },
+  PROFILE_FETCHED: { type: 'PROFILE_FETCHED' },
+  DECIDED_VERIFIED: { type: 'DECIDED', decision: 'verified', reasons: [] },
+  DECIDED_REVIEW: { type: 'DECIDED', decision: 'manual_review', reasons: [{ code: 'possible_name', schoolName: 'NSU' }] },
+  DECIDED_REJECTED: { type: 'DECIDED', decision: 'rejected', reasons: [{ code: 'no_education' }] },
+  ERROR: { type: 'ERROR' },
+  RETRY: { type: 'RETRY' },
+} satisfies Record<string, LinkedInVerificationEvent>;
+
+type EventName = keyof typeof EVENTS;
+
+// Where each event takes each state; events left out must return the state untouched
+const TRANSITIONS: Record<StateName, Partial<Record<EventName, LinkedInVerificationState>>> = {
+  idle: {
+    CONNECT: { status: 'authorizing' },
+    RESUME: { status: 'exchanging', resumed: true },
+    INTERRUPTED: { status: 'idle', interrupted: true },
+  },
+  interrupted: {
+    CONNECT: { status: 'authorizing' },
+    RESUME: { status: 'exchanging', resumed: true },
+    INTERRUPTED: { status: 'idle', interrupted: true },
+  },
+  authorizing: {
+    AUTHORIZED: { status: 'exchanging', resumed: false },
+    CANCELLED: { status: 'cancelled' },
+    ERROR: { status: 'failed', cause: 'error', failedStep: 'connect', reasons: [] },
+  },
+  exchanging: {
+    CODE_EXCHANGED: { status: 'fetching_profile' },
+    ERROR: { status: 'failed', cause: 'error', failedStep: 'verify', reasons: [] },
+  },
+  resumed: {
+    CODE_EXCHANGED: { status: 'fetching_profile' },
+    ERROR: { status: 'failed', cause: 'error', failedStep: 'verify', reasons: [] },
+  },
+  fetchingProfile: {
+    PROFILE_FETCHED: { status: 'matching' },
+    ERROR: { status: 'failed', cause: 'error', failedStep: 'verify', reasons: [] },
+  },
+  matching: {
+    DECIDED_VERIFIED: { status: 'verified' },
+    DECIDED_REVIEW: { status: 'manual_review' },
+    DECIDED_REJECTED: { status: 'failed', cause: 'not_matched', failedStep: 'verify', reasons: [{ code: 'no_education' }] },
+    ERROR: { status: 'failed', cause: 'error', failedStep: 'verify', reasons: [] },
+  },
+  verified: {},
+  manualReview: {},
+  connectFailed: {
+    CONNECT: { status: 'authorizing' },
+    RESUME: { status: 'exchanging', resumed: true },
+    RETRY: initialLinkedInVerificationState,
+  },
+  notMatched: {
+    CONNECT: { status: 'authorizing' },
+    RESUME: { status: 'exchanging', resumed: true },
+    RETRY: initialLinkedInVerificationState,
+  },
+  cancelled: {
+    CONNECT: { status: 'authorizing' },
+    RESUME: { status: 'exchanging', resumed: true },
+    RETRY: initialLinkedInVerificationState,
+  },
+};
+
+const PAIRS = (Object.keys(STATES) as StateName[]).flatMap((stateName) =>
+  (Object.keys(EVENTS) as EventName[]).map((eventName) => [stateName, eventName] as const)
+);
+
+describe('linkedInVerificationReducer', () => {
+  it('starts idle and not interrupted', () => {
+    expect(initialLinkedInVerificationState).toEqual({ status: 'idle', interrupted: false });
+  });
+
+  it.each(PAIRS)('%s + %s', (stateName, eventName) => {
+    const state = STATES[stateName];
+    const next = linkedInVerificationReducer(state, EVENTS[eventName]);
+    const expected = TRANSITIONS[stateName][eventName];
+
+    if (expected) {
+      expect(next).toEqual(expected);
+    } else {
+      // Ignored events return the same object, so React skips the re-render
+      expect(next).toBe(state);
+    }
+  });
+});
+
+describe('getLinkedInVerificationSteps', () => {
+  it.each<[StateName, ReturnType<typeof getLinkedInVerificationSteps>]>([
+    ['idle', { connect: 'active', verify: 'pending', complete: 'pending' }],
+    ['interrupted', { connect: 'active', verify: 'pending', complete: 'pending' }],
+    ['authorizing', { connect: 'active', verify: 'pending', complete: 'pending' }],
+    ['exchanging', { connect: 'completed', verify: 'active', complete: 'pending' }],
+    ['resumed', { connect: 'completed', verify: 'active', complete: 'pending' }],
+    ['fetchingProfile', { connect: 'completed', verify: 'active', complete: 'pending' }],
+    ['matching', { connect: 'completed', verify: 'active', complete: 'pending' }],
+    ['verified', { connect: 'completed', verify: 'completed', complete: 'completed' }],
+    ['manualReview', { connect: 'completed', verify: 'completed', complete: 'completed' }],
+    ['connectFailed', { connect: 'error', verify: 'pending', complete: 'pending' }],
+    ['notMatched', { connect: 'completed', verify: 'error', complete: 'pending' }],
+    ['cancelled', { connect: 'active', verify: 'pending', complete: 'pending' }],
+  ])('%s', (stateName, expected) => {
+    expect(getLinkedInVerificationSteps(STATES[stateName])).toEqual(expected);
+  });
+});
+
+describe('getLinkedInVerificationAnnouncement', () => {
+  it.each<[StateName, string | undefined]>([
+    ['idle', undefined],
+    ['interrupted', 'Your last LinkedIn connection was interrupted'],
+    ['authorizing', 'Opening LinkedIn authentication'],
+    ['exchanging', 'Confirming your LinkedIn sign-in'],
+    ['resumed', 'Resuming LinkedIn verification'],
+    ['fetchingProfile', 'Reading your LinkedIn education history'],
+    ['matching', 'Verifying your Norfolk State education'],
+    ['verified', 'Norfolk State alumni status verified successfully'],
+    ['manualReview', 'Your alumni verification has been sent for review'],
+    ['connectFailed', 'LinkedIn verification failed'],
+    ['notMatched', 'Could not verify Norfolk State alumni status'],
+    ['cancelled', 'LinkedIn authentication cancelled'],
+  ])('%s', (stateName, expected) => {
+    expect(getLinkedInVerificationAnnouncement(STATES[stateName])).toBe(expected);
+  });
+});
+
+describe('getLinkedInVerificationActionLabel', () => {
+  it.each<[StateName, string]>([
+    ['idle', 'Connect with LinkedIn'],
+    ['authorizing', 'Connecting...'],
+    ['exchanging', 'Confirming sign-in...'],
+    ['resumed', 'Confirming sign-in...'],
+    ['fetchingProfile', 'Reading profile...'],
+    ['matching', 'Checking education...'],
+    ['notMatched', 'Connect with LinkedIn'],
+  ])('%s', (stateName, expected) => {
+    expect(getLinkedInVerificationActionLabel(STATES[stateName])).toBe(expected);
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  BUNDLED_ONBOARDING_CONTENT,
+  ONBOARDING_CONTENT_SCHEMA_VERSION,
+  OnboardingSlideContent,
+  parseOnboardingContent,
+} from '../onboardingContent';
+
+// Fixtures
+const createSlide = (overrides: Record<string, unknown> = {}) => ({
+  id: 'parade',
+  introducedIn: 2,
+  icon: 'flag',
+  title: 'Homecoming parade',
+  description: 'Line the route with your classmates.',
+  visual: 'events-mockup',
+  ...overrides,
+});
+
+// Round-tripped through JSON like a fetched or cached document
+const createDocument = (overrides: Record<string, unknown> = {}): Record<string, unknown> =>
+  JSON.parse(JSON.stringify({ ...BUNDLED_ONBOARDING_CONTENT, revision: 3, slides: [createSlide()], ...overrides }));
+
+const slideIds = (slides: OnboardingSlideContent[]) => slides.map(slide => slide.id);
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parseOnboardingContent', () => {
+  it('reads a valid document', () => {
+    expect(parseOnboardingContent(createDocument())).toEqual({
+      ...BUNDLED_ONBOARDING_CONTENT,
+      revision: 3,
+      slides: [createSlide()],
+    });
+  });
+
+  it('reads the bundled copy back unchanged', () => {
+    expect(parseOnboardingContent(createDocument({ revision: 0, slides: BUNDLED_ONBOARDING_CONTENT.slides }))).toEqual(
+      BUNDLED_ONBOARDING_CONTENT
+    );
+  });
+
+  it.each([
+    ['a list', [createDocument()]],
+    ['a string', 'onboarding'],
+    ['null', null],
+    ['an older schema version', createDocument({ schemaVersion: ONBOARDING_CONTENT_SCHEMA_VERSION - 1 })],
+    ['a newer schema version', createDocument({ schemaVersion: ONBOARDING_CONTENT_SCHEMA_VERSION + 1 })],
+    ['a missing schema version', createDocument({ schemaVersion: undefined })],
+    ['another language', createDocument({ language: 'es' })],
+    ['a negative revision', createDocument({ revision: -1 })],
+    ['a fractional revision', createDocument({ revision: 1.5 })],
+    ['a revision that is not a number', createDocument({ revision: '3' })],
+  ])('rejects %s', (_, document) => {
+    expect(parseOnboardingContent(document)).toBeNull();
+  });
+
+  it.each([
+    ['no id', { id: '' }],
+    ['an unknown icon', { icon: 'not-an-icon' }],
+    ['a title that is too long', { title: 'x'.repeat(61) }],
+    ['a blank description', { description: '   ' }],
+    ['a description that is too long', { description: 'x'.repeat(301) }],
+    ['no intro version', { introducedIn: undefined }],
+    ['an intro version before the first', { introducedIn: 0 }],
+  ])('drops a slide with %s and keeps the rest', (_, overrides) => {
+    const content = parseOnboardingContent(
+      createDocument({ slides: [createSlide({ id: 'broken', ...overrides }), createSlide()] })
+    );
+
+    expect(slideIds(content!.slides)).toEqual(['parade']);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('keeps a slide with a visual it cannot draw, without the visual', () => {
+    const content = parseOnboardingContent(createDocument({ slides: [createSlide({ visual: 'hologram' })] }));
+    expect(content!.slides).toEqual([{ ...createSlide(), visual: undefined }]);
+  });
+
+  it('keeps the first of two slides with the same id', () => {
+    const content = parseOnboardingContent(
+      createDocument({ slides: [createSlide(), createSlide({ title: 'Second parade' })] })
+    );
+
+    expect(content!.slides).toEqual([createSlide()]);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it.each([
+    ['an empty slide list', []],
+    ['only slides it cannot show', [createSlide({ icon: 'not-an-icon' })]],
+    ['no slide list', undefined],
+  ])('falls back to the bundled slides for %s', (_, slides) => {
+    const content = parseOnboardingContent(createDocument({ slides }));
+
+    expect(content!.slides).toEqual(BUNDLED_ONBOARDING_CONTENT.slides);
+    expect(content!.revision).toBe(3);
+  });
+
+  it.each([
+    ['no features', { features: [] }],
+    ['too many features', { features: Array(9).fill('Events') }],
+    ['a blank feature', { features: ['Events', ''] }],
+    ['a badge that is too long', { badge: 'x'.repeat(61) }],
+    ['no title', { title: undefined }],
+  ])('falls back to the bundled copy for a role with %s', (_, overrides) => {
+    const student = { ...BUNDLED_ONBOARDING_CONTENT.roles.student, title: 'Current Spartans' };
+    const content = parseOnboardingContent(
+      createDocument({ roles: { ...BUNDLED_ONBOARDING_CONTENT.roles, student, guest: { ...student, ...overrides } } })
+    );
+
+    expect(content!.roles.student).toEqual(student);
+    expect(content!.roles.guest).toEqual(BUNDLED_ONBOARDING_CONTENT.roles.guest);
+  });
+
+  it('falls back to the bundled copy for missing roles', () => {
+    const content = parseOnboardingContent(createDocument({ roles: undefined }));
+    expect(content!.roles).toEqual(BUNDLED_ONBOARDING_CONTENT.roles);
+  });
+});
@@ -0,0 +1,93 @@
+import { AuthUser } from '../../types/navigation';
+import { canReverify, updateVerificationRecord, withVerificationRecord } from '../verificationLifecycle';
+
+// Fixtures
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VERIFIED_AT = Date.UTC(2026, 0, 1);
+
+const verified = updateVerificationRecord(undefined, 'verified', { method: 'linkedin', now: VERIFIED_AT });
+
+describe('updateVerificationRecord', () => {
+  it('keeps an active verification when a re-verification fails, logging the attempt', () => {
+    const now = VERIFIED_AT + 700 * DAY_MS;
+    const record = updateVerificationRecord(verified, 'failed', { method: 'linkedin', now });
+
+    expect(record).toEqual({
+      ...verified,
+      history: [...verified.history, { status: 'failed', method: 'linkedin', at: now }],
+    });
+  });
+
+  it.each(['pending', 'in_review', 'needs_info'] as const)(
+    'keeps an active verification while a re-verification is %s',
+    (status) => {
+      const now = VERIFIED_AT + 700 * DAY_MS;
+      const record = updateVerificationRecord(verified, status, { method: 'manual_review', now });
+
+      expect(record).toEqual({
+        ...verified,
+        history: [...verified.history, { status, method: 'manual_review', at: now }],
+      });
+    }
+  );
+
+  it('replaces the verification once a re-verification succeeds', () => {
+    const now = VERIFIED_AT + 700 * DAY_MS;
+    const inReview = updateVerificationRecord(verified, 'in_review', { method: 'manual_review', now });
+    const record = updateVerificationRecord(inReview, 'verified', { method: 'manual_review', now: now + DAY_MS });
+
+    expect(record.verifiedAt).toBe(now + DAY_MS);
+    expect(record.method).toBe('manual_review');
+    expect(record.history.map(event => event.status)).toEqual(['verified', 'in_review', 'verified']);
+  });
+
+  it('records an attempt in progress once the verification has expired', () => {
+    const now = verified.expiresAt! + DAY_MS;
+    const record = updateVerificationRecord(verified, 'in_review', { method: 'manual_review', now });
+
+    expect(record.status).toBe('in_review');
+    expect(record.verifiedAt).toBeUndefined();
+  });
+
+  it('records the failure once the verification has expired', () => {
+    const now = verified.expiresAt! + DAY_MS;
+    const record = updateVerificationRecord(verified, 'failed', { method: 'linkedin', now });
+
+    expect(record.status).toBe('failed');
+    expect(record.expiresAt).toBeUndefined();
+    expect(record.history).toHaveLength(2);
+  });
+
+  it('records a failure with no verification to keep', () => {
+    const record = updateVerificationRecord(undefined, 'failed', { method: 'linkedin', now: VERIFIED_AT });
+    expect(record.status).toBe('failed');
+  });
+
+  it('replaces an active verification when it is revoked', () => {
+    const record = updateVerificationRecord(verified, 'revoked', { note: 'Duplicate account', now: VERIFIED_AT + DAY_MS });
+
+    expect(record.status).toBe('revoked');
+    expect(record.revocationReason).toBe('Duplicate account');
+  });
+});
+
+describe('canReverify', () => {
+  const now = VERIFIED_AT + 700 * DAY_MS;
+  const alumni: AuthUser = {
+    id: 'user_1',
+    email: 'spartan@example.com',
+    role: 'alumni',
+    needsVerification: false,
+    emailVerified: true,
+  };
+  const user = withVerificationRecord(alumni, verified);
+
+  it('allows re-verifying when the verification is about to expire', () => {
+    expect(canReverify(user, now)).toBe(true);
+  });
+
+  it('waits for a re-verification under review, even while the old verification holds', () => {
+    const inReview = updateVerificationRecord(verified, 'in_review', { method: 'manual_review', now });
+    expect(canReverify(withVerificationRecord(user, inReview), now)).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+// NYTHC Access Rules
+// Helpers that decide what a signed-in user can reach based on their account state.
+
+import { t } from '../i18n';
+import { AuthUser, EventAudience, RootStackParamList, UserRole } from '../types/navigation';
+import { isVerificationActive } from './verificationLifecycle';
+
+// Types
+export type Feature =
+  | 'student_pricing'
+  | 'student_events'
+  | 'alumni_events'
+  | 'alumni_chat'
+  | 'priority_ticketing'
+  | 'vouching'
+  | 'review_queue';
+
+// What a feature needs: one of `roles`, and when `verified` is set a confirmed email plus an active verification
+export interface FeatureRequirement {
+  title: string;
+  roles: UserRole[];
+  verified: boolean;
+  reviewer?: boolean;
+  deniedMessage: string;
+}
+
+// Why a user can't use a feature, which decides whether they're asked to upgrade or to verify
+export type AccessDenial =
+  | { reason: 'upgrade'; roles: UserRole[] }
+  | { reason: 'verify_email' }
+  | { reason: 'verify' }
+  | { reason: 'reviewer' };
+
+// Constants
+export const FEATURE_REQUIREMENTS: Record<Feature, FeatureRequirement> = {
+  student_pricing: {
+    title: t('features.student_pricing.title'),
+    roles: ['student'],
+    verified: true,
+    deniedMessage: t('features.student_pricing.deniedMessage'),
+  },
+  student_events: {
+    title: t('features.student_events.title'),
+    roles: ['student'],
+    verified: true,
+    deniedMessage: t('features.student_events.deniedMessage'),
+  },
+  alumni_events: {
+    title: t('features.alumni_events.title'),
+    roles: ['alumni'],
+    verified: true,
+    deniedMessage: t('features.alumni_events.deniedMessage'),
+  },
+  alumni_chat: {
+    title: t('features.alumni_chat.title'),
+    roles: ['alumni'],
+    verified: true,
+    deniedMessage: t('features.alumni_chat.deniedMessage'),
+  },
+  priority_ticketing: {
+    title: t('features.priority_ticketing.title'),
+    roles: ['alumni'],
+    verified: true,
+    deniedMessage: t('features.priority_ticketing.deniedMessage'),
+  },
+  vouching: {
+    title: t('features.vouching.title'),
+    roles: ['alumni'],
+    verified: true,
+    deniedMessage: t('features.vouching.deniedMessage'),
+  },
+  review_queue: {
+    title: t('features.review_queue.title'),
+    roles: ['alumni', 'student', 'guest'],
+    verified: false,
+    reviewer: true,
+    deniedMessage: t('features.review_queue.deniedMessage'),
+  },
+};
+
+// A route's feature, either fixed or read from its params (an alumni-only event, a student-priced ticket)
+export type RouteFeatureRule<Name extends keyof RootStackParamList> =
+  | Feature
+  | ((params: RootStackParamList[Name]) => Feature | undefined);
+
+const EVENT_AUDIENCE_FEATURES: Record<EventAudience, Feature | undefined> = {
+  public: undefined,
+  alumni: 'alumni_events',
+  student: 'student_events',
+};
+
+// Ticket types that come with a perk; any other type is sold to whoever can see the event
+const TICKET_TYPE_FEATURES: Partial<Record<string, Feature>> = {
+  priority: 'priority_ticketing',
+  student: 'student_pricing',
+};
+
+const getEventFeature = ({ audience = 'public' }: { audience?: EventAudience }) => EVENT_AUDIENCE_FEATURES[audience];
+
+// Routes gated by a feature; the main stack shows the upgrade or verify prompt in their place
+export const ROUTE_FEATURES: { [Name in keyof RootStackParamList]?: RouteFeatureRule<Name> } = {
+  VouchForClassmates: 'vouching',
+  ReviewQueue: 'review_queue',
+  ChatRoom: 'alumni_chat',
+  EventDetail: getEventFeature,
+  TicketSelection: getEventFeature,
+  // A perk ticket needs the perk; an ordinary ticket only needs access to the event
+  Checkout: (params) => TICKET_TYPE_FEATURES[params.ticketType] ?? getEventFeature(params),
+};
+
+export const getRouteFeature = <Name extends keyof RootStackParamList>(
+  name: Name,
+  params: RootStackParamList[Name]
+): Feature | undefined => {
+  const rule = ROUTE_FEATURES[name] as RouteFeatureRule<Name> | undefined;
+  return typeof rule === 'function' ? rule(params) : rule;
+};
+
+// Users who haven't confirmed their email keep guest-level access until they do
+export const getEffectiveRole = (user: AuthUser): UserRole =>
+  user.emailVerified ? user.role : 'guest';
+
+export const hasLimitedAccess = (user: AuthUser) => getEffectiveRole(user) !== user.role;
+
+// Student pricing and student-only events stay locked until NSU enrollment is confirmed, and again once that expires
+export const isVerifiedStudent = (user: AuthUser) =>
+  user.role === 'student' && user.emailVerified && isVerificationActive(user);
+
+// Alumni perks follow the same rule: a confirmed email and a verification that hasn't lapsed or been revoked
+export const isVerifiedAlumni = (user: AuthUser) =>
+  user.role === 'alumni' && user.emailVerified && isVerificationActive(user);
+
+// Returns null when the user can use the feature
+export const getAccessDenial = (user: AuthUser, feature: Feature): AccessDenial | null => {
+  const { roles, verified, reviewer } = FEATURE_REQUIREMENTS[feature];
+
+  if (reviewer && !user.isReviewer) return { reason: 'reviewer' };
+  if (!roles.includes(user.role)) return { reason: 'upgrade', roles };
+  if (!verified) return null;
+  if (!user.emailVerified) return { reason: 'verify_email' };
+  if (!isVerificationActive(user)) return { reason: 'verify' };
+  return null;
+};
+
+export const canAccess = (user: AuthUser, feature: Feature) => getAccessDenial(user, feature) === null;
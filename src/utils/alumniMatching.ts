@@ -0,0 +1,218 @@
+// NYTHC Alumni Matching
+// Scores LinkedIn education entries as evidence of a Norfolk State degree. Used by the verification backend.
+
+import { t } from '../i18n';
+import { LinkedInEducation, LinkedInProfile } from '../types/navigation';
+
+// Types
+export type AlumniMatchDecision = 'verified' | 'manual_review' | 'rejected';
+
+export type SchoolMatch = 'official' | 'abbreviation' | 'partial' | 'lookalike' | 'none';
+
+// Codes rather than sentences, so the app can show them in the user's language
+export type MatchReason =
+  | { code: 'different_institution'; schoolName: string }
+  | { code: 'official_name'; schoolName: string }
+  | { code: 'possible_name'; schoolName: string }
+  | { code: 'completed'; year: number }
+  | { code: 'not_completed'; year: number }
+  | { code: 'no_completion_date' }
+  | { code: 'degree_listed'; degree: string }
+  | { code: 'field_listed'; fieldOfStudy: string }
+  | { code: 'no_education' };
+
+export type MatchReasonCode = MatchReason['code'];
+
+export interface EducationEvidence {
+  education: LinkedInEducation;
+  school: SchoolMatch;
+  hasGraduated: boolean;
+  confidence: number;
+  reasons: MatchReason[];
+}
+
+export interface AlumniMatchResult {
+  decision: AlumniMatchDecision;
+  confidence: number;
+  reasons: MatchReason[];
+  bestMatch?: EducationEvidence;
+}
+
+// Constants
+export const VERIFIED_THRESHOLD = 0.8;
+export const REVIEW_THRESHOLD = 0.4;
+
+const SCHOOL_WEIGHTS: Record<SchoolMatch, number> = {
+  official: 0.6,
+  abbreviation: 0.35,
+  partial: 0.2,
+  lookalike: 0,
+  none: 0,
+};
+const GRADUATION_WEIGHT = 0.2;
+const DEGREE_WEIGHT = 0.15;
+const FIELD_WEIGHT = 0.05;
+
+// Current and historical names of the university, after normalization
+const OFFICIAL_NAMES = [
+  'norfolk state',
+  'norfolk state university',
+  'norfolk state college',
+  'norfolk polytechnic college',
+  'norfolk division of virginia state college',
+  'norfolk unit of virginia union university',
+];
+
+// Short forms that also belong to other schools, so they only count as partial evidence
+const AMBIGUOUS_NAMES = ['nsu', 'norfolk st', 'norfolk st university'];
+
+// Institutions that are often confused with Norfolk State and must never match it
+const LOOKALIKE_NAMES = [
+  'northeastern state university',
+  'nova southeastern university',
+  'norfolk southern',
+  'old dominion university',
+  'norfolk academy',
+  'norfolk collegiate',
+  'norfolk technical center',
+  'tidewater community college',
+  'eastern virginia medical school',
+  'virginia state university',
+  'north carolina at state university',
+  'norwich university',
+];
+
+export const MATCH_REASON_CODES: MatchReasonCode[] = [
+  'different_institution',
+  'official_name',
+  'possible_name',
+  'completed',
+  'not_completed',
+  'no_completion_date',
+  'degree_listed',
+  'field_listed',
+  'no_education',
+];
+
+const DEGREE_PATTERN = /\b(bachelor|master|doctor|associate|bs|ba|ms|ma|mba|msw|bsn|phd|edd)\b/;
+
+// Helpers
+// Lowercases, drops punctuation and joins dotted initials, so "N.S.U." and "B.S." become "nsu" and "bs"
+const normalizeText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\b([a-z]) (?=[a-z]\b)/g, '$1')
+    .replace(/\bph d\b/g, 'phd')
+    .replace(/\bed d\b/g, 'edd')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const normalizeSchoolName = (name: string): string =>
+  normalizeText(name)
+    .replace(/\buniv\b/g, 'university')
+    .replace(/\bcoll\b/g, 'college')
+    .replace(/\bthe\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const classifySchool = (schoolName: string | undefined): SchoolMatch => {
+  const name = normalizeSchoolName(schoolName ?? '');
+  if (!name) return 'none';
+
+  // Lookalikes are checked first so "Norfolk Southern" never falls through to a partial "Norfolk" match
+  if (LOOKALIKE_NAMES.some(lookalike => name.includes(lookalike))) return 'lookalike';
+  if (OFFICIAL_NAMES.includes(name)) return 'official';
+  if (AMBIGUOUS_NAMES.includes(name)) return 'abbreviation';
+  if (/\bnorfolk\b/.test(name) && /\b(state|university|college)\b/.test(name)) return 'partial';
+  return 'none';
+};
+
+// A degree finishing this year counts once its end month has passed (or when no month is given)
+export const hasGraduated = (education: LinkedInEducation, now: Date = new Date()): boolean => {
+  const end = education.endDate;
+  if (!end) return false;
+
+  const year = now.getFullYear();
+  if (end.year !== year) return end.year < year;
+  return end.month === undefined || end.month <= now.getMonth() + 1;
+};
+
+export const scoreEducation = (education: LinkedInEducation, now: Date = new Date()): EducationEvidence => {
+  const school = classifySchool(education.schoolName);
+  const reasons: MatchReason[] = [];
+
+  if (school === 'lookalike') {
+    return {
+      education,
+      school,
+      hasGraduated: false,
+      confidence: 0,
+      reasons: [{ code: 'different_institution', schoolName: education.schoolName }],
+    };
+  }
+  if (school === 'none') {
+    return { education, school, hasGraduated: false, confidence: 0, reasons: [] };
+  }
+
+  let confidence = SCHOOL_WEIGHTS[school];
+  reasons.push({ code: school === 'official' ? 'official_name' : 'possible_name', schoolName: education.schoolName });
+
+  const graduated = hasGraduated(education, now);
+  if (graduated && education.endDate) {
+    confidence += GRADUATION_WEIGHT;
+    reasons.push({ code: 'completed', year: education.endDate.year });
+  } else if (education.endDate) {
+    reasons.push({ code: 'not_completed', year: education.endDate.year });
+  } else {
+    reasons.push({ code: 'no_completion_date' });
+  }
+
+  if (education.degree && DEGREE_PATTERN.test(normalizeText(education.degree))) {
+    confidence += DEGREE_WEIGHT;
+    reasons.push({ code: 'degree_listed', degree: education.degree });
+  }
+
+  if (education.fieldOfStudy?.trim()) {
+    confidence += FIELD_WEIGHT;
+    reasons.push({ code: 'field_listed', fieldOfStudy: education.fieldOfStudy });
+  }
+
+  return {
+    education,
+    school,
+    hasGraduated: graduated,
+    confidence: Math.min(1, Math.round(confidence * 100) / 100),
+    reasons,
+  };
+};
+
+// Matching
+export const matchNorfolkStateAlumni = (profile: LinkedInProfile, now: Date = new Date()): AlumniMatchResult => {
+  const evidence = profile.education.map(education => scoreEducation(education, now));
+  const bestMatch = evidence
+    .filter(entry => entry.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence)[0];
+
+  if (!bestMatch) {
+    const lookalikeReasons = evidence.filter(entry => entry.school === 'lookalike').flatMap(entry => entry.reasons);
+    return {
+      decision: 'rejected',
+      confidence: 0,
+      reasons: lookalikeReasons.length > 0
+        ? lookalikeReasons
+        : [{ code: 'no_education' }],
+    };
+  }
+
+  // Only a completed degree can verify automatically; strong but unfinished matches still get a person's look
+  const decision: AlumniMatchDecision =
+    bestMatch.confidence >= VERIFIED_THRESHOLD && bestMatch.hasGraduated
+      ? 'verified'
+      : bestMatch.confidence >= REVIEW_THRESHOLD ? 'manual_review' : 'rejected';
+
+  return { decision, confidence: bestMatch.confidence, reasons: bestMatch.reasons, bestMatch };
+};
+
+// Display
+export const formatMatchReason = ({ code, ...params }: MatchReason): string => t(`matchReasons.${code}`, params);
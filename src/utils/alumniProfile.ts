@@ -0,0 +1,60 @@
+// NYTHC Alumni Profile
+// Turns the Norfolk State education found during LinkedIn verification into profile fields.
+
+import { t } from '../i18n';
+import { AlumniDegree, AuthUser, LinkedInProfile, UserProfile } from '../types/navigation';
+import { classifySchool, hasGraduated } from './alumniMatching';
+import { isVerificationActive } from './verificationLifecycle';
+
+// Helpers
+const cleanText = (text: string | undefined) => text?.trim() || undefined;
+
+// Every completed degree from Norfolk State, oldest first. Only the school's official names count: an "NSU" or a
+// partial name can belong to another school, and would set the wrong class year
+export const getNorfolkStateDegrees = (profile: LinkedInProfile, now: Date = new Date()): AlumniDegree[] =>
+  profile.education
+    .filter(education => classifySchool(education.schoolName) === 'official' && hasGraduated(education, now))
+    .map(education => ({
+      degree: cleanText(education.degree),
+      fieldOfStudy: cleanText(education.fieldOfStudy),
+      // hasGraduated only passes entries with an end date
+      graduationYear: education.endDate!.year,
+    }))
+    .sort((a, b) => a.graduationYear - b.graduationYear);
+
+// The class year is the first Norfolk State degree, so a later master's doesn't move someone to a new class
+export const buildProfileFromLinkedIn = (
+  linkedInProfile: LinkedInProfile,
+  user: AuthUser,
+  now: Date = new Date()
+): UserProfile => {
+  const degrees = getNorfolkStateDegrees(linkedInProfile, now);
+  const classDegree = degrees[0];
+
+  return {
+    firstName: cleanText(linkedInProfile.firstName) ?? user.firstName ?? '',
+    lastName: cleanText(linkedInProfile.lastName) ?? user.lastName ?? '',
+    graduationYear: classDegree?.graduationYear,
+    major: classDegree?.fieldOfStudy,
+    avatar: cleanText(linkedInProfile.profilePicture),
+    degrees,
+  };
+};
+
+export const isSameDegree = (a: AlumniDegree, b: AlumniDegree) =>
+  a.graduationYear === b.graduationYear && a.degree === b.degree && a.fieldOfStudy === b.fieldOfStudy;
+
+export const formatDegree = ({ degree, fieldOfStudy, graduationYear }: AlumniDegree) =>
+  [
+    [degree, fieldOfStudy].filter(Boolean).join(', ') || t('common.degree'),
+    `'${String(graduationYear).slice(-2)}`,
+  ].join(' ');
+
+// Class-year features (reunions, classmate rooms) use the confirmed profile, falling back to a student's expected year
+export const getClassYear = (user: AuthUser): number | undefined => {
+  if (user.role === 'alumni') {
+    return isVerificationActive(user) ? user.profile?.graduationYear : undefined;
+  }
+  if (user.role === 'student') return user.expectedGraduationYear;
+  return undefined;
+};
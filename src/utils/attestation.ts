@@ -0,0 +1,95 @@
+// NYTHC Verification Attestations
+// Reads the decision details the NYTHC backend returns with a LinkedIn verification.
+// The app does not check the signature and treats these claims as display data only: the session returned by the
+// same authenticated request is the source of truth for the user's status, and the backend checks that status again
+// on every gated request. The claims are only accepted when they were issued for this user and this attempt.
+
+import { AlumniMatchDecision, MATCH_REASON_CODES, MatchReason } from './alumniMatching';
+import { decodeBase64Url } from './base64url';
+
+// Types
+export interface AlumniAttestationClaims {
+  iss: string;
+  sub: string;
+  nonce: string;
+  iat: number;
+  exp: number;
+  decision: AlumniMatchDecision;
+  confidence: number;
+  reasons: MatchReason[];
+  linkedInId: string;
+}
+
+export interface AttestationExpectations {
+  userId: string;
+  nonce: string;
+  now?: number;
+}
+
+// Constants
+export const ATTESTATION_ISSUER = 'nythc-verification';
+const DECISIONS: AlumniMatchDecision[] = ['verified', 'manual_review', 'rejected'];
+
+// Helpers
+const parseSegment = (segment: string): Record<string, unknown> | null => {
+  const json = decodeBase64Url(segment);
+  if (!json) return null;
+
+  try {
+    const value = JSON.parse(json);
+    return value && typeof value === 'object' ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+// Reasons with a code this version doesn't know can't be shown, so they make the claims unreadable
+const isMatchReason = (reason: unknown): reason is MatchReason =>
+  typeof reason === 'object' &&
+  reason !== null &&
+  MATCH_REASON_CODES.some(code => code === (reason as { code?: unknown }).code);
+
+const isAlumniClaims = (claims: Record<string, unknown>): claims is Record<string, unknown> & AlumniAttestationClaims =>
+  typeof claims.iss === 'string' &&
+  typeof claims.sub === 'string' &&
+  typeof claims.nonce === 'string' &&
+  typeof claims.iat === 'number' &&
+  typeof claims.exp === 'number' &&
+  DECISIONS.some(decision => decision === claims.decision) &&
+  typeof claims.confidence === 'number' &&
+  Array.isArray(claims.reasons) &&
+  claims.reasons.every(isMatchReason) &&
+  typeof claims.linkedInId === 'string';
+
+// Returns the claims of an attestation that answers this attempt, or null
+export const readAlumniAttestation = (
+  token: string,
+  { userId, nonce, now = Date.now() }: AttestationExpectations
+): AlumniAttestationClaims | null => {
+  const [headerSegment, payloadSegment, signature, ...rest] = token.split('.');
+  if (!headerSegment || !payloadSegment || !signature || rest.length > 0) return null;
+
+  const claims = parseSegment(payloadSegment);
+  if (!claims || !isAlumniClaims(claims)) return null;
+
+  if (
+    claims.iss !== ATTESTATION_ISSUER ||
+    claims.sub !== userId ||
+    claims.nonce !== nonce ||
+    claims.exp * 1000 <= now
+  ) {
+    return null;
+  }
+
+  return {
+    iss: claims.iss,
+    sub: claims.sub,
+    nonce: claims.nonce,
+    iat: claims.iat,
+    exp: claims.exp,
+    decision: claims.decision,
+    confidence: claims.confidence,
+    reasons: claims.reasons,
+    linkedInId: claims.linkedInId,
+  };
+};
@@ -0,0 +1,52 @@
+// NYTHC Base64url
+// UTF-8 safe base64url encoding for signed tokens. Hermes doesn't provide atob or btoa.
+
+// Constants
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// Helpers
+const toUtf8Bytes = (text: string): number[] =>
+  Array.from(encodeURIComponent(text).replace(/%([0-9A-F]{2})|./g, (match, hex) =>
+    String.fromCharCode(hex ? parseInt(hex, 16) : match.charCodeAt(0))
+  )).map(char => char.charCodeAt(0));
+
+const fromUtf8Bytes = (bytes: number[]) =>
+  decodeURIComponent(bytes.map(byte => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+
+export const encodeBase64Url = (text: string): string => {
+  const bytes = toUtf8Bytes(text);
+  let output = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const length = Math.min(3, bytes.length - i) + 1;
+    for (let j = 0; j < length; j++) {
+      output += ALPHABET[(chunk >> (18 - j * 6)) & 63];
+    }
+  }
+  return output;
+};
+
+// Returns null for anything that isn't valid base64url-encoded UTF-8
+export const decodeBase64Url = (encoded: string): string | null => {
+  const normalized = encoded.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  if (/[^A-Za-z0-9\-_]/.test(normalized) || normalized.length % 4 === 1) return null;
+
+  const bytes: number[] = [];
+  for (let i = 0; i < normalized.length; i += 4) {
+    const group = normalized.slice(i, i + 4);
+    const chunk = Array.from(group).reduce(
+      (value, char, index) => value | (ALPHABET.indexOf(char) << (18 - index * 6)),
+      0
+    );
+    for (let j = 0; j < group.length - 1; j++) {
+      bytes.push((chunk >> (16 - j * 8)) & 255);
+    }
+  }
+
+  try {
+    return fromUtf8Bytes(bytes);
+  } catch {
+    return null;
+  }
+};
@@ -25,6 +25,7 @@ export const COLORS = {
   // Accent Colors
   alumniBadge: '#D6C238',
   studentBadge: '#5C9F8A',
+  guestBadge: '#666666',
   liveIndicator: '#FF4444',
 } as const;
 
@@ -76,6 +77,44 @@ export const SCREEN = {
   headerHeight: 56,
 } as const;
 
+// Student Verification
+// Campus email domains accepted as proof of NSU enrollment (subdomains included)
+export const STUDENT_VERIFICATION = {
+  allowedDomains: (process.env.EXPO_PUBLIC_NSU_EMAIL_DOMAINS || 'nsu.edu')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase())
+    .filter(Boolean),
+  maxYearsUntilGraduation: 6,
+} as const;
+
+// Manual Alumni Verification
+export const MANUAL_VERIFICATION = {
+  firstGraduationYear: 1938,
+  maxDocumentBytes: 10 * 1024 * 1024,
+  acceptedMimeTypes: ['application/pdf', 'image/jpeg', 'image/png', 'image/heic'],
+} as const;
+
+// Verification Lifecycle
+// How long each kind of proof stays valid, and how early users are reminded to re-verify
+export const VERIFICATION_LIFECYCLE = {
+  validityDays: {
+    linkedin: 730,
+    email_domain: 365,
+    manual_review: 1095,
+    vouching: 365,
+  },
+  reminderDays: 30,
+} as const;
+
+// Alumni Vouching
+// Verified alumni from the same class can confirm someone who has no other proof
+export const VOUCHING = {
+  requiredVouches: Number(process.env.EXPO_PUBLIC_REQUIRED_VOUCHES) || 3,
+  classYearWindow: 0,
+  maxVouchesPerDay: 5,
+  requestTtlDays: 30,
+} as const;
+
 // App Configuration
 export const APP_CONFIG = {
   name: 'NYTHC',
@@ -84,4 +123,5 @@ export const APP_CONFIG = {
   version: '1.0.0',
   supportEmail: 'support@nythc.com',
   websiteUrl: 'https://nythc.com',
+  apiBaseUrl: process.env.EXPO_PUBLIC_API_URL || 'https://api.nythc.com',
 } as const;
\ No newline at end of file
@@ -0,0 +1,32 @@
+// NYTHC Deep Links
+// Parsing helpers for OAuth redirects back into the app. Links to screens are routed in navigation/linking.
+
+import * as Linking from 'expo-linking';
+
+// Types
+export interface OAuthRedirect {
+  code?: string;
+  state?: string;
+  error?: string;
+}
+
+// Route part of a link, e.g. 'oauth' for nythc://oauth?code=abc&state=xyz
+const getLinkRoute = (url: string) => {
+  const { hostname, path } = Linking.parse(url);
+  return [hostname, path].filter(Boolean).join('/').replace(/\/+$/, '');
+};
+
+const getQueryParam = (url: string, name: string): string | undefined => {
+  const value = Linking.parse(url).queryParams?.[name];
+  return Array.isArray(value) ? value[0] : value ?? undefined;
+};
+
+// Returns the parameters of a nythc://oauth provider redirect, or null for any other link
+export const getOAuthRedirect = (url: string): OAuthRedirect | null => {
+  if (getLinkRoute(url) !== 'oauth') return null;
+  return {
+    code: getQueryParam(url, 'code'),
+    state: getQueryParam(url, 'state'),
+    error: getQueryParam(url, 'error'),
+  };
+};
@@ -0,0 +1,164 @@
+// NYTHC LinkedIn Verification Flow
+// The states of a LinkedIn alumni verification attempt and the only transitions allowed between them.
+// After LinkedIn authorizes, the backend exchanges the code, fetches the profile and matches the education in
+// three calls, and each has its own state.
+
+import { t } from '../i18n';
+import { AlumniMatchDecision, MatchReason } from './alumniMatching';
+
+// Types
+export type LinkedInVerificationStepId = 'connect' | 'verify' | 'complete';
+
+export type LinkedInVerificationStepStatus = 'pending' | 'active' | 'completed' | 'error';
+
+export type LinkedInVerificationState =
+  | { status: 'idle'; interrupted: boolean }
+  | { status: 'authorizing' }
+  | { status: 'exchanging'; resumed: boolean }
+  | { status: 'fetching_profile' }
+  | { status: 'matching' }
+  | { status: 'verified' }
+  | { status: 'manual_review' }
+  | { status: 'failed'; cause: 'not_matched' | 'error'; failedStep: LinkedInVerificationStepId; reasons: MatchReason[] }
+  | { status: 'cancelled' };
+
+export type LinkedInVerificationEvent =
+  | { type: 'CONNECT' }
+  | { type: 'AUTHORIZED' }
+  | { type: 'CANCELLED' }
+  // A saved attempt that already has its code, picked up after a restart
+  | { type: 'RESUME' }
+  | { type: 'INTERRUPTED' }
+  | { type: 'CODE_EXCHANGED' }
+  | { type: 'PROFILE_FETCHED' }
+  | { type: 'DECIDED'; decision: AlumniMatchDecision; reasons: MatchReason[] }
+  | { type: 'ERROR' }
+  | { type: 'RETRY' };
+
+// Constants
+export const initialLinkedInVerificationState: LinkedInVerificationState = { status: 'idle', interrupted: false };
+
+// Attempts start (or resume) from rest, after a cancel, or as a retry of a failure
+export const canStartLinkedInVerification = (state: LinkedInVerificationState) =>
+  state.status === 'idle' || state.status === 'cancelled' || state.status === 'failed';
+
+// Helpers
+const isCheckingWithBackend = (state: LinkedInVerificationState) =>
+  state.status === 'exchanging' || state.status === 'fetching_profile' || state.status === 'matching';
+
+// Reducer
+// Events that don't apply to the current state leave it untouched (the same object is returned)
+export const linkedInVerificationReducer = (
+  state: LinkedInVerificationState,
+  event: LinkedInVerificationEvent
+): LinkedInVerificationState => {
+  switch (event.type) {
+    case 'CONNECT':
+      return canStartLinkedInVerification(state) ? { status: 'authorizing' } : state;
+
+    case 'AUTHORIZED':
+      return state.status === 'authorizing' ? { status: 'exchanging', resumed: false } : state;
+
+    case 'CANCELLED':
+      return state.status === 'authorizing' ? { status: 'cancelled' } : state;
+
+    case 'RESUME':
+      return canStartLinkedInVerification(state) ? { status: 'exchanging', resumed: true } : state;
+
+    case 'INTERRUPTED':
+      return state.status === 'idle' ? { status: 'idle', interrupted: true } : state;
+
+    case 'CODE_EXCHANGED':
+      return state.status === 'exchanging' ? { status: 'fetching_profile' } : state;
+
+    case 'PROFILE_FETCHED':
+      return state.status === 'fetching_profile' ? { status: 'matching' } : state;
+
+    case 'DECIDED':
+      if (state.status !== 'matching') return state;
+      if (event.decision === 'verified') return { status: 'verified' };
+      if (event.decision === 'manual_review') return { status: 'manual_review' };
+      return { status: 'failed', cause: 'not_matched', failedStep: 'verify', reasons: event.reasons };
+
+    case 'ERROR':
+      if (state.status === 'authorizing') {
+        return { status: 'failed', cause: 'error', failedStep: 'connect', reasons: [] };
+      }
+      if (isCheckingWithBackend(state)) {
+        return { status: 'failed', cause: 'error', failedStep: 'verify', reasons: [] };
+      }
+      return state;
+
+    case 'RETRY':
+      return state.status === 'failed' || state.status === 'cancelled' ? initialLinkedInVerificationState : state;
+  }
+};
+
+// Selectors
+export const isLinkedInVerificationBusy = (state: LinkedInVerificationState) =>
+  state.status === 'authorizing' || isCheckingWithBackend(state);
+
+// Status of each of the connect / verify / complete steps shown on screen
+export const getLinkedInVerificationSteps = (
+  state: LinkedInVerificationState
+): Record<LinkedInVerificationStepId, LinkedInVerificationStepStatus> => {
+  switch (state.status) {
+    case 'exchanging':
+    case 'fetching_profile':
+    case 'matching':
+      return { connect: 'completed', verify: 'active', complete: 'pending' };
+    case 'verified':
+    case 'manual_review':
+      return { connect: 'completed', verify: 'completed', complete: 'completed' };
+    case 'failed':
+      return state.failedStep === 'connect'
+        ? { connect: 'error', verify: 'pending', complete: 'pending' }
+        : { connect: 'completed', verify: 'error', complete: 'pending' };
+    default:
+      return { connect: 'active', verify: 'pending', complete: 'pending' };
+  }
+};
+
+// What screen reader users hear on entering each state
+export const getLinkedInVerificationAnnouncement = (state: LinkedInVerificationState): string | undefined => {
+  switch (state.status) {
+    case 'idle':
+      return state.interrupted ? t('linkedInVerification.announcements.interrupted') : undefined;
+    case 'authorizing':
+      return t('linkedInVerification.announcements.authorizing');
+    case 'exchanging':
+      return state.resumed
+        ? t('linkedInVerification.announcements.resuming')
+        : t('linkedInVerification.announcements.exchanging');
+    case 'fetching_profile':
+      return t('linkedInVerification.announcements.fetchingProfile');
+    case 'matching':
+      return t('linkedInVerification.announcements.matching');
+    case 'verified':
+      return t('linkedInVerification.announcements.verified');
+    case 'manual_review':
+      return t('linkedInVerification.announcements.manualReview');
+    case 'failed':
+      return state.cause === 'not_matched'
+        ? t('linkedInVerification.announcements.notMatched')
+        : t('linkedInVerification.announcements.failed');
+    case 'cancelled':
+      return t('linkedInVerification.announcements.cancelled');
+  }
+};
+
+// What the connect button says while an attempt is running
+export const getLinkedInVerificationActionLabel = (state: LinkedInVerificationState): string => {
+  switch (state.status) {
+    case 'authorizing':
+      return t('common.connecting');
+    case 'exchanging':
+      return t('linkedInVerification.progress.exchanging');
+    case 'fetching_profile':
+      return t('linkedInVerification.progress.fetchingProfile');
+    case 'matching':
+      return t('linkedInVerification.progress.matching');
+    default:
+      return t('linkedInVerification.connect.action');
+  }
+};
@@ -0,0 +1,64 @@
+// NYTHC Manual Alumni Verification
+// Document and graduation year rules for alumni who verify with documents instead of LinkedIn.
+
+import { formatNumber, t } from '../i18n';
+import { MANUAL_VERIFICATION } from './constants';
+
+// Types
+export type AlumniDocumentType = 'diploma' | 'transcript' | 'alumni_card';
+
+export interface VerificationDocument {
+  uri: string;
+  name: string;
+  mimeType?: string;
+  size?: number;
+}
+
+// Constants
+export const ALUMNI_DOCUMENT_TYPES: { id: AlumniDocumentType; label: string; description: string }[] = [
+  {
+    id: 'diploma',
+    label: t('manualVerification.documentTypes.diploma.label'),
+    description: t('manualVerification.documentTypes.diploma.description'),
+  },
+  {
+    id: 'transcript',
+    label: t('manualVerification.documentTypes.transcript.label'),
+    description: t('manualVerification.documentTypes.transcript.description'),
+  },
+  {
+    id: 'alumni_card',
+    label: t('manualVerification.documentTypes.alumni_card.label'),
+    description: t('manualVerification.documentTypes.alumni_card.description'),
+  },
+];
+
+// Helpers
+export const getAlumniGraduationYearRange = (now = new Date()) => ({
+  min: MANUAL_VERIFICATION.firstGraduationYear,
+  max: now.getFullYear(),
+});
+
+export const validateAlumniGraduationYear = (value: string, now = new Date()): string | undefined => {
+  if (!value) return t('validation.graduationYearRequired');
+
+  const year = Number(value);
+  const { min, max } = getAlumniGraduationYearRange(now);
+  if (!Number.isInteger(year) || year < min || year > max) {
+    return t('validation.yearOutOfRange', { min, max });
+  }
+  return undefined;
+};
+
+export const validateVerificationDocument = (document: VerificationDocument | null): string | undefined => {
+  if (!document) return t('validation.documentRequired');
+
+  const accepted: readonly string[] = MANUAL_VERIFICATION.acceptedMimeTypes;
+  if (document.mimeType && !accepted.includes(document.mimeType)) {
+    return t('validation.documentType');
+  }
+  if (document.size !== undefined && document.size > MANUAL_VERIFICATION.maxDocumentBytes) {
+    return t('validation.documentTooLarge', { size: formatNumber(MANUAL_VERIFICATION.maxDocumentBytes / (1024 * 1024)) });
+  }
+  return undefined;
+};
@@ -0,0 +1,200 @@
+// NYTHC Onboarding Content
+// The intro slides and account type copy, published as a versioned config document so the event team can change
+// them between releases. Anything in a document the app can't show safely is replaced with the copy bundled here.
+
+import { Ionicons } from '@expo/vector-icons';
+import { Language, language, t } from '../i18n';
+import { UserRole } from '../types/navigation';
+
+// Types
+export type SlideVisual = 'events-mockup' | 'community-mockup' | 'mobile-mockup' | 'map-mockup';
+
+export interface OnboardingSlideContent {
+  id: string;
+  // The intro version (INTRO_VERSION) the slide first appeared in
+  introducedIn: number;
+  icon: keyof typeof Ionicons.glyphMap;
+  title: string;
+  description: string;
+  // Left out when the document names a visual this version of the app can't draw
+  visual?: SlideVisual;
+}
+
+// Copy only: which roles exist, and their icons and colors, stay in the app
+export interface RoleContent {
+  title: string;
+  badge: string;
+  description: string;
+  features: string[];
+}
+
+export interface OnboardingContent {
+  schemaVersion: number;
+  // Goes up with every published change, so a newer cached copy is never replaced by an older one
+  revision: number;
+  language: Language;
+  slides: OnboardingSlideContent[];
+  roles: Record<UserRole, RoleContent>;
+}
+
+// Constants
+// Bump when the document changes shape in a way older apps can't read; they keep their bundled copy instead
+export const ONBOARDING_CONTENT_SCHEMA_VERSION = 1;
+
+const SLIDE_VISUALS: SlideVisual[] = ['events-mockup', 'community-mockup', 'mobile-mockup', 'map-mockup'];
+
+const ROLES: UserRole[] = ['alumni', 'student', 'guest'];
+
+// Longer text than this would overflow the slides and role cards
+const MAX_TITLE_LENGTH = 60;
+const MAX_TEXT_LENGTH = 300;
+const MAX_FEATURES = 8;
+
+export const BUNDLED_ONBOARDING_CONTENT: OnboardingContent = {
+  schemaVersion: ONBOARDING_CONTENT_SCHEMA_VERSION,
+  revision: 0,
+  language,
+  slides: [
+    {
+      id: 'events',
+      introducedIn: 1,
+      icon: 'calendar',
+      title: t('welcome.slides.events.title'),
+      description: t('welcome.slides.events.description'),
+      visual: 'events-mockup',
+    },
+    {
+      id: 'community',
+      introducedIn: 1,
+      icon: 'shield-checkmark',
+      title: t('welcome.slides.community.title'),
+      description: t('welcome.slides.community.description'),
+      visual: 'community-mockup',
+    },
+    {
+      id: 'digital',
+      introducedIn: 1,
+      icon: 'phone-portrait',
+      title: t('welcome.slides.digital.title'),
+      description: t('welcome.slides.digital.description'),
+      visual: 'mobile-mockup',
+    },
+    {
+      id: 'local',
+      introducedIn: 1,
+      icon: 'map',
+      title: t('welcome.slides.local.title'),
+      description: t('welcome.slides.local.description'),
+      visual: 'map-mockup',
+    },
+  ],
+  roles: {
+    alumni: {
+      title: t('roles.alumni.title'),
+      badge: t('roles.alumni.badge'),
+      description: t('roles.alumni.description'),
+      features: [
+        t('roles.alumni.features.events'),
+        t('roles.alumni.features.chat'),
+        t('roles.alumni.features.ticketing'),
+        t('roles.alumni.features.networking'),
+      ],
+    },
+    student: {
+      title: t('roles.student.title'),
+      badge: t('roles.student.badge'),
+      description: t('roles.student.description'),
+      features: [
+        t('roles.student.features.events'),
+        t('roles.student.features.groups'),
+        t('roles.student.features.pricing'),
+        t('roles.student.features.classYear'),
+      ],
+    },
+    guest: {
+      title: t('roles.guest.title'),
+      badge: t('roles.guest.badge'),
+      description: t('roles.guest.description'),
+      features: [
+        t('roles.guest.features.publicEvents'),
+        t('roles.guest.features.guides'),
+        t('roles.guest.features.info'),
+        t('roles.guest.features.upgrade'),
+      ],
+    },
+  },
+};
+
+// Helpers
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown, maxLength: number): value is string =>
+  typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+
+const isIcon = (value: unknown): value is OnboardingSlideContent['icon'] =>
+  typeof value === 'string' && value in Ionicons.glyphMap;
+
+const isSlideVisual = (value: unknown): value is SlideVisual =>
+  SLIDE_VISUALS.includes(value as SlideVisual);
+
+const parseSlide = (value: unknown): OnboardingSlideContent | null => {
+  if (!isRecord(value)) return null;
+  const { id, introducedIn, icon, title, description, visual } = value;
+
+  if (!isText(id, MAX_TITLE_LENGTH)) return null;
+  if (typeof introducedIn !== 'number' || !Number.isInteger(introducedIn) || introducedIn < 1) return null;
+  if (!isIcon(icon) || !isText(title, MAX_TITLE_LENGTH) || !isText(description, MAX_TEXT_LENGTH)) return null;
+
+  return { id, introducedIn, icon, title, description, visual: isSlideVisual(visual) ? visual : undefined };
+};
+
+const parseRole = (value: unknown): RoleContent | null => {
+  if (!isRecord(value)) return null;
+  const { title, badge, description, features } = value;
+
+  if (!isText(title, MAX_TITLE_LENGTH) || !isText(badge, MAX_TITLE_LENGTH) || !isText(description, MAX_TEXT_LENGTH)) {
+    return null;
+  }
+  if (!Array.isArray(features) || features.length === 0 || features.length > MAX_FEATURES) return null;
+  if (!features.every((feature) => isText(feature, MAX_TITLE_LENGTH))) return null;
+
+  return { title, badge, description, features };
+};
+
+// Validation
+// Returns null for a document the app can't use at all: another schema version, another language, or not a document.
+// Otherwise each slide and role is checked on its own, so one bad entry only falls back to bundled copy for that entry.
+export const parseOnboardingContent = (value: unknown): OnboardingContent | null => {
+  if (!isRecord(value)) return null;
+  if (value.schemaVersion !== ONBOARDING_CONTENT_SCHEMA_VERSION) return null;
+  if (typeof value.revision !== 'number' || !Number.isInteger(value.revision) || value.revision < 0) return null;
+  if (value.language !== language) return null;
+
+  const slideIds = new Set<string>();
+  const slides = (Array.isArray(value.slides) ? value.slides : [])
+    .map(parseSlide)
+    .filter((slide): slide is OnboardingSlideContent => {
+      if (!slide || slideIds.has(slide.id)) return false;
+      slideIds.add(slide.id);
+      return true;
+    });
+
+  const roleValues = isRecord(value.roles) ? value.roles : {};
+  const roles = Object.fromEntries(
+    ROLES.map((role) => [role, parseRole(roleValues[role]) ?? BUNDLED_ONBOARDING_CONTENT.roles[role]])
+  ) as Record<UserRole, RoleContent>;
+
+  if (__DEV__ && (!Array.isArray(value.slides) || slides.length < value.slides.length)) {
+    console.warn(`Onboarding content revision ${value.revision} has slides that can't be shown`);
+  }
+
+  return {
+    schemaVersion: ONBOARDING_CONTENT_SCHEMA_VERSION,
+    revision: value.revision,
+    language,
+    // The carousel needs at least one slide
+    slides: slides.length > 0 ? slides : BUNDLED_ONBOARDING_CONTENT.slides,
+    roles,
+  };
+};
@@ -0,0 +1,42 @@
+// NYTHC Student Verification
+// Campus email and graduation year rules for confirming current NSU enrollment.
+
+import { t } from '../i18n';
+import { STUDENT_VERIFICATION } from './constants';
+import { validateEmail } from './validation';
+
+export const getEmailDomain = (email: string) => email.trim().toLowerCase().split('@').pop() ?? '';
+
+// Accepts the configured domains and any of their subdomains, e.g. spartans.nsu.edu for nsu.edu
+export const isCampusEmail = (
+  email: string,
+  allowedDomains: readonly string[] = STUDENT_VERIFICATION.allowedDomains
+) => {
+  const domain = getEmailDomain(email);
+  return allowedDomains.some(allowed => domain === allowed || domain.endsWith(`.${allowed}`));
+};
+
+export const validateCampusEmail = (email: string): string | undefined => {
+  const emailError = validateEmail(email);
+  if (emailError) return emailError;
+  if (!isCampusEmail(email)) {
+    return t('validation.campusEmailDomain', { domain: STUDENT_VERIFICATION.allowedDomains[0] });
+  }
+  return undefined;
+};
+
+export const getGraduationYearRange = (now = new Date()) => {
+  const currentYear = now.getFullYear();
+  return { min: currentYear, max: currentYear + STUDENT_VERIFICATION.maxYearsUntilGraduation };
+};
+
+export const validateExpectedGraduationYear = (value: string, now = new Date()): string | undefined => {
+  if (!value) return t('validation.expectedGraduationYearRequired');
+
+  const year = Number(value);
+  const { min, max } = getGraduationYearRange(now);
+  if (!Number.isInteger(year) || year < min || year > max) {
+    return t('validation.yearOutOfRange', { min, max });
+  }
+  return undefined;
+};
@@ -0,0 +1,30 @@
+// NYTHC Form Validation
+// Credential rules shared by sign-up, password reset and the mock auth server.
+
+import { t } from '../i18n';
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const VERIFICATION_CODE_LENGTH = 6;
+
+export const validateEmail = (email: string): string | undefined => {
+  if (!email) return t('validation.emailRequired');
+  if (!/\S+@\S+\.\S+/.test(email)) return t('validation.emailInvalid');
+  return undefined;
+};
+
+export const validatePassword = (password: string): string | undefined => {
+  if (!password) return t('validation.passwordRequired');
+  if (password.length < PASSWORD_MIN_LENGTH) return t('validation.passwordTooShort', { min: PASSWORD_MIN_LENGTH });
+  if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(password)) {
+    return t('validation.passwordTooWeak');
+  }
+  return undefined;
+};
+
+export const validateVerificationCode = (code: string): string | undefined => {
+  if (!code) return t('validation.codeRequired');
+  if (!new RegExp(`^\\d{${VERIFICATION_CODE_LENGTH}}$`).test(code)) {
+    return t('validation.codeLength', { length: VERIFICATION_CODE_LENGTH });
+  }
+  return undefined;
+};
@@ -0,0 +1,130 @@
+// NYTHC Verification Lifecycle
+// Records how and when a user was verified, and works out whether that verification still holds.
+
+import { t } from '../i18n';
+import {
+  AuthUser,
+  VerificationEventDetail,
+  VerificationMethod,
+  VerificationRecord,
+  VerificationStatus,
+} from '../types/navigation';
+import { VERIFICATION_LIFECYCLE } from './constants';
+
+// Constants
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REVERIFICATION_ATTEMPT_STATUSES: VerificationStatus[] = ['pending', 'in_review', 'needs_info', 'failed'];
+
+export const VERIFICATION_METHOD_LABELS: Record<VerificationMethod, string> = {
+  linkedin: t('verification.methods.linkedin'),
+  email_domain: t('verification.methods.email_domain'),
+  manual_review: t('verification.methods.manual_review'),
+  vouching: t('verification.methods.vouching'),
+};
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  pending: t('verification.statuses.pending'),
+  in_review: t('verification.statuses.in_review'),
+  needs_info: t('verification.statuses.needs_info'),
+  verified: t('verification.statuses.verified'),
+  failed: t('verification.statuses.failed'),
+  expired: t('verification.statuses.expired'),
+  revoked: t('verification.statuses.revoked'),
+};
+
+// Display
+export const formatVerificationEventDetail = (detail: VerificationEventDetail): string => {
+  switch (detail.kind) {
+    case 'vouches_requested':
+      return t('verification.events.vouches_requested', { classYear: detail.classYear });
+    case 'vouch_received':
+      return t('verification.events.vouch_received', { name: detail.voucherName });
+  }
+};
+
+// Record Updates
+// Used by the verification backend (and its mock) whenever a user's verification changes
+export const updateVerificationRecord = (
+  record: VerificationRecord | undefined,
+  status: VerificationStatus,
+  {
+    method,
+    detail,
+    note,
+    now = Date.now(),
+  }: { method?: VerificationMethod; detail?: VerificationEventDetail; note?: string; now?: number } = {}
+): VerificationRecord => {
+  const history = [...(record?.history ?? []), { status, method, at: now, detail, note }];
+
+  if (status === 'verified' && method) {
+    return {
+      status,
+      method,
+      verifiedAt: now,
+      expiresAt: now + VERIFICATION_LIFECYCLE.validityDays[method] * DAY_MS,
+      history,
+    };
+  }
+
+  // A re-verification that fails or is still in progress leaves a verification that hasn't expired in place; only
+  // the attempt is logged, so the user keeps access until it succeeds or the old one runs out
+  if (
+    REVERIFICATION_ATTEMPT_STATUSES.includes(status) &&
+    record?.status === 'verified' &&
+    (record.expiresAt === undefined || record.expiresAt > now)
+  ) {
+    return { ...record, history };
+  }
+
+  if (status === 'revoked') {
+    return { status, method: record?.method, revokedAt: now, revocationReason: note, history };
+  }
+
+  // Attempts in progress keep the previous method on record until they succeed
+  return { status, method: record?.method, history };
+};
+
+// Mirrors the record onto the summary fields the rest of the app reads
+export const withVerificationRecord = (user: AuthUser, verification: VerificationRecord): AuthUser => ({
+  ...user,
+  verification,
+  verificationStatus: verification.status,
+  needsVerification: verification.status !== 'verified',
+});
+
+// Status Checks
+// Verified users whose proof has passed its expiry date are treated as expired until they re-verify
+export const getEffectiveVerificationStatus = (
+  user: AuthUser,
+  now: number = Date.now()
+): VerificationStatus | undefined => {
+  const status = user.verification?.status ?? user.verificationStatus;
+  const expiresAt = user.verification?.expiresAt;
+  if (status === 'verified' && expiresAt !== undefined && expiresAt <= now) return 'expired';
+  return status;
+};
+
+export const isVerificationActive = (user: AuthUser, now: number = Date.now()) =>
+  getEffectiveVerificationStatus(user, now) === 'verified';
+
+export const getDaysUntilExpiry = (user: AuthUser, now: number = Date.now()): number | undefined => {
+  const expiresAt = user.verification?.expiresAt;
+  if (expiresAt === undefined || !isVerificationActive(user, now)) return undefined;
+  return Math.ceil((expiresAt - now) / DAY_MS);
+};
+
+export const isVerificationExpiringSoon = (user: AuthUser, now: number = Date.now()) => {
+  const daysLeft = getDaysUntilExpiry(user, now);
+  return daysLeft !== undefined && daysLeft <= VERIFICATION_LIFECYCLE.reminderDays;
+};
+
+// Guests have nothing to verify, and a pending review has to finish before another attempt, including one made
+// while an earlier verification is still active
+export const canReverify = (user: AuthUser, now: number = Date.now()) => {
+  if (user.role === 'guest') return false;
+  const status = getEffectiveVerificationStatus(user, now);
+  const history = user.verification?.history ?? [];
+  if (status === 'in_review' || history[history.length - 1]?.status === 'in_review') return false;
+  return status !== 'verified' || isVerificationExpiringSoon(user, now);
+};